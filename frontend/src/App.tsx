@@ -9,6 +9,7 @@ import { useWebSocket } from './hooks/useWebSocket';
 import type { WSMessage, Message } from './types/index';
 import { useTasks } from './hooks/useTasks';
 import { SettingsPanel } from './components/SettingsPanel';
+import { KnowledgePanel } from './components/KnowledgePanel';
 import { useTimezone } from './hooks/useTimezone';
 
 
@@ -20,7 +21,15 @@ const setUserId = useAppStore((state) => state.setUserId);
 const setUserProfile = useAppStore((state) => state.setUserProfile);
 const userId = useAppStore((state) => state.userId);
 const addMessage = useAppStore((state) => state.addMessage);
+const setMessages = useAppStore((state) => state.setMessages);
+const replaceMessageId = useAppStore((state) => state.replaceMessageId);
 const setIsTyping = useAppStore((state) => state.setIsTyping);
+const setIsGenerating = useAppStore((state) => state.setIsGenerating);
+const appendStreamingDelta = useAppStore((state) => state.appendStreamingDelta);
+const clearStreamingMessage = useAppStore((state) => state.clearStreamingMessage);
+const setAgentStep = useAppStore((state) => state.setAgentStep);
+const upsertThread = useAppStore((state) => state.upsertThread);
+const setActiveThreadId = useAppStore((state) => state.setActiveThreadId);
 const setPendingConfirmation = useAppStore((state) => state.setPendingConfirmation);
 const setCalendarAuthExpired = useAppStore((state) => state.setCalendarAuthExpired);
 
@@ -73,15 +82,68 @@ useEffect(() => {
         console.log('[App] Connected as user:', wsMessage.payload.userId);
         break;
 
+      case 'chat_response_delta':
+        // Drafts for a thread the user has since left are not shown
+        if (wsMessage.payload.threadId && wsMessage.payload.threadId !== useAppStore.getState().activeThreadId) {
+          break;
+        }
+        appendStreamingDelta(wsMessage.payload.streamId, wsMessage.payload.delta);
+        setIsTyping(false);
+        break;
+
+      case 'agent_step':
+        // Progress of a turn in a thread the user has since left
+        if (wsMessage.payload.threadId && wsMessage.payload.threadId !== useAppStore.getState().activeThreadId) {
+          break;
+        }
+        setAgentStep(wsMessage.payload);
+        // Waiting on tools / the next LLM call: show the indicator again
+        if (['calling_tools', 'repairing', 'thinking'].includes(wsMessage.payload.status)) {
+          clearStreamingMessage();
+          setIsTyping(true);
+        }
+        break;
+
+      case 'thread_updated':
+        upsertThread(wsMessage.payload);
+        // The server picked a thread for us (first message without a threadId)
+        if (!useAppStore.getState().activeThreadId) {
+          setActiveThreadId(wsMessage.payload.id);
+        }
+        break;
+
       case 'chat_response':
         const assistantMessage: Message = {
           id: wsMessage.payload.messageId || crypto.randomUUID(),
           role: 'assistant',
           content: wsMessage.payload.content,
           timestamp: wsMessage.timestamp,
+          threadId: wsMessage.payload.threadId,
+          metadata: {
+            ...(wsMessage.payload.cancelled ? { cancelled: true } : {}),
+            ...(wsMessage.payload.usage ? { usage: wsMessage.payload.usage } : {}),
+            ...(wsMessage.payload.model ? { model: wsMessage.payload.model } : {}),
+            ...(wsMessage.payload.sources ? { sources: wsMessage.payload.sources } : {}),
+          },
         };
-        addMessage(assistantMessage);
+        clearStreamingMessage();
+        setAgentStep(null);
         setIsTyping(false);
+        setIsGenerating(false);
+        // Replies for a thread the user has since left are already saved server-side
+        if (!assistantMessage.threadId || assistantMessage.threadId === useAppStore.getState().activeThreadId) {
+          if (wsMessage.payload.clientMessageId && wsMessage.payload.userMessageId) {
+            replaceMessageId(wsMessage.payload.clientMessageId, wsMessage.payload.userMessageId);
+          }
+          addMessage(assistantMessage);
+        }
+        break;
+
+      case 'branch_switched':
+        // Full branch with the alternatives at each message
+        if (wsMessage.payload.threadId === useAppStore.getState().activeThreadId) {
+          setMessages(wsMessage.payload.messages);
+        }
         break;
 
       case 'confirmation_request':
@@ -95,6 +157,17 @@ useEffect(() => {
         break;
 
       case 'tool_execution_result':
+        // Cards for other threads are saved with their result and shown when the thread is opened
+        if (wsMessage.payload.renderHint &&
+          (!wsMessage.payload.threadId || wsMessage.payload.threadId === useAppStore.getState().activeThreadId)) {
+          addMessage({
+            id: wsMessage.payload.messageId ?? crypto.randomUUID(),
+            role: 'system',
+            content: '',
+            timestamp: wsMessage.timestamp,
+            metadata: { renderHint: wsMessage.payload.renderHint },
+          });
+        }
         if (wsMessage.payload.success &&
           ['createTask', 'updateTask', 'completeTask', 'deleteTask'].includes(wsMessage.payload.toolName)) {
           fetchTasks();
@@ -112,14 +185,17 @@ useEffect(() => {
           content: `Error: ${wsMessage.payload.message}`,
           timestamp: wsMessage.timestamp,
         };
+        clearStreamingMessage();
+        setAgentStep(null);
         addMessage(errorMessage);
         setIsTyping(false);
+        setIsGenerating(false);
         break;
 
       default:
         console.warn('[App] Unknown message type:', wsMessage.type);
     }
-  }, [addMessage, setIsTyping, setPendingConfirmation, fetchTasks, setCalendarAuthExpired]);
+  }, [addMessage, setMessages, replaceMessageId, setIsTyping, setIsGenerating, appendStreamingDelta, clearStreamingMessage, setAgentStep, upsertThread, setActiveThreadId, setPendingConfirmation, fetchTasks, setCalendarAuthExpired]);
 
   // WebSocket with token-based auth
   const { status, sendMessage, isConnected } = useWebSocket(userId, {
@@ -140,6 +216,7 @@ useEffect(() => {
       </div>
       <ConfirmationDialog sendMessage={sendMessage} />
       <SettingsPanel />
+      <KnowledgePanel />
     </div>
   );
 }
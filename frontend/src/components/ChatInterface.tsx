@@ -2,9 +2,11 @@ import { useAppStore } from '../stores/appStore';
 import { ConnectionStatus } from './ConnectionStatus';
 import { MessageList } from './MessageList';
 import { MessageInput } from './MessageInput';
-import type { Message, WSMessageType, ConnectionStatus as ConnectionStatusType } from '../types/index';
-import { useCallback } from 'react';
-import { AlertTriangle, X } from 'lucide-react';
+import { ThreadSidebar } from './ThreadSidebar';
+import { useThreads } from '../hooks/useThreads';
+import type { Message, SourceCitation, WSMessageType, ConnectionStatus as ConnectionStatusType } from '../types/index';
+import { useCallback, useState } from 'react';
+import { AlertTriangle, BookOpen, X } from 'lucide-react';
 
 interface ChatInterfaceProps {
   status: ConnectionStatusType;
@@ -14,13 +16,28 @@ interface ChatInterfaceProps {
 
 export function ChatInterface({ status, sendMessage, isConnected }: ChatInterfaceProps) {
     const messages = useAppStore((state) => state.messages);
+    const streamingMessage = useAppStore((state) => state.streamingMessage);
+    const agentStep = useAppStore((state) => state.agentStep);
     const addMessage = useAppStore((state) => state.addMessage);
+    const setMessages = useAppStore((state) => state.setMessages);
     const isTyping = useAppStore((state) => state.isTyping);
     const setIsTyping = useAppStore((state) => state.setIsTyping);
+    const isGenerating = useAppStore((state) => state.isGenerating);
+    const setIsGenerating = useAppStore((state) => state.setIsGenerating);
+    const clearPendingConfirmation = useAppStore((state) => state.clearPendingConfirmation);
     const isSidebarOpen = useAppStore((state) => state.isSidebarOpen);
     const calendarAuthExpired = useAppStore((state) => state.calendarAuthExpired);
     const setCalendarAuthExpired = useAppStore((state) => state.setCalendarAuthExpired);
     const setIsSettingsOpen = useAppStore((state) => state.setIsSettingsOpen);
+    const setIsKnowledgeOpen = useAppStore((state) => state.setIsKnowledgeOpen);
+    const setSelectedKnowledgeId = useAppStore((state) => state.setSelectedKnowledgeId);
+    const userId = useAppStore((state) => state.userId);
+    const activeThreadId = useAppStore((state) => state.activeThreadId);
+    const searchAllThreads = useAppStore((state) => state.searchAllThreads);
+
+    const threadActions = useThreads(userId);
+    const { selectThread } = threadActions;
+    const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
 
     const handleSendMessage = useCallback((content: string) => {
       if (!isConnected) {
@@ -34,15 +51,86 @@ export function ChatInterface({ status, sendMessage, isConnected }: ChatInterfac
         role: 'user',
         content,
         timestamp: Date.now(),
+        threadId: activeThreadId ?? undefined,
       };
       addMessage(userMessage);
 
-     
-      sendMessage('chat', { content });
+      // Without an active thread the server continues the latest one (or starts a new one)
+      sendMessage('chat', {
+        content,
+        threadId: activeThreadId ?? undefined,
+        searchAllThreads,
+        clientMessageId: userMessage.id,
+      });
+
 
+      setIsTyping(true);
+      setIsGenerating(true);
+    }, [isConnected, sendMessage, addMessage, setIsTyping, setIsGenerating, activeThreadId, searchAllThreads]);
+
+    // Resend an edited message: everything after it is replaced by the new branch
+    const handleEditMessage = useCallback((messageId: string, content: string) => {
+      const index = messages.findIndex((m) => m.id === messageId);
+      if (!isConnected || !activeThreadId || index === -1) return;
+
+      const userMessage: Message = {
+        id: crypto.randomUUID(),
+        role: 'user',
+        content,
+        timestamp: Date.now(),
+        threadId: activeThreadId,
+      };
+      setMessages([...messages.slice(0, index), userMessage]);
 
+      sendMessage('edit_message', {
+        threadId: activeThreadId,
+        messageId,
+        content,
+        searchAllThreads,
+        clientMessageId: userMessage.id,
+      });
       setIsTyping(true);
-    }, [isConnected, sendMessage, addMessage, setIsTyping]);
+      setIsGenerating(true);
+    }, [isConnected, activeThreadId, messages, setMessages, sendMessage, searchAllThreads, setIsTyping, setIsGenerating]);
+
+    // Ask for another reply to the user message before this one
+    const handleRegenerate = useCallback((messageId: string) => {
+      const index = messages.findIndex((m) => m.id === messageId);
+      if (!isConnected || !activeThreadId || index === -1) return;
+
+      const userIndex = messages.slice(0, index).map((m) => m.role).lastIndexOf('user');
+      setMessages(messages.slice(0, userIndex + 1));
+
+      sendMessage('regenerate', { threadId: activeThreadId, messageId, searchAllThreads });
+      setIsTyping(true);
+      setIsGenerating(true);
+    }, [isConnected, activeThreadId, messages, setMessages, sendMessage, searchAllThreads, setIsTyping, setIsGenerating]);
+
+    // The server answers with the newest branch below the chosen alternative
+    const handleSwitchBranch = useCallback((messageId: string) => {
+      if (!isConnected || !activeThreadId) return;
+      sendMessage('switch_branch', { threadId: activeThreadId, messageId });
+    }, [isConnected, activeThreadId, sendMessage]);
+
+    // A cited note opens in the knowledge panel; a cited message is shown in its thread
+    const handleOpenSource = useCallback(async (source: SourceCitation) => {
+      if (source.type === 'knowledge') {
+        setSelectedKnowledgeId(source.id);
+        setIsKnowledgeOpen(true);
+        return;
+      }
+      if (source.threadId && source.threadId !== activeThreadId) {
+        await selectThread(source.threadId);
+      }
+      // A summary stands for the whole thread, so there's no message to scroll to
+      setFocusedMessageId(source.type === 'summary' ? null : source.id);
+    }, [activeThreadId, selectThread, setSelectedKnowledgeId, setIsKnowledgeOpen]);
+
+    // The server aborts the turn and answers with a cancelled chat_response
+    const handleStop = useCallback(() => {
+      sendMessage('cancel', {});
+      clearPendingConfirmation();
+    }, [sendMessage, clearPendingConfirmation]);
 
     return (
     <div className={`flex flex-col h-screen bg-transparent transition-all duration-300 ${
@@ -58,7 +146,14 @@ export function ChatInterface({ status, sendMessage, isConnected }: ChatInterfac
               Powered by Cloudflare Workers AI
             </p>
           </div>
-          <div className="mr-12 animate-fade-in delay-200">
+          <div className="mr-12 flex items-center gap-3 animate-fade-in delay-200">
+            <button
+              onClick={() => setIsKnowledgeOpen(true)}
+              className="flex items-center gap-2 rounded-xl border border-cream-200 px-3 py-2 text-sm font-medium text-navy-700 transition-all duration-200 hover:bg-cream-100"
+            >
+              <BookOpen className="h-4 w-4" />
+              Knowledge
+            </button>
             <ConnectionStatus status={status} />
           </div>
         </div>
@@ -87,19 +182,39 @@ export function ChatInterface({ status, sendMessage, isConnected }: ChatInterfac
         </div>
       )}
 
-      {/* Messages */}
-      <MessageList messages={messages} isTyping={isTyping} />
-
-      {/* Input */}
-      <MessageInput
-        onSendMessage={handleSendMessage}
-        disabled={!isConnected}
-        placeholder={
-          isConnected
-            ? "Type a message..."
-            : "Connecting to server..."
-        }
-      />
+      <div className="flex flex-1 min-h-0">
+        {/* Threads */}
+        <ThreadSidebar actions={threadActions} />
+
+        <div className="flex flex-1 flex-col min-w-0">
+          {/* Messages */}
+          <MessageList
+            messages={messages}
+            streamingMessage={streamingMessage}
+            agentStep={agentStep}
+            isTyping={isTyping}
+            onEditMessage={handleEditMessage}
+            onRegenerate={handleRegenerate}
+            onSwitchBranch={handleSwitchBranch}
+            onOpenSource={handleOpenSource}
+            focusedMessageId={focusedMessageId}
+            actionsDisabled={isGenerating || !isConnected || !activeThreadId}
+          />
+
+          {/* Input */}
+          <MessageInput
+            onSendMessage={handleSendMessage}
+            onStop={handleStop}
+            isGenerating={isGenerating && isConnected}
+            disabled={!isConnected}
+            placeholder={
+              isConnected
+                ? "Type a message..."
+                : "Connecting to server..."
+            }
+          />
+        </div>
+      </div>
     </div>
   );
   }
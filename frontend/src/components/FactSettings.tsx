@@ -0,0 +1,48 @@
+import { Brain, Loader2, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { useFacts } from '../hooks/useFacts';
+
+export function FactSettings() {
+    const { facts, isLoading, error, deleteFact } = useFacts();
+
+    return (
+        <div className="space-y-4 mt-6 pt-6 border-t border-cream-200">
+            <h4 className="text-sm font-semibold text-navy-700 uppercase tracking-wider flex items-center gap-2">
+                <Brain className="w-4 h-4" />
+                Remembered facts
+            </h4>
+
+            {error && (
+                <p className="text-xs text-red-600 font-medium">{error}</p>
+            )}
+
+            {isLoading ? (
+                <Loader2 className="w-4 h-4 animate-spin text-navy-400" />
+            ) : facts.length === 0 ? (
+                <p className="text-xs text-navy-500">Nothing remembered yet.</p>
+            ) : (
+                <ul className="space-y-1">
+                    {facts.map((fact) => (
+                        <li key={fact.id} className="group flex items-start gap-2 rounded-lg px-2 py-1.5 text-sm text-navy-800 hover:bg-cream-100">
+                            <span className="min-w-0 flex-1 break-words">{fact.content}</span>
+                            <span className="shrink-0 text-xs text-navy-400">{format(fact.updatedAt, 'MMM d')}</span>
+                            <button
+                                onClick={() => deleteFact(fact.id)}
+                                className="shrink-0 rounded p-0.5 text-navy-400 hover:text-red-600"
+                                aria-label={`Forget "${fact.content}"`}
+                                title="Forget"
+                            >
+                                <Trash2 className="w-3.5 h-3.5" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <p className="text-xs text-navy-500 leading-relaxed">
+                Say "remember that..." in the chat to add a fact. Remembered facts are given to the assistant
+                in every conversation.
+            </p>
+        </div>
+    );
+}
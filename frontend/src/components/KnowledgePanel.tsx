@@ -0,0 +1,245 @@
+import { useState } from 'react';
+import { BookOpen, FileText, Loader2, Plus, Trash2, Upload, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { useAppStore } from '../stores/appStore';
+import { useKnowledge } from '../hooks/useKnowledge';
+import type { KnowledgeDocument, KnowledgeEntry, KnowledgeEntryInput } from '../types/index';
+
+const DOCUMENT_ACCEPT = '.md,.markdown,.txt,.html,.htm,.pdf';
+
+function describeDocument(document: KnowledgeDocument): string {
+    if (document.status === 'failed') return document.error || 'Failed';
+    if (document.status === 'processing') {
+        return document.chunkCount > 0 ? `Indexing ${document.indexedCount}/${document.chunkCount}` : 'Reading…';
+    }
+    return `${document.chunkCount} chunk${document.chunkCount === 1 ? '' : 's'}`;
+}
+
+interface EntryFormProps {
+    entry: KnowledgeEntry | null;   // null while writing a new entry
+    isSaving: boolean;
+    onSave: (input: KnowledgeEntryInput) => Promise<boolean>;
+    onDelete?: () => void;
+}
+
+function EntryForm({ entry, isSaving, onSave, onDelete }: EntryFormProps) {
+    const [title, setTitle] = useState(entry?.title ?? '');
+    const [content, setContent] = useState(entry?.content ?? '');
+
+    const inputClass = 'w-full rounded-lg border border-cream-200 bg-white px-3 py-1.5 text-sm text-navy-900 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+    const labelClass = 'block text-xs font-medium text-navy-600 mb-1';
+
+    const handleSave = () => onSave({
+        ...(title.trim() && { title: title.trim() }),
+        content: content.trim(),
+    });
+
+    return (
+        <div className="flex h-full flex-col gap-3">
+            <div>
+                <label className={labelClass}>Title</label>
+                <input
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    placeholder="e.g. Office wifi"
+                    maxLength={200}
+                    className={inputClass}
+                />
+            </div>
+            <div className="flex min-h-0 flex-1 flex-col">
+                <label className={labelClass}>Content</label>
+                <textarea
+                    value={content}
+                    onChange={(e) => setContent(e.target.value)}
+                    placeholder="Notes, reference material or anything the assistant should be able to look up"
+                    maxLength={20000}
+                    className={`${inputClass} min-h-48 flex-1 resize-none`}
+                />
+            </div>
+
+            <div className="flex gap-2">
+                <button
+                    onClick={handleSave}
+                    disabled={isSaving || !content.trim()}
+                    className="flex-1 flex items-center justify-center gap-2 px-4 py-2 text-sm bg-gradient-to-br from-indigo-500 to-indigo-600 text-white hover:from-indigo-600 hover:to-indigo-700 rounded-xl transition-all duration-200 font-semibold disabled:opacity-60"
+                >
+                    {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                    {entry ? 'Save' : 'Add to knowledge base'}
+                </button>
+                {onDelete && (
+                    <button
+                        onClick={onDelete}
+                        disabled={isSaving}
+                        className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50 border border-red-200 rounded-xl transition-all duration-200 disabled:opacity-60"
+                    >
+                        <Trash2 className="w-4 h-4" />
+                        Delete
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export function KnowledgePanel() {
+    const isOpen = useAppStore((state) => state.isKnowledgeOpen);
+    const setIsOpen = useAppStore((state) => state.setIsKnowledgeOpen);
+    const {
+        entries, documents, isLoading, isSaving, error,
+        createEntry, updateEntry, deleteEntry, uploadDocument, deleteDocument,
+    } = useKnowledge(isOpen);
+    const selectedId = useAppStore((state) => state.selectedKnowledgeId);
+    const setSelectedId = useAppStore((state) => state.setSelectedKnowledgeId);
+
+    if (!isOpen) {
+        return null;
+    }
+
+    const selected = entries.find((entry) => entry.id === selectedId) ?? null;
+
+    const handleSave = async (input: KnowledgeEntryInput) => {
+        if (selected) {
+            return updateEntry(selected.id, input);
+        }
+        const saved = await createEntry(input);
+        if (saved) setSelectedId(null);
+        return saved;
+    };
+
+    const handleDelete = async () => {
+        if (!selected || !window.confirm(`Delete "${selected.title || 'this entry'}"?`)) return;
+        if (await deleteEntry(selected.id)) setSelectedId(null);
+    };
+
+    const handleUpload = (e: { target: HTMLInputElement }) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';  // Allow picking the same file again
+        if (file) uploadDocument(file);
+    };
+
+    const handleDeleteDocument = (document: KnowledgeDocument) => {
+        if (window.confirm(`Delete "${document.filename}" and everything learned from it?`)) {
+            deleteDocument(document.id);
+        }
+    };
+
+    return (
+        <>
+            {/* Backdrop */}
+            <div className="fixed inset-0 bg-black/30 z-40" onClick={() => setIsOpen(false)} />
+
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-6 pointer-events-none">
+                <div className="pointer-events-auto flex h-[80vh] w-full max-w-4xl flex-col card-elevated border border-cream-200 p-6 animate-slide-up">
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className="text-xl font-semibold text-navy-900 tracking-tight flex items-center gap-2">
+                            <BookOpen className="w-5 h-5" />
+                            Knowledge base
+                        </h3>
+                        <button
+                            onClick={() => setIsOpen(false)}
+                            className="text-navy-400 hover:text-navy-700 hover:bg-cream-100 p-2 rounded-lg transition-all duration-200"
+                            aria-label="Close knowledge base"
+                        >
+                            <X className="w-5 h-5" />
+                        </button>
+                    </div>
+
+                    {error && (
+                        <p className="mb-3 text-xs text-red-600 font-medium">{error}</p>
+                    )}
+
+                    <div className="flex min-h-0 flex-1 gap-6">
+                        {/* Documents and notes */}
+                        <div className="flex w-72 shrink-0 flex-col">
+                            <div className="mb-3 flex gap-2">
+                                <button
+                                    onClick={() => setSelectedId(null)}
+                                    className="flex flex-1 items-center justify-center gap-2 rounded-xl border border-cream-200 px-3 py-2 text-sm font-medium text-navy-700 hover:bg-cream-100"
+                                >
+                                    <Plus className="w-4 h-4" />
+                                    New entry
+                                </button>
+                                <label className={`flex flex-1 items-center justify-center gap-2 rounded-xl border border-cream-200 px-3 py-2 text-sm font-medium text-navy-700 hover:bg-cream-100 ${
+                                    isSaving ? 'pointer-events-none opacity-60' : 'cursor-pointer'
+                                }`}>
+                                    <Upload className="w-4 h-4" />
+                                    Upload
+                                    <input type="file" accept={DOCUMENT_ACCEPT} onChange={handleUpload} className="hidden" />
+                                </label>
+                            </div>
+
+                            {documents.length > 0 && (
+                                <ul className="mb-3 max-h-48 space-y-1 overflow-y-auto border-b border-cream-200 pb-3">
+                                    {documents.map((document) => (
+                                        <li key={document.id} className="flex items-center gap-2 rounded-lg px-3 py-2 text-navy-700 hover:bg-cream-100">
+                                            <FileText className="w-4 h-4 shrink-0 text-navy-400" />
+                                            <div className="min-w-0 flex-1">
+                                                <p className="truncate text-sm font-medium" title={document.filename}>{document.filename}</p>
+                                                <p className={`truncate text-xs ${document.status === 'failed' ? 'text-red-600' : 'opacity-70'}`} title={describeDocument(document)}>
+                                                    {document.status === 'processing' && <Loader2 className="mr-1 inline w-3 h-3 animate-spin" />}
+                                                    {describeDocument(document)}
+                                                </p>
+                                            </div>
+                                            <button
+                                                onClick={() => handleDeleteDocument(document)}
+                                                disabled={isSaving}
+                                                className="shrink-0 p-1 text-navy-400 hover:text-red-600 disabled:opacity-60"
+                                                aria-label={`Delete ${document.filename}`}
+                                            >
+                                                <Trash2 className="w-3.5 h-3.5" />
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+
+                            <ul className="min-h-0 flex-1 space-y-1 overflow-y-auto">
+                                {isLoading && (
+                                    <li className="flex justify-center py-4 text-navy-400">
+                                        <Loader2 className="w-4 h-4 animate-spin" />
+                                    </li>
+                                )}
+                                {!isLoading && entries.length === 0 && (
+                                    <li className="px-2 py-4 text-xs text-navy-500">No notes yet.</li>
+                                )}
+                                {entries.map((entry) => (
+                                    <li key={entry.id}>
+                                        <button
+                                            onClick={() => setSelectedId(entry.id)}
+                                            className={`w-full rounded-lg px-3 py-2 text-left transition-colors ${
+                                                entry.id === selectedId ? 'bg-indigo-50 text-indigo-900' : 'text-navy-700 hover:bg-cream-100'
+                                            }`}
+                                        >
+                                            <p className="truncate text-sm font-medium">{entry.title || entry.content}</p>
+                                            <p className="text-xs opacity-70">
+                                                {format(entry.updatedAt, 'MMM d, HH:mm')}
+                                                {!entry.indexed && ' · not searchable yet'}
+                                            </p>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+
+                        {/* Editor; remount per entry so the form starts from it */}
+                        <div className="min-w-0 flex-1">
+                            <EntryForm
+                                key={selected ? `${selected.id}:${selected.updatedAt}` : 'new'}
+                                entry={selected}
+                                isSaving={isSaving}
+                                onSave={handleSave}
+                                onDelete={selected ? handleDelete : undefined}
+                            />
+                        </div>
+                    </div>
+
+                    <p className="mt-4 text-xs text-navy-500 leading-relaxed">
+                        The assistant looks up relevant entries and document sections when answering. Upload Markdown,
+                        text, HTML or PDF files up to 10 MB. Entries marked "not searchable yet" couldn't be indexed and
+                        won't be used until they are saved again.
+                    </p>
+                </div>
+            </div>
+        </>
+    );
+}
@@ -1,15 +1,19 @@
 import { useState } from 'react';
 import type { KeyboardEvent } from 'react';
-import { Send } from 'lucide-react';
+import { Send, Square } from 'lucide-react';
 
 interface MessageInputProps {
 onSendMessage: (content: string) => void;
+onStop?: () => void;
+isGenerating?: boolean;
 disabled?: boolean;
 placeholder?: string;
 }
 
 export function MessageInput({ 
 onSendMessage, 
+onStop,
+isGenerating = false,
 disabled = false,
 placeholder = "Type a message..." 
 }: MessageInputProps) {
@@ -17,7 +21,7 @@ const [input, setInput] = useState('');
 
 const handleSend = () => {
     const trimmed = input.trim();
-    if (trimmed && !disabled) {
+    if (trimmed && !disabled && !isGenerating) {
     onSendMessage(trimmed);
     setInput('');
     }
@@ -45,6 +49,15 @@ return (
 disabled:cursor-not-allowed"
         style={{ minHeight: '40px', maxHeight: '120px' }}
         />
+        {isGenerating && onStop ? (
+        <button
+        onClick={onStop}
+        title="Stop generating"
+        className="flex items-center justify-center rounded-lg bg-red-500 px-4 py-2 text-white hover:bg-red-600 transition-colors"
+        >
+        <Square className="h-5 w-5 fill-current" />
+        </button>
+        ) : (
         <button
         onClick={handleSend}
         disabled={disabled || !input.trim()}
@@ -53,6 +66,7 @@ disabled:cursor-not-allowed transition-colors"
         >
         <Send className="h-5 w-5" />
         </button>
+        )}
     </div>
     </div>
 );
@@ -1,26 +1,217 @@
-import { useEffect, useRef } from 'react';
-import type { Message } from '../types/index';
+import { useEffect, useRef, useState } from 'react';
+import { BookOpen, Brain, Calendar, CheckSquare, ChevronDown, ChevronLeft, ChevronRight, CloudSun, ExternalLink, History, ListTodo, Mail, MessageSquare, Pencil, RefreshCw, Wrench } from 'lucide-react';
+import type { AgentStepPayload, BranchInfo, Message, SourceCitation, TokenUsage, ToolRenderHint } from '../types/index';
 import { ROLE_COLORS } from '../types/index';
 import { format } from 'date-fns';
 
 interface MessageListProps {
 messages: Message[];
+streamingMessage?: Message | null;
+agentStep?: AgentStepPayload | null;
 isTyping?: boolean;
+onEditMessage?: (messageId: string, content: string) => void;
+onRegenerate?: (messageId: string) => void;
+onSwitchBranch?: (messageId: string) => void;
+onOpenSource?: (source: SourceCitation) => void;
+focusedMessageId?: string | null;  // Scrolled to and highlighted (e.g. opened from a citation)
+actionsDisabled?: boolean;
 }
 
-export function MessageList({ messages, isTyping = false }: MessageListProps) {
+// Short progress label for a step of the agent's tool loop
+function describeAgentStep(step: AgentStepPayload): string {
+    const prefix = `Step ${step.iteration}/${step.maxIterations}`;
+    switch (step.status) {
+        case 'calling_tools':
+            return `${prefix} · running ${step.tools?.join(', ') ?? 'tools'}`;
+        case 'repairing':
+            return `${prefix} · fixing ${step.tools?.join(', ') ?? 'tool'} parameters`;
+        case 'thinking':
+            return `${prefix} · reviewing results`;
+        case 'limit_reached':
+            return step.reason === 'token_budget' ? 'Stopped: processing budget reached' : 'Stopped: step limit reached';
+        case 'done':
+        default:
+            return `Finished after ${step.iteration} step${step.iteration === 1 ? '' : 's'}`;
+    }
+}
+
+// Token counts (and the model that answered) shown under an assistant reply ("~" when estimated)
+function describeUsage(usage: TokenUsage, model?: string): string {
+    const approx = usage.exact ? '' : '~';
+    const tokens = `${approx}${usage.promptTokens} prompt · ${approx}${usage.completionTokens} completion tokens`;
+    return model ? `${tokens} · ${model}` : tokens;
+}
+
+const TOOL_CARD_ICONS: Record<string, typeof Wrench> = {
+    task: CheckSquare,
+    taskList: ListTodo,
+    weather: CloudSun,
+    email: Mail,
+    calendar: Calendar,
+    fact: Brain,
+    factList: Brain,
+};
+
+// Card for a tool result, from the tool's renderHint
+function ToolResultCard({ hint }: { hint: ToolRenderHint }) {
+    const Icon = TOOL_CARD_ICONS[hint.kind] ?? Wrench;
+
+    return (
+        <div className="max-w-[70%] rounded-lg border border-gray-200 bg-white px-3 py-2 text-gray-900 shadow-sm">
+            <div className="flex items-start gap-2">
+                <Icon className="mt-0.5 w-4 h-4 shrink-0 text-indigo-600" />
+                <div className="min-w-0">
+                    <p className="text-sm font-medium break-words">{hint.title}</p>
+                    {hint.subtitle && <p className="text-xs text-gray-500">{hint.subtitle}</p>}
+                </div>
+            </div>
+            {hint.items && hint.items.length > 0 && (
+                <ul className="mt-1 ml-6 space-y-0.5 text-xs text-gray-700">
+                    {hint.items.map((item, i) => (
+                        <li key={i} className="break-words">{item}</li>
+                    ))}
+                </ul>
+            )}
+            {hint.link && (
+                <a
+                    href={hint.link.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="mt-1 ml-6 inline-flex items-center gap-1 text-xs text-indigo-600 hover:underline"
+                >
+                    {hint.link.label}
+                    <ExternalLink className="w-3 h-3" />
+                </a>
+            )}
+        </div>
+    );
+}
+
+interface SourceListProps {
+    sources: SourceCitation[];
+    onOpen?: (source: SourceCitation) => void;
+}
+
+// "Sources (2)" under a reply; expands to the cited messages and notes
+const SOURCE_LABELS: Record<SourceCitation['type'], { icon: typeof BookOpen; label: string }> = {
+    conversation: { icon: MessageSquare, label: 'Conversation' },
+    summary: { icon: History, label: 'Conversation summary' },
+    knowledge: { icon: BookOpen, label: 'Knowledge base' },
+};
+
+function SourceList({ sources, onOpen }: SourceListProps) {
+    const [expanded, setExpanded] = useState(false);
+
+    return (
+        <div className="mt-2 border-t border-black/10 pt-1">
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className="flex items-center gap-1 text-[11px] font-medium opacity-70 hover:opacity-100"
+                aria-expanded={expanded}
+            >
+                <ChevronDown className={`w-3 h-3 transition-transform ${expanded ? '' : '-rotate-90'}`} />
+                Sources ({sources.length})
+            </button>
+            {expanded && (
+                <ul className="mt-1 space-y-1">
+                    {sources.map((source) => {
+                        const { icon: Icon, label } = SOURCE_LABELS[source.type];
+                        return (
+                            <li key={source.ref}>
+                                <button
+                                    onClick={() => onOpen?.(source)}
+                                    disabled={!onOpen}
+                                    className="w-full rounded px-1.5 py-1 text-left text-xs hover:bg-black/5 disabled:hover:bg-transparent"
+                                >
+                                    <span className="flex items-center gap-1 font-medium">
+                                        [{source.ref}]
+                                        <Icon className="w-3 h-3 text-indigo-600" />
+                                        {label}
+                                        <span className="font-normal opacity-60">· {format(source.timestamp, 'd MMM yyyy')}</span>
+                                    </span>
+                                    <span className="block line-clamp-2 break-words opacity-80">{source.snippet}</span>
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+}
+
+interface BranchSwitcherProps {
+    branch: BranchInfo;
+    disabled: boolean;
+    onSwitch: (messageId: string) => void;
+}
+
+// "< 2/3 >" between the alternatives at this point of the conversation
+function BranchSwitcher({ branch, disabled, onSwitch }: BranchSwitcherProps) {
+    const { siblingIds, index } = branch;
+    const buttonClass = 'rounded p-0.5 hover:bg-black/10 disabled:opacity-40 disabled:hover:bg-transparent';
+
+    return (
+        <span className="flex items-center gap-0.5 text-[10px] opacity-70">
+            <button
+                onClick={() => onSwitch(siblingIds[index - 1])}
+                disabled={disabled || index === 0}
+                className={buttonClass}
+                aria-label="Previous version"
+            >
+                <ChevronLeft className="w-3 h-3" />
+            </button>
+            {index + 1}/{siblingIds.length}
+            <button
+                onClick={() => onSwitch(siblingIds[index + 1])}
+                disabled={disabled || index === siblingIds.length - 1}
+                className={buttonClass}
+                aria-label="Next version"
+            >
+                <ChevronRight className="w-3 h-3" />
+            </button>
+        </span>
+    );
+}
+
+export function MessageList({
+    messages,
+    streamingMessage = null,
+    agentStep = null,
+    isTyping = false,
+    onEditMessage,
+    onRegenerate,
+    onSwitchBranch,
+    onOpenSource,
+    focusedMessageId = null,
+    actionsDisabled = false,
+}: MessageListProps) {
 const messagesEndRef = useRef<HTMLDivElement>(null);
+const [editing, setEditing] = useState<{ id: string; draft: string } | null>(null);
 
-// Auto-scroll to bottom when new messages arrive
+const submitEdit = () => {
+    if (!editing || !editing.draft.trim()) return;
+    onEditMessage?.(editing.id, editing.draft.trim());
+    setEditing(null);
+};
+
+// Auto-scroll to bottom when new messages (or streamed tokens) arrive
 useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-}, [messages, isTyping]);
+}, [messages, streamingMessage, agentStep, isTyping]);
+
+useEffect(() => {
+    if (focusedMessageId) {
+        document.getElementById(`message-${focusedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+}, [focusedMessageId]);
 
-const visibleMessages = messages.filter((msg) => msg.role !== 'system');
+// Tool results are system messages; only those with a card are shown
+const visibleMessages = messages.filter((msg) => msg.role !== 'system' || msg.metadata?.renderHint);
 
 return (
     <div className="flex-1 overflow-y-auto p-4 space-y-4">
-    {visibleMessages.length === 0 ? (
+    {visibleMessages.length === 0 && !streamingMessage ? (
         <div className="flex items-center justify-center h-full text-gray-400">
         <div className="text-center">
             <p className="text-lg font-medium">No messages yet</p>
@@ -28,13 +219,20 @@ return (
         </div>
         </div>
     ) : (
-        visibleMessages.map((message) => (
+        visibleMessages.map((message) => message.role === 'system' ? (
+        <div key={message.id} className="flex justify-start">
+            <ToolResultCard hint={message.metadata!.renderHint} />
+        </div>
+        ) : (
         <div
             key={message.id}
+            id={`message-${message.id}`}
             className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
         >
             <div
-            className={`max-w-[70%] rounded-lg px-4 py-2 ${ROLE_COLORS[message.role]}`}
+            className={`max-w-[70%] rounded-lg px-4 py-2 ${ROLE_COLORS[message.role]} ${
+                message.id === focusedMessageId ? 'ring-2 ring-indigo-400' : ''
+            }`}
             >
             <div className="flex items-baseline gap-2 mb-1">
                 <span className="text-xs font-semibold capitalize">
@@ -44,22 +242,112 @@ return (
                 {format(message.timestamp, 'HH:mm')}
                 </span>
             </div>
-            <p className="text-sm whitespace-pre-wrap break-words">
+            {editing?.id === message.id ? (
+                <div className="space-y-2">
+                <textarea
+                    value={editing.draft}
+                    onChange={(e) => setEditing({ id: message.id, draft: e.target.value })}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                            e.preventDefault();
+                            submitEdit();
+                        }
+                    }}
+                    rows={3}
+                    autoFocus
+                    className="w-full min-w-64 rounded border border-gray-300 bg-white px-2 py-1 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <div className="flex justify-end gap-2 text-xs">
+                    <button onClick={() => setEditing(null)} className="px-2 py-1 rounded hover:bg-black/10">
+                    Cancel
+                    </button>
+                    <button
+                    onClick={submitEdit}
+                    disabled={actionsDisabled || !editing.draft.trim()}
+                    className="px-2 py-1 rounded bg-indigo-600 font-semibold text-white hover:bg-indigo-700 disabled:opacity-60"
+                    >
+                    Send
+                    </button>
+                </div>
+                </div>
+            ) : (
+                <p className="text-sm whitespace-pre-wrap break-words">
                 {message.content}
-            </p>
+                </p>
+            )}
+            {message.role === 'assistant' && message.metadata?.usage && (
+                <p className="mt-1 text-[10px] opacity-60">
+                {describeUsage(message.metadata.usage, message.metadata.model)}
+                </p>
+            )}
+            {message.role === 'assistant' && message.metadata?.sources?.length > 0 && (
+                <SourceList sources={message.metadata!.sources} onOpen={onOpenSource} />
+            )}
+            {editing?.id !== message.id && (message.branch || onEditMessage || onRegenerate) && (
+                <div className="mt-1 flex items-center gap-1">
+                {message.branch && onSwitchBranch && (
+                    <BranchSwitcher branch={message.branch} disabled={actionsDisabled} onSwitch={onSwitchBranch} />
+                )}
+                {message.role === 'user' && onEditMessage && (
+                    <button
+                    onClick={() => setEditing({ id: message.id, draft: message.content })}
+                    disabled={actionsDisabled}
+                    className="rounded p-0.5 opacity-60 hover:opacity-100 hover:bg-black/10 disabled:opacity-30"
+                    aria-label="Edit message"
+                    title="Edit and resend"
+                    >
+                    <Pencil className="w-3 h-3" />
+                    </button>
+                )}
+                {message.role === 'assistant' && onRegenerate && (
+                    <button
+                    onClick={() => onRegenerate(message.id)}
+                    disabled={actionsDisabled}
+                    className="rounded p-0.5 opacity-60 hover:opacity-100 hover:bg-black/10 disabled:opacity-30"
+                    aria-label="Regenerate reply"
+                    title="Regenerate"
+                    >
+                    <RefreshCw className="w-3 h-3" />
+                    </button>
+                )}
+                </div>
+            )}
             </div>
         </div>
         ))
     )}
 
+    {/* Response being streamed token-by-token */}
+    {streamingMessage && (
+        <div className="flex justify-start">
+        <div className={`max-w-[70%] rounded-lg px-4 py-2 ${ROLE_COLORS.assistant}`}>
+            <div className="flex items-baseline gap-2 mb-1">
+                <span className="text-xs font-semibold capitalize">
+                assistant
+                </span>
+                <span className="text-xs opacity-70">
+                {format(streamingMessage.timestamp, 'HH:mm')}
+                </span>
+            </div>
+            <p className="text-sm whitespace-pre-wrap break-words">
+                {streamingMessage.content}
+                <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-500 animate-pulse" />
+            </p>
+        </div>
+        </div>
+    )}
+
     {/* Typing indicator */}
-    {isTyping && (
+    {isTyping && !streamingMessage && (
         <div className="flex justify-start">
         <div className="max-w-[70%] rounded-lg px-4 py-2 bg-gray-100">
             <div className="flex items-center gap-1">
             <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
             <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
             <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+            {agentStep && (
+                <span className="ml-2 text-xs text-gray-500">{describeAgentStep(agentStep)}</span>
+            )}
             </div>
         </div>
         </div>
@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import { Cpu, Loader2 } from 'lucide-react';
+import { usePreferences } from '../hooks/usePreferences';
+import type { AllowedModel, DateLanguage, GenerationSettings, ModelPreferences, ModelPreferencesUpdate } from '../types/index';
+
+type Toggle = '' | 'on' | 'off';
+
+// Languages the server can read dates in ("demain à 15h")
+const DATE_LANGUAGE_NAMES: Record<DateLanguage, string> = {
+    en: 'English',
+    fr: 'Français',
+    de: 'Deutsch',
+    es: 'Español',
+    it: 'Italiano',
+    pt: 'Português',
+    nl: 'Nederlands',
+    sv: 'Svenska',
+    ru: 'Русский',
+    uk: 'Українська',
+    ja: '日本語',
+    zh: '中文',
+};
+
+function toToggle(value?: boolean): Toggle {
+    return value === undefined ? '' : value ? 'on' : 'off';
+}
+
+// Form fields are strings so an empty field means "use the default"
+interface Draft {
+    model: string;
+    maxTokens: string;
+    temperature: string;
+    ragEnabled: Toggle;
+    ragTopK: string;
+    agendaTasks: Toggle;
+    agendaCalendar: Toggle;
+    language: DateLanguage | '';
+}
+
+function toDraft(preferences: ModelPreferences): Draft {
+    return {
+        model: preferences.model ?? '',
+        maxTokens: preferences.maxTokens?.toString() ?? '',
+        temperature: preferences.temperature?.toString() ?? '',
+        ragEnabled: toToggle(preferences.ragEnabled),
+        ragTopK: preferences.ragTopK?.toString() ?? '',
+        agendaTasks: toToggle(preferences.agendaTasks),
+        agendaCalendar: toToggle(preferences.agendaCalendar),
+        language: preferences.language ?? '',
+    };
+}
+
+// Every field is sent so emptied ones go back to their defaults (null)
+function fromDraft(draft: Draft): ModelPreferencesUpdate {
+    const toggle = (value: Toggle) => (value ? value === 'on' : null);
+    const number = (value: string) => (value ? Number(value) : null);
+
+    return {
+        model: draft.model.trim() || null,
+        maxTokens: number(draft.maxTokens),
+        temperature: number(draft.temperature),
+        ragEnabled: toggle(draft.ragEnabled),
+        ragTopK: number(draft.ragTopK),
+        agendaTasks: toggle(draft.agendaTasks),
+        agendaCalendar: toggle(draft.agendaCalendar),
+        language: draft.language || null,
+    };
+}
+
+const RESET: ModelPreferencesUpdate = {
+    provider: null,
+    model: null,
+    maxTokens: null,
+    temperature: null,
+    ragEnabled: null,
+    ragTopK: null,
+    agendaTasks: null,
+    agendaCalendar: null,
+    language: null,
+};
+
+interface ModelSettingsFormProps {
+    preferences: ModelPreferences;
+    defaults: GenerationSettings | null;
+    allowedModels: AllowedModel[];
+    isSaving: boolean;
+    onSave: (changes: ModelPreferencesUpdate) => Promise<boolean>;
+}
+
+function ModelSettingsForm({ preferences, defaults, allowedModels, isSaving, onSave }: ModelSettingsFormProps) {
+    const provider = preferences.provider ?? defaults?.provider;
+    const models = allowedModels.filter(allowed => allowed.provider === provider);
+
+    const [draft, setDraft] = useState<Draft>(() => toDraft(preferences));
+    const update = (field: keyof Draft) => (e: { target: { value: string } }) =>
+        setDraft({ ...draft, [field]: e.target.value });
+
+    const inputClass = 'w-full rounded-lg border border-cream-200 bg-white px-3 py-1.5 text-sm text-navy-900 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+    const labelClass = 'block text-xs font-medium text-navy-600 mb-1';
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <label className={labelClass}>Model</label>
+                <input
+                    value={draft.model}
+                    onChange={update('model')}
+                    placeholder={defaults?.model ?? 'Default model'}
+                    maxLength={100}
+                    list="allowed-models"
+                    className={inputClass}
+                />
+                <datalist id="allowed-models">
+                    {models.map(allowed => (
+                        <option key={allowed.model} value={allowed.model} />
+                    ))}
+                </datalist>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className={labelClass}>Max tokens</label>
+                    <input
+                        type="number"
+                        min={50}
+                        max={4096}
+                        value={draft.maxTokens}
+                        onChange={update('maxTokens')}
+                        placeholder={defaults?.maxTokens.toString()}
+                        className={inputClass}
+                    />
+                </div>
+                <div>
+                    <label className={labelClass}>Temperature</label>
+                    <input
+                        type="number"
+                        min={0}
+                        max={2}
+                        step={0.1}
+                        value={draft.temperature}
+                        onChange={update('temperature')}
+                        placeholder={defaults?.temperature.toString()}
+                        className={inputClass}
+                    />
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className={labelClass}>Context retrieval</label>
+                    <select value={draft.ragEnabled} onChange={update('ragEnabled')} className={inputClass}>
+                        <option value="">Default ({defaults?.ragEnabled === false ? 'off' : 'on'})</option>
+                        <option value="on">On</option>
+                        <option value="off">Off</option>
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass}>Items retrieved</label>
+                    <input
+                        type="number"
+                        min={1}
+                        max={10}
+                        value={draft.ragTopK}
+                        onChange={update('ragTopK')}
+                        placeholder={defaults?.ragTopK.toString()}
+                        className={inputClass}
+                    />
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className={labelClass}>Today's tasks in prompt</label>
+                    <select value={draft.agendaTasks} onChange={update('agendaTasks')} className={inputClass}>
+                        <option value="">Default ({defaults?.agendaTasks === false ? 'off' : 'on'})</option>
+                        <option value="on">On</option>
+                        <option value="off">Off</option>
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass}>Today's events in prompt</label>
+                    <select value={draft.agendaCalendar} onChange={update('agendaCalendar')} className={inputClass}>
+                        <option value="">Default ({defaults?.agendaCalendar === false ? 'off' : 'on'})</option>
+                        <option value="on">On</option>
+                        <option value="off">Off</option>
+                    </select>
+                </div>
+            </div>
+
+            <div>
+                <label className={labelClass}>Language for dates</label>
+                <select value={draft.language} onChange={update('language')} className={inputClass}>
+                    <option value="">Detect from each message</option>
+                    {Object.entries(DATE_LANGUAGE_NAMES).map(([code, name]) => (
+                        <option key={code} value={code}>{name}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="flex gap-2">
+                <button
+                    onClick={() => onSave(fromDraft(draft))}
+                    disabled={isSaving}
+                    className="flex-1 flex items-center justify-center gap-2 px-4 py-2 text-sm bg-gradient-to-br from-indigo-500 to-indigo-600 text-white hover:from-indigo-600 hover:to-indigo-700 rounded-xl transition-all duration-200 font-semibold disabled:opacity-60"
+                >
+                    {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Save
+                </button>
+                <button
+                    onClick={() => onSave(RESET)}
+                    disabled={isSaving}
+                    className="px-4 py-2 text-sm font-medium text-navy-600 hover:bg-cream-100 border border-cream-200 rounded-xl transition-all duration-200 disabled:opacity-60"
+                >
+                    Reset
+                </button>
+            </div>
+        </div>
+    );
+}
+
+export function ModelSettings() {
+    const { preferences, defaults, allowedModels, isSaving, error, savePreferences } = usePreferences();
+
+    return (
+        <div className="space-y-4 mt-6 pt-6 border-t border-cream-200">
+            <h4 className="text-sm font-semibold text-navy-700 uppercase tracking-wider flex items-center gap-2">
+                <Cpu className="w-4 h-4" />
+                Model
+            </h4>
+
+            {error && (
+                <p className="text-xs text-red-600 font-medium">{error}</p>
+            )}
+
+            {/* Remount when saved preferences change so the form starts from them */}
+            <ModelSettingsForm
+                key={JSON.stringify(preferences)}
+                preferences={preferences}
+                defaults={defaults}
+                allowedModels={allowedModels}
+                isSaving={isSaving}
+                onSave={savePreferences}
+            />
+
+            <p className="text-xs text-navy-500 leading-relaxed">
+                Leave a field empty to use the default. Changes apply to your next message.
+            </p>
+        </div>
+    );
+}
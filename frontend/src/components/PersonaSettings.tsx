@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { History, Loader2, UserCog } from 'lucide-react';
+import { format } from 'date-fns';
+import { usePersona } from '../hooks/usePersona';
+import type { Persona, PersonaVersion } from '../types/index';
+
+type PersonaField = keyof Persona;
+
+const FIELDS: Array<{ field: PersonaField; label: string; placeholder: string; maxLength: number; multiline?: boolean }> = [
+    { field: 'name', label: 'Assistant name', placeholder: 'e.g. Ada', maxLength: 50 },
+    { field: 'tone', label: 'Tone', placeholder: 'e.g. warm and informal', maxLength: 200 },
+    { field: 'language', label: 'Reply in', placeholder: 'e.g. Spanish', maxLength: 50 },
+    { field: 'formatting', label: 'Formatting', placeholder: 'e.g. short bullet points, no emoji', maxLength: 500 },
+    { field: 'facts', label: 'About me', placeholder: 'Standing facts, e.g. "I work 9-5 CET, I am vegetarian"', maxLength: 2000, multiline: true },
+    { field: 'instructions', label: 'Other instructions', placeholder: 'Anything else the assistant should keep in mind', maxLength: 2000, multiline: true },
+];
+
+// Empty fields are left out so the server stores only what was set
+function toPersona(draft: Persona): Persona {
+    const next: Persona = {};
+    for (const { field } of FIELDS) {
+        const value = draft[field]?.trim();
+        if (value) next[field] = value;
+    }
+    return next;
+}
+
+interface PersonaFormProps {
+    persona: Persona;
+    isSaving: boolean;
+    onSave: (persona: Persona) => Promise<boolean>;
+}
+
+function PersonaForm({ persona, isSaving, onSave }: PersonaFormProps) {
+    const [draft, setDraft] = useState<Persona>(persona);
+    const update = (field: PersonaField) => (e: { target: { value: string } }) =>
+        setDraft({ ...draft, [field]: e.target.value });
+
+    const inputClass = 'w-full rounded-lg border border-cream-200 bg-white px-3 py-1.5 text-sm text-navy-900 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+    const labelClass = 'block text-xs font-medium text-navy-600 mb-1';
+
+    return (
+        <div className="space-y-3">
+            {FIELDS.map(({ field, label, placeholder, maxLength, multiline }) => (
+                <div key={field}>
+                    <label className={labelClass}>{label}</label>
+                    {multiline ? (
+                        <textarea
+                            rows={3}
+                            value={draft[field] ?? ''}
+                            onChange={update(field)}
+                            placeholder={placeholder}
+                            maxLength={maxLength}
+                            className={`${inputClass} resize-y`}
+                        />
+                    ) : (
+                        <input
+                            value={draft[field] ?? ''}
+                            onChange={update(field)}
+                            placeholder={placeholder}
+                            maxLength={maxLength}
+                            className={inputClass}
+                        />
+                    )}
+                </div>
+            ))}
+
+            <div className="flex gap-2">
+                <button
+                    onClick={() => onSave(toPersona(draft))}
+                    disabled={isSaving}
+                    className="flex-1 flex items-center justify-center gap-2 px-4 py-2 text-sm bg-gradient-to-br from-indigo-500 to-indigo-600 text-white hover:from-indigo-600 hover:to-indigo-700 rounded-xl transition-all duration-200 font-semibold disabled:opacity-60"
+                >
+                    {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Save
+                </button>
+                <button
+                    onClick={() => onSave({})}
+                    disabled={isSaving}
+                    className="px-4 py-2 text-sm font-medium text-navy-600 hover:bg-cream-100 border border-cream-200 rounded-xl transition-all duration-200 disabled:opacity-60"
+                >
+                    Clear
+                </button>
+            </div>
+        </div>
+    );
+}
+
+// Short description of a version for the history list
+function describeVersion(version: PersonaVersion): string {
+    const set = FIELDS.filter(({ field }) => version.persona[field]).map(({ label }) => label.toLowerCase());
+    return set.length > 0 ? set.join(', ') : 'no instructions';
+}
+
+export function PersonaSettings() {
+    const { persona, versions, isSaving, error, savePersona, restoreVersion } = usePersona();
+    const [showHistory, setShowHistory] = useState(false);
+    const [current, ...previous] = versions;
+
+    return (
+        <div className="space-y-4 mt-6 pt-6 border-t border-cream-200">
+            <h4 className="text-sm font-semibold text-navy-700 uppercase tracking-wider flex items-center gap-2">
+                <UserCog className="w-4 h-4" />
+                Custom instructions
+            </h4>
+
+            {error && (
+                <p className="text-xs text-red-600 font-medium">{error}</p>
+            )}
+
+            {/* Remount when the saved persona changes so the form starts from it */}
+            <PersonaForm
+                key={`${current?.version ?? 0}:${JSON.stringify(persona)}`}
+                persona={persona}
+                isSaving={isSaving}
+                onSave={savePersona}
+            />
+
+            {previous.length > 0 && (
+                <div>
+                    <button
+                        onClick={() => setShowHistory(!showHistory)}
+                        className="flex items-center gap-1.5 text-xs font-medium text-navy-600 hover:text-navy-900"
+                    >
+                        <History className="w-3.5 h-3.5" />
+                        {showHistory ? 'Hide history' : `History (${previous.length} earlier version${previous.length === 1 ? '' : 's'})`}
+                    </button>
+
+                    {showHistory && (
+                        <ul className="mt-2 space-y-1">
+                            {previous.map((version) => (
+                                <li key={version.version} className="flex items-center gap-2 rounded-lg px-2 py-1.5 text-xs text-navy-600 hover:bg-cream-100">
+                                    <span className="font-semibold">v{version.version}</span>
+                                    <span className="opacity-70">{format(version.createdAt, 'MMM d, HH:mm')}</span>
+                                    <span className="min-w-0 flex-1 truncate" title={describeVersion(version)}>
+                                        {describeVersion(version)}
+                                    </span>
+                                    <button
+                                        onClick={() => restoreVersion(version.version)}
+                                        disabled={isSaving}
+                                        className="shrink-0 font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-60"
+                                    >
+                                        Restore
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            <p className="text-xs text-navy-500 leading-relaxed">
+                Shapes tone, language and what the assistant knows about you. It can't change how tools
+                work or skip your approval.
+            </p>
+        </div>
+    );
+}
@@ -2,6 +2,9 @@ import { useState } from 'react';
 import { useAuth, useClerk, UserButton } from '@clerk/clerk-react';
 import { Calendar, Check, X, Settings, Loader2, LogOut, AlertCircle } from 'lucide-react';
 import { useAppStore } from '../stores/appStore';
+import { ModelSettings } from './ModelSettings';
+import { PersonaSettings } from './PersonaSettings';
+import { FactSettings } from './FactSettings';
 import Nango from '@nangohq/frontend';
 
 export function SettingsPanel() {
@@ -165,7 +168,7 @@ export function SettingsPanel() {
     }
 
     return (
-        <div className="fixed top-6 right-6 w-96 card-elevated border border-cream-200 p-6 z-50 animate-slide-in">
+        <div className="fixed top-6 right-6 w-96 max-h-[calc(100vh-3rem)] overflow-y-auto card-elevated border border-cream-200 p-6 z-50 animate-slide-in">
             <div className="flex items-center justify-between mb-6">
                 <h3 className="text-xl font-semibold text-navy-900 tracking-tight">Settings</h3>
                 <button
@@ -264,6 +267,15 @@ export function SettingsPanel() {
                     )}
                 </div>
             </div>
+
+            {/* Custom instructions */}
+            <PersonaSettings />
+
+            {/* Facts the assistant was asked to remember */}
+            <FactSettings />
+
+            {/* Model & generation preferences */}
+            <ModelSettings />
         </div>
     );
 }
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { Archive, Check, MessageSquarePlus, MessagesSquare, Pencil, Trash2, X } from 'lucide-react';
+import { useAppStore } from '../stores/appStore';
+import type { useThreads } from '../hooks/useThreads';
+import type { Thread } from '../types/index';
+
+interface ThreadSidebarProps {
+  actions: ReturnType<typeof useThreads>;  // Shared with the chat, which opens threads from citations
+}
+
+export function ThreadSidebar({ actions }: ThreadSidebarProps) {
+  const threads = useAppStore((state) => state.threads);
+  const activeThreadId = useAppStore((state) => state.activeThreadId);
+  const searchAllThreads = useAppStore((state) => state.searchAllThreads);
+  const setSearchAllThreads = useAppStore((state) => state.setSearchAllThreads);
+
+  const { selectThread, createThread, renameThread, archiveThread, deleteThread } = actions;
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startRename = (thread: Thread) => {
+    setEditingId(thread.id);
+    setDraftTitle(thread.title);
+  };
+
+  const submitRename = () => {
+    const title = draftTitle.trim();
+    if (editingId && title) {
+      renameThread(editingId, title);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (thread: Thread) => {
+    if (window.confirm(`Delete "${thread.title}" and all of its messages?`)) {
+      deleteThread(thread.id);
+    }
+  };
+
+  return (
+    <div className="w-64 shrink-0 flex flex-col border-r border-cream-200 bg-white/60">
+      <div className="px-3 py-3 border-b border-cream-200">
+        <button
+          onClick={createThread}
+          className="w-full flex items-center justify-center gap-2 rounded-lg bg-indigo-600 px-3 py-2 text-sm font-semibold text-white transition-colors hover:bg-indigo-700"
+        >
+          <MessageSquarePlus className="h-4 w-4" />
+          New chat
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto py-2">
+        {threads.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 px-4 py-8 text-center text-gray-400">
+            <MessagesSquare className="h-6 w-6" />
+            <p className="text-xs">No conversations yet</p>
+          </div>
+        ) : (
+          threads.map((thread) => (
+            <div
+              key={thread.id}
+              className={`group mx-2 mb-1 flex items-center gap-1 rounded-lg px-2 py-2 text-sm transition-colors ${
+                thread.id === activeThreadId
+                  ? 'bg-indigo-50 text-indigo-900'
+                  : 'text-navy-700 hover:bg-gray-50'
+              }`}
+            >
+              {editingId === thread.id ? (
+                <>
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    maxLength={100}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') submitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="min-w-0 flex-1 rounded border border-gray-300 px-1.5 py-0.5 text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                  />
+                  <button onClick={submitRename} className="p-1 text-gray-500 hover:text-green-600" title="Save">
+                    <Check className="h-3.5 w-3.5" />
+                  </button>
+                  <button onClick={() => setEditingId(null)} className="p-1 text-gray-500 hover:text-gray-700" title="Cancel">
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => selectThread(thread.id)}
+                    className="min-w-0 flex-1 truncate text-left"
+                    title={thread.title}
+                  >
+                    {thread.title}
+                  </button>
+                  <div className="hidden shrink-0 items-center group-hover:flex">
+                    <button onClick={() => startRename(thread)} className="p-1 text-gray-400 hover:text-gray-700" title="Rename">
+                      <Pencil className="h-3.5 w-3.5" />
+                    </button>
+                    <button onClick={() => archiveThread(thread.id)} className="p-1 text-gray-400 hover:text-amber-600" title="Archive">
+                      <Archive className="h-3.5 w-3.5" />
+                    </button>
+                    <button onClick={() => handleDelete(thread)} className="p-1 text-gray-400 hover:text-red-600" title="Delete">
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 border-t border-cream-200 px-4 py-3 text-xs text-navy-600 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={searchAllThreads}
+          onChange={(e) => setSearchAllThreads(e.target.checked)}
+          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        Recall context from all conversations
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useEffect, useCallback, useState } from "react";
+import { useAuth } from "@clerk/clerk-react";
+import type { UserFact } from "../types/index";
+
+/**
+ * Facts the assistant remembered about the user (/api/me/facts)
+ */
+export function useFacts() {
+    const { getToken } = useAuth();
+    const [facts, setFacts] = useState<UserFact[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const request = useCallback(async (path: string, init: RequestInit = {}) => {
+        const token = await getToken();
+        if (!token) throw new Error('Not authenticated');
+
+        const response = await fetch(path, {
+            ...init,
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${token}`,
+            },
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || `Request to ${path} failed`);
+        }
+        return data;
+    }, [getToken]);
+
+    const deleteFact = useCallback(async (factId: string): Promise<boolean> => {
+        try {
+            setError(null);
+            await request(`/api/me/facts/${factId}`, { method: 'DELETE' });
+            setFacts((current) => current.filter((fact) => fact.id !== factId));
+            return true;
+        } catch (err) {
+            console.error('[useFacts] Error deleting fact:', err);
+            setError(err instanceof Error ? err.message : 'Failed to delete fact');
+            return false;
+        }
+    }, [request]);
+
+    useEffect(() => {
+        let active = true;
+        request('/api/me/facts')
+            .then((data) => {
+                if (active) setFacts(data.facts || []);
+            })
+            .catch((err) => {
+                console.error('[useFacts] Error loading facts:', err);
+                if (active) setError('Failed to load facts');
+            })
+            .finally(() => {
+                if (active) setIsLoading(false);
+            });
+        return () => { active = false; };
+    }, [request]);
+
+    return { facts, isLoading, error, deleteFact };
+}
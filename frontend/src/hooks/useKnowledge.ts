@@ -0,0 +1,119 @@
+import { useEffect, useCallback, useState } from "react";
+import { useAuth } from "@clerk/clerk-react";
+import type { KnowledgeDocument, KnowledgeEntry, KnowledgeEntryInput } from "../types/index";
+
+const DOCUMENT_POLL_MS = 2000;
+
+/**
+ * Knowledge base entries and uploaded documents (/api/knowledge), loaded while
+ * `enabled`. Documents are polled while any of them is still processing.
+ */
+export function useKnowledge(enabled: boolean) {
+    const { getToken } = useAuth();
+    const [entries, setEntries] = useState<KnowledgeEntry[]>([]);
+    const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+    const [hasLoaded, setHasLoaded] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const request = useCallback(async (path: string, init: RequestInit = {}) => {
+        const token = await getToken();
+        if (!token) throw new Error('Not authenticated');
+
+        const response = await fetch(path, {
+            ...init,
+            headers: {
+                // Uploads (FormData) set their own multipart Content-Type
+                ...(!(init.body instanceof FormData) && { 'Content-Type': 'application/json' }),
+                'Authorization': `Bearer ${token}`,
+            },
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.details?.join(', ') || data.error || `Request to ${path} failed`);
+        }
+        return data;
+    }, [getToken]);
+
+    const mutate = useCallback(async (run: () => Promise<void>): Promise<boolean> => {
+        try {
+            setIsSaving(true);
+            setError(null);
+            await run();
+            return true;
+        } catch (err) {
+            console.error('[useKnowledge] Error saving entry:', err);
+            setError(err instanceof Error ? err.message : 'Failed to save entry');
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    }, []);
+
+    // Most recently edited first, like the server
+    const createEntry = useCallback((input: KnowledgeEntryInput) => mutate(async () => {
+        const { entry } = await request('/api/knowledge', { method: 'POST', body: JSON.stringify(input) });
+        setEntries((current) => [entry, ...current]);
+    }), [mutate, request]);
+
+    const updateEntry = useCallback((id: string, input: KnowledgeEntryInput) => mutate(async () => {
+        const { entry } = await request(`/api/knowledge/${id}`, { method: 'PUT', body: JSON.stringify(input) });
+        setEntries((current) => [entry, ...current.filter((e) => e.id !== id)]);
+    }), [mutate, request]);
+
+    const deleteEntry = useCallback((id: string) => mutate(async () => {
+        await request(`/api/knowledge/${id}`, { method: 'DELETE' });
+        setEntries((current) => current.filter((e) => e.id !== id));
+    }), [mutate, request]);
+
+    const uploadDocument = useCallback((file: File) => mutate(async () => {
+        const body = new FormData();
+        body.append('file', file);
+        const { document } = await request('/api/knowledge/documents', { method: 'POST', body });
+        setDocuments((current) => [document, ...current]);
+    }), [mutate, request]);
+
+    const deleteDocument = useCallback((id: string) => mutate(async () => {
+        await request(`/api/knowledge/documents/${id}`, { method: 'DELETE' });
+        setDocuments((current) => current.filter((d) => d.id !== id));
+    }), [mutate, request]);
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        let active = true;
+        Promise.all([request('/api/knowledge'), request('/api/knowledge/documents')])
+            .then(([entryData, documentData]) => {
+                if (!active) return;
+                setEntries(entryData.entries || []);
+                setDocuments(documentData.documents || []);
+            })
+            .catch((err) => {
+                console.error('[useKnowledge] Error loading entries:', err);
+                if (active) setError('Failed to load knowledge base');
+            })
+            .finally(() => { if (active) setHasLoaded(true); });
+        return () => { active = false; };
+    }, [enabled, request]);
+
+    const isProcessing = documents.some((d) => d.status === 'processing');
+    useEffect(() => {
+        if (!enabled || !isProcessing) return;
+
+        const interval = setInterval(() => {
+            request('/api/knowledge/documents')
+                .then((data) => setDocuments(data.documents || []))
+                .catch((err) => console.error('[useKnowledge] Error polling documents:', err));
+        }, DOCUMENT_POLL_MS);
+        return () => clearInterval(interval);
+    }, [enabled, isProcessing, request]);
+
+    // Only the first load shows as loading; reopening refreshes in place
+    const isLoading = enabled && !hasLoaded;
+
+    return {
+        entries, documents, isLoading, isSaving, error,
+        createEntry, updateEntry, deleteEntry, uploadDocument, deleteDocument,
+    };
+}
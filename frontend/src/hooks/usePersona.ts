@@ -0,0 +1,86 @@
+import { useEffect, useCallback, useState } from "react";
+import { useAuth } from "@clerk/clerk-react";
+import type { Persona, PersonaVersion } from "../types/index";
+
+interface PersonaResponse {
+    persona: Persona;
+    version: number | null;
+    versions: PersonaVersion[];
+}
+
+/**
+ * Custom instructions with version history (/api/me/persona)
+ */
+export function usePersona() {
+    const { getToken } = useAuth();
+    const [persona, setPersona] = useState<Persona>({});
+    const [versions, setVersions] = useState<PersonaVersion[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const request = useCallback(async (path: string, init: RequestInit = {}) => {
+        const token = await getToken();
+        if (!token) throw new Error('Not authenticated');
+
+        const response = await fetch(path, {
+            ...init,
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${token}`,
+            },
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.details?.join(', ') || data.error || `Request to ${path} failed`);
+        }
+        return data;
+    }, [getToken]);
+
+    const fetchPersona = useCallback(async (): Promise<PersonaResponse | null> => {
+        try {
+            return await request('/api/me/persona');
+        } catch (err) {
+            console.error('[usePersona] Error loading persona:', err);
+            return null;
+        }
+    }, [request]);
+
+    // Saving and restoring both create a new version; reload the history afterwards
+    const mutate = useCallback(async (path: string, init: RequestInit): Promise<boolean> => {
+        try {
+            setIsSaving(true);
+            setError(null);
+            const saved: PersonaVersion = await request(path, init);
+            setPersona(saved.persona || {});
+
+            const data = await fetchPersona();
+            if (data) setVersions(data.versions || []);
+            return true;
+        } catch (err) {
+            console.error('[usePersona] Error saving persona:', err);
+            setError(err instanceof Error ? err.message : 'Failed to save instructions');
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    }, [request, fetchPersona]);
+
+    const savePersona = useCallback((next: Persona) =>
+        mutate('/api/me/persona', { method: 'PUT', body: JSON.stringify(next) }), [mutate]);
+
+    const restoreVersion = useCallback((version: number) =>
+        mutate(`/api/me/persona/versions/${version}/restore`, { method: 'POST' }), [mutate]);
+
+    useEffect(() => {
+        let active = true;
+        fetchPersona().then((data) => {
+            if (!active || !data) return;
+            setPersona(data.persona || {});
+            setVersions(data.versions || []);
+        });
+        return () => { active = false; };
+    }, [fetchPersona]);
+
+    return { persona, versions, isSaving, error, savePersona, restoreVersion };
+}
@@ -0,0 +1,80 @@
+import { useEffect, useCallback, useState } from "react";
+import { useAuth } from "@clerk/clerk-react";
+import type { AllowedModel, GenerationSettings, ModelPreferences, ModelPreferencesUpdate } from "../types/index";
+
+/**
+ * Per-user model and generation preferences (GET/PUT /api/me/preferences)
+ */
+export function usePreferences() {
+    const { getToken } = useAuth();
+    const [preferences, setPreferences] = useState<ModelPreferences>({});
+    const [defaults, setDefaults] = useState<GenerationSettings | null>(null);
+    const [allowedModels, setAllowedModels] = useState<AllowedModel[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchPreferences = useCallback(async (): Promise<{ preferences: ModelPreferences; defaults: GenerationSettings; allowedModels?: AllowedModel[] } | null> => {
+        try {
+            const token = await getToken();
+            if (!token) return null;
+
+            const response = await fetch('/api/me/preferences', {
+                headers: { 'Authorization': `Bearer ${token}` },
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to load preferences');
+            }
+
+            return await response.json();
+        } catch (err) {
+            console.error('[usePreferences] Error loading preferences:', err);
+            return null;
+        }
+    }, [getToken]);
+
+    const savePreferences = useCallback(async (changes: ModelPreferencesUpdate): Promise<boolean> => {
+        try {
+            setIsSaving(true);
+            setError(null);
+            const token = await getToken();
+            if (!token) throw new Error('Not authenticated');
+
+            const response = await fetch('/api/me/preferences', {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`,
+                },
+                body: JSON.stringify(changes),
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.details?.join(', ') || data.error || 'Failed to save preferences');
+            }
+
+            setPreferences(data.preferences || {});
+            return true;
+        } catch (err) {
+            console.error('[usePreferences] Error saving preferences:', err);
+            setError(err instanceof Error ? err.message : 'Failed to save preferences');
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    }, [getToken]);
+
+    useEffect(() => {
+        let active = true;
+        fetchPreferences().then((data) => {
+            if (!active || !data) return;
+            setPreferences(data.preferences || {});
+            setDefaults(data.defaults || null);
+            setAllowedModels(data.allowedModels || []);
+        });
+        return () => { active = false; };
+    }, [fetchPreferences]);
+
+    return { preferences, defaults, allowedModels, isSaving, error, savePreferences };
+}
@@ -0,0 +1,129 @@
+import { useEffect, useCallback } from "react";
+import { useAppStore } from "../stores/appStore";
+import { useAuth } from "@clerk/clerk-react";
+import type { Thread } from "../types/index";
+
+/**
+ * Conversation threads: list, switch, create, rename, archive, delete
+ */
+export function useThreads(userId: string | null) {
+    const { getToken } = useAuth();
+    const setThreads = useAppStore((state) => state.setThreads);
+    const upsertThread = useAppStore((state) => state.upsertThread);
+    const removeThread = useAppStore((state) => state.removeThread);
+    const setActiveThreadId = useAppStore((state) => state.setActiveThreadId);
+    const setMessages = useAppStore((state) => state.setMessages);
+    const clearStreamingMessage = useAppStore((state) => state.clearStreamingMessage);
+
+    const request = useCallback(async (path: string, init: RequestInit = {}) => {
+        const token = await getToken();
+        if (!token) throw new Error('Not authenticated');
+
+        const response = await fetch(path, {
+            ...init,
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${token}`,
+            },
+        });
+
+        if (!response.ok) {
+            throw new Error(`Request to ${path} failed: ${response.status}`);
+        }
+
+        return response.json();
+    }, [getToken]);
+
+    const selectThread = useCallback(async (threadId: string) => {
+        try {
+            setActiveThreadId(threadId);
+            clearStreamingMessage();
+            const data = await request(`/api/threads/${threadId}/messages`);
+            // Ignore the response if the user switched again while it loaded
+            if (useAppStore.getState().activeThreadId === threadId) {
+                setMessages(data.messages || []);
+            }
+        } catch (error) {
+            console.error('[useThreads] Error loading thread:', error);
+        }
+    }, [request, setActiveThreadId, setMessages, clearStreamingMessage]);
+
+    const fetchThreads = useCallback(async () => {
+        if (!userId) return;
+
+        try {
+            const data = await request('/api/threads');
+            const threads: Thread[] = data.threads || [];
+            console.log('[useThreads] Fetched threads:', threads.length);
+            setThreads(threads);
+
+            // Open the most recent thread on first load
+            if (!useAppStore.getState().activeThreadId && threads.length > 0) {
+                await selectThread(threads[0].id);
+            }
+        } catch (error) {
+            console.error('[useThreads] Error fetching threads:', error);
+        }
+    }, [userId, request, setThreads, selectThread]);
+
+    const createThread = useCallback(async () => {
+        try {
+            const data = await request('/api/threads', { method: 'POST', body: JSON.stringify({}) });
+            upsertThread(data.thread);
+            setActiveThreadId(data.thread.id);
+            clearStreamingMessage();
+            setMessages([]);
+        } catch (error) {
+            console.error('[useThreads] Error creating thread:', error);
+        }
+    }, [request, upsertThread, setActiveThreadId, setMessages, clearStreamingMessage]);
+
+    const renameThread = useCallback(async (threadId: string, title: string) => {
+        try {
+            const data = await request(`/api/threads/${threadId}`, {
+                method: 'PUT',
+                body: JSON.stringify({ title }),
+            });
+            upsertThread(data.thread);
+        } catch (error) {
+            console.error('[useThreads] Error renaming thread:', error);
+        }
+    }, [request, upsertThread]);
+
+    // Archived and deleted threads both leave the sidebar
+    const leaveThread = useCallback((threadId: string) => {
+        removeThread(threadId);
+        if (!useAppStore.getState().activeThreadId) {
+            setMessages([]);
+            const [next] = useAppStore.getState().threads;
+            if (next) selectThread(next.id);
+        }
+    }, [removeThread, setMessages, selectThread]);
+
+    const archiveThread = useCallback(async (threadId: string) => {
+        try {
+            await request(`/api/threads/${threadId}`, {
+                method: 'PUT',
+                body: JSON.stringify({ archived: true }),
+            });
+            leaveThread(threadId);
+        } catch (error) {
+            console.error('[useThreads] Error archiving thread:', error);
+        }
+    }, [request, leaveThread]);
+
+    const deleteThread = useCallback(async (threadId: string) => {
+        try {
+            await request(`/api/threads/${threadId}`, { method: 'DELETE' });
+            leaveThread(threadId);
+        } catch (error) {
+            console.error('[useThreads] Error deleting thread:', error);
+        }
+    }, [request, leaveThread]);
+
+    useEffect(() => {
+        fetchThreads();
+    }, [fetchThreads]);
+
+    return { fetchThreads, selectThread, createThread, renameThread, archiveThread, deleteThread };
+}
@@ -4,7 +4,9 @@ import type {
     Task,
     PendingConfirmation,
     TaskFilter,
-    UserProfile
+    UserProfile,
+    AgentStepPayload,
+    Thread
 } from '../types/index';
 
 interface AppState {
@@ -18,6 +20,23 @@ interface AppState {
     addMessage: (message: Message) => void;
     clearMessages: () => void;
     setMessages: (messages: Message[]) => void;
+    replaceMessageId: (oldId: string, newId: string) => void;
+
+    streamingMessage: Message | null;
+    appendStreamingDelta: (streamId: string, delta: string) => void;
+    clearStreamingMessage: () => void;
+
+    agentStep: AgentStepPayload | null;
+    setAgentStep: (step: AgentStepPayload | null) => void;
+
+    threads: Thread[];
+    activeThreadId: string | null;
+    searchAllThreads: boolean;
+    setThreads: (threads: Thread[]) => void;
+    upsertThread: (thread: Thread) => void;
+    removeThread: (threadId: string) => void;
+    setActiveThreadId: (threadId: string | null) => void;
+    setSearchAllThreads: (searchAll: boolean) => void;
 
 
     tasks: Task[];
@@ -38,6 +57,10 @@ interface AppState {
     isTyping: boolean;
     setIsTyping: (typing: boolean) => void;
 
+    // A chat turn is in flight (from send until its chat_response)
+    isGenerating: boolean;
+    setIsGenerating: (generating: boolean) => void;
+
     error: string | null;
     setError: (error: string | null) => void;
 
@@ -47,6 +70,12 @@ interface AppState {
     isSettingsOpen: boolean;
     setIsSettingsOpen: (open: boolean) => void;
 
+    isKnowledgeOpen: boolean;
+    setIsKnowledgeOpen: (open: boolean) => void;
+    // Entry open in the knowledge panel (null: the new entry form)
+    selectedKnowledgeId: string | null;
+    setSelectedKnowledgeId: (entryId: string | null) => void;
+
     calendarAuthExpired: boolean;
     setCalendarAuthExpired: (expired: boolean) => void;
 }
@@ -72,6 +101,47 @@ export const useAppStore = create<AppState>(( set, get) => ({
 
     setMessages: (messages) => set({ messages }),
 
+    // Swap a locally generated id for the one the server saved the message under
+    replaceMessageId: (oldId, newId) => set((state) => ({
+      messages: state.messages.map((m) => (m.id === oldId ? { ...m, id: newId } : m)),
+    })),
+
+    streamingMessage: null,
+
+    // A new streamId starts a fresh draft (e.g. the follow-up after tool calls)
+    appendStreamingDelta: (streamId, delta) => set((state) => ({
+      streamingMessage: state.streamingMessage?.id === streamId
+        ? { ...state.streamingMessage, content: state.streamingMessage.content + delta }
+        : { id: streamId, role: 'assistant', content: delta, timestamp: Date.now() },
+    })),
+
+    clearStreamingMessage: () => set({ streamingMessage: null }),
+
+    agentStep: null,
+    setAgentStep: (agentStep) => set({ agentStep }),
+
+    threads: [],
+    activeThreadId: null,
+    searchAllThreads: false,
+
+    setThreads: (threads) => set({ threads }),
+
+    // Insert or replace, keeping the most recently active thread first
+    upsertThread: (thread) => set((state) => ({
+      threads: [thread, ...state.threads.filter((t) => t.id !== thread.id)]
+        .filter((t) => !t.archived)
+        .sort((a, b) => b.updatedAt - a.updatedAt),
+    })),
+
+    removeThread: (threadId) => set((state) => ({
+      threads: state.threads.filter((t) => t.id !== threadId),
+      activeThreadId: state.activeThreadId === threadId ? null : state.activeThreadId,
+    })),
+
+    setActiveThreadId: (activeThreadId) => set({ activeThreadId }),
+
+    setSearchAllThreads: (searchAllThreads) => set({ searchAllThreads }),
+
     tasks: [],
     taskFilter: 'all',
 
@@ -119,6 +189,9 @@ export const useAppStore = create<AppState>(( set, get) => ({
     isTyping: false,
     setIsTyping: (isTyping) => set({ isTyping }),
 
+    isGenerating: false,
+    setIsGenerating: (isGenerating) => set({ isGenerating }),
+
     error: null,
     setError: (error) => set({ error }),
 
@@ -128,6 +201,12 @@ export const useAppStore = create<AppState>(( set, get) => ({
     isSettingsOpen: false,
     setIsSettingsOpen: (isSettingsOpen) => set({ isSettingsOpen }),
 
+    isKnowledgeOpen: false,
+    setIsKnowledgeOpen: (isKnowledgeOpen) => set({ isKnowledgeOpen }),
+
+    selectedKnowledgeId: null,
+    setSelectedKnowledgeId: (selectedKnowledgeId) => set({ selectedKnowledgeId }),
+
     calendarAuthExpired: false,
     setCalendarAuthExpired: (calendarAuthExpired) => set({ calendarAuthExpired }),
   }));
\ No newline at end of file
@@ -5,7 +5,25 @@ export interface Message {
     role: 'user' | 'assistant' | 'system';
     content: string;
     timestamp: number;
+    threadId?: string;
     metadata?: Record<string, any>;
+    branch?: BranchInfo;  // Set when the message has alternatives (edits/regenerations)
+}
+
+// Alternatives at one point of a conversation branch
+export interface BranchInfo {
+    siblingIds: string[];
+    index: number;  // Position of the shown alternative
+}
+
+export interface Thread {
+    id: string;
+    userId: string;
+    title: string;
+    archived: boolean;
+    activeLeafId?: string;
+    createdAt: number;
+    updatedAt: number;
 }
 
 export interface Task {
@@ -31,6 +49,95 @@ export interface UserProfile {
     createdAt: number;
   }
 
+// Per-user model/generation settings (unset fields use the server defaults)
+export interface ModelPreferences {
+    provider?: 'workers-ai' | 'openai' | 'mock';
+    model?: string;
+    maxTokens?: number;
+    temperature?: number;
+    ragEnabled?: boolean;
+    ragTopK?: number;
+    agendaTasks?: boolean;     // Overdue and due-today tasks in every prompt
+    agendaCalendar?: boolean;  // Today's calendar events in every prompt
+    language?: DateLanguage;   // Language of date phrases; detected per message when unset
+}
+
+// PUT /api/me/preferences body: omitted fields are kept, null resets one to its default
+export type ModelPreferencesUpdate = { [K in keyof ModelPreferences]?: ModelPreferences[K] | null };
+
+// A provider and model users may pick
+export interface AllowedModel {
+    provider: string;
+    model: string;
+}
+
+export type DateLanguage = 'en' | 'fr' | 'de' | 'es' | 'it' | 'pt' | 'nl' | 'sv' | 'ru' | 'uk' | 'ja' | 'zh';
+
+// Custom instructions merged into the system prompt
+export interface Persona {
+    name?: string;
+    tone?: string;
+    language?: string;
+    formatting?: string;
+    facts?: string;
+    instructions?: string;
+}
+
+export interface PersonaVersion {
+    version: number;
+    persona: Persona;
+    createdAt: number;
+}
+
+// Note or reference material the assistant can retrieve (/api/knowledge)
+export interface KnowledgeEntry {
+    id: string;
+    title?: string;
+    content: string;
+    indexed: boolean;       // Embedded and available to retrieval
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Uploaded file split into knowledge base chunks (/api/knowledge/documents)
+export interface KnowledgeDocument {
+    id: string;
+    filename: string;
+    mimeType: string;
+    sizeBytes: number;
+    status: 'processing' | 'ready' | 'failed';
+    chunkCount: number;
+    indexedCount: number;
+    error?: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Fact the assistant was asked to remember (/api/me/facts)
+export interface UserFact {
+    id: string;
+    content: string;
+    createdAt: number;
+    updatedAt: number;      // Last time it was remembered again
+}
+
+export interface KnowledgeEntryInput {
+    title?: string;
+    content: string;
+}
+
+export interface GenerationSettings {
+    provider?: string;
+    model?: string;
+    maxTokens: number;
+    temperature: number;
+    ragEnabled: boolean;
+    ragTopK: number;
+    agendaTasks: boolean;
+    agendaCalendar: boolean;
+    language?: DateLanguage;
+}
+
 
 // Websocket types
 
@@ -44,12 +151,20 @@ export interface WSMessage {
   export type WSMessageType =
     | 'chat'
     | 'chat_response'
+    | 'chat_response_delta'
+    | 'agent_step'
+    | 'thread_updated'
     | 'task'
     | 'status'
     | 'error'
     | 'connected'
     | 'confirmation_request'
     | 'confirmation_response'
+    | 'cancel'
+    | 'edit_message'
+    | 'regenerate'
+    | 'switch_branch'
+    | 'branch_switched'
     | 'tool_execution_result'
     | 'create_task'
     | 'list_tasks'
@@ -62,12 +177,83 @@ export interface WSMessage {
 
   export interface ChatPayload {
     content: string;
+    threadId?: string;
+    searchAllThreads?: boolean;
+    clientMessageId?: string;  // Local id of the user message, echoed back in chat_response
+  }
+
+
+  // Resend an edited user message as a new branch
+  export interface EditMessagePayload extends ChatPayload {
+    threadId: string;
+    messageId: string;
+  }
+
+
+  // Regenerate an assistant reply (messageId) or show another alternative (switch_branch)
+  export interface BranchActionPayload {
+    threadId: string;
+    messageId: string;
+  }
+
+
+  // The active branch of a thread after a switch, edit or regenerate
+  export interface BranchSwitchedPayload {
+    threadId: string;
+    activeLeafId: string;
+    messages: Message[];
   }
 
 
   export interface ChatResponsePayload {
     content: string;
     messageId: string;
+    userMessageId?: string;    // Saved id of the user message this answers
+    clientMessageId?: string;  // Local id that message was sent with
+    threadId?: string;
+    cancelled?: boolean;  // The user stopped this turn; content is the partial reply
+    usage?: TokenUsage;
+    model?: string;       // Model that answered (differs from the configured one after a fallback)
+    sources?: SourceCitation[];  // Retrieved sources the reply cites as [ref]
+  }
+
+  // A past message, conversation summary or knowledge base note an answer was grounded in
+  export interface SourceCitation {
+    ref: number;
+    type: 'conversation' | 'summary' | 'knowledge';
+    id: string;           // Message id, knowledge entry id or, for a summary, the thread id
+    threadId?: string;    // Thread of a conversation or summary source
+    timestamp: number;
+    snippet: string;
+  }
+
+  // Tokens spent on one assistant reply, summed over every LLM call in the turn
+  export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+    exact: boolean;  // false while the server is still estimating (tokenizer not loaded)
+  }
+
+
+  export interface ChatResponseDeltaPayload {
+    streamId: string;
+    threadId?: string;
+    delta: string;
+  }
+
+
+  export type AgentStepStatus = 'calling_tools' | 'repairing' | 'thinking' | 'done' | 'limit_reached';
+
+
+  export interface AgentStepPayload {
+    iteration: number;
+    maxIterations: number;
+    status: AgentStepStatus;
+    tools?: string[];
+    tokensUsed: number;
+    tokenBudget: number;
+    reason?: 'max_iterations' | 'token_budget';
+    threadId?: string;
   }
 
  
@@ -99,6 +285,18 @@ export interface WSMessage {
     success: boolean;
     result?: any;
     error?: string;
+    messageId?: string;         // System message holding the result
+    threadId?: string;
+    renderHint?: ToolRenderHint;
+  }
+
+  // Card shown in the chat for a successful tool result (kept in the system message metadata)
+  export interface ToolRenderHint {
+    kind: string;               // task, taskList, weather, email, calendar, fact, factList; others get a generic icon
+    title: string;
+    subtitle?: string;
+    items?: string[];
+    link?: { url: string; label: string };
   }
 
 
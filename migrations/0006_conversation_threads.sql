@@ -0,0 +1,32 @@
+-- Migration 0006: Conversation Threads
+-- Purpose: Split each user's single conversation stream into named threads
+
+PRAGMA foreign_keys = ON;
+
+-- Threads
+CREATE TABLE IF NOT EXISTS threads (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  title TEXT NOT NULL DEFAULT 'New conversation',
+  archived INTEGER DEFAULT 0,
+  created_at INTEGER DEFAULT (unixepoch()),
+  updated_at INTEGER DEFAULT (unixepoch()),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Thread id on each conversation row (deleting a thread removes its messages)
+ALTER TABLE conversations ADD COLUMN thread_id TEXT REFERENCES threads(id) ON DELETE CASCADE;
+
+-- Move existing history into one thread per user
+INSERT INTO threads (id, user_id, title, archived, created_at, updated_at)
+SELECT 'legacy-' || user_id, user_id, 'Earlier conversation', 0, MIN(timestamp), MAX(timestamp)
+FROM conversations
+GROUP BY user_id;
+
+UPDATE conversations SET thread_id = 'legacy-' || user_id WHERE thread_id IS NULL;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_threads_user_archived_updated ON threads(user_id, archived, updated_at);
+CREATE INDEX IF NOT EXISTS idx_conversations_thread_timestamp ON conversations(thread_id, timestamp);
+
+PRAGMA optimize;
@@ -0,0 +1,21 @@
+-- Migration 0007: Conversation Summaries
+-- Purpose: Keep a rolling LLM summary of older messages in each thread
+
+PRAGMA foreign_keys = ON;
+
+-- One summary per thread, replaced as more messages are folded in
+CREATE TABLE IF NOT EXISTS conversation_summaries (
+  thread_id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  content TEXT NOT NULL,
+  last_message_id TEXT NOT NULL,
+  covered_until INTEGER NOT NULL,
+  message_count INTEGER NOT NULL DEFAULT 0,
+  updated_at INTEGER DEFAULT (unixepoch()),
+  FOREIGN KEY (thread_id) REFERENCES threads(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_summaries_user ON conversation_summaries(user_id);
+
+PRAGMA optimize;
@@ -0,0 +1,17 @@
+-- Migration 0008: Persona Versions
+-- Purpose: Per-user custom instructions for the system prompt, with history
+
+PRAGMA foreign_keys = ON;
+
+-- Every save is a new version; the highest version is the active persona
+CREATE TABLE IF NOT EXISTS persona_versions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  persona TEXT NOT NULL,  -- JSON, see PersonaSchema
+  created_at INTEGER DEFAULT (unixepoch()),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE (user_id, version)
+);
+
+PRAGMA optimize;
@@ -0,0 +1,37 @@
+-- Migration 0009: Conversation Branches
+-- Purpose: Turn each thread into a tree of messages so a message can be edited
+-- or regenerated without losing the original. Each message points at the one it
+-- follows; the thread remembers which leaf (branch) is active.
+
+PRAGMA foreign_keys = ON;
+
+-- Message each row follows (NULL for the first message of a thread)
+ALTER TABLE conversations ADD COLUMN parent_id TEXT;
+
+-- Newest message of the branch the user is looking at
+ALTER TABLE threads ADD COLUMN active_leaf_id TEXT;
+
+-- Existing threads are linear: chain every message to the one before it
+UPDATE conversations
+SET parent_id = (
+  SELECT prev.id FROM conversations prev
+  WHERE prev.thread_id = conversations.thread_id
+    AND (prev.timestamp < conversations.timestamp
+      OR (prev.timestamp = conversations.timestamp AND prev.rowid < conversations.rowid))
+  ORDER BY prev.timestamp DESC, prev.rowid DESC
+  LIMIT 1
+)
+WHERE thread_id IS NOT NULL;
+
+UPDATE threads
+SET active_leaf_id = (
+  SELECT c.id FROM conversations c
+  WHERE c.thread_id = threads.id
+  ORDER BY c.timestamp DESC, c.rowid DESC
+  LIMIT 1
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_conversations_thread_parent ON conversations(thread_id, parent_id);
+
+PRAGMA optimize;
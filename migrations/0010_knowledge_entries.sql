@@ -0,0 +1,14 @@
+-- Migration 0010: Knowledge Entries
+-- Purpose: Let users edit knowledge base entries. vector_id is only set while
+-- the entry's Vectorize vector matches its current title and content.
+
+PRAGMA foreign_keys = ON;
+
+ALTER TABLE knowledge_entries ADD COLUMN updated_at INTEGER;
+
+UPDATE knowledge_entries SET updated_at = created_at WHERE updated_at IS NULL;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_knowledge_user_updated ON knowledge_entries(user_id, updated_at);
+
+PRAGMA optimize;
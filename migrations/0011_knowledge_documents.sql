@@ -0,0 +1,31 @@
+-- Migration 0011: Knowledge Documents
+-- Purpose: Uploaded files (Markdown, text, HTML, PDF) split into chunks. Each
+-- chunk is a knowledge_entries row pointing back at its document.
+
+PRAGMA foreign_keys = ON;
+
+CREATE TABLE IF NOT EXISTS knowledge_documents (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  filename TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing',  -- processing | ready | failed
+  chunk_count INTEGER NOT NULL DEFAULT 0,
+  indexed_count INTEGER NOT NULL DEFAULT 0,   -- Chunks embedded so far
+  error TEXT,
+  created_at INTEGER DEFAULT (unixepoch()),
+  updated_at INTEGER DEFAULT (unixepoch()),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Provenance of chunk entries (NULL for entries written by hand)
+ALTER TABLE knowledge_entries ADD COLUMN document_id TEXT REFERENCES knowledge_documents(id) ON DELETE CASCADE;
+ALTER TABLE knowledge_entries ADD COLUMN chunk_index INTEGER;
+ALTER TABLE knowledge_entries ADD COLUMN heading TEXT;  -- Section path, e.g. "Setup > Wifi"
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_knowledge_documents_user ON knowledge_documents(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_knowledge_document_id ON knowledge_entries(document_id);
+
+PRAGMA optimize;
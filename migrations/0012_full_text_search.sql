@@ -0,0 +1,57 @@
+-- Migration 0012: Full-Text Search
+-- Purpose: FTS5 keyword indexes over conversations and knowledge entries, used
+-- next to Vectorize so exact names, ticket numbers and rare words are found.
+-- Both are external-content tables kept in step by triggers.
+
+PRAGMA foreign_keys = ON;
+
+-- ==================== CONVERSATIONS ====================
+
+CREATE VIRTUAL TABLE IF NOT EXISTS conversations_fts USING fts5(
+  content,
+  content='conversations',
+  content_rowid='rowid',
+  tokenize='unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS conversations_fts_insert AFTER INSERT ON conversations BEGIN
+  INSERT INTO conversations_fts(rowid, content) VALUES (new.rowid, new.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS conversations_fts_delete AFTER DELETE ON conversations BEGIN
+  INSERT INTO conversations_fts(conversations_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS conversations_fts_update AFTER UPDATE OF content ON conversations BEGIN
+  INSERT INTO conversations_fts(conversations_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+  INSERT INTO conversations_fts(rowid, content) VALUES (new.rowid, new.content);
+END;
+
+INSERT INTO conversations_fts(conversations_fts) VALUES ('rebuild');
+
+-- ==================== KNOWLEDGE_ENTRIES ====================
+
+CREATE VIRTUAL TABLE IF NOT EXISTS knowledge_entries_fts USING fts5(
+  title,
+  content,
+  content='knowledge_entries',
+  content_rowid='rowid',
+  tokenize='unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS knowledge_entries_fts_insert AFTER INSERT ON knowledge_entries BEGIN
+  INSERT INTO knowledge_entries_fts(rowid, title, content) VALUES (new.rowid, new.title, new.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS knowledge_entries_fts_delete AFTER DELETE ON knowledge_entries BEGIN
+  INSERT INTO knowledge_entries_fts(knowledge_entries_fts, rowid, title, content) VALUES ('delete', old.rowid, old.title, old.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS knowledge_entries_fts_update AFTER UPDATE OF title, content ON knowledge_entries BEGIN
+  INSERT INTO knowledge_entries_fts(knowledge_entries_fts, rowid, title, content) VALUES ('delete', old.rowid, old.title, old.content);
+  INSERT INTO knowledge_entries_fts(rowid, title, content) VALUES (new.rowid, new.title, new.content);
+END;
+
+INSERT INTO knowledge_entries_fts(knowledge_entries_fts) VALUES ('rebuild');
+
+PRAGMA optimize;
@@ -0,0 +1,35 @@
+-- Migration 0013: Embedding Backfill
+-- Purpose: Track which messages have a vector, and checkpoint the workflow that
+-- embeds the messages, knowledge entries, tasks and thread summaries that don't
+-- (or re-embeds everything into a new index).
+
+PRAGMA foreign_keys = ON;
+
+-- ==================== CONVERSATIONS ====================
+
+-- Set once the message's vector is stored; NULL for messages embedded before
+-- this migration too, which the backfill checks against Vectorize.
+ALTER TABLE conversations ADD COLUMN vector_id TEXT;
+
+-- ==================== EMBEDDING_BACKFILLS ====================
+
+CREATE TABLE IF NOT EXISTS embedding_backfills (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  mode TEXT NOT NULL,                        -- 'missing' | 'full'
+  index_name TEXT,                           -- NULL for the live index
+  workflow_id TEXT,                          -- Latest workflow instance working on it
+  status TEXT NOT NULL DEFAULT 'running',    -- 'running' | 'complete' | 'failed'
+  phase TEXT NOT NULL DEFAULT 'conversations', -- 'conversations' | 'knowledge' | 'tasks' | 'summaries' | 'done'
+  cursor INTEGER NOT NULL DEFAULT 0,         -- Last rowid handled in the current phase
+  scanned INTEGER NOT NULL DEFAULT 0,
+  embedded INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_at INTEGER DEFAULT (unixepoch()),
+  updated_at INTEGER DEFAULT (unixepoch()),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_embedding_backfills_user ON embedding_backfills(user_id, created_at);
+
+PRAGMA optimize;
@@ -0,0 +1,44 @@
+-- Migration 0014: Vector Deletions
+-- Purpose: Log the vector IDs of every deleted row that may have a Vectorize
+-- vector, whichever way it was deleted (API, thread delete, user cascade or a
+-- manual D1 delete). The scheduled reconciliation purges them from Vectorize.
+
+PRAGMA foreign_keys = ON;
+
+-- ==================== VECTOR_DELETIONS ====================
+
+CREATE TABLE IF NOT EXISTS vector_deletions (
+  vector_id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,                   -- No foreign key: the user may be gone too
+  deleted_at INTEGER DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_vector_deletions_deleted ON vector_deletions(deleted_at);
+
+-- ==================== TRIGGERS ====================
+-- Vector IDs follow the app: message id, summary-<threadId>,
+-- knowledge-<entryId> and task-<taskId>.
+
+CREATE TRIGGER IF NOT EXISTS conversations_vector_delete AFTER DELETE ON conversations
+WHEN old.role IN ('user', 'assistant') BEGIN
+  INSERT OR IGNORE INTO vector_deletions (vector_id, user_id) VALUES (old.id, old.user_id);
+END;
+
+CREATE TRIGGER IF NOT EXISTS conversation_summaries_vector_delete AFTER DELETE ON conversation_summaries BEGIN
+  INSERT OR IGNORE INTO vector_deletions (vector_id, user_id) VALUES ('summary-' || old.thread_id, old.user_id);
+END;
+
+-- A thread's summary vector is reused when it is summarised again
+CREATE TRIGGER IF NOT EXISTS conversation_summaries_vector_restore AFTER INSERT ON conversation_summaries BEGIN
+  DELETE FROM vector_deletions WHERE vector_id = 'summary-' || new.thread_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS knowledge_entries_vector_delete AFTER DELETE ON knowledge_entries BEGIN
+  INSERT OR IGNORE INTO vector_deletions (vector_id, user_id) VALUES ('knowledge-' || old.id, old.user_id);
+END;
+
+CREATE TRIGGER IF NOT EXISTS tasks_vector_delete AFTER DELETE ON tasks BEGIN
+  INSERT OR IGNORE INTO vector_deletions (vector_id, user_id) VALUES ('task-' || old.id, old.user_id);
+END;
+
+PRAGMA optimize;
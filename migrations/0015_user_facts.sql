@@ -0,0 +1,20 @@
+-- Migration 0015: User Facts
+-- Purpose: Facts the user explicitly asked the assistant to remember
+-- ("my partner's name is Sam"). They are added to the system prompt instead
+-- of depending on retrieval.
+
+PRAGMA foreign_keys = ON;
+
+CREATE TABLE IF NOT EXISTS user_facts (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  content TEXT NOT NULL,
+  created_at INTEGER DEFAULT (unixepoch()),
+  updated_at INTEGER DEFAULT (unixepoch()),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_user_facts_user_updated ON user_facts(user_id, updated_at);
+
+PRAGMA optimize;
@@ -1,12 +1,39 @@
 import { DurableObject } from 'cloudflare:workers';
-import { Env, AgentState, Message, Task, TaskWorkflowParams } from '../types/env';
-import { VectorizeManager } from './vectorize';
-import { DEFAULT_SYSTEM_PROMPT, memoryManager } from './memory';
+import { Env, AgentState, ConversationSummary, Message, Task, TaskWorkflowParams, Thread } from '../types/env';
+import { VectorizeManager, taskEmbeddingId } from './vectorize';
+import { ActiveBranch, HybridRetriever, SourceCitation, citedSources, getRetrievalSettings, toCitations } from './retrieval';
+import { TaskSearch, TaskSearchResult } from './taskSearch';
+import { ThreadStore } from './threads';
+import { BranchNode, BranchStore, annotateBranches, branchIds, findLeaf, isOnBranch } from './branches';
+import { SummaryStore, summaryEmbedding, summaryEmbeddingId } from './summaries';
+import { Persona, PersonaStore } from './persona';
+import { FactStore, UserFact, selectFactsForPrompt } from './facts';
+import { GenerationSettings, PreferencesStore, getDefaultGenerationSettings } from './preferences';
+import { DEFAULT_SYSTEM_PROMPT, buildSystemPrompt, memoryManager } from './memory';
+import { GENERAL_ROUTE, IntentRouter, RouteDecision, withFollowUpTools } from './router';
+import { getContextWindow, getPromptBudget, tokenCounter } from './tokenizer';
+import { ToolCall, ToolCallStreamFilter, extractToolCallsFromText } from './toolCalls';
+import { AgentBudget, AgentStepPayload, getAgentLoopConfig } from './agentLoop';
+import { TurnCancelledError, cancelledReply, throwIfCancelled, whenCancelled } from './cancellation';
+import {
+  InvalidToolCall,
+  MAX_TOOL_REPAIR_ATTEMPTS,
+  ValidToolCall,
+  buildRepairPrompt,
+  formatValidationIssues,
+  isValidToolCall,
+  validateToolCall,
+} from './toolValidation';
+import { CircuitBreaker, FallbackConfig, buildModelChain, getFallbackConfig, runWithFallback } from './fallback';
+import { ContextPipeline } from './context';
+import { createCalendarAgendaProvider, createTaskAgendaProvider } from './agenda';
 
 import { ConfirmationHandler, createConfirmationHandler } from '../mcp/ConfirmationHandler';
 
-import { getTool } from '../mcp/tools/index';
-import { ToolContext } from '../types/tools';
+import { getTool, getToolNames } from '../mcp/tools/index';
+import { LLMToolSchema, generateToolSchemas } from '../mcp/CodeModeAPI';
+import { LLMProvider, LLMRequest, createLLMProvider } from '../providers/index';
+import { SearchTasksParams, ToolContext, ToolRenderHint } from '../types/tools';
 import { DateParser, ParsedDate } from '../utils/DateParser';
 import { DateCorrector } from '../utils/DateCorrector';
 
@@ -18,6 +45,44 @@ interface WebSocketSession {
   lastParsedDates?: ParsedDate[];  // Store parsed dates for follow-up messages
   lastParsedTimestamp?: number;     // When the dates were parsed
   clientTimezone?: string;          // User's IANA timezone sent on connect (e.g. "America/Chicago")
+  lastRoute?: { threadId: string; decision: RouteDecision }; // Previous turn's route, for follow-ups
+}
+
+const LLM_TIMEOUT_MS = 90000;
+const LLM_STREAM_GRACE_MS = 5000;
+const CONTEXT_MAX_MESSAGES = 50;
+const BRANCH_MESSAGES_LIMIT = 100;  // Messages sent to the client after a branch switch (matches the REST default)
+const MIN_HISTORY_TOKENS = 500;  // Floor for the verbatim history budget on small context windows
+
+interface LLMCallOptions {
+  streamTo?: WebSocket;  // Stream deltas to this socket
+  withTools?: boolean;   // Offer native tool schemas to the model
+  threadId?: string;     // Scope context and RAG retrieval to this thread
+  searchAllThreads?: boolean; // Let RAG retrieve history from every thread
+  signal?: AbortSignal;  // Aborted when the user cancels the turn
+  settings?: GenerationSettings; // Per-user model settings (env defaults when omitted)
+  summary?: ConversationSummary | null; // Rolling summary replacing the thread's older messages
+  route?: RouteDecision; // Intent router result: skip retrieval, narrow the tools
+  persona?: Persona;     // User's custom instructions for the system prompt
+  facts?: string[];      // Remembered facts about the user picked for this message
+}
+
+interface ChatOptions {
+  threadId?: string;
+  searchAllThreads?: boolean;
+  clientMessageId?: string; // Client's id for the user message, echoed back next to the saved id
+  regenerate?: boolean;     // Answer the last user message in history again instead of adding one
+  branched?: boolean;       // The turn starts a new branch: send the branch to the client when done
+}
+
+interface LLMResponse {
+  content: string;       // Raw model text (may still contain text-form tool calls)
+  toolCalls: ToolCall[]; // Native tool calls returned by the model
+  promptTokens: number;      // Tokens sent to the model (context only, not tool schemas)
+  completionTokens: number;  // Tokens in the model's reply
+  tokensUsed: number;        // promptTokens + completionTokens
+  model?: string;            // Model that answered (after any fallback); unset for canned error replies
+  sources?: SourceCitation[]; // Retrieved sources in the prompt, numbered as the reply may cite them
 }
 
 interface RateLimitState {
@@ -31,6 +96,20 @@ export class PersonalAssistant extends DurableObject<Env> {
   private state: AgentState;
   private userId: string;
   private vectorize: VectorizeManager;
+  private retriever: HybridRetriever;             // Keyword + vector search for RAG
+  private taskSearch: TaskSearch;
+  private threads: ThreadStore;
+  private branches: BranchStore;
+  private summaries: SummaryStore;
+  private router: IntentRouter;
+  private personas: PersonaStore;
+  private facts: FactStore;
+  private preferences: PreferencesStore;
+  private agendaContext: ContextPipeline;         // Today's tasks/events for the system prompt, cached per instance
+  private llmProviders: Map<string, LLMProvider>; // "provider:model" -> provider
+  private fallbackConfig: FallbackConfig;
+  private circuitBreaker: CircuitBreaker;        // Per-model failure state, persisted in DO storage
+  private activeTurns: Map<string, Set<AbortController>>; // userId -> in-flight chat turns
   private confirmationHandler: ConfirmationHandler;
   private rateLimits: Map<string, RateLimitState>; // userId -> rate limit state
   private dateParser: DateParser;
@@ -39,12 +118,26 @@ export class PersonalAssistant extends DurableObject<Env> {
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
     this.vectorize = new VectorizeManager(env);
+    this.retriever = new HybridRetriever(env.DB, this.vectorize, getRetrievalSettings(env));
+    this.taskSearch = new TaskSearch(env.DB, this.vectorize);
+    this.threads = new ThreadStore(env.DB);
+    this.branches = new BranchStore(env.DB);
+    this.summaries = new SummaryStore(env.DB);
+    this.router = new IntentRouter(this.vectorize);
+    this.personas = new PersonaStore(env.DB);
+    this.facts = new FactStore(env.DB);
+    this.preferences = new PreferencesStore(env.DB);
+    this.agendaContext = new ContextPipeline([createTaskAgendaProvider(env.DB), createCalendarAgendaProvider(env)]);
+    this.llmProviders = new Map();
+    this.fallbackConfig = getFallbackConfig(env);
+    this.circuitBreaker = new CircuitBreaker(ctx.storage, this.fallbackConfig);
     this.confirmationHandler = createConfirmationHandler(60000);
     this.dateParser = new DateParser();
     this.dateCorrector = new DateCorrector();
 
     this.sessions = new Map();
     this.rateLimits = new Map();
+    this.activeTurns = new Map();
     this.userId = '';
     this.state = {
       userId: '',
@@ -54,6 +147,9 @@ export class PersonalAssistant extends DurableObject<Env> {
     };
 
 
+    // Counts fall back to estimates until the tokenizer has loaded
+    tokenCounter.load();
+
     this.ctx.blockConcurrencyWhile(async () => {
       await this.loadState();
       await this.ensureForeignKeysEnabled();
@@ -220,10 +316,25 @@ export class PersonalAssistant extends DurableObject<Env> {
             ws.send(JSON.stringify({ error: 'Chat message content is required' }));
             return;
           }
-          await this.handleChatMessage(ws, session, content);
+          await this.handleChatMessage(ws, session, content, {
+            threadId: typeof payload.threadId === 'string' ? payload.threadId : undefined,
+            searchAllThreads: payload.searchAllThreads === true,
+          });
           break;
         }
 
+        case 'edit_message':
+          await this.handleEditMessage(ws, session, payload);
+          break;
+
+        case 'regenerate':
+          await this.handleRegenerate(ws, session, payload);
+          break;
+
+        case 'switch_branch':
+          await this.handleSwitchBranch(ws, session, payload);
+          break;
+
         case 'create_task':
           await this.handleCreateTask(ws, session, payload);
           break;
@@ -264,6 +375,10 @@ export class PersonalAssistant extends DurableObject<Env> {
           await this.handleConfirmationResponse(ws, session, payload);
           break;
 
+        case 'cancel':
+          this.handleCancel(session);
+          break;
+
         default:
           ws.send(JSON.stringify({ error: 'Unknown message type' }));
       }
@@ -423,8 +538,9 @@ export class PersonalAssistant extends DurableObject<Env> {
       0,
       now
     ).run();
+    this.agendaContext.invalidate(userId, 'tasks');
 
-    return {
+    const task: Task = {
       id: taskId,
       userId,
       title,
@@ -434,6 +550,8 @@ export class PersonalAssistant extends DurableObject<Env> {
       priority,
       createdAt: now,
     };
+    await this.taskSearch.indexTask(task);
+    return task;
   }
 
   // Get a single task by ID
@@ -466,6 +584,11 @@ export class PersonalAssistant extends DurableObject<Env> {
     return (result.results || []).map(row => this.mapDbTaskToTask(row));
   }
 
+  // Find tasks by meaning, with optional filters
+  private async searchTasks(userId: string, params: SearchTasksParams): Promise<TaskSearchResult[]> {
+    return this.taskSearch.search(userId, params);
+  }
+
   // Update task fields
   private async updateTask(
     userId: string,
@@ -525,6 +648,7 @@ export class PersonalAssistant extends DurableObject<Env> {
       await this.env.DB.prepare(
         `UPDATE tasks SET ${fields.join(', ')} WHERE id = ? AND user_id = ?`
       ).bind(...values).run();
+      this.agendaContext.invalidate(userId, 'tasks');
     }
 
     
@@ -533,6 +657,9 @@ export class PersonalAssistant extends DurableObject<Env> {
       throw new Error('Failed to fetch updated task');
     }
 
+    if (updated.title !== existing.title || updated.description !== existing.description) {
+      await this.taskSearch.indexTask(updated);
+    }
     return updated;
   }
 
@@ -551,6 +678,7 @@ export class PersonalAssistant extends DurableObject<Env> {
     await this.env.DB.prepare(
       'UPDATE tasks SET completed = ?, completed_at = ? WHERE id = ? AND user_id = ?'
     ).bind(newCompleted, completedAt, taskId, userId).run();
+    this.agendaContext.invalidate(userId, 'tasks');
 
 
     const updated = await this.getTask(userId, taskId);
@@ -558,6 +686,8 @@ export class PersonalAssistant extends DurableObject<Env> {
       throw new Error('Failed to fetch completed task');
     }
 
+    // The vector carries the completion status for filtered searches
+    await this.taskSearch.indexTask(updated);
     return updated;
   }
 
@@ -572,6 +702,23 @@ export class PersonalAssistant extends DurableObject<Env> {
     await this.env.DB.prepare(
       'DELETE FROM tasks WHERE id = ? AND user_id = ?'
     ).bind(taskId, userId).run();
+    this.agendaContext.invalidate(userId, 'tasks');
+
+    // Left in vector_deletions for the reconciliation job if this fails
+    await this.vectorize.deleteEmbeddings([taskEmbeddingId(taskId)]);
+  }
+
+  // Remember a fact about the user (shown in every later prompt)
+  private async rememberFact(userId: string, content: string): Promise<{ fact: UserFact; created: boolean }> {
+    return this.facts.rememberFact(userId, content);
+  }
+
+  private async listFacts(userId: string): Promise<UserFact[]> {
+    return this.facts.listFacts(userId);
+  }
+
+  private async forgetFact(userId: string, factId: string): Promise<boolean> {
+    return this.facts.forgetFact(userId, factId);
   }
 
   // Helper to map DB row to Task interface
@@ -589,49 +736,111 @@ export class PersonalAssistant extends DurableObject<Env> {
     };
   }
 
-  // Save message to D1 conversations table
+  // Embed a saved message for RAG and record that it has a vector; messages
+  // left without one are picked up by the embedding backfill
+  private async embedMessage(userId: string, message: Message): Promise<void> {
+    const stored = await this.vectorize.storeMessageEmbedding(userId, message, 'conversation');
+    if (!stored) return;
+
+    try {
+      await this.env.DB.prepare(
+        'UPDATE conversations SET vector_id = ? WHERE id = ? AND user_id = ?'
+      ).bind(message.id, message.id, userId).run();
+    } catch (error) {
+      console.error('[Vectorize] Error recording message vector:', error);
+    }
+  }
+
+  // Save message to D1 conversations table and make it the end of its thread's active branch
   private async saveMessageToD1(userId: string, message: Message): Promise<void> {
     const now = Math.floor(Date.now() / 1000);
 
     await this.env.DB.prepare(
-      'INSERT INTO conversations (id, user_id, role, content, timestamp, metadata) VALUES (?, ?, ?, ?, ?, ?)'
+      'INSERT INTO conversations (id, user_id, thread_id, parent_id, role, content, timestamp, metadata) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
       ).bind(
         message.id,
         userId,
+        message.threadId ?? null,
+        message.parentId ?? null,
         message.role,
         message.content,
         now,
         message.metadata ? JSON.stringify(message.metadata) : null
       ).run();
-  }
 
-  // Load conversation history from D1
-private async loadConversationHistory(userId: string, limit: number = 50): Promise<Message[]> {
-    const result = await this.env.DB.prepare(
-      'SELECT id, role, content, timestamp, metadata FROM conversations WHERE user_id = ? ORDER BY timestamp DESC LIMIT ?'
-    ).bind(userId, limit).all();
-    
-    if (!result.results || result.results.length === 0) {
-      return [];
+    if (message.threadId) {
+      await this.threads.setActiveLeaf(userId, message.threadId, message.id);
     }
+  }
 
-    return result.results.reverse().map(row => ({
-      id: row.id as string,
-      role: row.role as 'user' | 'assistant' | 'system',
-      content: row.content as string,
-      timestamp: (row.timestamp as number) * 1000,
-      metadata: row.metadata ? JSON.parse(row.metadata as string) : undefined,
-    }));
+  // Add a message to the end of the active branch and save it
+  private async appendMessage(userId: string, history: Message[], message: Message): Promise<void> {
+    message.parentId = history.at(-1)?.id;
+    history.push(message);
+    await this.saveMessageToD1(userId, message);
+  }
 
+  // Load one thread's conversation history (its active branch) from D1
+private async loadConversationHistory(userId: string, threadId: string, limit: number = 50): Promise<Message[]> {
+    const thread = await this.threads.getThread(userId, threadId);
+    return this.branches.loadBranch(userId, threadId, thread?.activeLeafId, limit);
 }
 
+  /**
+   * Resolve the thread a chat message belongs to. Clients that don't send a
+   * threadId continue their most recent thread (or get a new one).
+   */
+  private async resolveThread(userId: string, threadId?: string): Promise<Thread | null> {
+    if (threadId) {
+      return this.threads.getThread(userId, threadId);
+    }
+
+    return (await this.threads.getLatestThread(userId)) ?? (await this.threads.createThread(userId));
+  }
+
+  /**
+   * Make the given thread's history the active conversation, loading it from D1 on a switch
+   */
+  private async activateThread(userId: string, threadId: string): Promise<Message[]> {
+    if (this.state.activeThreadId !== threadId) {
+      this.state.conversationHistory = await this.loadConversationHistory(userId, threadId);
+      this.state.activeThreadId = threadId;
+      console.log(`[Threads] Switched to thread ${threadId} (${this.state.conversationHistory.length} messages)`);
+    }
+    return this.state.conversationHistory;
+  }
+
+  /**
+   * Overdue/due-today tasks and today's events for the system prompt, '' when
+   * the user turned them off or there is nothing to show
+   */
+  private async loadAgendaContext(userId: string, timezone: string, settings?: GenerationSettings): Promise<string> {
+    const { agendaTasks, agendaCalendar } = settings ?? getDefaultGenerationSettings(this.env);
+    try {
+      return await this.agendaContext.build(
+        { userId, timezone, now: new Date() },
+        { tasks: agendaTasks, calendar: agendaCalendar }
+      );
+    } catch (error) {
+      console.error('[Context] Failed to build agenda context:', error);
+      return '';
+    }
+  }
+
+  // Called by the calendar tools after they change an event
+  invalidateAgendaContext(userId: string, providerId?: string): void {
+    this.agendaContext.invalidate(userId, providerId);
+  }
+
 // Generate LLM response using worker AI
 private async generateLLMResponse(
   userId: string,
   userMessage: string,
   conversationHistory: Message[],
-  userTimezone: string = 'UTC'
-): Promise<string> {
+  parsedDates: any[] = [],  // Parsed dates from DateParser
+  userTimezone: string = 'UTC',
+  llmOptions: LLMCallOptions = {}
+): Promise<LLMResponse> {
 
     try {
       const now = new Date();
@@ -642,101 +851,105 @@ private async generateLLMResponse(
       });
       const todayDate = localFmt.format(now);
       const tomorrowDate = localFmt.format(new Date(now.getTime() + 86400000));
+      const agenda = await this.loadAgendaContext(userId, userTimezone, llmOptions.settings);
 
       const enhancedSystemPrompt = `## Current Date Context
 TODAY: ${todayDate}
 TOMORROW: ${tomorrowDate}
 Current time (UTC): ${now.toISOString()}
-
-${DEFAULT_SYSTEM_PROMPT}`;
+${agenda ? `\n${agenda}\n` : ''}
+${parsedDates.length > 0 ? `${this.dateParser.buildDateContext(parsedDates)}\n\n` : ''}${buildSystemPrompt(llmOptions.route?.tools, llmOptions.persona, llmOptions.facts, !!this.getToolSchemas(llmOptions))}`;
 
       const context = memoryManager.buildContext(conversationHistory, {
-        maxTokens: 3500,
-        maxMessages: 50,
+        maxTokens: this.getPromptTokenBudget(llmOptions),
+        maxMessages: CONTEXT_MAX_MESSAGES,
         systemPrompt: enhancedSystemPrompt,
+        threadId: llmOptions.threadId,
+        summary: llmOptions.summary,
       });
 
       const messages = memoryManager.formatForLLM(context);
 
-      const model = this.env.LLM_MODEL || '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
-      const modelKey = (model as unknown) as keyof AiModels;
-      if(!modelKey) throw new Error('No valid LLM model available');
-
-      
-      const maxTokens = parseInt(this.env.LLM_MAX_TOKENS || '500');
-      const temperature = parseFloat(this.env.LLM_TEMPERATURE || '0.7');
-
-      console.log(`[LLM] Calling model: ${model}, tokens: ${context.totalTokens}, truncated: ${context.truncated}`);
+      console.log(`[LLM] Calling model, tokens: ${context.totalTokens}, truncated: ${context.truncated}`);
 
-      const timeoutPromise = new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error('LLM timeout after 90s')), 90000)
-        );
-
-      const llmPromise = this.env.AI.run(modelKey, {
-        messages,
-        max_tokens: maxTokens,
-        temperature,
-        stream: false,
-      }) as Promise<{ response: string }>;
-
-      const response = await Promise.race([llmPromise, timeoutPromise]);
+      const response = await this.runLLM(messages, llmOptions);
 
-      const responseText = response?.response?.trim();
-      if(!responseText) {
-        throw new Error ('Empty response from LLM');
-      }
-
-      console.log(`[LLM] Response generated: ${responseText.length} chars`);
-      return responseText;
+      console.log(`[LLM] Response generated: ${response.content.length} chars, ${response.toolCalls.length} native tool call(s)`);
+      return this.withUsage(response, context.totalTokens);
 
     } catch (error) {
+      if (error instanceof TurnCancelledError) throw error;
       console.error('[LLM] Error generating response:', error);
 
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
       if (errorMessage.includes('timeout')) {
-     return 'I apologize, but my response took too long. Please try again.';
+     return { content: 'I apologize, but my response took too long. Please try again.', toolCalls: [], promptTokens: 0, completionTokens: 0, tokensUsed: 0 };
       } 
       
       else if (errorMessage.includes('429') || errorMessage.includes('rate limit')) {
-        return 'I am experiencing high demand. Please try again in a moment.';
+        return { content: 'I am experiencing high demand. Please try again in a moment.', toolCalls: [], promptTokens: 0, completionTokens: 0, tokensUsed: 0 };
       } 
       
        else {
-        return 'I encountered an error processing your message. Please try again.';
+        return { content: 'I encountered an error processing your message. Please try again.', toolCalls: [], promptTokens: 0, completionTokens: 0, tokensUsed: 0 };
       }
     }
   }
 
+  // Every message on the thread's active branch, not just the loaded window
+  private async loadActiveBranch(userId: string, threadId: string | undefined, history: Message[]): Promise<ActiveBranch | undefined> {
+    const leafId = history.at(-1)?.id;
+    if (!threadId || !leafId) {
+      return undefined;
+    }
+
+    const messageIds = branchIds(await this.branches.listNodes(userId, threadId), leafId);
+    history.forEach(message => messageIds.add(message.id));
+    return { threadId, messageIds };
+  }
+
   private async generateLLMResponseWithRAG(
     userId: string,
     userMessage: string,
     conversationHistory: Message[],
     parsedDates: any[] = [],  // Parsed dates from DateParser
-    userTimezone: string = 'UTC'
-  ): Promise<string> {
+    userTimezone: string = 'UTC',
+    llmOptions: LLMCallOptions = {}
+  ): Promise<LLMResponse> {
 
     try {
 
-      const rag_enabled = this.env.RAG_ENABLED !== 'false';
-      if(!rag_enabled){
+      const settings = llmOptions.settings ?? getDefaultGenerationSettings(this.env);
+      if(!settings.ragEnabled){
         console.log('[RAG] RAG disabled via environment variable');
-        return await this.generateLLMResponse(userId, userMessage, conversationHistory, userTimezone);
+        return await this.generateLLMResponse(userId, userMessage, conversationHistory, parsedDates, userTimezone, llmOptions);
       }
 
-      const topK = parseInt(this.env.RAG_TOP_K || '3');
+      if (llmOptions.route && !llmOptions.route.needsRetrieval) {
+        console.log(`[RAG] Skipping retrieval for ${llmOptions.route.intent} message`);
+        return await this.generateLLMResponse(userId, userMessage, conversationHistory, parsedDates, userTimezone, llmOptions);
+      }
+
+      const topK = settings.ragTopK;
       console.log(`[RAG] Retrieving top ${topK} relevant items for user: ${userId}`);
 
+      // Messages already in the prompt don't need to be retrieved again
+      const activeBranch = await this.loadActiveBranch(userId, llmOptions.threadId, conversationHistory);
       const [relevantHistory, relevantKnowledge] = await Promise.all([
-        this.vectorize.getRelevantHistory(userId, userMessage, topK),
-        this.vectorize.getRelevantKnowledge(userId, userMessage, Math.floor(topK / 2)),
+        this.retriever.searchHistory(userId, userMessage, topK, {
+          threadId: llmOptions.searchAllThreads ? undefined : llmOptions.threadId,
+          excludeIds: conversationHistory.map(message => message.id),
+          activeBranch,
+        }),
+        this.retriever.searchKnowledge(userId, userMessage, Math.floor(topK / 2)),
       ]);
 
-      const retrievedContext = [...relevantHistory, ...relevantKnowledge];
+      const retrievedContext = toCitations([...relevantHistory, ...relevantKnowledge]);
 
       if (retrievedContext.length === 0){
         console.log('[RAG] No relevant context found, using standard response');
-        return await this.generateLLMResponse(userId, userMessage, conversationHistory, userTimezone);
+        return await this.generateLLMResponse(userId, userMessage, conversationHistory, parsedDates, userTimezone, llmOptions);
       }
 
       console.log(`[RAG] Found ${retrievedContext.length} relevant items`);
@@ -747,6 +960,7 @@ ${DEFAULT_SYSTEM_PROMPT}`;
       });
       const todayDate = localFmt.format(now);
       const tomorrowDate = localFmt.format(new Date(now.getTime() + 86400000));
+      const agenda = await this.loadAgendaContext(userId, userTimezone, settings);
 
       const enhancedSystemPrompt =
       `## Current Date Context
@@ -754,90 +968,257 @@ ${DEFAULT_SYSTEM_PROMPT}`;
       TOMORROW: ${tomorrowDate}
       Current time (UTC): ${now.toISOString()}
 
+      ${agenda}
+
       ${parsedDates.length > 0 ? this.dateParser.buildDateContext(parsedDates) : ''}
 
-      ${DEFAULT_SYSTEM_PROMPT}`;
+      ${buildSystemPrompt(llmOptions.route?.tools, llmOptions.persona, llmOptions.facts, !!this.getToolSchemas(llmOptions))}`;
 
       
       const context = memoryManager.prepareRAGContext(
         conversationHistory,
         retrievedContext,
         {
-          maxTokens: 3500,
-          maxMessages: 50,
+          maxTokens: this.getPromptTokenBudget(llmOptions),
+          maxMessages: CONTEXT_MAX_MESSAGES,
           systemPrompt: enhancedSystemPrompt,
+          threadId: llmOptions.threadId,
+          summary: llmOptions.summary,
         }
       );
 
       const messages = memoryManager.formatForLLM(context);
 
-      const model = this.env.LLM_MODEL || '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
+      console.log(`[LLM] Calling with RAG context - tokens: ${context.totalTokens}, truncated: ${context.truncated}`);
 
-      const modelKey = (model as unknown) as keyof AiModels;
-      if (!modelKey) throw new Error('No valid LLM model available');
+      const response = await this.runLLM(messages, llmOptions);
 
-      const maxTokens = parseInt(this.env.LLM_MAX_TOKENS || '500');
-      const temperature = parseFloat(this.env.LLM_TEMPERATURE || '0.7');
+      console.log(`[LLM] RAG-enhanced response generated: ${response.content.length} chars, ${response.toolCalls.length} native tool call(s)`);
+      return { ...this.withUsage(response, context.totalTokens), sources: context.sources };
 
-      console.log(`[LLM] Calling with RAG context - tokens: ${context.totalTokens}, truncated: ${context.truncated}`);
+    } catch (error) {
+      if (error instanceof TurnCancelledError) throw error;
+      console.error('[RAG] Error generating RAG response, falling back to standard:', error);
+
+      // Fallback to non-RAG on error
+      return await this.generateLLMResponse(userId, userMessage, conversationHistory, parsedDates, userTimezone, llmOptions);
+    }
+  }
 
-      const timeoutPromise = new Promise<never>((_, reject) =>
-      setTimeout(() => reject(new Error('LLM timeout after 90s')), 90000)
+  /**
+   * Tokens available for system prompt, history and retrieved context:
+   * the model's context window minus the completion and the tool schemas
+   */
+  private getPromptTokenBudget(llmOptions: LLMCallOptions): number {
+    const settings = llmOptions.settings ?? getDefaultGenerationSettings(this.env);
+    const toolSchemas = this.getToolSchemas(llmOptions);
+    const toolSchemaTokens = toolSchemas ? tokenCounter.count(JSON.stringify(toolSchemas)) : 0;
+
+    return getPromptBudget(
+      getContextWindow(settings.model, this.env.LLM_CONTEXT_WINDOW),
+      settings.maxTokens,
+      toolSchemaTokens
     );
+  }
 
-      const llmPromise = this.env.AI.run(modelKey, {
-        messages,
-        max_tokens: maxTokens,
-        temperature,
-        stream: false,
-      }) as Promise<{ response: string }>;
+  /**
+   * Native tool schemas offered to the model (the routed subset, if any)
+   */
+  private getToolSchemas({ withTools = false, route }: LLMCallOptions): LLMToolSchema[] | undefined {
+    if (!withTools || this.env.LLM_NATIVE_TOOLS === 'false') {
+      return undefined;
+    }
+    const schemas = generateToolSchemas(route?.tools);
+    return schemas.length > 0 ? schemas : undefined;
+  }
 
-      const response = await Promise.race([llmPromise, timeoutPromise]);
+  private withUsage(response: Pick<LLMResponse, 'content' | 'toolCalls' | 'model'>, promptTokens: number): LLMResponse {
+    const completionTokens = memoryManager.estimateTokens(response.content);
+    return { ...response, promptTokens, completionTokens, tokensUsed: promptTokens + completionTokens };
+  }
 
-      const responseText = response?.response?.trim();
+  /**
+   * Run a prepared message list through the model fallback chain: the
+   * configured model first, then LLM_FALLBACK_MODELS (see ./fallback)
+   */
+  private async runLLM(
+    messages: Array<{ role: string; content: string }>,
+    llmOptions: LLMCallOptions = {}
+  ): Promise<Pick<LLMResponse, 'content' | 'toolCalls' | 'model'>> {
+    const settings = llmOptions.settings ?? getDefaultGenerationSettings(this.env);
+    const chain = buildModelChain({ provider: settings.provider, model: settings.model }, this.fallbackConfig.fallbacks);
+
+    const { result } = await runWithFallback(
+      chain,
+      target => this.callModel(messages, { ...llmOptions, settings: { ...settings, ...target } }),
+      { breaker: this.circuitBreaker, config: this.fallbackConfig, signal: llmOptions.signal }
+    );
+    return result;
+  }
 
-      if (!responseText) {
-        throw new Error('Empty response from LLM');
+  /**
+   * Run one model over a prepared message list.
+   * When streamTo is given the response is streamed as chat_response_delta
+   * frames; each call uses a fresh streamId so a retry starts a new draft.
+   * Tool call JSON is filtered out of the streamed deltas.
+   */
+  private async callModel(
+    messages: Array<{ role: string; content: string }>,
+    llmOptions: LLMCallOptions = {}
+  ): Promise<Pick<LLMResponse, 'content' | 'toolCalls' | 'model'>> {
+    const { streamTo, signal, settings = getDefaultGenerationSettings(this.env) } = llmOptions;
+    throwIfCancelled(signal);
+
+    const provider = this.getLLMProvider(settings);
+    const request: LLMRequest = {
+      messages,
+      tools: this.getToolSchemas(llmOptions),
+      maxTokens: settings.maxTokens,
+      temperature: settings.temperature,
+      signal,
+    };
+
+    // Visible text streamed so far, kept as the partial reply if the user cancels
+    let streamedText = '';
+    const cancelled = signal ? [whenCancelled(signal, () => streamedText)] : [];
+
+    // Streams enforce LLM_TIMEOUT_MS themselves and return the partial text;
+    // the race is only a safety net for a provider that never answers
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(
+        () => reject(new Error('LLM timeout after 90s')),
+        streamTo ? LLM_TIMEOUT_MS + LLM_STREAM_GRACE_MS : LLM_TIMEOUT_MS
+      );
+    });
+
+    try {
+      if (streamTo) {
+        const streamId = crypto.randomUUID();
+        const filter = new ToolCallStreamFilter(getToolNames());
+        const sendDelta = (delta: string) => {
+          if (!delta) return;
+          streamedText += delta;
+          streamTo.send(JSON.stringify({
+            type: 'chat_response_delta',
+            payload: { streamId, threadId: llmOptions.threadId, delta },
+            timestamp: Date.now(),
+          }));
+        };
+
+        const result = await Promise.race([
+          provider.stream(request, {
+            timeoutMs: LLM_TIMEOUT_MS,
+            onDelta: (delta) => sendDelta(filter.push(delta)),
+          }),
+          timeoutPromise,
+          ...cancelled,
+        ]);
+        if (result.aborted) {
+          throw new TurnCancelledError(streamedText);
+        }
+        sendDelta(filter.flush());
+
+        if (result.timedOut) {
+          console.warn(`[LLM] Stream cut off after ${LLM_TIMEOUT_MS / 1000}s with ${result.text.length} chars received`);
+          if (!result.text && result.toolCalls.length === 0) {
+            throw new Error('LLM timeout after 90s');
+          }
+        }
+
+        if (!result.text && result.toolCalls.length === 0) {
+          throw new Error('Empty response from LLM');
+        }
+
+        return { content: result.text, toolCalls: result.toolCalls, model: provider.model };
       }
 
-      console.log(`[LLM] RAG-enhanced response generated: ${responseText.length} chars`);
-      return responseText;
+      const result = await Promise.race([provider.complete(request), timeoutPromise, ...cancelled]);
+      if (!result.text && result.toolCalls.length === 0) {
+        throw new Error('Empty response from LLM');
+      }
 
-    } catch (error) {
-      console.error('[RAG] Error generating RAG response, falling back to standard:', error);
+      return { content: result.text, toolCalls: result.toolCalls, model: provider.model };
+    } finally {
+      if (timeoutId) clearTimeout(timeoutId);
+    }
+  }
 
-      // Fallback to non-RAG on error
-      return await this.generateLLMResponse(userId, userMessage, conversationHistory, userTimezone);
+  /**
+   * The LLM backend for these settings, created on first use and reused
+   * by every user who picks the same provider and model
+   */
+  private getLLMProvider(settings: GenerationSettings): LLMProvider {
+    const key = `${settings.provider ?? ''}:${settings.model ?? ''}`;
+    let provider = this.llmProviders.get(key);
+    if (!provider) {
+      provider = createLLMProvider(this.env, { provider: settings.provider, model: settings.model });
+      this.llmProviders.set(key, provider);
+      console.log(`[LLM] Using provider ${provider.name} (${provider.model})`);
     }
+    return provider;
   }
+
   // ==================== WebSocket Message Handlers ====================
 
   // Handle chat messages 
-  private async handleChatMessage(ws: WebSocket, session: WebSocketSession, content: string) {
+  private async handleChatMessage(
+    ws: WebSocket,
+    session: WebSocketSession,
+    content: string,
+    chatOptions: ChatOptions = {}
+  ) {
    
     await this.ensureUser(session.userId);
 
-    const userMessage: Message = {
-      id: crypto.randomUUID(),
-      role: 'user',
-      content,
-      timestamp: Date.now(),
-    };
-    this.state.conversationHistory.push(userMessage);
+    const thread = await this.resolveThread(session.userId, chatOptions.threadId);
+    if (!thread) {
+      ws.send(JSON.stringify({
+        type: 'error',
+        payload: { message: 'Conversation thread not found' },
+        timestamp: Date.now(),
+      }));
+      return;
+    }
+
+    // Work on this thread's history for the whole turn, even if another
+    // socket switches the active thread while we await the LLM
+    const history = await this.activateThread(session.userId, thread.id);
+    const isFirstMessage = history.length === 0;
+
+    let userMessage = history.at(-1);
+    if (!chatOptions.regenerate || userMessage?.role !== 'user') {
+      userMessage = {
+        id: crypto.randomUUID(),
+        role: 'user',
+        content,
+        timestamp: Date.now(),
+        threadId: thread.id,
+      };
+      await this.appendMessage(session.userId, history, userMessage);
 
-    await this.saveMessageToD1(session.userId, userMessage);
+      // Store user message embedding (silently fails if Vectorize unavailable in local dev)
+      await this.embedMessage(session.userId, userMessage);
+    }
 
-    // Store user message embedding (silently fails if Vectorize unavailable in local dev)
-    await this.vectorize.storeMessageEmbedding(
-      session.userId,
-      userMessage,
-      'conversation'
-    );
+    await this.threads.touchThread(session.userId, thread.id, isFirstMessage ? content : undefined);
 
-    // 🎯 PARSE DATES from user message (with timezone support)
+    const updatedThread = await this.threads.getThread(session.userId, thread.id);
+    if (updatedThread) {
+      ws.send(JSON.stringify({
+        type: 'thread_updated',
+        payload: updatedThread,
+        timestamp: Date.now(),
+      }));
+    }
+
+    const settings = await this.preferences.getGenerationSettings(session.userId, this.env);
+
+    // 🎯 PARSE DATES from user message (with timezone and language support)
     // Prefer session timezone (sent by browser on connect) over DB value
     const userTimezone = session.clientTimezone ?? await this.getUserTimezone(session.userId);
     this.dateParser.setTimezone(userTimezone);
+    this.dateParser.setLanguage(settings.language);
 
     let parsedDates = this.dateParser.parse(content);
     const now = Date.now();
@@ -860,136 +1241,548 @@ ${DEFAULT_SYSTEM_PROMPT}`;
       }
     }
 
-    const responseContent = await this.generateLLMResponseWithRAG(
-      session.userId,
-      content,
-      this.state.conversationHistory,
-      parsedDates,   // Pass parsed dates to LLM
-      userTimezone   // Pass user's timezone for correct TODAY/TOMORROW
-    );
-
-    let toolCalls = this.extractJSONBlocks(responseContent);
-
-    if (toolCalls.length > 0) {
-      console.log(`[PersonalAssistant] Detected ${toolCalls.length} tool call(s) in response`);
+    // Stream tokens to the client as they arrive unless disabled via env
+    const streamTo = this.env.LLM_STREAMING !== 'false' ? ws : undefined;
+    const summary = await this.loadConversationSummary(session.userId, thread.id, history);
+    const route = await this.routeMessage(session, thread.id, content);
+    const persona = await this.loadPersona(session.userId);
+    const facts = await this.loadFacts(session.userId, content);
+    const turn = this.startTurn(session.userId);
+    const llmOptions: LLMCallOptions = {
+      streamTo,
+      withTools: true,
+      threadId: thread.id,
+      searchAllThreads: chatOptions.searchAllThreads,
+      signal: turn.signal,
+      settings,
+      summary,
+      route,
+      persona,
+      facts,
+    };
+    const budget = new AgentBudget(getAgentLoopConfig(this.env));
+    const usage = { promptTokens: 0, completionTokens: 0, exact: tokenCounter.exact };
+    let answeredBy: string | undefined;  // Model of the latest call, recorded with the reply
+    let retrievedSources: SourceCitation[] = [];  // Numbered as in the latest RAG prompt
+    const recordUsage = (response: LLMResponse) => {
+      answeredBy = response.model ?? answeredBy;
+      retrievedSources = response.sources ?? retrievedSources;
+      budget.recordTokens(response.tokensUsed);
+      usage.promptTokens += response.promptTokens;
+      usage.completionTokens += response.completionTokens;
+    };
 
-      // Correct any incorrect dates in tool calls
-      const { toolCalls: correctedToolCalls, report } = this.dateCorrector.correctToolCallDates(
-        toolCalls,
-        parsedDates
+    let finalContent: string;
+    let cancelled = false;
+    let repairAttempts = 0;
+    try {
+      let response = await this.generateLLMResponseWithRAG(
+        session.userId,
+        content,
+        history,
+        parsedDates,   // Pass parsed dates to LLM
+        userTimezone,  // Pass user's timezone for correct TODAY/TOMORROW
+        { ...llmOptions }
       );
+      recordUsage(response);
+
+      // Agent loop: run the requested tools, feed the results back and ask again
+      // until the model answers without tools or the iteration/token budget runs out
+      while (true) {
+        // Prefer native tool calls; fall back to calls the model wrote as text.
+        // Either way the JSON never reaches the visible reply.
+        const parsed = extractToolCallsFromText(response.content, getToolNames());
+        const toolCalls = response.toolCalls.length > 0 ? response.toolCalls : parsed.toolCalls;
+
+        if (toolCalls.length === 0) {
+          finalContent = parsed.visibleText;
+          if (budget.iteration > 0) {
+            this.sendAgentStep(ws, thread.id, budget.step('done'));
+          }
+          break;
+        }
 
-      if (report.corrected) {
-        console.log(`[DATE CORRECTION] 🔧 Fixed ${report.changes.length} date(s):`);
-        report.changes.forEach(change => {
-          console.log(`  - ${change.toolName}.${change.field}: ${change.oldValue} → ${change.newValue}`);
-        });
-      }
+        // Fix dates, then validate: invalid calls go back to the model to be
+        // repaired before the user is asked to confirm anything
+        const checked = this.correctToolCallDates(toolCalls, parsedDates).map(validateToolCall);
+        const invalid = checked.filter((item): item is InvalidToolCall => !isValidToolCall(item));
+        if (invalid.length > 0 && repairAttempts < MAX_TOOL_REPAIR_ATTEMPTS) {
+          repairAttempts++;
+          console.warn(`[Agent] Asking the model to repair ${invalid.length} invalid tool call(s) (attempt ${repairAttempts}/${MAX_TOOL_REPAIR_ATTEMPTS})`);
+          this.sendAgentStep(ws, thread.id, budget.step('repairing', { tools: invalid.map(item => item.call.tool) }));
+
+          // The repair request is only for this call; it is not kept in history
+          const repairRequest: Message = {
+            id: crypto.randomUUID(),
+            role: 'system',
+            content: buildRepairPrompt(invalid),
+            timestamp: Date.now(),
+            threadId: thread.id,
+          };
+          response = await this.generateLLMResponseWithRAG(
+            session.userId,
+            content,
+            [...history, repairRequest],
+            parsedDates,
+            userTimezone,
+            { ...llmOptions }
+          );
+          recordUsage(response);
+          continue;
+        }
 
-      toolCalls = correctedToolCalls;
+        const toolNames = toolCalls.map(call => call.tool);
+        const stopReason = budget.startIteration();
+        if (stopReason) {
+          console.warn(`[Agent] Stopping tool loop (${stopReason}) after ${budget.iteration} iteration(s), ~${budget.tokensUsed} tokens`);
+          this.sendAgentStep(ws, thread.id, budget.step('limit_reached', { tools: toolNames, reason: stopReason }));
 
-      const toolResultMessage: string[] = [];
+          const limitNote = stopReason === 'max_iterations'
+            ? `I stopped after ${budget.iteration} rounds of tool calls without finishing (next step would have been: ${toolNames.join(', ')}). Let me know if you'd like me to continue.`
+            : `I stopped before running ${toolNames.join(', ')} because this request used up its processing budget. Let me know if you'd like me to continue.`;
+          finalContent = parsed.visibleText ? `${parsed.visibleText}\n\n${limitNote}` : limitNote;
+          break;
+        }
 
-      for (const toolCall of toolCalls) {
-        const executionResult = await this.executeToolsWithConfirmation(ws, session, toolCall);
+        console.log(`[Agent] Step ${budget.iteration}: ${toolCalls.length} tool call(s) - ${toolNames.join(', ')}`);
+        this.sendAgentStep(ws, thread.id, budget.step('calling_tools', { tools: toolNames }));
 
-        ws.send(JSON.stringify({
-          type: 'tool_execution_result',
-          payload: {
-            success: executionResult.success,
-            output: executionResult.output,
-            error: executionResult.error,
-            toolName: toolCall.tool,
-          },
-          timestamp: Date.now(),
-        }));
+        await this.runToolCalls(ws, session, checked, thread.id, history, turn.signal);
 
-        if (!executionResult.success && executionResult.error?.includes('refresh limit')) {
-          ws.send(JSON.stringify({ type: 'calendar_auth_expired', payload: {}, timestamp: Date.now() }));
-        }
-
-    const formattedResult = this.formatToolResultAsSystemMessage(toolCall.tool, executionResult);
-    toolResultMessage.push(formattedResult);
+        console.log('[PersonalAssistant] Calling LLM with tool results in context');
+        this.sendAgentStep(ws, thread.id, budget.step('thinking'));
 
-    const systemMessage: Message = {
-      id: crypto.randomUUID(),
-      role: 'system',
-      content: formattedResult,
-      timestamp: Date.now(),
-    };
-    this.state.conversationHistory.push(systemMessage);
+        response = await this.generateLLMResponseWithRAG(
+          session.userId,
+          content,
+          history,
+          parsedDates,  // Pass parsed dates to follow-up LLM call
+          userTimezone, // Pass user's timezone for correct TODAY/TOMORROW
+          { ...llmOptions }
+        );
+        recordUsage(response);
+      }
+    } catch (error) {
+      if (!(error instanceof TurnCancelledError)) throw error;
 
-    await this.saveMessageToD1(session.userId, systemMessage);
+      console.log(`[Agent] Turn cancelled by user after ${budget.iteration} tool iteration(s)`);
+      cancelled = true;
+      finalContent = cancelledReply(error.partialText);
+    } finally {
+      this.endTurn(session.userId, turn);
     }
 
-    console.log('[PersonalAssistant] Calling LLM with tool results in context');
-    const followUpResponse = await this.generateLLMResponseWithRAG(
-      session.userId,
-      content,
-      this.state.conversationHistory,
-      parsedDates,  // Pass parsed dates to follow-up LLM call
-      userTimezone  // Pass user's timezone for correct TODAY/TOMORROW
-    );
+    if (!finalContent) {
+      finalContent = budget.iteration > 0
+        ? 'Done - I have completed the requested actions.'
+        : 'I encountered an error processing your message. Please try again.';
+    }
+    const sources = citedSources(finalContent, retrievedSources);
 
     const assistantMessage: Message = {
       id: crypto.randomUUID(),
       role: 'assistant',
-      content: followUpResponse,
+      content: finalContent,
       timestamp: Date.now(),
+      threadId: thread.id,
+      metadata: {
+        ...(cancelled ? { cancelled: true } : {}),
+        usage,
+        ...(answeredBy ? { model: answeredBy } : {}),
+        ...(sources.length > 0 ? { sources } : {}),
+      },
     };
-    this.state.conversationHistory.push(assistantMessage);
-
-    await this.saveMessageToD1(session.userId, assistantMessage);
+    await this.appendMessage(session.userId, history, assistantMessage);
 
     // Store assistant message embedding (silently fails if Vectorize unavailable in local dev)
-    await this.vectorize.storeMessageEmbedding(
-      session.userId,
-      assistantMessage,
-      'conversation'
-    );
+    await this.embedMessage(session.userId, assistantMessage);
 
     ws.send(JSON.stringify({
       type: 'chat_response',
       payload: {
-        content: followUpResponse,
+        content: finalContent,
         messageId: assistantMessage.id,
+        userMessageId: userMessage.id,
+        ...(chatOptions.clientMessageId ? { clientMessageId: chatOptions.clientMessageId } : {}),
+        threadId: thread.id,
+        usage,
+        ...(answeredBy ? { model: answeredBy } : {}),
+        ...(sources.length > 0 ? { sources } : {}),
+        ...(cancelled ? { cancelled: true } : {}),
       },
       timestamp: assistantMessage.timestamp,
     }));
-    return;
+
+    if (chatOptions.branched) {
+      await this.sendBranch(ws, session.userId, thread.id, assistantMessage.id);
+    }
+
+    await this.updateConversationSummary(session.userId, thread.id, history, summary, settings);
   }
 
-  else {
-    // No tool calls - send direct response
-    const assistantMessage: Message = {
-      id: crypto.randomUUID(),
-      role: 'assistant',
-      content: responseContent,
+  // ==================== Conversation Branches ====================
+
+  /**
+   * Edit and resend a user message: the new text becomes a sibling of the
+   * original and the turn continues from there on a new branch
+   */
+  private async handleEditMessage(ws: WebSocket, session: WebSocketSession, payload: any) {
+    const content = payload?.content;
+    if (typeof content !== 'string' || !content.trim()) {
+      ws.send(JSON.stringify({ error: 'Chat message content is required' }));
+      return;
+    }
+
+    const original = await this.findBranchMessage(ws, session.userId, payload, 'user');
+    if (!original) {
+      return;
+    }
+
+    await this.startBranch(session.userId, original.threadId!, original.parentId);
+    await this.handleChatMessage(ws, session, content, {
+      threadId: original.threadId,
+      searchAllThreads: payload.searchAllThreads === true,
+      clientMessageId: typeof payload.clientMessageId === 'string' ? payload.clientMessageId : undefined,
+      branched: true,
+    });
+  }
+
+  /**
+   * Ask for another reply: the turn is re-run from the user message that
+   * prompted the given reply, and the new reply becomes its sibling
+   */
+  private async handleRegenerate(ws: WebSocket, session: WebSocketSession, payload: any) {
+    const original = await this.findBranchMessage(ws, session.userId, payload, 'assistant');
+    if (!original) {
+      return;
+    }
+
+    const history = await this.startBranch(session.userId, original.threadId!, original.parentId);
+    // Tool results of the old reply go too: the turn restarts from its user message
+    while (history.length > 0 && history[history.length - 1].role !== 'user') {
+      history.pop();
+    }
+
+    const userMessage = history.at(-1);
+    if (!userMessage) {
+      ws.send(JSON.stringify({
+        type: 'error',
+        payload: { message: 'Nothing to regenerate' },
+        timestamp: Date.now(),
+      }));
+      return;
+    }
+
+    await this.handleChatMessage(ws, session, userMessage.content, {
+      threadId: original.threadId,
+      searchAllThreads: payload.searchAllThreads === true,
+      regenerate: true,
+      branched: true,
+    });
+  }
+
+  /**
+   * Show another alternative: the thread moves to the newest branch below the
+   * chosen message
+   */
+  private async handleSwitchBranch(ws: WebSocket, session: WebSocketSession, payload: any) {
+    const message = await this.findBranchMessage(ws, session.userId, payload);
+    if (!message) {
+      return;
+    }
+
+    const threadId = message.threadId!;
+    const nodes = await this.branches.listNodes(session.userId, threadId);
+    const leafId = findLeaf(nodes, message.id);
+
+    await this.threads.setActiveLeaf(session.userId, threadId, leafId);
+    await this.startBranch(session.userId, threadId, leafId);
+    await this.sendBranch(ws, session.userId, threadId, leafId, nodes);
+  }
+
+  /**
+   * Look up the message a branch action refers to, answering with an error
+   * when it doesn't exist, belongs to another thread or has the wrong role
+   */
+  private async findBranchMessage(
+    ws: WebSocket,
+    userId: string,
+    payload: any,
+    role?: Message['role']
+  ): Promise<Message | null> {
+    const threadId = payload?.threadId;
+    const messageId = payload?.messageId;
+    if (typeof threadId !== 'string' || typeof messageId !== 'string') {
+      ws.send(JSON.stringify({ error: 'threadId and messageId are required' }));
+      return null;
+    }
+
+    await this.ensureUser(userId);
+    const message = await this.branches.getMessage(userId, messageId);
+    if (!message || message.threadId !== threadId || (role && message.role !== role)) {
+      ws.send(JSON.stringify({
+        type: 'error',
+        payload: { message: 'Message not found' },
+        timestamp: Date.now(),
+      }));
+      return null;
+    }
+    return message;
+  }
+
+  /**
+   * Make the branch ending at `leafId` the thread's in-memory history. Nothing
+   * is saved: the branch becomes active once a message is added to it.
+   */
+  private async startBranch(userId: string, threadId: string, leafId?: string): Promise<Message[]> {
+    this.state.conversationHistory = leafId
+      ? await this.branches.loadBranch(userId, threadId, leafId, CONTEXT_MAX_MESSAGES)
+      : [];
+    this.state.activeThreadId = threadId;
+    return this.state.conversationHistory;
+  }
+
+  // Send the branch ending at `leafId`, with the alternatives at each message
+  private async sendBranch(ws: WebSocket, userId: string, threadId: string, leafId: string, nodes?: BranchNode[]) {
+    const [messages, tree] = await Promise.all([
+      this.branches.loadBranch(userId, threadId, leafId, BRANCH_MESSAGES_LIMIT),
+      nodes ?? this.branches.listNodes(userId, threadId),
+    ]);
+
+    ws.send(JSON.stringify({
+      type: 'branch_switched',
+      payload: { threadId, activeLeafId: leafId, messages: annotateBranches(messages, tree) },
       timestamp: Date.now(),
-    };
+    }));
+  }
+
+  /**
+   * Pick retrieval and tools for this message. Follow-ups keep the previous
+   * turn's tools so "yes, do it" can still run what was proposed.
+   */
+  private async routeMessage(session: WebSocketSession, threadId: string, content: string): Promise<RouteDecision> {
+    if (this.env.INTENT_ROUTING === 'false') {
+      return GENERAL_ROUTE;
+    }
+
+    const previous = session.lastRoute?.threadId === threadId ? session.lastRoute.decision : undefined;
+    const route = withFollowUpTools(await this.router.route(content), previous);
+    session.lastRoute = { threadId, decision: route };
+
+    console.log(`[Router] ${route.intent} (score ${route.score.toFixed(2)}): retrieval ${route.needsRetrieval ? 'on' : 'off'}, tools ${route.tools ? route.tools.join(', ') || 'none' : 'all'}`);
+    return route;
+  }
+
+  private async loadPersona(userId: string): Promise<Persona> {
+    try {
+      return await this.personas.getPersona(userId);
+    } catch (error) {
+      console.error('[Persona] Error loading persona, using the default prompt:', error);
+      return {};
+    }
+  }
+
+  // Facts for this message's prompt; a failure only leaves them out
+  private async loadFacts(userId: string, content: string): Promise<string[]> {
+    try {
+      return selectFactsForPrompt(await this.facts.listFacts(userId), content);
+    } catch (error) {
+      console.error('[Facts] Error loading facts, leaving them out of the prompt:', error);
+      return [];
+    }
+  }
+
+  /**
+   * The thread's summary, if it still describes the active branch. After an
+   * edit or regenerate at or before the last summarized message it covers a
+   * branch the user left, so it is dropped and rebuilt from this one.
+   */
+  private async loadConversationSummary(userId: string, threadId: string, history: Message[]): Promise<ConversationSummary | null> {
+    try {
+      const summary = await this.summaries.getSummary(userId, threadId);
+      const leafId = history.at(-1)?.id;
+      if (!summary || !leafId || history.some(m => m.id === summary.lastMessageId)) {
+        return summary;
+      }
+
+      // Summarized messages are usually older than the loaded window
+      const nodes = await this.branches.listNodes(userId, threadId);
+      if (isOnBranch(nodes, summary.lastMessageId, leafId)) {
+        return summary;
+      }
 
-    this.state.conversationHistory.push(assistantMessage);
+      console.log(`[Summaries] Summary of thread ${threadId} covers another branch, dropping it`);
+      await this.summaries.deleteSummary(userId, threadId);
+      await this.vectorize.deleteEmbeddings([summaryEmbeddingId(threadId)]);
+      return null;
+    } catch (error) {
+      console.error('[Summaries] Error loading conversation summary:', error);
+      return null;
+    }
+  }
 
-    await this.saveMessageToD1(session.userId, assistantMessage);
+  /**
+   * Fold the thread's older messages into its rolling summary once the
+   * unsummarized history outgrows the prompt budget. Runs after the reply
+   * has been sent; a failure leaves the previous summary in place.
+   */
+  private async updateConversationSummary(
+    userId: string,
+    threadId: string,
+    history: Message[],
+    summary: ConversationSummary | null,
+    settings: GenerationSettings
+  ): Promise<void> {
+    try {
+      // Same share of the budget prepareRAGContext gives the conversation
+      const historyBudget = Math.floor(this.getPromptTokenBudget({ withTools: true, settings }) * 0.7)
+        - memoryManager.countMessageTokens(DEFAULT_SYSTEM_PROMPT);
+
+      const toSummarize = memoryManager.selectMessagesToSummarize(history, {
+        maxTokens: Math.max(historyBudget, MIN_HISTORY_TOKENS),
+        maxMessages: CONTEXT_MAX_MESSAGES,
+        threadId,
+        summary,
+      });
+      if (toSummarize.length === 0) {
+        return;
+      }
 
-    // store assitant message embedding (silently fails if vectorize unavailable in local dev)
+      console.log(`[Summaries] Summarizing ${toSummarize.length} older message(s) in thread ${threadId}`);
+      const content = await memoryManager.summarizeConversation(
+        toSummarize,
+        this.getLLMProvider(settings),
+        summary?.content
+      );
 
-    await this.vectorize.storeMessageEmbedding(
-      session.userId,
-      assistantMessage,
-      'conversation'
+      const lastMessage = toSummarize[toSummarize.length - 1];
+      const saved = await this.summaries.saveSummary(userId, {
+        threadId,
+        content,
+        lastMessageId: lastMessage.id,
+        coveredUntil: lastMessage.timestamp,
+        messageCount: (summary?.messageCount ?? 0) + toSummarize.length,
+      });
+
+      // Makes the summary retrievable by RAG from other threads
+      await this.vectorize.storeMessageEmbedding(userId, summaryEmbedding(saved), 'conversation');
+    } catch (error) {
+      console.error('[Summaries] Error updating conversation summary:', error);
+    }
+  }
+
+  // Register an in-flight chat turn so a `cancel` message can abort it
+  private startTurn(userId: string): AbortController {
+    const turn = new AbortController();
+    const turns = this.activeTurns.get(userId) ?? new Set<AbortController>();
+    turns.add(turn);
+    this.activeTurns.set(userId, turns);
+    return turn;
+  }
+
+  private endTurn(userId: string, turn: AbortController) {
+    const turns = this.activeTurns.get(userId);
+    turns?.delete(turn);
+    if (turns?.size === 0) {
+      this.activeTurns.delete(userId);
+    }
+  }
+
+  // Handle cancel: abort the user's in-flight LLM calls and pending tool confirmations
+  private handleCancel(session: WebSocketSession) {
+    const turns = this.activeTurns.get(session.userId);
+    console.log(`[Agent] Cancel requested by ${session.userId} (${turns?.size ?? 0} active turn(s))`);
+
+    turns?.forEach(turn => turn.abort());
+    this.confirmationHandler.cancelUserConfirmations(session.userId);
+  }
+
+  /**
+   * Execute one round of tool calls, adding each result to the conversation
+   * as a system message so the next LLM call can see it
+   */
+  // Correct any incorrect dates in tool calls
+  private correctToolCallDates(toolCalls: ToolCall[], parsedDates: ParsedDate[]): ToolCall[] {
+    const { toolCalls: correctedToolCalls, report } = this.dateCorrector.correctToolCallDates(
+      toolCalls,
+      parsedDates
     );
 
+    if (report.corrected) {
+      console.log(`[DATE CORRECTION] 🔧 Fixed ${report.changes.length} date(s):`);
+      report.changes.forEach(change => {
+        console.log(`  - ${change.toolName}.${change.field}: ${change.oldValue} → ${change.newValue}`);
+      });
+    }
+
+    return correctedToolCalls;
+  }
+
+  private async runToolCalls(
+    ws: WebSocket,
+    session: WebSocketSession,
+    checkedCalls: Array<ValidToolCall | InvalidToolCall>,
+    threadId: string,
+    history: Message[],
+    signal?: AbortSignal
+  ): Promise<void> {
+    for (const checked of checkedCalls) {
+      throwIfCancelled(signal);
+      const toolCall = checked.call;
+
+      // Calls still invalid after the repair attempts fail without asking the user
+      const executionResult = isValidToolCall(checked)
+        ? await this.executeToolsWithConfirmation(ws, session, checked)
+        : { success: false, error: `Invalid parameters: ${formatValidationIssues(checked)}` };
+
+      // A cancel resolves the pending confirmation as rejected; the tool never ran
+      if (!executionResult.success) {
+        throwIfCancelled(signal);
+      }
+
+      const params = isValidToolCall(checked) ? checked.params : toolCall.params;
+      const renderHint = this.getToolRenderHint(toolCall.tool, executionResult, params);
+
+      // The result is stored as a system message; its card is kept in the metadata for reloads
+      const systemMessage: Message = {
+        id: crypto.randomUUID(),
+        role: 'system',
+        content: this.formatToolResultAsSystemMessage(toolCall.tool, executionResult, params),
+        timestamp: Date.now(),
+        threadId,
+        ...(renderHint && { metadata: { renderHint } }),
+      };
+
+      ws.send(JSON.stringify({
+        type: 'tool_execution_result',
+        payload: {
+          success: executionResult.success,
+          output: executionResult.output,
+          error: executionResult.error,
+          toolName: toolCall.tool,
+          messageId: systemMessage.id,
+          threadId,
+          renderHint,
+        },
+        timestamp: Date.now(),
+      }));
+
+      if (!executionResult.success && executionResult.error?.includes('refresh limit')) {
+        ws.send(JSON.stringify({ type: 'calendar_auth_expired', payload: {}, timestamp: Date.now() }));
+      }
+
+      await this.appendMessage(session.userId, history, systemMessage);
+    }
+  }
+
+  // Send an agent loop progress event for a turn in the given thread
+  private sendAgentStep(ws: WebSocket, threadId: string, step: AgentStepPayload) {
     ws.send(JSON.stringify({
-      type: 'chat_response',
-      payload: {
-        content: responseContent,
-        messageId: assistantMessage.id,
-      },
-      timestamp: assistantMessage.timestamp,
+      type: 'agent_step',
+      payload: { ...step, threadId },
+      timestamp: Date.now(),
     }));
   }
-}
 
   // Handle task creation
   private async handleCreateTask(ws: WebSocket, session: WebSocketSession, data: any) {
@@ -1255,61 +2048,13 @@ ${DEFAULT_SYSTEM_PROMPT}`;
     userLimits.calendarEvents = userLimits.calendarEvents.filter(t => t > oneDayAgo);
   }
 
-  // Extract JSON blocks from LLM response (tool calls) - ReDoS-safe implementation
-  private extractJSONBlocks(text: string): Array<{ tool: string; params: any }> {
-    // Security: Limit input length to prevent ReDoS attacks (max 50KB)
-    const MAX_INPUT_LENGTH = 50 * 1024;
-    if (text.length > MAX_INPUT_LENGTH) {
-      console.warn(`[PersonalAssistant] Input too long for JSON extraction: ${text.length} chars (max ${MAX_INPUT_LENGTH})`);
-      return [];
-    }
-
-    const toolCalls: Array<{ tool: string; params: any }> = [];
-
-    try {
-      // Security: Use timeout wrapper for regex execution (max 1 second)
-      const timeoutMs = 1000;
-      const startTime = Date.now();
-
-      // More efficient regex without nested quantifiers (prevents ReDoS)
-      const jsonBlockRegex = /```json\n([^`]+)```/g;
-      let match;
-
-      while ((match = jsonBlockRegex.exec(text)) !== null) {
-        // Security: Check timeout
-        if (Date.now() - startTime > timeoutMs) {
-          console.warn('[PersonalAssistant] JSON extraction timeout exceeded');
-          break;
-        }
-
-        try {
-          const jsonContent = match[1].trim();
-          const parsed = JSON.parse(jsonContent);
-
-          if (parsed.tool && parsed.params) {
-            toolCalls.push({
-              tool: parsed.tool,
-              params: parsed.params
-            });
-          }
-        } catch (e) {
-          console.warn('[PersonalAssistant] Failed to parse JSON block:', e);
-        }
-      }
-    } catch (error) {
-      console.error('[PersonalAssistant] Error in JSON extraction:', error);
-    }
-
-    return toolCalls;
-  }
-
 /**
    * Execute tool calls with user confirmation
    */
   private async executeToolsWithConfirmation(
     ws: WebSocket,
     session: WebSocketSession,
-    toolCall: { tool: string; params: any }
+    { call: toolCall, params }: ValidToolCall
   ): Promise<{ success: boolean; output?: any; error?: string }> {
 
     try {
@@ -1333,11 +2078,11 @@ ${DEFAULT_SYSTEM_PROMPT}`;
         };
       }
 
-      // Create tool call summary for confirmation
+      // Create tool call summary for confirmation (the validated parameters that will run)
       const toolCallSummary = {
         toolName: toolCall.tool,
-        parameters: toolCall.params,
-        description: `Calling ${toolCall.tool} with ${JSON.stringify(toolCall.params)}`,
+        parameters: params,
+        description: `Calling ${toolCall.tool} with ${JSON.stringify(params)}`,
       };
 
       console.log(`[PersonalAssistant] Requesting confirmation for ${toolCall.tool}`);
@@ -1345,7 +2090,7 @@ ${DEFAULT_SYSTEM_PROMPT}`;
       // Request user confirmation
       const approved = await this.confirmationHandler.requestConfirmation(
         session.userId,
-        JSON.stringify({ tool: toolCall.tool, params: toolCall.params }, null, 2), // Formatted JSON for display
+        JSON.stringify({ tool: toolCall.tool, params }, null, 2), // Formatted JSON for display
         [toolCallSummary],
         (request) => {
           ws.send(JSON.stringify({
@@ -1367,18 +2112,8 @@ ${DEFAULT_SYSTEM_PROMPT}`;
 
       console.log('[PersonalAssistant] Tool execution approved, executing now');
 
-      // Validate parameters with Zod schema
-      const validationResult = toolDef.parameters.safeParse(toolCall.params);
-      if (!validationResult.success) {
-        console.error('[PersonalAssistant] Parameter validation failed:', validationResult.error);
-        return {
-          success: false,
-          error: `Invalid parameters: ${validationResult.error.message}`,
-        };
-      }
-
-      // Execute the tool
-      const result = await toolDef.execute(validationResult.data, toolContext);
+      // Execute the tool (params were validated before confirmation)
+      const result = await toolDef.execute(params, toolContext);
 
       console.log('[PersonalAssistant] Tool execution completed:', result.success ? 'SUCCESS' : 'FAILED');
 
@@ -1397,60 +2132,47 @@ ${DEFAULT_SYSTEM_PROMPT}`;
     }
   }
 
-// Convert raw tool output to contextual information for LLM
-private formatToolResultAsSystemMessage(
-  toolName: string,
-  result: { success: boolean; output?: any; error?: string 
-  }
-): string {
-  if (!result.success) {
-    return `[Tool Execution] ${toolName} failed: ${result.error || 'Unknown error'}`;
-  }
-
-     switch (toolName) {
-        case 'getWeather': {
-          const weather = result.output as any;
-          return `[Weather Data Retrieved] ${weather.city}, ${weather.country}: ${weather.temperature}°C (feels like ${weather.feelsLike}°C), ${weather.description}. Humidity: ${weather.humidity}%, Wind: ${weather.windSpeed} m/s`;
-        }
-
-        case 'sendEmail': {
-          const email = result.output as any;
-          return `[Email Sent] Successfully sent email to ${email.to} at ${email.submittedAt}. Message ID: ${email.messageId}`;
-        }
-
-        case 'createTask': {
-          const task = result.output as any;
-          return `[Task Created] "${task.title}" (ID: ${task.id}, Priority: ${task.priority}${task.dueDate ? ', Due: ' + new Date(task.dueDate).toISOString() : ''})`;
-        }
-        case 'listTasks': {
-          const tasks = result.output as any[];
-          if (tasks.length === 0) {
-            return `[Task List] No tasks found`;
-          }
-          const taskList = tasks.map(t => `- ${t.title} (${t.completed ? 'completed' : 'pending'})`).join('\n');
-          return `[Task List] Found ${tasks.length} task(s):\n${taskList}`;
-        }
+  // Convert raw tool output to contextual information for LLM, using the tool's own formatter
+  private formatToolResultAsSystemMessage(
+    toolName: string,
+    result: { success: boolean; output?: any; error?: string },
+    params: Record<string, any>
+  ): string {
+    if (!result.success) {
+      return `[Tool Execution] ${toolName} failed: ${result.error || 'Unknown error'}`;
+    }
 
-        case 'updateTask': {
-          const task = result.output as any;
-          return `[Task Updated] "${task.title}" has been updated successfully`;
-        }
+    const formatResult = getTool(toolName)?.formatResult;
+    if (formatResult) {
+      try {
+        return formatResult(result.output, params);
+      } catch (error) {
+        console.error(`[PersonalAssistant] formatResult failed for ${toolName}:`, error);
+      }
+    }
 
-        case 'completeTask': {
-          const task = result.output as any;
-          return `[Task Completed] "${task.title}" marked as complete`;
-        }
+    // Generic fallback for tools without a formatter
+    return `[Tool Executed] ${toolName} completed successfully with result: ${JSON.stringify(result.output)}`;
+  }
 
-        case 'deleteTask': {
-          return `[Task Deleted] Task has been removed successfully`;
-        }
+  // Card for the frontend; a broken renderHint just means no card
+  private getToolRenderHint(
+    toolName: string,
+    result: { success: boolean; output?: any },
+    params: Record<string, any>
+  ): ToolRenderHint | undefined {
+    const renderHint = getTool(toolName)?.renderHint;
+    if (!result.success || !renderHint) {
+      return undefined;
+    }
 
-        default: {
-          // Generic fallback for unknown tools
-          return `[Tool Executed] ${toolName} completed successfully with result: ${JSON.stringify(result.output)}`;
-        }
-      }
+    try {
+      return renderHint(result.output, params);
+    } catch (error) {
+      console.error(`[PersonalAssistant] renderHint failed for ${toolName}:`, error);
+      return undefined;
     }
+  }
 
 
   // Load state from Durable Object storage
@@ -1460,9 +2182,10 @@ private formatToolResultAsSystemMessage(
       this.state = stored;
       this.userId = stored.userId;
 
-      if(this.userId) {
-        this.state.conversationHistory = await this.loadConversationHistory(this.userId);
-
+      if (this.userId && stored.activeThreadId) {
+        this.state.conversationHistory = await this.loadConversationHistory(this.userId, stored.activeThreadId);
+      } else {
+        this.state.conversationHistory = [];
       }
      
       this.rebuildSessions();
@@ -0,0 +1,92 @@
+import { Env } from '../types/env';
+import { getConnectionId, nangoProxyRequest } from '../mcp/tools/NangoCalendarTool';
+import { ianaToChronoOffset } from '../utils/DateParser';
+import { ContextProvider, getLocalDay } from './context';
+
+/**
+ * Agenda context providers: overdue and due-today tasks, and today's
+ * Google Calendar events when the calendar is connected
+ */
+
+export const AGENDA_TASK_LIMIT = 20;   // Rows fetched; the token budget usually keeps fewer
+export const AGENDA_EVENT_LIMIT = 20;
+
+/**
+ * Start and end (ms) of the user's local day
+ */
+export function getLocalDayBounds(timezone: string, now: Date): { start: number; end: number } {
+    const [year, month, day] = getLocalDay(timezone, now).split('-').map(Number);
+    const start = Date.UTC(year, month - 1, day) - ianaToChronoOffset(timezone, now) * 60000;
+    return { start, end: start + 86400000 };
+}
+
+function formatLocal(ms: number, timezone: string, withDate: boolean): string {
+    return new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        ...(withDate && { month: 'short', day: 'numeric' }),
+        hour: 'numeric',
+        minute: '2-digit',
+    }).format(new Date(ms));
+}
+
+export function createTaskAgendaProvider(db: D1Database): ContextProvider {
+    return {
+        id: 'tasks',
+        title: "Today's Tasks (overdue and due today)",
+        maxTokens: 300,
+        ttlMs: 30 * 60 * 1000,  // Task mutations invalidate it sooner; this catches overdue transitions
+        async load({ userId, timezone, now }) {
+            const { end } = getLocalDayBounds(timezone, now);
+            const result = await db.prepare(
+                'SELECT id, title, due_date, priority FROM tasks WHERE user_id = ? AND completed = 0 AND due_date IS NOT NULL AND due_date < ? ORDER BY due_date ASC LIMIT ?'
+            ).bind(userId, end, AGENDA_TASK_LIMIT).all();
+
+            return (result.results || []).map((row: any) => {
+                const due = row.due_date as number;
+                const when = due < now.getTime()
+                    ? `overdue since ${formatLocal(due, timezone, true)}`
+                    : `due ${formatLocal(due, timezone, false)}`;
+                return `- ${row.title} (${when}, ${row.priority || 'medium'} priority, ID: ${row.id})`;
+            });
+        },
+    };
+}
+
+export function createCalendarAgendaProvider(env: Env): ContextProvider {
+    return {
+        id: 'calendar',
+        title: "Today's Calendar",
+        maxTokens: 200,
+        ttlMs: 10 * 60 * 1000,  // Events can change outside the assistant
+        async load({ userId, timezone, now }) {
+            if (!env.NANGO_SECRET_KEY) {
+                return [];
+            }
+            const connectionId = await getConnectionId(env.DB, userId);
+            if (!connectionId) {
+                return [];
+            }
+
+            const { start, end } = getLocalDayBounds(timezone, now);
+            const query = new URLSearchParams({
+                timeMin: new Date(start).toISOString(),
+                timeMax: new Date(end).toISOString(),
+                singleEvents: 'true',
+                orderBy: 'startTime',
+                maxResults: String(AGENDA_EVENT_LIMIT),
+            });
+            const response = await nangoProxyRequest(env, connectionId, `/calendar/v3/calendars/primary/events?${query}`);
+            if (!response.ok) {
+                throw new Error(`Calendar API error: ${response.status}`);
+            }
+
+            const data: any = await response.json();
+            return (data.items || []).map((event: any) => {
+                const when = event.start?.dateTime
+                    ? `${formatLocal(Date.parse(event.start.dateTime), timezone, false)}–${formatLocal(Date.parse(event.end?.dateTime ?? event.start.dateTime), timezone, false)}`
+                    : 'All day';
+                return `- ${when}: ${event.summary || '(no title)'}`;
+            });
+        },
+    };
+}
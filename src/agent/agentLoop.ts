@@ -0,0 +1,98 @@
+/**
+ * Agent loop budget
+ *
+ * handleChatMessage keeps executing tools and calling the LLM until the model
+ * stops asking for tools. The loop is bounded by a maximum number of tool
+ * iterations and a token budget shared by every LLM call in the turn.
+ */
+
+export interface AgentLoopConfig {
+    maxIterations: number;
+    tokenBudget: number;
+}
+
+export type AgentStepStatus = 'calling_tools' | 'repairing' | 'thinking' | 'done' | 'limit_reached';
+
+export type AgentStopReason = 'max_iterations' | 'token_budget';
+
+/**
+ * Payload of the `agent_step` progress event sent to the client
+ */
+export interface AgentStepPayload {
+    iteration: number;
+    maxIterations: number;
+    status: AgentStepStatus;
+    tools?: string[];
+    tokensUsed: number;
+    tokenBudget: number;
+    reason?: AgentStopReason;
+    threadId?: string;      // Thread the turn belongs to
+}
+
+export const DEFAULT_AGENT_LOOP_CONFIG: AgentLoopConfig = {
+    maxIterations: 5,
+    tokenBudget: 20000,
+};
+
+/**
+ * Read loop limits from env, falling back to defaults for missing/invalid values
+ */
+export function getAgentLoopConfig(env: { AGENT_MAX_ITERATIONS?: string; AGENT_TOKEN_BUDGET?: string }): AgentLoopConfig {
+    const positiveInt = (value: string | undefined, fallback: number) => {
+        const parsed = parseInt(value || '', 10);
+        return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+    };
+
+    return {
+        maxIterations: positiveInt(env.AGENT_MAX_ITERATIONS, DEFAULT_AGENT_LOOP_CONFIG.maxIterations),
+        tokenBudget: positiveInt(env.AGENT_TOKEN_BUDGET, DEFAULT_AGENT_LOOP_CONFIG.tokenBudget),
+    };
+}
+
+/**
+ * Tracks iterations and tokens for a single chat turn
+ */
+export class AgentBudget {
+    private iterations = 0;
+    private tokens = 0;
+
+    constructor(private config: AgentLoopConfig) {}
+
+    get iteration(): number {
+        return this.iterations;
+    }
+
+    get tokensUsed(): number {
+        return this.tokens;
+    }
+
+    recordTokens(tokens: number): void {
+        this.tokens += Math.max(0, tokens);
+    }
+
+    /**
+     * Check whether another round of tool calls may run and, if so, count it.
+     * Returns the reason the loop must stop, or null to continue.
+     */
+    startIteration(): AgentStopReason | null {
+        if (this.iterations >= this.config.maxIterations) {
+            return 'max_iterations';
+        }
+        if (this.tokens >= this.config.tokenBudget) {
+            return 'token_budget';
+        }
+        this.iterations++;
+        return null;
+    }
+
+    step(status: AgentStepStatus, extra: Partial<AgentStepPayload> = {}): AgentStepPayload {
+        return {
+            iteration: this.iterations,
+            maxIterations: this.config.maxIterations,
+            status,
+            tokensUsed: this.tokens,
+            tokenBudget: this.config.tokenBudget,
+            ...extra,
+        };
+    }
+}
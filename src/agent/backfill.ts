@@ -0,0 +1,322 @@
+import { z } from 'zod';
+import { EmbeddingBackfill, Env, Message } from '../types/env';
+import { VectorizeManager } from './vectorize';
+import { knowledgeEmbeddingId, knowledgeText } from './knowledge';
+import { summaryEmbedding } from './summaries';
+import { taskEmbedding } from './taskSearch';
+
+/**
+ * Embedding backfill and re-embed
+ *
+ * Messages saved while Vectorize was unavailable (local dev, outages) have no
+ * vector, and changing the embedding model means every vector has to be made
+ * again. A backfill walks a user's `conversations`, `knowledge_entries`,
+ * `tasks` and `conversation_summaries` in rowid order, one batch per workflow
+ * step (see EmbeddingBackfillWorkflow), and checkpoints its cursor in
+ * `embedding_backfills` after every batch. Starting a backfill that matches an
+ * unfinished one continues from that checkpoint.
+ *
+ * - 'missing' embeds rows whose `vector_id` is NULL. Rows that do have a
+ *   vector (embedded before vector_id was tracked) are only marked. Tasks and
+ *   summaries have no vector_id, so their vectors are looked up in the index.
+ * - 'full' re-embeds every row, either in place or into the index bound as
+ *   VECTORIZE_NEXT, which then replaces VECTORIZE. vector_id describes the
+ *   live index, so it is left alone while filling a new one.
+ */
+export const EmbeddingBackfillSchema = z.object({
+    userId: z.string().min(1)
+        .describe('Internal user ID whose history is embedded'),
+    mode: z.enum(['missing', 'full']).default('missing')
+        .describe('Embed only rows without a vector, or every row'),
+    indexName: z.string().trim().min(1).optional()
+        .describe('Fill this new index instead of the live one (must be VECTORIZE_NEXT_INDEX)'),
+}).strict().refine(input => !input.indexName || input.mode === 'full', {
+    message: 'A new index can only be filled by a full re-embed',
+    path: ['indexName'],
+});
+
+export type EmbeddingBackfillRequest = z.infer<typeof EmbeddingBackfillSchema>;
+
+export const BACKFILL_BATCH_SIZE = 100;  // Rows per workflow step
+
+// Tables in the order a backfill walks them
+const BACKFILL_PHASES: Array<EmbeddingBackfill['phase']> = ['conversations', 'knowledge', 'tasks', 'summaries', 'done'];
+
+type VectorType = 'conversation' | 'knowledge' | 'task';
+
+/**
+ * The index a backfill writes to, or null when it isn't bound
+ */
+export function resolveBackfillIndex(env: Env, indexName?: string): VectorizeIndex | null {
+    if (!indexName) {
+        return env.VECTORIZE ?? null;
+    }
+    return indexName === env.VECTORIZE_NEXT_INDEX ? env.VECTORIZE_NEXT ?? null : null;
+}
+
+/**
+ * D1 access for backfill runs and their checkpoints
+ */
+export class EmbeddingBackfillStore {
+    private db: D1Database;
+
+    constructor(db: D1Database) {
+        this.db = db;
+    }
+
+    private mapDbBackfillToBackfill(row: any): EmbeddingBackfill {
+        return {
+            id: row.id as string,
+            userId: row.user_id as string,
+            mode: row.mode as EmbeddingBackfill['mode'],
+            indexName: (row.index_name as string | null) ?? undefined,
+            workflowId: (row.workflow_id as string | null) ?? undefined,
+            status: row.status as EmbeddingBackfill['status'],
+            phase: row.phase as EmbeddingBackfill['phase'],
+            cursor: row.cursor as number,
+            scanned: row.scanned as number,
+            embedded: row.embedded as number,
+            error: (row.error as string | null) ?? undefined,
+            createdAt: (row.created_at as number) * 1000,
+            updatedAt: (row.updated_at as number) * 1000,
+        };
+    }
+
+    async getBackfill(backfillId: string): Promise<EmbeddingBackfill | null> {
+        const row = await this.db.prepare(
+            'SELECT * FROM embedding_backfills WHERE id = ?'
+        ).bind(backfillId).first();
+
+        return row ? this.mapDbBackfillToBackfill(row) : null;
+    }
+
+    /**
+     * Latest unfinished run for the same user, mode and index
+     */
+    async findUnfinished(request: EmbeddingBackfillRequest): Promise<EmbeddingBackfill | null> {
+        const row = await this.db.prepare(
+            `SELECT * FROM embedding_backfills WHERE user_id = ? AND mode = ? AND index_name IS ? AND status != 'complete'
+             ORDER BY created_at DESC LIMIT 1`
+        ).bind(request.userId, request.mode, request.indexName ?? null).first();
+
+        return row ? this.mapDbBackfillToBackfill(row) : null;
+    }
+
+    async createBackfill(request: EmbeddingBackfillRequest, workflowId: string): Promise<EmbeddingBackfill> {
+        const id = crypto.randomUUID();
+        const now = Math.floor(Date.now() / 1000);
+
+        await this.db.prepare(
+            `INSERT INTO embedding_backfills (id, user_id, mode, index_name, workflow_id, status, phase, cursor, scanned, embedded, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, 'running', 'conversations', 0, 0, 0, ?, ?)`
+        ).bind(id, request.userId, request.mode, request.indexName ?? null, workflowId, now, now).run();
+
+        console.log(`[Backfill] Created ${request.mode} backfill ${id} for user ${request.userId}`);
+
+        return {
+            id,
+            userId: request.userId,
+            mode: request.mode,
+            indexName: request.indexName,
+            workflowId,
+            status: 'running',
+            phase: 'conversations',
+            cursor: 0,
+            scanned: 0,
+            embedded: 0,
+            createdAt: now * 1000,
+            updatedAt: now * 1000,
+        };
+    }
+
+    /**
+     * Hand an unfinished run to a new workflow instance, keeping its checkpoint
+     */
+    async resumeBackfill(backfill: EmbeddingBackfill, workflowId: string): Promise<EmbeddingBackfill> {
+        const now = Math.floor(Date.now() / 1000);
+        await this.db.prepare(
+            `UPDATE embedding_backfills SET workflow_id = ?, status = 'running', error = NULL, updated_at = ? WHERE id = ?`
+        ).bind(workflowId, now, backfill.id).run();
+
+        console.log(`[Backfill] Resuming backfill ${backfill.id} at ${backfill.phase} after row ${backfill.cursor}`);
+        return { ...backfill, workflowId, status: 'running', error: undefined, updatedAt: now * 1000 };
+    }
+
+    async saveCheckpoint(backfill: EmbeddingBackfill): Promise<void> {
+        await this.db.prepare(
+            'UPDATE embedding_backfills SET status = ?, phase = ?, cursor = ?, scanned = ?, embedded = ?, updated_at = ? WHERE id = ?'
+        ).bind(
+            backfill.status, backfill.phase, backfill.cursor, backfill.scanned, backfill.embedded,
+            Math.floor(Date.now() / 1000), backfill.id,
+        ).run();
+    }
+
+    async setFailed(backfillId: string, error: string): Promise<void> {
+        await this.db.prepare(
+            `UPDATE embedding_backfills SET status = 'failed', error = ?, updated_at = ? WHERE id = ?`
+        ).bind(error, Math.floor(Date.now() / 1000), backfillId).run();
+    }
+}
+
+/**
+ * Embeds one batch of a backfill at a time
+ */
+export class EmbeddingBackfiller {
+    private db: D1Database;
+    private vectorize: VectorizeManager;   // Writes to the backfill's target index
+    private store: EmbeddingBackfillStore;
+
+    constructor(db: D1Database, vectorize: VectorizeManager, store: EmbeddingBackfillStore) {
+        this.db = db;
+        this.vectorize = vectorize;
+        this.store = store;
+    }
+
+    /**
+     * Embed the batch after the cursor and save the checkpoint that follows it.
+     * A short batch ends the phase; the run is complete after summaries.
+     */
+    async runBatch(backfill: EmbeddingBackfill): Promise<EmbeddingBackfill> {
+        if (backfill.phase === 'done') {
+            return backfill;
+        }
+
+        const { rows, vectors, type } = await this.loadBatch(backfill);
+        const embedded = await this.storeVectors(backfill, vectors, type);
+
+        const next: EmbeddingBackfill = {
+            ...backfill,
+            cursor: rows.length > 0 ? (rows[rows.length - 1].rowid as number) : backfill.cursor,
+            scanned: backfill.scanned + rows.length,
+            embedded: backfill.embedded + embedded,
+        };
+        if (rows.length < BACKFILL_BATCH_SIZE) {
+            next.phase = BACKFILL_PHASES[BACKFILL_PHASES.indexOf(backfill.phase) + 1];
+            next.cursor = 0;
+            if (next.phase === 'done') {
+                next.status = 'complete';
+            }
+        }
+
+        await this.store.saveCheckpoint(next);
+        console.log(`[Backfill] ${backfill.id}: ${backfill.phase} batch of ${rows.length}, ${embedded} embedded`);
+        return next;
+    }
+
+    private async loadBatch(backfill: EmbeddingBackfill): Promise<{ rows: Record<string, unknown>[]; vectors: Message[]; type: VectorType }> {
+        switch (backfill.phase) {
+            case 'conversations':
+                return { ...await this.loadConversations(backfill), type: 'conversation' };
+            case 'knowledge':
+                return { ...await this.loadKnowledge(backfill), type: 'knowledge' };
+            case 'tasks':
+                return { ...await this.loadTasks(backfill), type: 'task' };
+            default:
+                return { ...await this.loadSummaries(backfill), type: 'conversation' };
+        }
+    }
+
+    private async loadConversations(backfill: EmbeddingBackfill) {
+        const missingClause = backfill.mode === 'missing' ? ' AND vector_id IS NULL' : '';
+        const result = await this.db.prepare(
+            `SELECT rowid, id, thread_id, role, content, timestamp FROM conversations
+             WHERE user_id = ? AND role IN ('user', 'assistant') AND rowid > ?${missingClause}
+             ORDER BY rowid LIMIT ?`
+        ).bind(backfill.userId, backfill.cursor, BACKFILL_BATCH_SIZE).all();
+
+        const rows = result.results || [];
+        const vectors: Message[] = rows.map(row => ({
+            id: row.id as string,
+            role: row.role as Message['role'],
+            content: row.content as string,
+            timestamp: (row.timestamp as number) * 1000,
+            threadId: (row.thread_id as string | null) ?? undefined,
+        }));
+        return { rows, vectors };
+    }
+
+    private async loadKnowledge(backfill: EmbeddingBackfill) {
+        const missingClause = backfill.mode === 'missing' ? ' AND vector_id IS NULL' : '';
+        const result = await this.db.prepare(
+            `SELECT rowid, * FROM knowledge_entries
+             WHERE user_id = ? AND rowid > ?${missingClause}
+             ORDER BY rowid LIMIT ?`
+        ).bind(backfill.userId, backfill.cursor, BACKFILL_BATCH_SIZE).all();
+
+        const rows = result.results || [];
+        // Same ids and metadata as KnowledgeStore and DocumentStore give them
+        const vectors: Message[] = rows.map(row => ({
+            id: knowledgeEmbeddingId(row.id as string),
+            role: 'system',
+            content: knowledgeText({ title: (row.title as string | null) ?? undefined, content: row.content as string }),
+            timestamp: ((row.updated_at ?? row.created_at) as number) * 1000,
+            metadata: {
+                entryId: row.id,
+                ...(row.document_id ? { documentId: row.document_id, chunkIndex: row.chunk_index } : {}),
+                ...(row.heading ? { heading: row.heading } : {}),
+            },
+        }));
+        return { rows, vectors };
+    }
+
+    private async loadTasks(backfill: EmbeddingBackfill) {
+        const result = await this.db.prepare(
+            'SELECT rowid, id, title, description, completed, created_at FROM tasks WHERE user_id = ? AND rowid > ? ORDER BY rowid LIMIT ?'
+        ).bind(backfill.userId, backfill.cursor, BACKFILL_BATCH_SIZE).all();
+
+        const rows = result.results || [];
+        const vectors = rows.map(row => taskEmbedding({
+            id: row.id as string,
+            title: row.title as string,
+            description: (row.description as string | null) ?? undefined,
+            completed: Boolean(row.completed),
+            createdAt: row.created_at as number,
+        }));
+        return { rows, vectors };
+    }
+
+    private async loadSummaries(backfill: EmbeddingBackfill) {
+        const result = await this.db.prepare(
+            'SELECT rowid, thread_id, content, updated_at FROM conversation_summaries WHERE user_id = ? AND rowid > ? ORDER BY rowid LIMIT ?'
+        ).bind(backfill.userId, backfill.cursor, BACKFILL_BATCH_SIZE).all();
+
+        const rows = result.results || [];
+        const vectors = rows.map(row => summaryEmbedding({
+            threadId: row.thread_id as string,
+            content: row.content as string,
+            updatedAt: (row.updated_at as number) * 1000,
+        }));
+        return { rows, vectors };
+    }
+
+    /**
+     * Store the batch's vectors and record them on the rows that track it.
+     * Returns how many were embedded.
+     */
+    private async storeVectors(backfill: EmbeddingBackfill, vectors: Message[], type: VectorType): Promise<number> {
+        if (vectors.length === 0) {
+            return 0;
+        }
+
+        let toEmbed = vectors;
+        if (backfill.mode === 'missing') {
+            const existing = await this.vectorize.getExistingIds(vectors.map(vector => vector.id));
+            toEmbed = vectors.filter(vector => !existing.has(vector.id));
+        }
+        if (toEmbed.length > 0) {
+            await this.vectorize.batchStoreEmbeddings(backfill.userId, toEmbed, type);
+        }
+
+        if (!backfill.indexName && (backfill.phase === 'conversations' || backfill.phase === 'knowledge')) {
+            await this.db.batch(vectors.map(vector => backfill.phase === 'conversations'
+                ? this.db.prepare(
+                    'UPDATE conversations SET vector_id = ? WHERE id = ? AND user_id = ?'
+                ).bind(vector.id, vector.id, backfill.userId)
+                : this.db.prepare(
+                    'UPDATE knowledge_entries SET vector_id = ? WHERE id = ? AND user_id = ?'
+                ).bind(vector.id, vector.metadata!.entryId, backfill.userId)
+            ));
+        }
+        return toEmbed.length;
+    }
+}
@@ -0,0 +1,165 @@
+import { BranchInfo, Message } from '../types/env';
+
+/**
+ * Conversation branching
+ *
+ * Messages form a tree per thread: each row points at the message it follows
+ * (`parent_id`). Editing a user message adds a sibling of it, regenerating a
+ * reply adds a sibling of the old reply, and the thread's `active_leaf_id`
+ * says which branch the user is on. Context is the path from the root to
+ * that leaf, so the model only ever sees one branch.
+ */
+export interface BranchNode {
+    id: string;
+    parentId: string | null;
+    role: Message['role'];
+}
+
+/**
+ * Children of a message (null for the thread's first messages), oldest first.
+ * Nodes are expected in insertion order.
+ */
+export function getChildren(nodes: BranchNode[], parentId: string | null): BranchNode[] {
+    return nodes.filter(node => node.parentId === parentId);
+}
+
+/**
+ * Leaf reached from a message by always following its newest child, i.e.
+ * the most recent branch below it
+ */
+export function findLeaf(nodes: BranchNode[], messageId: string): string {
+    let leaf = messageId;
+    const seen = new Set<string>();
+    while (!seen.has(leaf)) {
+        seen.add(leaf);
+        const children = getChildren(nodes, leaf);
+        if (children.length === 0) {
+            break;
+        }
+        leaf = children[children.length - 1].id;
+    }
+    return leaf;
+}
+
+/**
+ * Ids of the messages on the branch ending at `leafId`, the leaf included
+ */
+export function branchIds(nodes: BranchNode[], leafId: string): Set<string> {
+    const parents = new Map(nodes.map(node => [node.id, node.parentId]));
+    const ids = new Set<string>();
+    for (let current: string | null | undefined = leafId; current && !ids.has(current); current = parents.get(current)) {
+        ids.add(current);
+    }
+    return ids;
+}
+
+/**
+ * Whether a message is on the branch ending at `leafId` (the leaf itself counts)
+ */
+export function isOnBranch(nodes: BranchNode[], messageId: string, leafId: string): boolean {
+    return branchIds(nodes, leafId).has(messageId);
+}
+
+/**
+ * Attach sibling info to the messages of a branch that have alternatives.
+ * Tool results are hidden in the UI, so when a regenerated reply diverges at
+ * a tool result the info moves to the next visible message.
+ */
+export function annotateBranches(path: Message[], nodes: BranchNode[]): Message[] {
+    const parents = new Map(nodes.map(node => [node.id, node.parentId]));
+    let pending: BranchInfo | undefined;
+
+    return path.map(message => {
+        let branch: BranchInfo | undefined;
+        if (parents.has(message.id)) {
+            const siblings = getChildren(nodes, parents.get(message.id) ?? null);
+            if (siblings.length > 1) {
+                branch = { siblingIds: siblings.map(s => s.id), index: siblings.findIndex(s => s.id === message.id) };
+            }
+        }
+
+        if (message.role === 'system') {
+            pending = branch ?? pending;
+            return message;
+        }
+
+        branch = branch ?? pending;
+        pending = undefined;
+        return branch ? { ...message, branch } : message;
+    });
+}
+
+/**
+ * D1 access for the message tree of a thread
+ */
+export class BranchStore {
+    private db: D1Database;
+
+    constructor(db: D1Database) {
+        this.db = db;
+    }
+
+    private mapDbMessageToMessage(row: any, threadId: string): Message {
+        return {
+            id: row.id as string,
+            role: row.role as Message['role'],
+            content: row.content as string,
+            timestamp: (row.timestamp as number) * 1000,
+            threadId,
+            parentId: (row.parent_id as string | null) ?? undefined,
+            metadata: row.metadata ? JSON.parse(row.metadata as string) : undefined,
+        };
+    }
+
+    async getMessage(userId: string, messageId: string): Promise<Message | null> {
+        const row = await this.db.prepare(
+            'SELECT id, thread_id, parent_id, role, content, timestamp, metadata FROM conversations WHERE id = ? AND user_id = ?'
+        ).bind(messageId, userId).first();
+
+        return row ? this.mapDbMessageToMessage(row, row.thread_id as string) : null;
+    }
+
+    /**
+     * Every message of a thread without content, for walking the tree
+     */
+    async listNodes(userId: string, threadId: string): Promise<BranchNode[]> {
+        const result = await this.db.prepare(
+            'SELECT id, parent_id, role FROM conversations WHERE user_id = ? AND thread_id = ? ORDER BY timestamp ASC, rowid ASC'
+        ).bind(userId, threadId).all();
+
+        return (result.results || []).map(row => ({
+            id: row.id as string,
+            parentId: (row.parent_id as string | null) ?? null,
+            role: row.role as Message['role'],
+        }));
+    }
+
+    /**
+     * The last `limit` messages of the branch ending at `leafId`, oldest first.
+     * Without a leaf (threads from before branching) the newest messages of
+     * the thread are returned instead.
+     */
+    async loadBranch(userId: string, threadId: string, leafId: string | null | undefined, limit: number): Promise<Message[]> {
+        if (!leafId) {
+            const result = await this.db.prepare(
+                'SELECT id, role, content, timestamp, metadata FROM conversations WHERE user_id = ? AND thread_id = ? ORDER BY timestamp DESC, rowid DESC LIMIT ?'
+            ).bind(userId, threadId, limit).all();
+
+            return (result.results || []).reverse().map(row => this.mapDbMessageToMessage(row, threadId));
+        }
+
+        const result = await this.db.prepare(
+            `WITH RECURSIVE branch(id, parent_id, role, content, timestamp, metadata, depth) AS (
+               SELECT id, parent_id, role, content, timestamp, metadata, 0
+               FROM conversations WHERE id = ? AND user_id = ? AND thread_id = ?
+               UNION ALL
+               SELECT c.id, c.parent_id, c.role, c.content, c.timestamp, c.metadata, branch.depth + 1
+               FROM conversations c JOIN branch ON c.id = branch.parent_id
+               WHERE c.user_id = ? AND branch.depth + 1 < ?
+             )
+             SELECT id, parent_id, role, content, timestamp, metadata FROM branch ORDER BY depth DESC`
+        ).bind(leafId, userId, threadId, userId, limit).all();
+
+        return (result.results || []).map(row => this.mapDbMessageToMessage(row, threadId));
+    }
+}
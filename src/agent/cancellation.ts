@@ -0,0 +1,47 @@
+/**
+ * Chat turn cancellation
+ *
+ * Each chat turn owns an AbortController. A `cancel` message from the client
+ * aborts it; the LLM call and tool loop notice via the signal and unwind with
+ * TurnCancelledError, carrying whatever reply text was streamed so far.
+ */
+
+export const CANCELLED_NOTE = '[Cancelled by user]';
+
+export class TurnCancelledError extends Error {
+    constructor(public partialText: string = '') {
+        super('Chat turn cancelled');
+        this.name = 'TurnCancelledError';
+    }
+}
+
+/**
+ * Throw if the turn has been cancelled
+ */
+export function throwIfCancelled(signal: AbortSignal | undefined, partialText?: string): void {
+    if (signal?.aborted) {
+        throw new TurnCancelledError(partialText);
+    }
+}
+
+/**
+ * Promise that rejects with TurnCancelledError once the signal aborts.
+ * Race it against work that can't be interrupted directly.
+ */
+export function whenCancelled(signal: AbortSignal, partialText: () => string = () => ''): Promise<never> {
+    return new Promise<never>((_, reject) => {
+        if (signal.aborted) {
+            reject(new TurnCancelledError(partialText()));
+            return;
+        }
+        signal.addEventListener('abort', () => reject(new TurnCancelledError(partialText())), { once: true });
+    });
+}
+
+/**
+ * Text recorded in history for a cancelled turn
+ */
+export function cancelledReply(partialText: string): string {
+    const text = partialText.trim();
+    return text ? `${text}\n\n${CANCELLED_NOTE}` : CANCELLED_NOTE;
+}
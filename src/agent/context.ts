@@ -0,0 +1,126 @@
+import { tokenCounter } from './tokenizer';
+
+/**
+ * Proactive context for the system prompt
+ *
+ * Context providers add a short section (e.g. today's agenda) to every
+ * prompt so the model can answer "what should I do today?" without a tool
+ * round trip. Each provider has its own token budget and can be turned off
+ * per user. Sections are cached per Durable Object instance until they are
+ * invalidated (e.g. by a task mutation), their TTL runs out or the user's
+ * local day changes.
+ */
+
+export interface ContextRequest {
+    userId: string;
+    timezone: string;  // IANA timezone; "today" is the user's local day
+    now: Date;
+}
+
+export interface ContextProvider {
+    id: string;
+    title: string;      // Section heading in the prompt
+    maxTokens: number;  // Budget for the section; extra lines are dropped
+    ttlMs: number;      // How long a loaded section is reused
+    load(request: ContextRequest): Promise<string[]>;  // One line per item, [] for nothing to say
+}
+
+interface CachedSection {
+    section: string | null;
+    day: string;
+    expiresAt: number;
+}
+
+/**
+ * The user's local date (YYYY-MM-DD)
+ */
+export function getLocalDay(timezone: string, now: Date): string {
+    return new Intl.DateTimeFormat('en-CA', {
+        timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit'
+    }).format(now);
+}
+
+/**
+ * "## Title" followed by as many lines as fit in maxTokens, with a note
+ * for the ones left out
+ */
+export function renderSection(title: string, lines: string[], maxTokens: number): string | null {
+    if (lines.length === 0) {
+        return null;
+    }
+
+    const heading = `## ${title}`;
+    let used = tokenCounter.count(heading);
+    const kept: string[] = [];
+
+    for (const [index, line] of lines.entries()) {
+        const remaining = lines.length - index - 1;
+        const note = remaining > 0 ? `…and ${remaining} more` : '';
+        if (used + tokenCounter.count(line) + tokenCounter.count(note) > maxTokens) {
+            kept.push(`…and ${lines.length - index} more`);
+            break;
+        }
+        kept.push(line);
+        used += tokenCounter.count(line);
+    }
+
+    return [heading, ...kept].join('\n');
+}
+
+/**
+ * Runs the providers for a prompt and caches their sections
+ */
+export class ContextPipeline {
+    private providers: ContextProvider[];
+    private cache = new Map<string, CachedSection>();
+
+    constructor(providers: ContextProvider[]) {
+        this.providers = providers;
+    }
+
+    private cacheKey(userId: string, providerId: string): string {
+        return `${userId}:${providerId}`;
+    }
+
+    /**
+     * Sections of the enabled providers, '' when there is nothing to add.
+     * A failing provider is skipped for this prompt.
+     */
+    async build(request: ContextRequest, enabled: Record<string, boolean>): Promise<string> {
+        const day = getLocalDay(request.timezone, request.now);
+        const now = request.now.getTime();
+
+        const sections = await Promise.all(this.providers
+            .filter(provider => enabled[provider.id] !== false)
+            .map(async provider => {
+                const key = this.cacheKey(request.userId, provider.id);
+                const cached = this.cache.get(key);
+                if (cached && cached.day === day && cached.expiresAt > now) {
+                    return cached.section;
+                }
+
+                try {
+                    const section = renderSection(provider.title, await provider.load(request), provider.maxTokens);
+                    this.cache.set(key, { section, day, expiresAt: now + provider.ttlMs });
+                    return section;
+                } catch (error) {
+                    console.error(`[Context] Provider ${provider.id} failed:`, error);
+                    return null;
+                }
+            }));
+
+        return sections.filter(Boolean).join('\n\n');
+    }
+
+    /**
+     * Drop cached sections so the next prompt reloads them (all providers
+     * when providerId is omitted)
+     */
+    invalidate(userId: string, providerId?: string): void {
+        for (const provider of this.providers) {
+            if (!providerId || provider.id === providerId) {
+                this.cache.delete(this.cacheKey(userId, provider.id));
+            }
+        }
+    }
+}
@@ -0,0 +1,505 @@
+import { KnowledgeDocument, Message } from '../types/env';
+import { knowledgeEmbeddingId, knowledgeText } from './knowledge';
+import { tokenCounter } from './tokenizer';
+import { VectorizeManager } from './vectorize';
+
+/**
+ * Document ingestion for the knowledge base
+ *
+ * An upload becomes a `knowledge_documents` row (its status is what the UI
+ * polls) and one `knowledge_entries` row per chunk. Text is pulled out of the
+ * file (PDFs through Workers AI's Markdown conversion), split into overlapping
+ * chunks that never cross a heading, and stored while the upload request is
+ * still open; DocumentIngestWorkflow then embeds them in batches. Chunk rows
+ * carry their document, position and heading path as provenance.
+ */
+
+export type DocumentFormat = 'markdown' | 'text' | 'html' | 'pdf';
+
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_DOCUMENT_CHUNKS = 500;
+export const CHUNK_MAX_TOKENS = 300;
+export const CHUNK_OVERLAP_TOKENS = 50;
+const INDEX_BATCH_SIZE = 50;   // Chunks embedded (and marked indexed) per workflow step
+const STALE_PROCESSING_SECONDS = 60 * 60;   // No progress for this long: the ingest is gone
+const MAX_DOCUMENTS_LISTED = 200;
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+    md: 'markdown',
+    markdown: 'markdown',
+    txt: 'text',
+    text: 'text',
+    html: 'html',
+    htm: 'html',
+    pdf: 'pdf',
+};
+
+const FORMATS_BY_MIME_TYPE: Record<string, DocumentFormat> = {
+    'text/markdown': 'markdown',
+    'text/x-markdown': 'markdown',
+    'text/plain': 'text',
+    'text/html': 'html',
+    'application/pdf': 'pdf',
+};
+
+/**
+ * Format of an upload, by extension first (browsers often send .md as
+ * application/octet-stream), then MIME type. Null when unsupported.
+ */
+export function detectDocumentFormat(filename: string, mimeType: string): DocumentFormat | null {
+    const extension = filename.includes('.') ? filename.split('.').pop()!.toLowerCase() : '';
+    return FORMATS_BY_EXTENSION[extension]
+        ?? FORMATS_BY_MIME_TYPE[mimeType.split(';')[0].trim().toLowerCase()]
+        ?? null;
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+        if (name[0] === '#') {
+            const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+            return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+        }
+        return ENTITIES[name.toLowerCase()] ?? entity;
+    });
+}
+
+function stripTags(html: string): string {
+    return html.replace(/<[^>]+>/g, '');
+}
+
+/**
+ * Plain Markdown from HTML: headings become `#` lines (so chunks keep them),
+ * list items become bullets, everything else is reduced to its text
+ */
+export function htmlToMarkdown(html: string): string {
+    const markdown = html
+        .replace(/<(script|style|noscript|head|template)\b[\s\S]*?<\/\1>/gi, '')
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, text: string) =>
+            `\n\n${'#'.repeat(Number(level))} ${stripTags(text).replace(/\s+/g, ' ').trim()}\n\n`)
+        .replace(/<li\b[^>]*>/gi, '\n- ')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|section|article|header|footer|ul|ol|table|tr|blockquote|pre)>/gi, '\n\n');
+
+    return decodeEntities(stripTags(markdown))
+        .replace(/[ \t]+\n/g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/**
+ * Text of an uploaded file, as Markdown where the format has structure
+ */
+export async function extractDocumentText(ai: Ai, file: Blob, filename: string, format: DocumentFormat): Promise<string> {
+    if (format === 'pdf') {
+        const result = await ai.toMarkdown({ name: filename, blob: file });
+        if (result.format === 'error') {
+            throw new Error(`Could not read PDF: ${result.error}`);
+        }
+        return result.data;
+    }
+
+    const text = await file.text();
+    return format === 'html' ? htmlToMarkdown(text) : text;
+}
+
+export interface DocumentChunk {
+    index: number;
+    heading?: string;   // Heading path, e.g. "Setup > Wifi"
+    content: string;
+}
+
+interface Section {
+    heading?: string;
+    blocks: string[];   // Paragraphs, lists, code blocks
+}
+
+/**
+ * Split Markdown into sections at headings (outside code fences), each
+ * with the path of headings above it
+ */
+function splitSections(text: string, withHeadings: boolean): Section[] {
+    const sections: Section[] = [];
+    const headings: string[] = [];
+    let current: Section = { blocks: [] };
+    let block: string[] = [];
+    let inFence = false;
+
+    const endBlock = () => {
+        const content = block.join('\n').trim();
+        if (content) current.blocks.push(content);
+        block = [];
+    };
+
+    for (const line of text.split(/\r?\n/)) {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+        }
+
+        const heading = withHeadings && !inFence ? line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/) : null;
+        if (heading) {
+            endBlock();
+            if (current.blocks.length > 0) sections.push(current);
+
+            const level = heading[1].length;
+            headings.length = level - 1;
+            headings[level - 1] = heading[2];
+            current = { heading: headings.filter(Boolean).join(' > '), blocks: [] };
+            continue;
+        }
+
+        if (!inFence && !line.trim()) {
+            endBlock();
+            continue;
+        }
+        block.push(line);
+    }
+
+    endBlock();
+    if (current.blocks.length > 0) sections.push(current);
+    return sections;
+}
+
+/**
+ * Join parts into pieces of at most `limit` tokens (a part over the limit
+ * is its own piece)
+ */
+function pack(parts: string[], limit: number, separator: string): string[] {
+    const pieces: string[] = [];
+    let current: string[] = [];
+    let used = 0;
+
+    for (const part of parts) {
+        const size = tokenCounter.count(part);
+        if (current.length > 0 && used + size > limit) {
+            pieces.push(current.join(separator));
+            current = [];
+            used = 0;
+        }
+        current.push(part);
+        used += size;
+    }
+
+    if (current.length > 0) pieces.push(current.join(separator));
+    return pieces;
+}
+
+/**
+ * Break a block over the limit at sentence ends, and sentences over it at words
+ */
+function splitBlock(block: string, limit: number): string[] {
+    if (tokenCounter.count(block) <= limit) {
+        return [block];
+    }
+
+    const sentences = block.split(/(?<=[.!?。])\s+/).flatMap(sentence =>
+        tokenCounter.count(sentence) <= limit ? [sentence] : pack(sentence.split(/\s+/), limit, ' ')
+    );
+    return pack(sentences, limit, ' ');
+}
+
+/**
+ * Last words of a chunk, about `tokens` long, repeated at the start of the next
+ */
+function overlapTail(text: string, tokens: number): string {
+    const words = text.split(/\s+/);
+    let start = words.length;
+    while (start > 0 && tokenCounter.count(words.slice(start - 1).join(' ')) <= tokens) {
+        start--;
+    }
+    return words.slice(start).join(' ');
+}
+
+/**
+ * Split a document into chunks of at most CHUNK_MAX_TOKENS. Chunks of the same
+ * section overlap by about CHUNK_OVERLAP_TOKENS; a new heading starts a new chunk.
+ * Plain text has no headings.
+ */
+export function chunkDocument(text: string, format: DocumentFormat): DocumentChunk[] {
+    const chunks: DocumentChunk[] = [];
+
+    for (const section of splitSections(text, format !== 'text')) {
+        const pieces = section.blocks.flatMap(block => splitBlock(block, CHUNK_MAX_TOKENS - CHUNK_OVERLAP_TOKENS));
+        let current: string[] = [];
+        let used = 0;
+
+        const emit = () => {
+            chunks.push({ index: chunks.length, heading: section.heading, content: current.join('\n\n') });
+        };
+
+        for (const piece of pieces) {
+            const size = tokenCounter.count(piece);
+            if (current.length > 0 && used + size > CHUNK_MAX_TOKENS) {
+                emit();
+                const overlap = overlapTail(current.join('\n\n'), CHUNK_OVERLAP_TOKENS);
+                current = overlap ? [overlap] : [];
+                used = tokenCounter.count(overlap);
+            }
+            current.push(piece);
+            used += size;
+        }
+
+        if (current.length > 0) emit();
+    }
+
+    return chunks;
+}
+
+/**
+ * Title of a chunk entry: the file and the section it came from
+ */
+export function chunkTitle(filename: string, heading?: string): string {
+    return heading ? `${filename} > ${heading}` : filename;
+}
+
+/**
+ * D1 access for uploaded documents and their chunks
+ *
+ * Every query is scoped by user_id so one user can never touch another's documents.
+ */
+export class DocumentStore {
+    private db: D1Database;
+    private vectorize: VectorizeManager;
+
+    constructor(db: D1Database, vectorize: VectorizeManager) {
+        this.db = db;
+        this.vectorize = vectorize;
+    }
+
+    private mapDbDocumentToDocument(row: any): KnowledgeDocument {
+        return {
+            id: row.id as string,
+            userId: row.user_id as string,
+            filename: row.filename as string,
+            mimeType: row.mime_type as string,
+            sizeBytes: row.size_bytes as number,
+            status: row.status as KnowledgeDocument['status'],
+            chunkCount: row.chunk_count as number,
+            indexedCount: row.indexed_count as number,
+            error: (row.error as string | null) ?? undefined,
+            createdAt: (row.created_at as number) * 1000,
+            updatedAt: (row.updated_at as number) * 1000,
+        };
+    }
+
+    async createDocument(
+        userId: string,
+        file: { filename: string; mimeType: string; sizeBytes: number }
+    ): Promise<KnowledgeDocument> {
+        const id = crypto.randomUUID();
+        const now = Math.floor(Date.now() / 1000);
+
+        await this.db.prepare(
+            "INSERT INTO knowledge_documents (id, user_id, filename, mime_type, size_bytes, status, chunk_count, indexed_count, created_at, updated_at) VALUES (?, ?, ?, ?, ?, 'processing', 0, 0, ?, ?)"
+        ).bind(id, userId, file.filename, file.mimeType, file.sizeBytes, now, now).run();
+
+        console.log(`[Documents] Created document ${id} (${file.filename}) for user ${userId}`);
+
+        return {
+            id,
+            userId,
+            ...file,
+            status: 'processing',
+            chunkCount: 0,
+            indexedCount: 0,
+            createdAt: now * 1000,
+            updatedAt: now * 1000,
+        };
+    }
+
+    async getDocument(userId: string, documentId: string): Promise<KnowledgeDocument | null> {
+        const row = await this.db.prepare(
+            'SELECT * FROM knowledge_documents WHERE id = ? AND user_id = ?'
+        ).bind(documentId, userId).first();
+
+        return row ? this.mapDbDocumentToDocument(row) : null;
+    }
+
+    async listDocuments(userId: string): Promise<KnowledgeDocument[]> {
+        const result = await this.db.prepare(
+            'SELECT * FROM knowledge_documents WHERE user_id = ? ORDER BY created_at DESC LIMIT ?'
+        ).bind(userId, MAX_DOCUMENTS_LISTED).all();
+
+        return (result.results || []).map(row => this.mapDbDocumentToDocument(row));
+    }
+
+    /**
+     * Extract and chunk a document created by createDocument and store the
+     * chunks, not yet embedded (see indexNextBatch). Never throws: returns
+     * false when the document failed, with the reason recorded on it for the
+     * UI, or was deleted meanwhile.
+     */
+    async storeChunks(
+        document: KnowledgeDocument,
+        format: DocumentFormat,
+        extract: () => Promise<string>
+    ): Promise<boolean> {
+        const { id: documentId, userId } = document;
+
+        try {
+            const chunks = chunkDocument(await extract(), format);
+            if (await this.stopIfDeleted(userId, documentId, [])) {
+                return false;
+            }
+            if (chunks.length === 0) {
+                throw new Error('No text found in the document');
+            }
+            if (chunks.length > MAX_DOCUMENT_CHUNKS) {
+                throw new Error(`Document is too long (${chunks.length} chunks, the limit is ${MAX_DOCUMENT_CHUNKS})`);
+            }
+
+            const now = Math.floor(Date.now() / 1000);
+            await this.db.batch([
+                ...chunks.map(chunk => this.db.prepare(
+                    'INSERT INTO knowledge_entries (id, user_id, title, content, vector_id, document_id, chunk_index, heading, created_at, updated_at) VALUES (?, ?, ?, ?, NULL, ?, ?, ?, ?, ?)'
+                ).bind(crypto.randomUUID(), userId, chunkTitle(document.filename, chunk.heading), chunk.content, documentId, chunk.index, chunk.heading ?? null, now, now)),
+                this.db.prepare(
+                    'UPDATE knowledge_documents SET chunk_count = ?, updated_at = ? WHERE id = ? AND user_id = ?'
+                ).bind(chunks.length, now, documentId, userId),
+            ]);
+
+            console.log(`[Documents] Stored ${chunks.length} chunks of ${document.filename}`);
+            return true;
+        } catch (error) {
+            console.error(`[Documents] Failed to ingest ${documentId}:`, error);
+            await this.markFailed(userId, documentId, error instanceof Error ? error.message : String(error))
+                .catch(statusError => console.error('[Documents] Could not record failure:', statusError));
+            return false;
+        }
+    }
+
+    /**
+     * Embed the next batch of a document's chunks that have no vector yet, and
+     * mark the document ready once none are left. Returns true when there is
+     * nothing more to do. A batch retried after its vectors were stored but
+     * not recorded is embedded again under the same vector IDs.
+     */
+    async indexNextBatch(userId: string, documentId: string): Promise<boolean> {
+        if (await this.stopIfDeleted(userId, documentId, [])) {
+            return true;
+        }
+
+        const result = await this.db.prepare(
+            'SELECT id, title, content, chunk_index, heading, created_at FROM knowledge_entries WHERE document_id = ? AND user_id = ? AND vector_id IS NULL ORDER BY chunk_index LIMIT ?'
+        ).bind(documentId, userId, INDEX_BATCH_SIZE).all();
+
+        const batch = result.results || [];
+        if (batch.length === 0) {
+            await this.setStatus(userId, documentId, 'ready');
+            console.log(`[Documents] Ingested document ${documentId}`);
+            return true;
+        }
+
+        const vectors: Message[] = batch.map(row => ({
+            id: knowledgeEmbeddingId(row.id as string),
+            role: 'system',
+            content: knowledgeText({ title: row.title as string, content: row.content as string }),
+            timestamp: (row.created_at as number) * 1000,
+            metadata: {
+                entryId: row.id as string,
+                documentId,
+                chunkIndex: row.chunk_index as number,
+                ...(row.heading ? { heading: row.heading as string } : {}),
+            },
+        }));
+        await this.vectorize.batchStoreEmbeddings(userId, vectors, 'knowledge');
+
+        await this.db.batch([
+            ...vectors.map(vector => this.db.prepare(
+                'UPDATE knowledge_entries SET vector_id = ? WHERE id = ? AND user_id = ?'
+            ).bind(vector.id, vector.metadata!.entryId, userId)),
+            this.db.prepare(
+                'UPDATE knowledge_documents SET indexed_count = indexed_count + ?, updated_at = ? WHERE id = ? AND user_id = ?'
+            ).bind(vectors.length, Math.floor(Date.now() / 1000), documentId, userId),
+        ]);
+
+        // Deleted while this batch was embedded: deleteDocument missed its vectors
+        return this.stopIfDeleted(userId, documentId, vectors.map(vector => vector.id));
+    }
+
+    /**
+     * Record why ingestion failed, for the UI to show
+     */
+    async markFailed(userId: string, documentId: string, message: string): Promise<void> {
+        await this.setStatus(userId, documentId, 'failed', message.substring(0, 500));
+    }
+
+    /**
+     * Fail documents, of any user, that have made no progress for a while
+     * (e.g. the upload died before DocumentIngestWorkflow started), so they
+     * don't show as processing forever. Returns how many were failed.
+     */
+    async failStaleDocuments(maxIdleSeconds: number = STALE_PROCESSING_SECONDS): Promise<number> {
+        const now = Math.floor(Date.now() / 1000);
+        const result = await this.db.prepare(
+            "UPDATE knowledge_documents SET status = 'failed', error = ?, updated_at = ? WHERE status = 'processing' AND updated_at < ?"
+        ).bind('Ingestion stopped before it finished; upload the document again', now, now - maxIdleSeconds).run();
+
+        const failed = result.meta?.changes ?? 0;
+        if (failed > 0) {
+            console.log(`[Documents] Failed ${failed} stale document(s)`);
+        }
+        return failed;
+    }
+
+    /**
+     * Check that the document being ingested was not deleted meanwhile. If it
+     * was, drop its chunks and the given vectors, which deleteDocument may
+     * have missed while they were being embedded.
+     */
+    private async stopIfDeleted(userId: string, documentId: string, vectorIds: string[]): Promise<boolean> {
+        const row = await this.db.prepare(
+            'SELECT id FROM knowledge_documents WHERE id = ? AND user_id = ?'
+        ).bind(documentId, userId).first();
+        if (row) {
+            return false;
+        }
+
+        if (vectorIds.length > 0) {
+            await this.vectorize.deleteEmbeddings(vectorIds);
+        }
+        await this.db.prepare(
+            'DELETE FROM knowledge_entries WHERE document_id = ? AND user_id = ?'
+        ).bind(documentId, userId).run();
+
+        console.log(`[Documents] Stopped ingesting ${documentId}: the document was deleted`);
+        return true;
+    }
+
+    private async setStatus(userId: string, documentId: string, status: KnowledgeDocument['status'], error?: string): Promise<void> {
+        await this.db.prepare(
+            'UPDATE knowledge_documents SET status = ?, error = ?, updated_at = ? WHERE id = ? AND user_id = ?'
+        ).bind(status, error ?? null, Math.floor(Date.now() / 1000), documentId, userId).run();
+    }
+
+    /**
+     * Delete a document, its chunks and their vectors. Returns false when
+     * there was no such document. An ingest still running for it stops at
+     * its next batch and cleans up what it stored after this ran.
+     */
+    async deleteDocument(userId: string, documentId: string): Promise<boolean> {
+        const document = await this.getDocument(userId, documentId);
+        if (!document) {
+            return false;
+        }
+
+        const vectors = await this.db.prepare(
+            'SELECT vector_id FROM knowledge_entries WHERE document_id = ? AND user_id = ? AND vector_id IS NOT NULL'
+        ).bind(documentId, userId).all();
+
+        const vectorIds = (vectors.results || []).map(row => row.vector_id as string);
+        if (vectorIds.length > 0) {
+            await this.vectorize.deleteEmbeddings(vectorIds);
+        }
+
+        await this.db.batch([
+            this.db.prepare('DELETE FROM knowledge_entries WHERE document_id = ? AND user_id = ?').bind(documentId, userId),
+            this.db.prepare('DELETE FROM knowledge_documents WHERE id = ? AND user_id = ?').bind(documentId, userId),
+        ]);
+
+        console.log(`[Documents] Deleted document ${documentId} (${vectorIds.length} vectors)`);
+        return true;
+    }
+}
@@ -0,0 +1,147 @@
+import { sanitizeInstruction } from './persona';
+import { tokenCounter } from './tokenizer';
+
+/**
+ * Long-term facts about the user
+ *
+ * Things the user explicitly asks the assistant to remember ("my partner's
+ * name is Sam", "I'm vegetarian") are kept in `user_facts` rather than left
+ * to conversation retrieval, whose similarity cutoff can miss them. Facts are
+ * added to the system prompt of every turn, ahead of the retrieved context;
+ * when there are more than fit the budget, the ones sharing words with the
+ * message go first, then the most recently confirmed.
+ */
+
+export interface UserFact {
+    id: string;
+    content: string;
+    createdAt: number;
+    updatedAt: number;    // Last time the fact was remembered again
+}
+
+export const MAX_FACTS = 200;
+const FACTS_PROMPT_TOKENS = 600;
+
+export const FACTS_HEADER = '## Facts About the User';
+
+function words(text: string): Set<string> {
+    return new Set(text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? []);
+}
+
+/**
+ * Facts for the system prompt: those sharing the most words with the message
+ * first (newest first among equals), until the token budget is used up
+ */
+export function selectFactsForPrompt(facts: UserFact[], message: string, maxTokens: number = FACTS_PROMPT_TOKENS): string[] {
+    const messageWords = words(message);
+    const overlap = (fact: UserFact) => [...words(fact.content)].filter(word => messageWords.has(word)).length;
+
+    const ranked = facts
+        .map((fact, index) => ({ fact, index, overlap: overlap(fact) }))
+        .sort((a, b) => b.overlap - a.overlap || a.index - b.index);
+
+    const selected: string[] = [];
+    let tokens = 0;
+    for (const { fact } of ranked) {
+        const factTokens = tokenCounter.count(`- ${fact.content}\n`);
+        if (tokens + factTokens > maxTokens) {
+            break;
+        }
+        selected.push(fact.content);
+        tokens += factTokens;
+    }
+    return selected;
+}
+
+/**
+ * Render facts as a system prompt section (empty string when there are none)
+ */
+export function renderFactsSection(facts?: string[] | null): string {
+    if (!facts || facts.length === 0) {
+        return '';
+    }
+
+    return `${FACTS_HEADER}
+
+The user asked you to remember these. Treat them as true unless the user corrects them:
+
+${facts.map(fact => `- ${sanitizeInstruction(fact).replace(/\n+/g, ' ')}`).join('\n')}`;
+}
+
+/**
+ * D1 access for user_facts
+ *
+ * Every query is scoped by user_id so one user can never touch another's facts.
+ */
+export class FactStore {
+    private db: D1Database;
+
+    constructor(db: D1Database) {
+        this.db = db;
+    }
+
+    private mapDbFactToFact(row: any): UserFact {
+        return {
+            id: row.id as string,
+            content: row.content as string,
+            createdAt: (row.created_at as number) * 1000,
+            updatedAt: (row.updated_at as number) * 1000,
+        };
+    }
+
+    /**
+     * Newest first
+     */
+    async listFacts(userId: string): Promise<UserFact[]> {
+        const result = await this.db.prepare(
+            'SELECT * FROM user_facts WHERE user_id = ? ORDER BY updated_at DESC LIMIT ?'
+        ).bind(userId, MAX_FACTS).all();
+
+        return (result.results || []).map(row => this.mapDbFactToFact(row));
+    }
+
+    /**
+     * Save a fact. Remembering the same text again (ignoring case) only
+     * refreshes it, so `created` is false.
+     */
+    async rememberFact(userId: string, content: string): Promise<{ fact: UserFact; created: boolean }> {
+        const now = Math.floor(Date.now() / 1000);
+
+        const existing = await this.db.prepare(
+            'UPDATE user_facts SET updated_at = ? WHERE user_id = ? AND LOWER(content) = LOWER(?) RETURNING *'
+        ).bind(now, userId, content).first();
+        if (existing) {
+            return { fact: this.mapDbFactToFact(existing), created: false };
+        }
+
+        const count = await this.db.prepare(
+            'SELECT COUNT(*) AS count FROM user_facts WHERE user_id = ?'
+        ).bind(userId).first();
+        if (((count?.count as number) ?? 0) >= MAX_FACTS) {
+            throw new Error(`Already remembering ${MAX_FACTS} facts. Forget some before adding more.`);
+        }
+
+        const id = crypto.randomUUID();
+        await this.db.prepare(
+            'INSERT INTO user_facts (id, user_id, content, created_at, updated_at) VALUES (?, ?, ?, ?, ?)'
+        ).bind(id, userId, content, now, now).run();
+
+        console.log(`[Facts] Remembered fact ${id} for user ${userId}`);
+        return { fact: { id, content, createdAt: now * 1000, updatedAt: now * 1000 }, created: true };
+    }
+
+    /**
+     * Returns false when there was no such fact
+     */
+    async forgetFact(userId: string, factId: string): Promise<boolean> {
+        const result = await this.db.prepare(
+            'DELETE FROM user_facts WHERE id = ? AND user_id = ?'
+        ).bind(factId, userId).run();
+
+        const deleted = (result.meta?.changes ?? 0) > 0;
+        if (deleted) {
+            console.log(`[Facts] Forgot fact ${factId}`);
+        }
+        return deleted;
+    }
+}
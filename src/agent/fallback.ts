@@ -0,0 +1,266 @@
+import { Env } from '../types/env';
+import { LLM_PROVIDER_NAMES } from '../providers/index';
+import { TurnCancelledError } from './cancellation';
+
+/**
+ * Model fallback chain
+ *
+ * Every LLM call runs through an ordered chain of models: the user's (or the
+ * env) model first, then LLM_FALLBACK_MODELS. A rate-limited call (429) is
+ * retried on the same model with exponential backoff; any other failure moves
+ * on to the next model. A circuit breaker, kept in Durable Object storage so
+ * it survives hibernation, skips a model that keeps failing until its
+ * cooldown is over.
+ */
+
+export interface ModelTarget {
+    provider?: string;
+    model?: string;   // Unset: the provider's own default
+}
+
+export interface FallbackConfig {
+    fallbacks: ModelTarget[];  // Tried in order after the primary model
+    maxRetries: number;        // Retries per model for rate-limit errors
+    retryBaseMs: number;       // First backoff delay, doubled on each retry
+    failureThreshold: number;  // Consecutive failures that open a model's circuit
+    cooldownMs: number;        // How long an open circuit skips the model
+}
+
+export const DEFAULT_FALLBACK_CONFIG: Omit<FallbackConfig, 'fallbacks'> = {
+    maxRetries: 2,
+    retryBaseMs: 500,
+    failureThreshold: 3,
+    cooldownMs: 60000,
+};
+
+/**
+ * "model" or "provider:model" (e.g. "openai:gpt-4o-mini"). Workers AI ids
+ * contain no colon-separated provider prefix, so "@cf/..." is always a model.
+ */
+export function parseModelTarget(entry: string): ModelTarget {
+    const separator = entry.indexOf(':');
+    if (separator > 0) {
+        const provider = entry.slice(0, separator);
+        if ((LLM_PROVIDER_NAMES as readonly string[]).includes(provider)) {
+            return { provider, model: entry.slice(separator + 1) || undefined };
+        }
+    }
+    return { model: entry };
+}
+
+/**
+ * Read the chain and retry settings from env, falling back to defaults for
+ * missing/invalid values
+ */
+export function getFallbackConfig(
+    env: Pick<Env, 'LLM_FALLBACK_MODELS' | 'LLM_MAX_RETRIES' | 'LLM_CIRCUIT_COOLDOWN_SECONDS'>
+): FallbackConfig {
+    const maxRetries = parseInt(env.LLM_MAX_RETRIES || '', 10);
+    const cooldownSeconds = parseInt(env.LLM_CIRCUIT_COOLDOWN_SECONDS || '', 10);
+
+    return {
+        ...DEFAULT_FALLBACK_CONFIG,
+        fallbacks: (env.LLM_FALLBACK_MODELS || '')
+            .split(',')
+            .map(entry => entry.trim())
+            .filter(Boolean)
+            .map(parseModelTarget),
+        maxRetries: Number.isFinite(maxRetries) && maxRetries >= 0 ? maxRetries : DEFAULT_FALLBACK_CONFIG.maxRetries,
+        cooldownMs: Number.isFinite(cooldownSeconds) && cooldownSeconds > 0
+            ? cooldownSeconds * 1000
+            : DEFAULT_FALLBACK_CONFIG.cooldownMs,
+    };
+}
+
+/**
+ * Identity of a model in the chain and the circuit breaker
+ */
+export function modelKey(target: ModelTarget): string {
+    return `${target.provider ?? ''}:${target.model ?? ''}`;
+}
+
+/**
+ * Primary model followed by the fallbacks, without duplicates. Fallbacks
+ * without a provider use the primary's.
+ */
+export function buildModelChain(primary: ModelTarget, fallbacks: ModelTarget[]): ModelTarget[] {
+    const chain: ModelTarget[] = [];
+    const seen = new Set<string>();
+
+    for (const target of [primary, ...fallbacks.map(f => ({ provider: f.provider ?? primary.provider, model: f.model }))]) {
+        const key = modelKey(target);
+        if (!seen.has(key)) {
+            seen.add(key);
+            chain.push(target);
+        }
+    }
+    return chain;
+}
+
+/**
+ * HTTP 429 / Workers AI capacity errors: worth retrying on the same model
+ */
+export function isRateLimitError(error: unknown): boolean {
+    const message = error instanceof Error ? error.message : String(error);
+    return /\b429\b|rate.?limit|too many requests|capacity temporarily exceeded/i.test(message);
+}
+
+/**
+ * Exponential backoff with up to 20% jitter so retries from several turns
+ * don't line up
+ */
+export function getRetryDelay(attempt: number, baseMs: number): number {
+    return Math.round(baseMs * 2 ** attempt * (1 + Math.random() * 0.2));
+}
+
+export interface CircuitState {
+    failures: number;   // Consecutive failures
+    openUntil: number;  // ms timestamp; the model is skipped until then
+}
+
+/**
+ * The parts of DurableObjectStorage the breaker needs
+ */
+export interface CircuitStorage {
+    get<T>(key: string): Promise<T | undefined>;
+    put<T>(key: string, value: T): Promise<void>;
+}
+
+const CIRCUITS_STORAGE_KEY = 'llmCircuits';
+
+/**
+ * Per-model circuit breaker. After `failureThreshold` consecutive failures a
+ * model is skipped for `cooldownMs`; the first call after the cooldown is a
+ * trial that either closes the circuit or opens it again.
+ */
+export class CircuitBreaker {
+    private storage: CircuitStorage;
+    private config: Pick<FallbackConfig, 'failureThreshold' | 'cooldownMs'>;
+    private circuits: Promise<Record<string, CircuitState>> | null = null;
+
+    constructor(storage: CircuitStorage, config: Pick<FallbackConfig, 'failureThreshold' | 'cooldownMs'>) {
+        this.storage = storage;
+        this.config = config;
+    }
+
+    private load(): Promise<Record<string, CircuitState>> {
+        if (!this.circuits) {
+            this.circuits = this.storage.get<Record<string, CircuitState>>(CIRCUITS_STORAGE_KEY)
+                .then(stored => ({ ...(stored ?? {}) }))
+                .catch(error => {
+                    console.error('[Fallback] Failed to load circuit state:', error);
+                    return {};
+                });
+        }
+        return this.circuits;
+    }
+
+    private async save(circuits: Record<string, CircuitState>): Promise<void> {
+        await this.storage.put(CIRCUITS_STORAGE_KEY, circuits);
+    }
+
+    async isOpen(key: string, now: number = Date.now()): Promise<boolean> {
+        const circuit = (await this.load())[key];
+        return !!circuit && circuit.openUntil > now;
+    }
+
+    async recordSuccess(key: string): Promise<void> {
+        const circuits = await this.load();
+        if (circuits[key]) {
+            delete circuits[key];
+            await this.save(circuits);
+        }
+    }
+
+    async recordFailure(key: string, now: number = Date.now()): Promise<void> {
+        const circuits = await this.load();
+        const failures = (circuits[key]?.failures ?? 0) + 1;
+        const opens = failures >= this.config.failureThreshold;
+
+        circuits[key] = { failures, openUntil: opens ? now + this.config.cooldownMs : 0 };
+        if (opens) {
+            console.warn(`[Fallback] Circuit open for ${key} after ${failures} failures, skipping it for ${this.config.cooldownMs / 1000}s`);
+        }
+        await this.save(circuits);
+    }
+}
+
+export interface FallbackResult<T> {
+    result: T;
+    target: ModelTarget;
+    fallback: boolean;  // Answered by a model other than the primary
+}
+
+export interface FallbackOptions {
+    breaker: CircuitBreaker;
+    config: Pick<FallbackConfig, 'maxRetries' | 'retryBaseMs'>;
+    signal?: AbortSignal;
+    sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+/**
+ * Wait between retries; a cancelled turn stops waiting
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new TurnCancelledError());
+            return;
+        }
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new TurnCancelledError());
+        }, { once: true });
+    });
+}
+
+/**
+ * Run `call` on each model of the chain until one succeeds. Cancellation is
+ * never retried. Throws the last error when every model failed (or was
+ * skipped by its circuit).
+ */
+export async function runWithFallback<T>(
+    chain: ModelTarget[],
+    call: (target: ModelTarget) => Promise<T>,
+    options: FallbackOptions
+): Promise<FallbackResult<T>> {
+    const { breaker, config, signal } = options;
+    const wait = options.sleep ?? sleep;
+    let lastError: unknown = new Error('No model available: every model in the fallback chain is cooling down');
+
+    for (const [index, target] of chain.entries()) {
+        const key = modelKey(target);
+        if (await breaker.isOpen(key)) {
+            console.warn(`[Fallback] Skipping ${key}: circuit open`);
+            continue;
+        }
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const result = await call(target);
+                await breaker.recordSuccess(key);
+                if (index > 0) {
+                    console.log(`[Fallback] Answered by fallback model ${key}`);
+                }
+                return { result, target, fallback: index > 0 };
+            } catch (error) {
+                if (error instanceof TurnCancelledError) throw error;
+                lastError = error;
+
+                if (isRateLimitError(error) && attempt < config.maxRetries) {
+                    const delay = getRetryDelay(attempt, config.retryBaseMs);
+                    console.warn(`[Fallback] ${key} rate limited, retrying in ${delay}ms (${attempt + 1}/${config.maxRetries})`);
+                    await wait(delay, signal);
+                    continue;
+                }
+
+                console.error(`[Fallback] ${key} failed:`, error);
+                await breaker.recordFailure(key);
+                break;
+            }
+        }
+    }
+
+    throw lastError;
+}
@@ -0,0 +1,172 @@
+import { z } from 'zod';
+import { KnowledgeEntry } from '../types/env';
+import { VectorizeManager } from './vectorize';
+
+/**
+ * Per-user knowledge base (notes and reference material)
+ *
+ * Entries live in `knowledge_entries`; each one has a Vectorize vector of
+ * type 'knowledge' so RAG can retrieve it. `vector_id` is only set while that
+ * vector matches the entry's current title and content: it is cleared on
+ * every edit and set again once the new embedding is stored.
+ *
+ * Chunks of uploaded documents are entries too (see documents.ts), but they
+ * are managed through their document and left out here.
+ */
+export const KnowledgeEntrySchema = z.object({
+    title: z.string().trim().min(1).max(200).optional()
+        .describe('Short title, also embedded with the content'),
+    content: z.string().trim().min(1).max(20000)
+        .describe('The note or reference text'),
+}).strict();
+
+export type KnowledgeEntryInput = z.infer<typeof KnowledgeEntrySchema>;
+
+const MAX_ENTRIES_LISTED = 500;
+
+export function knowledgeEmbeddingId(entryId: string): string {
+    return `knowledge-${entryId}`;
+}
+
+/**
+ * Text that is embedded (and returned by retrieval) for an entry
+ */
+export function knowledgeText(entry: { title?: string; content: string }): string {
+    return entry.title ? `${entry.title}\n${entry.content}` : entry.content;
+}
+
+/**
+ * D1 access for knowledge entries, keeping their vectors in step
+ *
+ * Every query is scoped by user_id so one user can never touch another's entries.
+ */
+export class KnowledgeStore {
+    private db: D1Database;
+    private vectorize: VectorizeManager;
+
+    constructor(db: D1Database, vectorize: VectorizeManager) {
+        this.db = db;
+        this.vectorize = vectorize;
+    }
+
+    private mapDbEntryToEntry(row: any): KnowledgeEntry {
+        const createdAt = (row.created_at as number) * 1000;
+        return {
+            id: row.id as string,
+            userId: row.user_id as string,
+            title: (row.title as string | null) ?? undefined,
+            content: row.content as string,
+            indexed: Boolean(row.vector_id),
+            createdAt,
+            updatedAt: row.updated_at ? (row.updated_at as number) * 1000 : createdAt,
+        };
+    }
+
+    async listEntries(userId: string): Promise<KnowledgeEntry[]> {
+        const result = await this.db.prepare(
+            'SELECT * FROM knowledge_entries WHERE user_id = ? AND document_id IS NULL ORDER BY updated_at DESC LIMIT ?'
+        ).bind(userId, MAX_ENTRIES_LISTED).all();
+
+        return (result.results || []).map(row => this.mapDbEntryToEntry(row));
+    }
+
+    async getEntry(userId: string, entryId: string): Promise<KnowledgeEntry | null> {
+        const row = await this.db.prepare(
+            'SELECT * FROM knowledge_entries WHERE id = ? AND user_id = ? AND document_id IS NULL'
+        ).bind(entryId, userId).first();
+
+        return row ? this.mapDbEntryToEntry(row) : null;
+    }
+
+    async createEntry(userId: string, input: KnowledgeEntryInput): Promise<KnowledgeEntry> {
+        const id = crypto.randomUUID();
+        const now = Math.floor(Date.now() / 1000);
+
+        await this.db.prepare(
+            'INSERT INTO knowledge_entries (id, user_id, title, content, vector_id, created_at, updated_at) VALUES (?, ?, ?, ?, NULL, ?, ?)'
+        ).bind(id, userId, input.title ?? null, input.content, now, now).run();
+
+        console.log(`[Knowledge] Created entry ${id} for user ${userId}`);
+
+        const entry: KnowledgeEntry = {
+            id,
+            userId,
+            title: input.title,
+            content: input.content,
+            indexed: false,
+            createdAt: now * 1000,
+            updatedAt: now * 1000,
+        };
+        entry.indexed = await this.indexEntry(entry);
+        return entry;
+    }
+
+    /**
+     * Replace an entry's title and content (an omitted title clears it)
+     */
+    async updateEntry(userId: string, entryId: string, input: KnowledgeEntryInput): Promise<KnowledgeEntry | null> {
+        const existing = await this.getEntry(userId, entryId);
+        if (!existing) {
+            return null;
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        await this.db.prepare(
+            'UPDATE knowledge_entries SET title = ?, content = ?, vector_id = NULL, updated_at = ? WHERE id = ? AND user_id = ?'
+        ).bind(input.title ?? null, input.content, now, entryId, userId).run();
+
+        const entry: KnowledgeEntry = {
+            ...existing,
+            title: input.title,
+            content: input.content,
+            indexed: false,
+            updatedAt: now * 1000,
+        };
+        entry.indexed = await this.indexEntry(entry);
+
+        // Don't leave the old text retrievable when the new one couldn't be embedded
+        if (!entry.indexed && existing.indexed) {
+            await this.vectorize.deleteEmbeddings([knowledgeEmbeddingId(entryId)]);
+        }
+        return entry;
+    }
+
+    /**
+     * Delete an entry and its vector. Returns false when there was no such entry.
+     */
+    async deleteEntry(userId: string, entryId: string): Promise<boolean> {
+        const existing = await this.getEntry(userId, entryId);
+        if (!existing) {
+            return false;
+        }
+
+        // Vector first, so a failure can't leave a vector whose entry is gone
+        if (existing.indexed) {
+            await this.vectorize.deleteEmbeddings([knowledgeEmbeddingId(entryId)]);
+        }
+
+        await this.db.prepare(
+            'DELETE FROM knowledge_entries WHERE id = ? AND user_id = ?'
+        ).bind(entryId, userId).run();
+
+        console.log(`[Knowledge] Deleted entry ${entryId}`);
+        return true;
+    }
+
+    /**
+     * Embed the entry and record its vector id. Returns whether it was stored;
+     * entries that weren't keep vector_id NULL and stay out of retrieval.
+     */
+    private async indexEntry(entry: KnowledgeEntry): Promise<boolean> {
+        const vectorId = knowledgeEmbeddingId(entry.id);
+        const stored = await this.vectorize.storeKnowledge(entry.userId, vectorId, knowledgeText(entry), { entryId: entry.id });
+        if (!stored) {
+            return false;
+        }
+
+        await this.db.prepare(
+            'UPDATE knowledge_entries SET vector_id = ? WHERE id = ? AND user_id = ?'
+        ).bind(vectorId, entry.id, entry.userId).run();
+        return true;
+    }
+}
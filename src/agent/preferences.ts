@@ -0,0 +1,255 @@
+import { z } from 'zod';
+import { Env } from '../types/env';
+import { DEFAULT_WORKERS_AI_MODEL, LLM_PROVIDER_NAMES } from '../providers/index';
+import { DATE_LANGUAGES, DateLanguage } from '../utils/DateParser';
+import { ModelTarget, getFallbackConfig, parseModelTarget } from './fallback';
+
+/**
+ * Per-user model and generation settings
+ *
+ * Stored under the `llm` key of `users.preferences` (a JSON blob shared with
+ * other preferences). Every field is optional: anything the user hasn't set
+ * falls back to the wrangler.toml vars. Which providers and models a user may
+ * pick is up to the deployment (see getAllowedModels).
+ */
+export const ModelPreferencesSchema = z.object({
+    provider: z.enum(LLM_PROVIDER_NAMES).optional()
+        .describe('LLM backend (workers-ai or openai; mock only in development)'),
+    model: z.string().trim().min(1).max(100).optional()
+        .describe('Model id, e.g. @cf/meta/llama-3.1-8b-instruct'),
+    maxTokens: z.number().int().min(50).max(4096).optional()
+        .describe('Maximum tokens per response'),
+    temperature: z.number().min(0).max(2).optional()
+        .describe('Sampling temperature'),
+    ragEnabled: z.boolean().optional()
+        .describe('Retrieve relevant history and knowledge for each message'),
+    ragTopK: z.number().int().min(1).max(10).optional()
+        .describe('Number of items retrieved when RAG is enabled'),
+    agendaTasks: z.boolean().optional()
+        .describe('Add overdue and due-today tasks to every prompt'),
+    agendaCalendar: z.boolean().optional()
+        .describe("Add today's calendar events to every prompt"),
+    language: z.enum(DATE_LANGUAGES).optional()
+        .describe('Language of date phrases like "demain à 15h"; detected per message when unset'),
+}).strict();
+
+export type ModelPreferences = z.infer<typeof ModelPreferencesSchema>;
+
+/**
+ * A change to the stored preferences: omitted fields are kept, null resets a
+ * field to its default
+ */
+export const ModelPreferencesUpdateSchema = z.object(
+    Object.fromEntries(
+        Object.entries(ModelPreferencesSchema.shape).map(([key, field]) => [key, field.nullable()])
+    ) as { [K in keyof ModelPreferences]-?: z.ZodNullable<(typeof ModelPreferencesSchema.shape)[K]> }
+).strict();
+
+export type ModelPreferencesUpdate = z.infer<typeof ModelPreferencesUpdateSchema>;
+
+export function mergeModelPreferences(current: ModelPreferences, update: ModelPreferencesUpdate): ModelPreferences {
+    const merged: Record<string, unknown> = { ...current };
+    for (const [key, value] of Object.entries(update)) {
+        if (value === null) {
+            delete merged[key];
+        } else if (value !== undefined) {
+            merged[key] = value;
+        }
+    }
+    return merged as ModelPreferences;
+}
+
+/**
+ * Effective settings for one chat turn
+ */
+export interface GenerationSettings {
+    provider?: string;
+    model?: string;       // Unset: the provider's own default
+    maxTokens: number;
+    temperature: number;
+    ragEnabled: boolean;
+    ragTopK: number;
+    agendaTasks: boolean;
+    agendaCalendar: boolean;
+    language?: DateLanguage;  // Unset: detect the language of each message
+}
+
+/**
+ * The env-configured model for a provider
+ */
+function defaultModelFor(env: Env, provider: string): string | undefined {
+    switch (provider) {
+        case 'openai':
+            return env.OPENAI_MODEL;
+        case 'mock':
+            return undefined;
+        default:
+            return env.LLM_MODEL || DEFAULT_WORKERS_AI_MODEL;
+    }
+}
+
+// The scripted mock provider is for local development and tests only
+function isMockAllowed(env: Env): boolean {
+    return env.LLM_PROVIDER === 'mock' || env.ENVIRONMENT === 'development' || env.ENVIRONMENT === 'test';
+}
+
+/**
+ * Providers and models users may choose: the env's own (LLM_MODEL,
+ * OPENAI_MODEL and the fallback chain) plus LLM_ALLOWED_MODELS, comma-separated
+ * "model" or "provider:model" entries. Bare models belong to LLM_PROVIDER.
+ */
+export function getAllowedModels(env: Env): Array<Required<ModelTarget>> {
+    const defaultProvider = env.LLM_PROVIDER || 'workers-ai';
+    const targets: ModelTarget[] = [
+        { provider: defaultProvider, model: defaultModelFor(env, defaultProvider) },
+        ...(env.OPENAI_BASE_URL && env.OPENAI_MODEL ? [{ provider: 'openai', model: env.OPENAI_MODEL }] : []),
+        ...getFallbackConfig(env).fallbacks,
+        ...(env.LLM_ALLOWED_MODELS || '').split(',').map(entry => entry.trim()).filter(Boolean).map(parseModelTarget),
+    ];
+
+    const allowed = new Map<string, Required<ModelTarget>>();
+    for (const target of targets) {
+        const provider = target.provider ?? defaultProvider;
+        if (target.model && (provider !== 'mock' || isMockAllowed(env))) {
+            allowed.set(`${provider}:${target.model}`, { provider, model: target.model });
+        }
+    }
+    return [...allowed.values()];
+}
+
+/**
+ * Why the provider and model the preferences resolve to can't be used, or
+ * null when they can
+ */
+export function checkModelChoice(env: Env, preferences: ModelPreferences): string | null {
+    if (preferences.provider === undefined && preferences.model === undefined) {
+        return null;
+    }
+
+    const { provider, model } = resolveGenerationSettings(env, preferences);
+    if (provider === 'mock') {
+        return isMockAllowed(env) ? null : 'The mock provider is only available in development';
+    }
+    if (!getAllowedModels(env).some(target => target.provider === provider && target.model === model)) {
+        return `Model "${model ?? 'default'}" is not available for provider "${provider}"`;
+    }
+    return null;
+}
+
+/**
+ * Settings from env alone (what a user without preferences gets)
+ */
+export function getDefaultGenerationSettings(env: Env): GenerationSettings {
+    const maxTokens = parseInt(env.LLM_MAX_TOKENS || '500');
+    const temperature = parseFloat(env.LLM_TEMPERATURE || '0.7');
+    const ragTopK = parseInt(env.RAG_TOP_K || '3');
+
+    return {
+        provider: env.LLM_PROVIDER || 'workers-ai',
+        model: defaultModelFor(env, env.LLM_PROVIDER || 'workers-ai'),
+        maxTokens: Number.isFinite(maxTokens) ? maxTokens : 500,
+        temperature: Number.isFinite(temperature) ? temperature : 0.7,
+        ragEnabled: env.RAG_ENABLED !== 'false',
+        ragTopK: Number.isFinite(ragTopK) ? ragTopK : 3,
+        agendaTasks: env.AGENDA_CONTEXT !== 'false',
+        agendaCalendar: env.AGENDA_CONTEXT !== 'false',
+    };
+}
+
+/**
+ * User preferences first, env second
+ */
+export function resolveGenerationSettings(env: Env, preferences: ModelPreferences = {}): GenerationSettings {
+    const defaults = getDefaultGenerationSettings(env);
+    const provider = preferences.provider ?? defaults.provider ?? 'workers-ai';
+
+    return {
+        provider,
+        model: preferences.model ?? defaultModelFor(env, provider),
+        maxTokens: preferences.maxTokens ?? defaults.maxTokens,
+        temperature: preferences.temperature ?? defaults.temperature,
+        ragEnabled: preferences.ragEnabled ?? defaults.ragEnabled,
+        ragTopK: preferences.ragTopK ?? defaults.ragTopK,
+        agendaTasks: preferences.agendaTasks ?? defaults.agendaTasks,
+        agendaCalendar: preferences.agendaCalendar ?? defaults.agendaCalendar,
+        language: preferences.language,
+    };
+}
+
+/**
+ * D1 access for users.preferences
+ */
+export class PreferencesStore {
+    private db: D1Database;
+
+    constructor(db: D1Database) {
+        this.db = db;
+    }
+
+    private async getAllPreferences(userId: string): Promise<Record<string, any>> {
+        const row = await this.db.prepare(
+            'SELECT preferences FROM users WHERE id = ?'
+        ).bind(userId).first();
+
+        if (!row?.preferences) {
+            return {};
+        }
+
+        try {
+            const parsed = JSON.parse(row.preferences as string);
+            return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+        } catch {
+            console.warn(`[Preferences] Ignoring malformed preferences for user ${userId}`);
+            return {};
+        }
+    }
+
+    /**
+     * The user's model preferences. Stored values that no longer validate
+     * (e.g. after a limit was tightened) are dropped rather than failing the turn.
+     */
+    async getModelPreferences(userId: string): Promise<ModelPreferences> {
+        const all = await this.getAllPreferences(userId);
+        const parsed = ModelPreferencesSchema.safeParse(all.llm ?? {});
+
+        if (!parsed.success) {
+            console.warn(`[Preferences] Stored model preferences for ${userId} are invalid, using defaults`);
+            return {};
+        }
+        return parsed.data;
+    }
+
+    /**
+     * Replace the user's model preferences, keeping other preference keys.
+     * Use mergeModelPreferences first to change only some of them.
+     */
+    async setModelPreferences(userId: string, preferences: ModelPreferences): Promise<ModelPreferences> {
+        const all = await this.getAllPreferences(userId);
+        all.llm = preferences;
+
+        await this.db.prepare(
+            'UPDATE users SET preferences = ?, updated_at = ? WHERE id = ?'
+        ).bind(JSON.stringify(all), Math.floor(Date.now() / 1000), userId).run();
+
+        console.log(`[Preferences] Updated model preferences for user ${userId}`);
+        return preferences;
+    }
+
+    /**
+     * A stored provider or model that is no longer allowed (e.g. after
+     * LLM_ALLOWED_MODELS changed) falls back to the env's
+     */
+    async getGenerationSettings(userId: string, env: Env): Promise<GenerationSettings> {
+        try {
+            let preferences = await this.getModelPreferences(userId);
+            if (checkModelChoice(env, preferences)) {
+                console.warn(`[Preferences] Model preference of ${userId} is not allowed, using the default model`);
+                preferences = mergeModelPreferences(preferences, { provider: null, model: null });
+            }
+            return resolveGenerationSettings(env, preferences);
+        } catch (error) {
+            console.error('[Preferences] Error loading model preferences:', error);
+            return getDefaultGenerationSettings(env);
+        }
+    }
+}
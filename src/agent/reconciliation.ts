@@ -0,0 +1,121 @@
+import { VectorizeManager } from './vectorize';
+
+/**
+ * Vectorize / D1 reconciliation
+ *
+ * Vectorize can't cascade, so a vector outlives its row unless someone
+ * deletes it, and RAG keeps serving the deleted content. Delete paths in the
+ * app remove their vectors straight away, but deletes they don't see (a user
+ * cascade, a manual D1 delete) or that fail half way would leave orphans.
+ * Triggers on every embedded table (migration 0014) therefore log the vector
+ * IDs of deleted rows in `vector_deletions`, and the scheduled job purges
+ * them. Purging an ID that is already gone is harmless.
+ *
+ * Rows deleted before the triggers existed were never logged, so the job also
+ * sweeps for orphans: it samples some users' vectors and deletes those whose
+ * row is gone. Vectorize can't list an index, so every run checks a
+ * different sample rather than the whole index.
+ */
+
+const PURGE_BATCH_SIZE = 100;   // IDs per deleteByIds call (and D1 bound parameters)
+const MAX_PURGED_PER_RUN = 5000;
+const SWEEP_USERS_PER_RUN = 20;
+const SWEEP_SAMPLE_SIZE = 50;   // Vectors checked per user, well under D1's bound parameter limit
+
+// Where the row behind each kind of vector ID lives; message IDs have no prefix
+const VECTOR_ROWS: Array<{ prefix: string; table: string; column: string }> = [
+    { prefix: 'knowledge-', table: 'knowledge_entries', column: 'id' },
+    { prefix: 'task-', table: 'tasks', column: 'id' },
+    { prefix: 'summary-', table: 'conversation_summaries', column: 'thread_id' },
+    { prefix: '', table: 'conversations', column: 'id' },
+];
+
+export class VectorReconciler {
+    private db: D1Database;
+    private vectorize: VectorizeManager;
+
+    constructor(db: D1Database, vectorize: VectorizeManager) {
+        this.db = db;
+        this.vectorize = vectorize;
+    }
+
+    /**
+     * Delete logged vectors, oldest first. Stops at the first batch Vectorize
+     * rejects so it is tried again on the next run. Returns how many were purged.
+     */
+    async purgeDeleted(limit: number = MAX_PURGED_PER_RUN): Promise<number> {
+        let purged = 0;
+
+        while (purged < limit) {
+            const result = await this.db.prepare(
+                'SELECT vector_id FROM vector_deletions ORDER BY deleted_at LIMIT ?'
+            ).bind(Math.min(PURGE_BATCH_SIZE, limit - purged)).all();
+            const ids = (result.results || []).map(row => row.vector_id as string);
+            if (ids.length === 0) {
+                break;
+            }
+
+            if (!await this.vectorize.deleteEmbeddings(ids)) {
+                console.error(`[Reconcile] Vectorize rejected ${ids.length} deletions; retrying next run`);
+                break;
+            }
+
+            await this.db.prepare(
+                `DELETE FROM vector_deletions WHERE vector_id IN (${ids.map(() => '?').join(', ')})`
+            ).bind(...ids).run();
+            purged += ids.length;
+
+            if (ids.length < PURGE_BATCH_SIZE) {
+                break;
+            }
+        }
+
+        console.log(`[Reconcile] Purged ${purged} orphaned vectors`);
+        return purged;
+    }
+
+    /**
+     * Delete sampled vectors of some users (random each run) that have no
+     * row in D1. Returns how many were deleted.
+     */
+    async sweepOrphans(userLimit: number = SWEEP_USERS_PER_RUN): Promise<number> {
+        const users = await this.db.prepare(
+            'SELECT id FROM users ORDER BY RANDOM() LIMIT ?'
+        ).bind(userLimit).all();
+
+        let deleted = 0;
+        for (const user of users.results || []) {
+            const userId = user.id as string;
+            const orphans = await this.findOrphans(userId, await this.vectorize.sampleVectorIds(userId, SWEEP_SAMPLE_SIZE));
+            if (orphans.length > 0 && await this.vectorize.deleteEmbeddings(orphans)) {
+                console.log(`[Reconcile] Deleted ${orphans.length} orphaned vectors of user ${userId}`);
+                deleted += orphans.length;
+            }
+        }
+        return deleted;
+    }
+
+    /**
+     * The given vector IDs of a user whose row doesn't exist
+     */
+    async findOrphans(userId: string, vectorIds: string[]): Promise<string[]> {
+        const orphans: string[] = [];
+        const rowsOf = (id: string) => VECTOR_ROWS.find(rows => id.startsWith(rows.prefix));
+
+        for (const rows of VECTOR_ROWS) {
+            const { prefix, table, column } = rows;
+            const ids = vectorIds.filter(id => rowsOf(id) === rows);
+            if (ids.length === 0) {
+                continue;
+            }
+
+            const keys = ids.map(id => id.slice(prefix.length));
+            const result = await this.db.prepare(
+                `SELECT ${column} AS id FROM ${table} WHERE user_id = ? AND ${column} IN (${keys.map(() => '?').join(', ')})`
+            ).bind(userId, ...keys).all();
+            const found = new Set((result.results || []).map(row => row.id as string));
+            orphans.push(...ids.filter((_, i) => !found.has(keys[i])));
+        }
+        return orphans;
+    }
+}
@@ -0,0 +1,312 @@
+import { Env } from '../types/env';
+import { knowledgeEmbeddingId, knowledgeText } from './knowledge';
+import { summaryThreadId } from './summaries';
+import { KNOWLEDGE_CONTENT_LENGTH, METADATA_CONTENT_LENGTH, VectorizeManager } from './vectorize';
+
+/**
+ * Hybrid retrieval for RAG
+ *
+ * Vector search finds messages and knowledge that mean the same thing as the
+ * query but misses exact names, ticket numbers and rare words. Those are found
+ * by the FTS5 keyword indexes (migration 0012). Both ranked lists are merged
+ * with reciprocal rank fusion: an item scores weight / (k + rank) for every
+ * list it appears in, so items found by both rise to the top without having
+ * to compare cosine similarity with bm25. Conversation history is then
+ * weighted towards recent messages; knowledge is reference material and isn't.
+ */
+
+export interface RetrievalSettings {
+    minVectorScore: number;       // Vector matches below this cosine similarity are dropped
+    vectorWeight: number;         // RRF weight of the vector ranking
+    keywordWeight: number;        // RRF weight of the keyword ranking (0 turns keyword search off)
+    rrfK: number;                 // RRF constant; larger values flatten the difference between ranks
+    recencyHalfLifeDays: number;  // Age at which a message's recency boost has halved
+    recencyWeight: number;        // Share of a message's score that depends on recency (0..1)
+}
+
+export type RetrievalSource = 'conversation' | 'knowledge';
+
+export interface RetrievedItem {
+    id: string;                   // Vector id: message id or knowledge-<entryId>
+    source: RetrievalSource;
+    content: string;
+    timestamp: number;            // ms; message time or the entry's last update
+    threadId?: string;            // Thread of a conversation item
+    score: number;
+    matchedBy: Array<'vector' | 'keyword'>;
+}
+
+/**
+ * A retrieved item as the model and the chat see it: numbered so a reply
+ * can cite it as [ref], and pointing back at the row it came from
+ */
+export interface SourceCitation {
+    ref: number;
+    type: RetrievalSource | 'summary';
+    id: string;                   // conversations.id, knowledge_entries.id or, for a summary, the thread id
+    threadId?: string;            // Conversation and summary sources only
+    timestamp: number;
+    snippet: string;
+}
+
+export interface HistorySearchOptions {
+    threadId?: string;            // Only search this thread
+    excludeIds?: Iterable<string>; // e.g. messages already in the prompt
+    activeBranch?: ActiveBranch;  // Skip messages of this thread's other branches
+}
+
+/**
+ * The messages on the branch a thread is on. Its other branches were edited
+ * or regenerated away, so they shouldn't come back through retrieval.
+ */
+export interface ActiveBranch {
+    threadId: string;
+    messageIds: Set<string>;
+}
+
+interface Candidate {
+    id: string;
+    content: string;
+    timestamp: number;
+    threadId?: string;
+}
+
+const MAX_VECTOR_CANDIDATES = 20;   // Vectorize's topK limit when returning metadata
+const MAX_KEYWORD_CANDIDATES = 100;
+const MAX_KEYWORD_TERMS = 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Words that match almost every message and only add noise to keyword search
+const STOPWORDS = new Set([
+    'a', 'about', 'after', 'all', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'before',
+    'but', 'by', 'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'he', 'her',
+    'him', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on',
+    'or', 'our', 'please', 'she', 'so', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these',
+    'they', 'this', 'to', 'up', 'us', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who',
+    'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+function parseSetting(value: string | undefined, fallback: number, min: number, max = Infinity): number {
+    const parsed = value === undefined || value.trim() === '' ? NaN : Number(value);
+    return Number.isFinite(parsed) && parsed >= min && parsed <= max ? parsed : fallback;
+}
+
+/**
+ * Retrieval tuning from env, falling back to the defaults on missing or invalid values
+ */
+export function getRetrievalSettings(env: Env): RetrievalSettings {
+    return {
+        minVectorScore: parseSetting(env.RAG_MIN_SCORE, 0.75, 0, 1),
+        vectorWeight: parseSetting(env.RAG_VECTOR_WEIGHT, 1, 0),
+        keywordWeight: parseSetting(env.RAG_KEYWORD_WEIGHT, 1, 0),
+        rrfK: parseSetting(env.RAG_RRF_K, 60, 1),
+        recencyHalfLifeDays: parseSetting(env.RAG_RECENCY_HALF_LIFE_DAYS, 30, 0),
+        recencyWeight: parseSetting(env.RAG_RECENCY_WEIGHT, 0.3, 0, 1),
+    };
+}
+
+/**
+ * FTS5 MATCH expression for free text: the distinctive terms, quoted and OR-ed.
+ * Terms keep inner punctuation ("INC-4521", "v2.3") and match as phrases.
+ * Returns null when nothing is worth searching for.
+ */
+export function buildKeywordQuery(text: string): string | null {
+    const terms = new Set<string>();
+    for (const [term] of text.matchAll(/[\p{L}\p{N}]+(?:[-_.'/][\p{L}\p{N}]+)*/gu)) {
+        const lower = term.toLowerCase();
+        if (STOPWORDS.has(lower) || (lower.length < 2 && !/\p{N}/u.test(lower))) {
+            continue;
+        }
+        terms.add(lower);
+        if (terms.size === MAX_KEYWORD_TERMS) {
+            break;
+        }
+    }
+
+    if (terms.size === 0) {
+        return null;
+    }
+    return [...terms].map(term => `"${term}"`).join(' OR ');
+}
+
+/**
+ * Multiplier in ((1 - weight)..1] that fades with age; 1 when recency is off
+ */
+export function recencyFactor(timestamp: number, now: number, settings: RetrievalSettings): number {
+    if (settings.recencyWeight <= 0 || settings.recencyHalfLifeDays <= 0) {
+        return 1;
+    }
+    const ageDays = Math.max(0, now - timestamp) / DAY_MS;
+    return (1 - settings.recencyWeight) + settings.recencyWeight * Math.pow(0.5, ageDays / settings.recencyHalfLifeDays);
+}
+
+/**
+ * Reciprocal rank fusion of the vector and keyword rankings (best first)
+ */
+export function fuseRankings(
+    source: RetrievalSource,
+    vectorHits: Candidate[],
+    keywordHits: Candidate[],
+    settings: RetrievalSettings,
+    now: number = Date.now(),
+): RetrievedItem[] {
+    const items = new Map<string, RetrievedItem>();
+
+    const add = (hits: Candidate[], weight: number, matchedBy: 'vector' | 'keyword') => {
+        hits.forEach((hit, rank) => {
+            const item = items.get(hit.id) ?? { ...hit, source, score: 0, matchedBy: [] };
+            item.score += weight / (settings.rrfK + rank + 1);
+            item.matchedBy.push(matchedBy);
+            items.set(hit.id, item);
+        });
+    };
+    add(vectorHits, settings.vectorWeight, 'vector');
+    add(keywordHits, settings.keywordWeight, 'keyword');
+
+    const fused = [...items.values()];
+    if (source === 'conversation') {
+        fused.forEach(item => { item.score *= recencyFactor(item.timestamp, now, settings); });
+    }
+    return fused.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Number retrieved items (best first) for the prompt and the chat. A thread's
+ * summary is stored as a conversation vector but points at the whole thread.
+ */
+export function toCitations(items: RetrievedItem[]): SourceCitation[] {
+    return items.map((item, i) => {
+        const base = { ref: i + 1, timestamp: item.timestamp, snippet: item.content };
+
+        const summaryOf = item.source === 'conversation' ? summaryThreadId(item.id) : null;
+        if (summaryOf) {
+            return { ...base, type: 'summary', id: summaryOf, threadId: summaryOf };
+        }
+        return {
+            ...base,
+            type: item.source,
+            id: item.source === 'knowledge' ? item.id.replace(/^knowledge-/, '') : item.id,
+            ...(item.threadId ? { threadId: item.threadId } : {}),
+        };
+    });
+}
+
+/**
+ * The sources a reply cites as [2] or [1, 3], in order of their numbers
+ */
+export function citedSources(reply: string, sources: SourceCitation[]): SourceCitation[] {
+    const refs = new Set<number>();
+    for (const [, list] of reply.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+        list.split(',').forEach(ref => refs.add(Number(ref)));
+    }
+    return sources.filter(source => refs.has(source.ref));
+}
+
+/**
+ * Runs both searches for a user and fuses the results
+ *
+ * Keyword search failing (e.g. before migration 0012 is applied) only logs
+ * and leaves the vector results.
+ */
+export class HybridRetriever {
+    private db: D1Database;
+    private vectorize: VectorizeManager;
+    private settings: RetrievalSettings;
+
+    constructor(db: D1Database, vectorize: VectorizeManager, settings: RetrievalSettings) {
+        this.db = db;
+        this.vectorize = vectorize;
+        this.settings = settings;
+    }
+
+    /**
+     * Past user and assistant messages relevant to the query
+     */
+    async searchHistory(userId: string, query: string, topK: number, options: HistorySearchOptions = {}): Promise<RetrievedItem[]> {
+        const excluded = new Set(options.excludeIds ?? []);
+        const candidates = topK * 2 + excluded.size;
+
+        const [vectorHits, keywordHits] = await Promise.all([
+            this.vectorSearch(userId, query, candidates, { type: 'conversation', threadId: options.threadId }),
+            this.keywordSearch(query, candidates, (match, limit) => {
+                const threadClause = options.threadId ? ' AND c.thread_id = ?' : '';
+                return this.db.prepare(
+                    `SELECT c.id, c.content, c.timestamp, c.thread_id FROM conversations_fts
+                     JOIN conversations c ON c.rowid = conversations_fts.rowid
+                     WHERE conversations_fts MATCH ? AND c.user_id = ? AND c.role IN ('user', 'assistant')${threadClause}
+                     ORDER BY bm25(conversations_fts) LIMIT ?`
+                ).bind(match, userId, ...(options.threadId ? [options.threadId] : []), limit).all();
+            }, row => ({
+                id: row.id as string,
+                content: (row.content as string).substring(0, METADATA_CONTENT_LENGTH),
+                timestamp: (row.timestamp as number) * 1000,
+                threadId: (row.thread_id as string | null) ?? undefined,
+            })),
+        ]);
+
+        const branch = options.activeBranch;
+        const keep = (hit: Candidate) => !excluded.has(hit.id)
+            && (!branch || (hit.threadId ?? options.threadId) !== branch.threadId || branch.messageIds.has(hit.id));
+        return fuseRankings('conversation', vectorHits.filter(keep), keywordHits.filter(keep), this.settings).slice(0, topK);
+    }
+
+    /**
+     * Knowledge entries and document chunks relevant to the query
+     */
+    async searchKnowledge(userId: string, query: string, topK: number): Promise<RetrievedItem[]> {
+        const candidates = topK * 2;
+
+        const [vectorHits, keywordHits] = await Promise.all([
+            this.vectorSearch(userId, query, candidates, { type: 'knowledge' }),
+            this.keywordSearch(query, candidates, (match, limit) => this.db.prepare(
+                `SELECT k.id, k.title, k.content, COALESCE(k.updated_at, k.created_at) AS updated_at FROM knowledge_entries_fts
+                 JOIN knowledge_entries k ON k.rowid = knowledge_entries_fts.rowid
+                 WHERE knowledge_entries_fts MATCH ? AND k.user_id = ?
+                 ORDER BY bm25(knowledge_entries_fts) LIMIT ?`
+            ).bind(match, userId, limit).all(), row => ({
+                id: knowledgeEmbeddingId(row.id as string),
+                content: knowledgeText({ title: (row.title as string | null) ?? undefined, content: row.content as string })
+                    .substring(0, KNOWLEDGE_CONTENT_LENGTH),
+                timestamp: (row.updated_at as number) * 1000,
+            })),
+        ]);
+
+        return fuseRankings('knowledge', vectorHits, keywordHits, this.settings).slice(0, topK);
+    }
+
+    private async vectorSearch(
+        userId: string,
+        query: string,
+        candidates: number,
+        filter: { type: 'conversation' | 'knowledge'; threadId?: string },
+    ): Promise<Candidate[]> {
+        if (this.settings.vectorWeight <= 0) {
+            return [];
+        }
+
+        const results = await this.vectorize.searchRelevantContext(userId, query, Math.min(candidates, MAX_VECTOR_CANDIDATES), filter);
+        return results
+            .filter(r => r.score >= this.settings.minVectorScore)
+            .map(r => ({ id: r.id, content: r.metadata.content, timestamp: r.metadata.timestamp, threadId: r.metadata.threadId }));
+    }
+
+    private async keywordSearch(
+        query: string,
+        candidates: number,
+        run: (match: string, limit: number) => Promise<D1Result<Record<string, unknown>>>,
+        mapRow: (row: Record<string, unknown>) => Candidate,
+    ): Promise<Candidate[]> {
+        const match = buildKeywordQuery(query);
+        if (!match || this.settings.keywordWeight <= 0) {
+            return [];
+        }
+
+        try {
+            const result = await run(match, Math.min(candidates, MAX_KEYWORD_CANDIDATES));
+            return (result.results || []).map(mapRow);
+        } catch (error) {
+            console.error('[RAG] Keyword search failed, using vector results only:', error);
+            return [];
+        }
+    }
+}
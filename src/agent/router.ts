@@ -0,0 +1,213 @@
+/**
+ * Intent routing
+ *
+ * Decides per message whether RAG retrieval is worth doing and which tools
+ * the model should see. Each route has a handful of example utterances; the
+ * message is embedded (the same bge embedding used for storage and search,
+ * so routing usually costs no extra AI call) and matched to the nearest
+ * examples by cosine similarity. Anything that doesn't clearly match a route
+ * gets the general route: retrieval on, every tool offered - the behaviour
+ * from before routing existed.
+ */
+
+export type Intent = 'smalltalk' | 'tasks' | 'calendar' | 'weather' | 'email' | 'recall' | 'facts' | 'general';
+
+export interface RouteDecision {
+    intent: Intent;
+    needsRetrieval: boolean;
+    tools?: string[];  // Tools to offer; undefined = all tools
+    score: number;     // Similarity to the nearest example (0 for the fallback)
+}
+
+interface RouteDefinition {
+    intent: Exclude<Intent, 'general'>;
+    needsRetrieval: boolean;
+    tools: string[];
+    examples: string[];
+}
+
+/**
+ * Embedding source (VectorizeManager)
+ */
+export interface RouterEmbeddings {
+    generateEmbedding(text: string): Promise<number[]>;
+    generateEmbeddings(texts: string[]): Promise<number[][]>;
+}
+
+const TASK_TOOLS = ['createTask', 'listTasks', 'searchTasks', 'updateTask', 'completeTask', 'deleteTask'];
+const CALENDAR_TOOLS = ['createCalendarEvent', 'updateCalendarEvent', 'deleteCalendarEvent'];
+const FACT_TOOLS = ['rememberFact', 'listFacts', 'forgetFact'];
+
+export const ROUTES: RouteDefinition[] = [
+    {
+        intent: 'smalltalk',
+        needsRetrieval: false,
+        tools: [],
+        examples: [
+            'hi', 'hello there', 'hey, how are you?', 'good morning', 'thanks!', 'thank you so much',
+            'ok cool', 'great, bye', 'what can you do?', 'who are you?', 'lol nice',
+        ],
+    },
+    {
+        intent: 'tasks',
+        needsRetrieval: true,
+        tools: TASK_TOOLS,
+        examples: [
+            'remind me to call mom tomorrow', 'add buy milk to my list', 'create a task to review the proposal',
+            'what tasks do I have?', 'show my pending tasks', 'mark the groceries task as done',
+            'delete the dentist task', 'change the deadline of my report task to friday',
+            'find my task about the car insurance',
+        ],
+    },
+    {
+        intent: 'calendar',
+        needsRetrieval: true,
+        tools: [...CALENDAR_TOOLS, 'createTask'],
+        examples: [
+            'add a team meeting to my calendar', 'schedule lunch with Sarah on Thursday at noon',
+            'block my calendar tomorrow afternoon', 'move my meeting to 3pm', 'cancel the event on Friday',
+            'put the dentist appointment in my calendar',
+        ],
+    },
+    {
+        intent: 'weather',
+        needsRetrieval: false,
+        tools: ['getWeather'],
+        examples: [
+            "what's the weather in London?", 'is it going to rain today?', 'how cold is it in Paris',
+            'do I need an umbrella in Seattle', 'temperature in Tokyo right now',
+        ],
+    },
+    {
+        intent: 'email',
+        needsRetrieval: true,
+        tools: ['sendEmail'],
+        examples: [
+            'send an email to john@example.com', 'email my boss that I will be late',
+            'write an email to the team about the launch', 'send that to sarah@example.com',
+        ],
+    },
+    {
+        intent: 'recall',
+        needsRetrieval: true,
+        tools: ['searchTasks'],
+        examples: [
+            'what did we talk about yesterday?', 'what did I tell you about my trip?',
+            'remind me what we decided about the budget', "what's my sister's name again?",
+            'what did you say earlier about the flight?', 'what was that thing about the dentist?',
+        ],
+    },
+    {
+        intent: 'facts',
+        needsRetrieval: false,
+        tools: FACT_TOOLS,
+        examples: [
+            "remember that my partner's name is Sam", "I'm vegetarian", 'my birthday is on March 3rd',
+            "don't forget that I'm allergic to peanuts", 'I live in Berlin now', 'forget that I work at Acme',
+            'what do you know about me?',
+        ],
+    },
+];
+
+export const GENERAL_ROUTE: RouteDecision = { intent: 'general', needsRetrieval: true, score: 0 };
+
+const MIN_SIMILARITY = 0.75;  // Below this no route is trusted
+const ROUTE_MARGIN = 0.03;    // Routes this close to the best one are merged (multi-intent messages)
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function unionTools(a?: string[], b?: string[]): string[] | undefined {
+    return a && b ? [...new Set([...a, ...b])] : undefined;
+}
+
+/**
+ * Keep the previous turn's tools available for follow-ups
+ * ("yes, do it", "make it 3pm instead") that route as small talk on their own
+ */
+export function withFollowUpTools(decision: RouteDecision, previous?: RouteDecision): RouteDecision {
+    if (!previous) {
+        return decision;
+    }
+    return { ...decision, tools: unionTools(decision.tools, previous.tools) };
+}
+
+export class IntentRouter {
+    private embeddings: RouterEmbeddings;
+    private exampleEmbeddings: Promise<number[][][]> | null = null;
+
+    constructor(embeddings: RouterEmbeddings) {
+        this.embeddings = embeddings;
+    }
+
+    /**
+     * Example embeddings per route, computed once per router in a single call
+     */
+    private getExampleEmbeddings(): Promise<number[][][]> {
+        if (!this.exampleEmbeddings) {
+            const examples = ROUTES.flatMap(route => route.examples);
+            this.exampleEmbeddings = this.embeddings.generateEmbeddings(examples)
+                .then(vectors => {
+                    let offset = 0;
+                    return ROUTES.map(route => {
+                        const routeVectors = vectors.slice(offset, offset + route.examples.length);
+                        offset += route.examples.length;
+                        return routeVectors;
+                    });
+                })
+                .catch(error => {
+                    this.exampleEmbeddings = null;  // Retry on the next message
+                    throw error;
+                });
+        }
+        return this.exampleEmbeddings;
+    }
+
+    /**
+     * Route a message. Never throws: embedding failures fall back to GENERAL_ROUTE.
+     */
+    async route(message: string): Promise<RouteDecision> {
+        try {
+            const [messageEmbedding, exampleEmbeddings] = await Promise.all([
+                this.embeddings.generateEmbedding(message),
+                this.getExampleEmbeddings(),
+            ]);
+
+            const scores = ROUTES.map((route, i) => ({
+                route,
+                score: Math.max(...exampleEmbeddings[i].map(example => cosineSimilarity(messageEmbedding, example))),
+            }));
+            return this.decide(scores);
+        } catch (error) {
+            console.error('[Router] Routing failed, using general route:', error);
+            return GENERAL_ROUTE;
+        }
+    }
+
+    private decide(scores: Array<{ route: RouteDefinition; score: number }>): RouteDecision {
+        const best = Math.max(...scores.map(s => s.score));
+        if (best < MIN_SIMILARITY) {
+            return { ...GENERAL_ROUTE, score: best };
+        }
+
+        const matched = scores
+            .filter(s => s.score >= best - ROUTE_MARGIN)
+            .sort((a, b) => b.score - a.score);
+
+        return {
+            intent: matched[0].route.intent,
+            needsRetrieval: matched.some(s => s.route.needsRetrieval),
+            tools: [...new Set(matched.flatMap(s => s.route.tools))],
+            score: best,
+        };
+    }
+}
@@ -0,0 +1,152 @@
+/**
+ * Streaming helpers for Workers AI text generation
+ *
+ * Workers AI returns a server-sent-events stream when called with `stream: true`:
+ *   data: {"response":"Hel"}
+ *   data: {"response":"lo"}
+ *   data: [DONE]
+ *
+ * Models that support native tool calling may also send `tool_calls` in an event.
+ */
+
+export interface StreamOptions {
+    onDelta?: (delta: string) => void;
+    timeoutMs?: number;
+    parseEvent?: (line: string) => StreamEvent | null;  // Defaults to the Workers AI event format
+    signal?: AbortSignal;  // Stop reading (and cancel the stream) when aborted
+}
+
+export interface StreamResult {
+    text: string;
+    toolCalls: unknown[];
+    timedOut: boolean;
+    aborted: boolean;
+}
+
+export interface StreamEvent {
+    response?: string;
+    toolCalls?: unknown[];
+}
+
+/**
+ * Parse a single SSE event line and return the text / tool calls it carries (if any)
+ */
+export function parseStreamEvent(line: string): StreamEvent | null {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) {
+        return null;
+    }
+
+    const data = trimmed.slice(5).trim();
+    if (!data || data === '[DONE]') {
+        return null;
+    }
+
+    try {
+        const parsed = JSON.parse(data);
+        const event: StreamEvent = {};
+        if (typeof parsed.response === 'string' && parsed.response) {
+            event.response = parsed.response;
+        }
+        if (Array.isArray(parsed.tool_calls) && parsed.tool_calls.length > 0) {
+            event.toolCalls = parsed.tool_calls;
+        }
+        return event.response || event.toolCalls ? event : null;
+    } catch {
+        console.warn('[Streaming] Skipping malformed stream event:', data.substring(0, 100));
+        return null;
+    }
+}
+
+/**
+ * Read an LLM stream to completion, forwarding each text delta as it arrives.
+ * If the timeout elapses the stream is cancelled and whatever text arrived
+ * so far is returned with `timedOut: true` instead of being discarded.
+ * Aborting the signal does the same, returning with `aborted: true`.
+ */
+export async function consumeLLMStream(
+    stream: ReadableStream<Uint8Array>,
+    options: StreamOptions = {}
+): Promise<StreamResult> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    const deadline = options.timeoutMs ? Date.now() + options.timeoutMs : Infinity;
+
+    let buffer = '';
+    let text = '';
+    const toolCalls: unknown[] = [];
+    let timedOut = false;
+    let aborted = false;
+
+    const parseEvent = options.parseEvent ?? parseStreamEvent;
+
+    const emit = (line: string) => {
+        const event = parseEvent(line);
+        if (event?.response) {
+            text += event.response;
+            options.onDelta?.(event.response);
+        }
+        if (event?.toolCalls) {
+            toolCalls.push(...event.toolCalls);
+        }
+    };
+
+    try {
+        while (true) {
+            if (options.signal?.aborted) {
+                aborted = true;
+                break;
+            }
+
+            const remaining = deadline - Date.now();
+            if (remaining <= 0) {
+                timedOut = true;
+                break;
+            }
+
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            let onAbort: (() => void) | undefined;
+            const interrupt = new Promise<'timeout' | 'aborted'>(resolve => {
+                timer = setTimeout(() => resolve('timeout'), remaining === Infinity ? 2 ** 31 - 1 : remaining);
+                onAbort = () => resolve('aborted');
+                options.signal?.addEventListener('abort', onAbort, { once: true });
+            });
+
+            const next = await Promise.race([reader.read(), interrupt]);
+            if (timer) clearTimeout(timer);
+            if (onAbort) options.signal?.removeEventListener('abort', onAbort);
+
+            if (next === 'timeout') {
+                timedOut = true;
+                break;
+            }
+
+            if (next === 'aborted') {
+                aborted = true;
+                break;
+            }
+
+            if (next.done) {
+                break;
+            }
+
+            buffer += decoder.decode(next.value, { stream: true });
+
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+            lines.forEach(emit);
+        }
+
+        if (!timedOut && !aborted && buffer) {
+            emit(buffer);
+        }
+    } finally {
+        if (timedOut || aborted) {
+            await reader.cancel(aborted ? 'LLM stream cancelled' : 'LLM stream timed out').catch(() => {});
+        } else {
+            reader.releaseLock();
+        }
+    }
+
+    return { text, toolCalls, timedOut, aborted };
+}
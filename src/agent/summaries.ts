@@ -0,0 +1,97 @@
+import { ConversationSummary, Message } from '../types/env';
+import { SUMMARY_HEADER } from './memory';
+
+const SUMMARY_EMBEDDING_PREFIX = 'summary-';
+
+/**
+ * Vectorize id for a thread's summary (upserted in place as it is regenerated)
+ */
+export function summaryEmbeddingId(threadId: string): string {
+    return `${SUMMARY_EMBEDDING_PREFIX}${threadId}`;
+}
+
+/**
+ * The vector a summary is stored as: a conversation vector of its thread, so
+ * RAG can find it from other threads
+ */
+export function summaryEmbedding(summary: Pick<ConversationSummary, 'threadId' | 'content' | 'updatedAt'>): Message {
+    return {
+        id: summaryEmbeddingId(summary.threadId),
+        role: 'system',
+        content: `${SUMMARY_HEADER}${summary.content}`,
+        timestamp: summary.updatedAt,
+        threadId: summary.threadId,
+    };
+}
+
+/**
+ * Thread of a summary vector, null for any other vector id
+ */
+export function summaryThreadId(vectorId: string): string | null {
+    return vectorId.startsWith(SUMMARY_EMBEDDING_PREFIX) ? vectorId.slice(SUMMARY_EMBEDDING_PREFIX.length) : null;
+}
+
+/**
+ * D1 access for rolling conversation summaries
+ *
+ * One row per thread. Every query is scoped by user_id like ThreadStore.
+ */
+export class SummaryStore {
+    private db: D1Database;
+
+    constructor(db: D1Database) {
+        this.db = db;
+    }
+
+    private mapDbSummaryToSummary(row: any): ConversationSummary {
+        return {
+            threadId: row.thread_id as string,
+            content: row.content as string,
+            lastMessageId: row.last_message_id as string,
+            coveredUntil: row.covered_until as number,
+            messageCount: row.message_count as number,
+            updatedAt: (row.updated_at as number) * 1000,
+        };
+    }
+
+    async getSummary(userId: string, threadId: string): Promise<ConversationSummary | null> {
+        const row = await this.db.prepare(
+            'SELECT * FROM conversation_summaries WHERE thread_id = ? AND user_id = ?'
+        ).bind(threadId, userId).first();
+
+        return row ? this.mapDbSummaryToSummary(row) : null;
+    }
+
+    async saveSummary(userId: string, summary: Omit<ConversationSummary, 'updatedAt'>): Promise<ConversationSummary> {
+        const now = Math.floor(Date.now() / 1000);
+
+        await this.db.prepare(
+            `INSERT INTO conversation_summaries (thread_id, user_id, content, last_message_id, covered_until, message_count, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT(thread_id) DO UPDATE SET
+               content = excluded.content,
+               last_message_id = excluded.last_message_id,
+               covered_until = excluded.covered_until,
+               message_count = excluded.message_count,
+               updated_at = excluded.updated_at
+             WHERE conversation_summaries.user_id = excluded.user_id`
+        ).bind(
+            summary.threadId,
+            userId,
+            summary.content,
+            summary.lastMessageId,
+            summary.coveredUntil,
+            summary.messageCount,
+            now
+        ).run();
+
+        console.log(`[Summaries] Saved summary for thread ${summary.threadId} (${summary.messageCount} messages)`);
+        return { ...summary, updatedAt: now * 1000 };
+    }
+
+    async deleteSummary(userId: string, threadId: string): Promise<void> {
+        await this.db.prepare(
+            'DELETE FROM conversation_summaries WHERE thread_id = ? AND user_id = ?'
+        ).bind(threadId, userId).run();
+    }
+}
@@ -0,0 +1,156 @@
+import { Message, Task } from '../types/env';
+import { SearchTasksParams } from '../types/tools';
+import { VectorizeManager, taskEmbeddingId } from './vectorize';
+
+/**
+ * Semantic task search
+ *
+ * Tasks are embedded (type 'task', vector id task-<id>) when they are created
+ * or edited, so "that thing about the dentist" finds "Book checkup". Search
+ * ranks the nearest task vectors by similarity and then applies the filters
+ * in D1, where completion, priority and due date are always current; vectors
+ * also carry `completed` so open tasks can be asked of Vectorize directly.
+ * When no candidate is left (e.g. Vectorize unavailable in local dev, or every
+ * near match filtered out) it falls back to matching the words in titles and
+ * descriptions.
+ */
+
+export interface TaskSearchResult {
+    task: Task;
+    score: number;   // Cosine similarity; 0 for text matches
+}
+
+const DEFAULT_LIMIT = 5;
+const MAX_CANDIDATES = 20;     // Vectorize's topK limit when returning metadata
+// A ranking rather than RAG context, so only clearly unrelated tasks are dropped
+const MIN_SCORE = 0.5;
+
+/**
+ * Text that is embedded for a task
+ */
+export function taskText(task: { title: string; description?: string }): string {
+    return task.description ? `${task.title}\n${task.description}` : task.title;
+}
+
+/**
+ * The vector a task is stored as
+ */
+export function taskEmbedding(task: Pick<Task, 'id' | 'title' | 'description' | 'completed' | 'createdAt'>): Message {
+    return {
+        id: taskEmbeddingId(task.id),
+        role: 'system',
+        content: taskText(task),
+        timestamp: task.createdAt * 1000,
+        metadata: { taskId: task.id, completed: task.completed },
+    };
+}
+
+export class TaskSearch {
+    private db: D1Database;
+    private vectorize: VectorizeManager;
+
+    constructor(db: D1Database, vectorize: VectorizeManager) {
+        this.db = db;
+        this.vectorize = vectorize;
+    }
+
+    private mapDbTaskToTask(row: any): Task {
+        return {
+            id: row.id as string,
+            userId: row.user_id as string,
+            title: row.title as string,
+            description: row.description as string | undefined,
+            dueDate: row.due_date as number | undefined,
+            completed: Boolean(row.completed),
+            priority: (row.priority as 'low' | 'medium' | 'high') || 'medium',
+            createdAt: row.created_at as number,
+            completedAt: row.completed_at as number | undefined,
+        };
+    }
+
+    /**
+     * Embed a task's current title, description and completion. Returns false when it
+     * wasn't stored; the next edit or an embedding backfill stores it then.
+     */
+    async indexTask(task: Task): Promise<boolean> {
+        try {
+            await this.vectorize.batchStoreEmbeddings(task.userId, [taskEmbedding(task)], 'task');
+            return true;
+        } catch (error) {
+            console.error(`[Tasks] Error embedding task ${task.id}:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Tasks matching the query, most similar first
+     */
+    async search(userId: string, params: SearchTasksParams): Promise<TaskSearchResult[]> {
+        const limit = params.limit ?? DEFAULT_LIMIT;
+        const matches = await this.vectorize.searchRelevantContext(userId, params.query, MAX_CANDIDATES, {
+            type: 'task',
+            ...(params.excludeCompleted && { completed: false }),
+        });
+        const scores = new Map<string, number>();
+        for (const match of matches) {
+            const taskId = match.metadata.taskId as string | undefined;
+            if (taskId && match.score >= MIN_SCORE && !scores.has(taskId)) {
+                scores.set(taskId, match.score);
+            }
+        }
+
+        if (scores.size === 0) {
+            return this.searchText(userId, params, limit);
+        }
+
+        const ids = [...scores.keys()];
+        const { clause, values } = this.filterClause(params);
+        const result = await this.db.prepare(
+            `SELECT * FROM tasks WHERE user_id = ? AND id IN (${ids.map(() => '?').join(', ')})${clause}`
+        ).bind(userId, ...ids, ...values).all();
+
+        const results = (result.results || [])
+            .map(row => ({ task: this.mapDbTaskToTask(row), score: scores.get(row.id as string)! }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+        return results.length > 0 ? results : this.searchText(userId, params, limit);
+    }
+
+    private async searchText(userId: string, params: SearchTasksParams, limit: number): Promise<TaskSearchResult[]> {
+        const words = params.query.toLowerCase().split(/\s+/).filter(word => word.length > 2).slice(0, 5);
+        if (words.length === 0) {
+            return [];
+        }
+
+        const { clause, values } = this.filterClause(params);
+        const wordClause = words.map(() => "(LOWER(title) LIKE ? OR LOWER(COALESCE(description, '')) LIKE ?)").join(' OR ');
+        const result = await this.db.prepare(
+            `SELECT * FROM tasks WHERE user_id = ? AND (${wordClause})${clause} ORDER BY created_at DESC LIMIT ?`
+        ).bind(userId, ...words.flatMap(word => [`%${word}%`, `%${word}%`]), ...values, limit).all();
+
+        return (result.results || []).map(row => ({ task: this.mapDbTaskToTask(row), score: 0 }));
+    }
+
+    private filterClause(params: SearchTasksParams): { clause: string; values: unknown[] } {
+        const conditions: string[] = [];
+        const values: unknown[] = [];
+
+        if (params.excludeCompleted) {
+            conditions.push('completed = 0');
+        }
+        if (params.priority) {
+            conditions.push('priority = ?');
+            values.push(params.priority);
+        }
+        if (params.dueAfter) {
+            conditions.push('due_date >= ?');
+            values.push(new Date(params.dueAfter).getTime());
+        }
+        if (params.dueBefore) {
+            conditions.push('due_date < ?');
+            values.push(new Date(params.dueBefore).getTime());
+        }
+
+        return { clause: conditions.map(condition => ` AND ${condition}`).join(''), values };
+    }
+}
@@ -0,0 +1,185 @@
+import { Thread } from '../types/env';
+
+export const DEFAULT_THREAD_TITLE = 'New conversation';
+const MAX_TITLE_LENGTH = 100;
+
+/**
+ * Derive a thread title from the first user message
+ */
+export function titleFromMessage(content: string): string {
+    const singleLine = content.replace(/\s+/g, ' ').trim();
+    if (!singleLine) {
+        return DEFAULT_THREAD_TITLE;
+    }
+    return singleLine.length > 60 ? `${singleLine.substring(0, 57)}...` : singleLine;
+}
+
+/**
+ * Normalise a user-supplied title, returning null when it is unusable
+ */
+export function normalizeThreadTitle(title: unknown): string | null {
+    if (typeof title !== 'string') {
+        return null;
+    }
+    const trimmed = title.trim();
+    if (!trimmed || trimmed.length > MAX_TITLE_LENGTH) {
+        return null;
+    }
+    return trimmed;
+}
+
+/**
+ * D1 access for conversation threads
+ *
+ * Shared by the REST routes and the PersonalAssistant Durable Object.
+ * Every query is scoped by user_id so one user can never touch another's threads.
+ */
+export class ThreadStore {
+    private db: D1Database;
+
+    constructor(db: D1Database) {
+        this.db = db;
+    }
+
+    private mapDbThreadToThread(row: any): Thread {
+        return {
+            id: row.id as string,
+            userId: row.user_id as string,
+            title: row.title as string,
+            archived: Boolean(row.archived),
+            activeLeafId: (row.active_leaf_id as string | null) ?? undefined,
+            createdAt: (row.created_at as number) * 1000,
+            updatedAt: (row.updated_at as number) * 1000,
+        };
+    }
+
+    async createThread(userId: string, title: string = DEFAULT_THREAD_TITLE): Promise<Thread> {
+        const id = crypto.randomUUID();
+        const now = Math.floor(Date.now() / 1000);
+
+        await this.db.prepare(
+            'INSERT INTO threads (id, user_id, title, archived, created_at, updated_at) VALUES (?, ?, ?, 0, ?, ?)'
+        ).bind(id, userId, title, now, now).run();
+
+        console.log(`[Threads] Created thread ${id} for user ${userId}`);
+
+        return {
+            id,
+            userId,
+            title,
+            archived: false,
+            createdAt: now * 1000,
+            updatedAt: now * 1000,
+        };
+    }
+
+    async getThread(userId: string, threadId: string): Promise<Thread | null> {
+        const row = await this.db.prepare(
+            'SELECT * FROM threads WHERE id = ? AND user_id = ?'
+        ).bind(threadId, userId).first();
+
+        return row ? this.mapDbThreadToThread(row) : null;
+    }
+
+    async listThreads(userId: string, includeArchived: boolean = false): Promise<Thread[]> {
+        const query = includeArchived
+            ? 'SELECT * FROM threads WHERE user_id = ? ORDER BY updated_at DESC'
+            : 'SELECT * FROM threads WHERE user_id = ? AND archived = 0 ORDER BY updated_at DESC';
+
+        const result = await this.db.prepare(query).bind(userId).all();
+        return (result.results || []).map(row => this.mapDbThreadToThread(row));
+    }
+
+    /**
+     * Most recently active, non-archived thread (used when a client doesn't send a threadId)
+     */
+    async getLatestThread(userId: string): Promise<Thread | null> {
+        const row = await this.db.prepare(
+            'SELECT * FROM threads WHERE user_id = ? AND archived = 0 ORDER BY updated_at DESC LIMIT 1'
+        ).bind(userId).first();
+
+        return row ? this.mapDbThreadToThread(row) : null;
+    }
+
+    async updateThread(
+        userId: string,
+        threadId: string,
+        updates: { title?: string; archived?: boolean }
+    ): Promise<Thread | null> {
+        const fields: string[] = [];
+        const values: any[] = [];
+
+        if (updates.title !== undefined) {
+            fields.push('title = ?');
+            values.push(updates.title);
+        }
+
+        if (updates.archived !== undefined) {
+            fields.push('archived = ?');
+            values.push(updates.archived ? 1 : 0);
+        }
+
+        if (fields.length > 0) {
+            fields.push('updated_at = ?');
+            values.push(Math.floor(Date.now() / 1000));
+
+            await this.db.prepare(
+                `UPDATE threads SET ${fields.join(', ')} WHERE id = ? AND user_id = ?`
+            ).bind(...values, threadId, userId).run();
+        }
+
+        return this.getThread(userId, threadId);
+    }
+
+    /**
+     * Delete a thread and its messages. Returns the deleted message ids so the
+     * caller can remove their embeddings.
+     */
+    async deleteThread(userId: string, threadId: string): Promise<string[] | null> {
+        const thread = await this.getThread(userId, threadId);
+        if (!thread) {
+            return null;
+        }
+
+        const messages = await this.db.prepare(
+            'SELECT id FROM conversations WHERE thread_id = ? AND user_id = ?'
+        ).bind(threadId, userId).all();
+
+        await this.db.batch([
+            this.db.prepare('DELETE FROM conversations WHERE thread_id = ? AND user_id = ?').bind(threadId, userId),
+            this.db.prepare('DELETE FROM conversation_summaries WHERE thread_id = ? AND user_id = ?').bind(threadId, userId),
+            this.db.prepare('DELETE FROM threads WHERE id = ? AND user_id = ?').bind(threadId, userId),
+        ]);
+
+        console.log(`[Threads] Deleted thread ${threadId} (${messages.results?.length || 0} messages)`);
+        return (messages.results || []).map(row => row.id as string);
+    }
+
+    /**
+     * Bump updated_at after new activity; an untitled thread takes its
+     * title from the first user message
+     */
+    async touchThread(userId: string, threadId: string, firstMessage?: string): Promise<void> {
+        const now = Math.floor(Date.now() / 1000);
+
+        if (firstMessage) {
+            await this.db.prepare(
+                'UPDATE threads SET updated_at = ?, title = CASE WHEN title = ? THEN ? ELSE title END WHERE id = ? AND user_id = ?'
+            ).bind(now, DEFAULT_THREAD_TITLE, titleFromMessage(firstMessage), threadId, userId).run();
+            return;
+        }
+
+        await this.db.prepare(
+            'UPDATE threads SET updated_at = ? WHERE id = ? AND user_id = ?'
+        ).bind(now, threadId, userId).run();
+    }
+
+    /**
+     * Point the thread at the branch ending in `messageId`
+     */
+    async setActiveLeaf(userId: string, threadId: string, messageId: string): Promise<void> {
+        await this.db.prepare(
+            'UPDATE threads SET active_leaf_id = ? WHERE id = ? AND user_id = ?'
+        ).bind(messageId, threadId, userId).run();
+    }
+}
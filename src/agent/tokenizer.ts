@@ -0,0 +1,180 @@
+/**
+ * Token counting
+ *
+ * Counts use the Llama 3 BPE tokenizer (llama3-tokenizer-js). Its vocabulary
+ * is ~3MB and takes a few hundred ms to decode, so it is loaded lazily in the
+ * background; until it is ready (or if it fails to load) a character-class
+ * estimator is used instead. For non-Llama models the Llama count is a close
+ * approximation, far better than characters / 4.
+ */
+
+/**
+ * Tokens the chat template adds around every message
+ * (<|start_header_id|>role<|end_header_id|>\n\n ... <|eot_id|>)
+ */
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Context length per model. Unknown models get DEFAULT_CONTEXT_WINDOW
+ * unless LLM_CONTEXT_WINDOW is set.
+ */
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+    '@cf/meta/llama-3.3-70b-instruct-fp8-fast': 24000,
+    '@cf/meta/llama-3.1-8b-instruct': 7968,
+    '@cf/meta/llama-3.1-8b-instruct-fast': 128000,
+    '@cf/meta/llama-3.2-3b-instruct': 128000,
+    '@cf/meta/llama-3.2-1b-instruct': 60000,
+    '@cf/meta/llama-4-scout-17b-16e-instruct': 131000,
+    'gpt-4o': 128000,
+    'gpt-4o-mini': 128000,
+};
+
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+const CACHE_SIZE = 1000;
+
+/**
+ * Estimate tokens without a vocabulary. Deliberately errs high:
+ * - ASCII words: ~4 characters per token
+ * - ASCII punctuation (JSON, code): ~1 token each
+ * - CJK / kana / hangul: ~1 token per character
+ * - other non-ASCII (accents, Cyrillic, emoji...): ~1 token per 2 characters
+ */
+export function estimateTokensHeuristic(text: string): number {
+    let tokens = 0;
+    let wordLength = 0;
+    let otherNonAscii = 0;
+
+    const endWord = () => {
+        tokens += Math.ceil(wordLength / 4);
+        wordLength = 0;
+    };
+
+    for (const char of text) {
+        const code = char.codePointAt(0) ?? 0;
+
+        if ((code >= 48 && code <= 57) || (code >= 65 && code <= 90) || (code >= 97 && code <= 122)) {
+            wordLength++;
+            continue;
+        }
+
+        endWord();
+
+        if (code <= 32) {
+            continue;  // whitespace usually merges into the next token
+        }
+        if (code < 128) {
+            tokens++;
+        } else if (
+            (code >= 0x3040 && code <= 0x30ff) ||  // kana
+            (code >= 0x3400 && code <= 0x9fff) ||  // CJK
+            (code >= 0xac00 && code <= 0xd7af)     // hangul
+        ) {
+            tokens++;
+        } else {
+            otherNonAscii++;
+        }
+    }
+    endWord();
+
+    return tokens + Math.ceil(otherNonAscii / 2);
+}
+
+type Encoder = (text: string) => number[];
+
+/**
+ * Token counter with an LRU cache (history messages are re-counted every turn)
+ */
+export class TokenCounter {
+    private encoder: Encoder | null;
+    private cache = new Map<string, number>();
+    private loading: Promise<boolean> | null = null;
+
+    constructor(encoder: Encoder | null = null) {
+        this.encoder = encoder;
+    }
+
+    /**
+     * True once counts come from the real tokenizer
+     */
+    get exact(): boolean {
+        return this.encoder !== null;
+    }
+
+    count(text: string): number {
+        if (!text) {
+            return 0;
+        }
+
+        const cached = this.cache.get(text);
+        if (cached !== undefined) {
+            // Refresh recency
+            this.cache.delete(text);
+            this.cache.set(text, cached);
+            return cached;
+        }
+
+        let tokens: number;
+        try {
+            tokens = this.encoder ? this.encoder(text).length : estimateTokensHeuristic(text);
+        } catch (error) {
+            console.warn('[Tokenizer] Encoding failed, using estimate:', error);
+            tokens = estimateTokensHeuristic(text);
+        }
+
+        this.cache.set(text, tokens);
+        if (this.cache.size > CACHE_SIZE) {
+            const oldest = this.cache.keys().next().value;
+            if (oldest !== undefined) this.cache.delete(oldest);
+        }
+        return tokens;
+    }
+
+    /**
+     * Load the Llama 3 tokenizer once. Resolves false (and keeps estimating)
+     * if the module can't be loaded.
+     */
+    load(): Promise<boolean> {
+        if (this.encoder) {
+            return Promise.resolve(true);
+        }
+
+        if (!this.loading) {
+            this.loading = import('llama3-tokenizer-js')
+                .then(module => {
+                    const tokenizer = module.default;
+                    this.encoder = (text: string) => tokenizer.encode(text, { bos: false, eos: false });
+                    this.cache.clear();  // Drop estimates
+                    console.log('[Tokenizer] Llama 3 tokenizer loaded');
+                    return true;
+                })
+                .catch(error => {
+                    console.warn('[Tokenizer] Could not load Llama 3 tokenizer, using estimates:', error);
+                    this.loading = null;
+                    return false;
+                });
+        }
+        return this.loading;
+    }
+}
+
+export const tokenCounter = new TokenCounter();
+
+/**
+ * Context length for a model (LLM_CONTEXT_WINDOW overrides the table)
+ */
+export function getContextWindow(model: string | undefined, override?: string): number {
+    const configured = parseInt(override || '', 10);
+    if (Number.isFinite(configured) && configured > 0) {
+        return configured;
+    }
+    return (model && MODEL_CONTEXT_WINDOWS[model]) || DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Tokens available for the prompt (system prompt + history + retrieved
+ * context) once the completion and any fixed overhead are reserved
+ */
+export function getPromptBudget(contextWindow: number, maxCompletionTokens: number, reservedTokens: number = 0): number {
+    return Math.max(0, contextWindow - maxCompletionTokens - reservedTokens);
+}
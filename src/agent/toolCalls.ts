@@ -0,0 +1,316 @@
+/**
+ * Tool call parsing
+ *
+ * Native tool calls come back from Workers AI in `tool_calls`, either flat
+ * ({ name, arguments }) or OpenAI-style ({ type: 'function', function: { name, arguments } }).
+ *
+ * When the model ignores the `tools` parameter and writes the call as text,
+ * the fallback parser recognises:
+ *   - fenced blocks with any (or no) language tag: ```json, ```JSON, ```{...}```
+ *   - Llama `<|python_tag|>` output
+ *   - bare inline JSON objects naming a known tool
+ *
+ * Every recognised call is removed from the text shown to the user.
+ */
+
+export interface ToolCall {
+    tool: string;
+    params: Record<string, any>;
+}
+
+export interface ParsedToolCalls {
+    toolCalls: ToolCall[];
+    visibleText: string;
+}
+
+const MAX_INPUT_LENGTH = 50 * 1024;
+const PARSE_TIMEOUT_MS = 1000;
+const PYTHON_TAG = '<|python_tag|>';
+const SPECIAL_TOKENS = /<\|(?:python_tag|eom_id|eot_id)\|>/g;
+
+/**
+ * Normalise any of the supported call shapes into { tool, params }.
+ * Returns null for objects that don't look like a tool call.
+ */
+export function normalizeToolCall(raw: unknown): ToolCall | null {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return null;
+    }
+
+    const obj = raw as Record<string, any>;
+    const fn = obj.function && typeof obj.function === 'object' ? obj.function : obj;
+
+    // Plain data objects ({ "name": "Bob" }) must not be mistaken for calls
+    const hasCallShape = 'tool' in obj || fn !== obj || 'arguments' in obj || 'parameters' in obj;
+    if (!hasCallShape) {
+        return null;
+    }
+
+    const name = typeof obj.tool === 'string' ? obj.tool : fn.name;
+    if (typeof name !== 'string' || !name) {
+        return null;
+    }
+
+    let params = obj.params ?? fn.arguments ?? fn.parameters ?? {};
+    if (typeof params === 'string') {
+        try {
+            params = JSON.parse(params);
+        } catch {
+            console.warn(`[ToolCalls] Could not parse arguments for ${name}`);
+            return null;
+        }
+    }
+
+    if (!params || typeof params !== 'object' || Array.isArray(params)) {
+        return null;
+    }
+
+    return { tool: name, params };
+}
+
+/**
+ * Normalise the `tool_calls` array returned by the model
+ */
+export function parseNativeToolCalls(raw: unknown): ToolCall[] {
+    if (!Array.isArray(raw)) {
+        return [];
+    }
+
+    return raw
+        .map(call => normalizeToolCall(
+            call && typeof call === 'object' && !('function' in call) && !('arguments' in call)
+                ? { ...call, arguments: {} }
+                : call
+        ))
+        .filter((call): call is ToolCall => call !== null);
+}
+
+/**
+ * Find the end (exclusive) of the JSON object starting at `start`, or -1 if it
+ * isn't closed. Braces inside strings are ignored.
+ */
+function findObjectEnd(text: string, start: number): number {
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+
+        if (ch === '"') inString = true;
+        else if (ch === '{') depth++;
+        else if (ch === '}') {
+            depth--;
+            if (depth === 0) return i + 1;
+        }
+    }
+
+    return -1;
+}
+
+/**
+ * Parse a JSON payload holding one call or an array of calls
+ */
+function parseJSONCalls(json: string): ToolCall[] {
+    try {
+        const parsed = JSON.parse(json);
+        const items = Array.isArray(parsed) ? parsed : [parsed];
+        return items
+            .map(normalizeToolCall)
+            .filter((call): call is ToolCall => call !== null);
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Extract tool calls written as text and return the text with them removed
+ */
+export function extractToolCallsFromText(text: string, knownTools: string[] = []): ParsedToolCalls {
+    // Security: Limit input length to prevent ReDoS attacks (max 50KB)
+    if (text.length > MAX_INPUT_LENGTH) {
+        console.warn(`[ToolCalls] Input too long for tool call extraction: ${text.length} chars (max ${MAX_INPUT_LENGTH})`);
+        return { toolCalls: [], visibleText: text };
+    }
+
+    const found: Array<{ start: number; end: number; calls: ToolCall[] }> = [];
+    const overlaps = (index: number) => found.some(span => index >= span.start && index < span.end);
+    const startTime = Date.now();
+
+    // 1. Fenced blocks, any language tag (regex has no nested quantifiers)
+    const fenceRegex = /```[A-Za-z]*[ \t]*\n?([^`]*)```/g;
+    let match;
+    while ((match = fenceRegex.exec(text)) !== null) {
+        const calls = parseJSONCalls(match[1].trim());
+        if (calls.length > 0) {
+            found.push({ start: match.index, end: match.index + match[0].length, calls });
+        }
+    }
+
+    // 2. Llama python_tag: everything after the tag is the call
+    const tagIndex = text.indexOf(PYTHON_TAG);
+    if (tagIndex !== -1 && !overlaps(tagIndex)) {
+        const calls: ToolCall[] = [];
+        let i = tagIndex + PYTHON_TAG.length;
+        while ((i = text.indexOf('{', i)) !== -1) {
+            const end = findObjectEnd(text, i);
+            if (end === -1) break;
+            calls.push(...parseJSONCalls(text.slice(i, end)));
+            i = end;
+        }
+        if (calls.length > 0) {
+            found.push({ start: tagIndex, end: text.length, calls });
+        }
+    }
+
+    // 3. Bare inline objects - only accepted when they name a known tool
+    let i = 0;
+    while ((i = text.indexOf('{', i)) !== -1) {
+        if (Date.now() - startTime > PARSE_TIMEOUT_MS) {
+            console.warn('[ToolCalls] Tool call extraction timeout exceeded');
+            break;
+        }
+
+        const containing = found.find(span => i >= span.start && i < span.end);
+        if (containing) {
+            i = containing.end;
+            continue;
+        }
+
+        const end = findObjectEnd(text, i);
+        if (end === -1) {
+            i++;
+            continue;
+        }
+
+        const calls = parseJSONCalls(text.slice(i, end)).filter(call => knownTools.includes(call.tool));
+        if (calls.length > 0) {
+            found.push({ start: i, end, calls });
+            i = end;
+        } else {
+            i++;
+        }
+    }
+
+    found.sort((a, b) => a.start - b.start);
+
+    let visibleText = '';
+    let cursor = 0;
+    for (const span of found) {
+        visibleText += text.slice(cursor, span.start);
+        cursor = span.end;
+    }
+    visibleText += text.slice(cursor);
+
+    return {
+        toolCalls: found.flatMap(span => span.calls),
+        visibleText: visibleText
+            .replace(SPECIAL_TOKENS, '')
+            .replace(/\n{3,}/g, '\n\n')
+            .trim(),
+    };
+}
+
+/**
+ * Filters streamed deltas so tool call JSON never reaches the client.
+ *
+ * Text that could start a call (``` fences, `{`, `<|python_tag|>`) is held
+ * back until the segment closes, then either dropped (it was a tool call) or
+ * released (it was ordinary text, e.g. a code sample).
+ */
+export class ToolCallStreamFilter {
+    private pending = '';
+    private suppressed = false;
+
+    constructor(private knownTools: string[] = []) {}
+
+    /**
+     * Feed a delta, returning the part that is safe to show now
+     */
+    push(delta: string): string {
+        if (this.suppressed) return '';
+        this.pending += delta;
+        return this.drain();
+    }
+
+    /**
+     * End of stream: release anything still held unless it is a tool call
+     */
+    flush(): string {
+        if (this.suppressed) return '';
+        const rest = this.pending;
+        this.pending = '';
+        return this.isToolCall(rest) ? '' : rest;
+    }
+
+    private drain(): string {
+        let out = '';
+
+        while (this.pending) {
+            const start = this.pending.search(/[`{<]/);
+            if (start === -1) {
+                out += this.pending;
+                this.pending = '';
+                break;
+            }
+
+            out += this.pending.slice(0, start);
+            this.pending = this.pending.slice(start);
+
+            const end = this.segmentEnd(this.pending);
+            if (end === 'wait') break;
+
+            if (end === 'suppress') {
+                this.suppressed = true;
+                this.pending = '';
+                break;
+            }
+
+            if (end === 'literal') {
+                out += this.pending[0];
+                this.pending = this.pending.slice(1);
+                continue;
+            }
+
+            const segment = this.pending.slice(0, end);
+            this.pending = this.pending.slice(end);
+            if (!this.isToolCall(segment)) {
+                out += segment;
+            }
+        }
+
+        return out;
+    }
+
+    /**
+     * Where the candidate segment at the start of `text` ends
+     */
+    private segmentEnd(text: string): number | 'wait' | 'literal' | 'suppress' {
+        if (text.startsWith('<')) {
+            if (text.startsWith(PYTHON_TAG)) return 'suppress';
+            return PYTHON_TAG.startsWith(text) ? 'wait' : 'literal';
+        }
+
+        if (text.startsWith('`')) {
+            if (text.startsWith('```')) {
+                const close = text.indexOf('```', 3);
+                return close === -1 ? 'wait' : close + 3;
+            }
+            return '```'.startsWith(text) ? 'wait' : 'literal';
+        }
+
+        const end = findObjectEnd(text, 0);
+        return end === -1 ? 'wait' : end;
+    }
+
+    private isToolCall(segment: string): boolean {
+        return extractToolCallsFromText(segment, this.knownTools).toolCalls.length > 0;
+    }
+}
@@ -0,0 +1,99 @@
+import { ZodIssue } from 'zod';
+import { getTool, getToolNames } from '../mcp/tools/index';
+import { ToolCall } from './toolCalls';
+
+/**
+ * Tool call validation and self-repair
+ *
+ * Tool calls are checked against their Zod schemas before the user is asked
+ * to confirm them. Invalid calls are sent back to the model with a structured
+ * description of what is wrong, up to MAX_TOOL_REPAIR_ATTEMPTS times per
+ * turn, so ConfirmationDialog only ever shows well-formed calls. Calls that
+ * are still invalid after that fail without running.
+ */
+
+export const MAX_TOOL_REPAIR_ATTEMPTS = 2;
+
+export interface ToolValidationIssue {
+    field: string;     // Dotted path into params, '' for the call itself
+    problem: string;
+}
+
+export interface ValidToolCall {
+    call: ToolCall;
+    params: Record<string, any>;  // Parsed params (defaults applied, strings trimmed)
+}
+
+export interface InvalidToolCall {
+    call: ToolCall;
+    issues: ToolValidationIssue[];
+}
+
+function describeIssue(issue: ZodIssue): ToolValidationIssue {
+    const field = issue.path.join('.');
+
+    switch (issue.code) {
+        case 'invalid_type':
+            return {
+                field,
+                problem: issue.received === 'undefined'
+                    ? 'is required but missing'
+                    : `must be ${issue.expected}, got ${issue.received}`,
+            };
+        case 'invalid_enum_value':
+            return { field, problem: `must be one of ${issue.options.map(o => JSON.stringify(o)).join(', ')}` };
+        case 'unrecognized_keys':
+            return { field, problem: `unknown parameter(s): ${issue.keys.join(', ')}` };
+        default:
+            return { field, problem: issue.message };
+    }
+}
+
+/**
+ * Check one call against its tool's schema
+ */
+export function validateToolCall(call: ToolCall): ValidToolCall | InvalidToolCall {
+    const tool = getTool(call.tool);
+    if (!tool) {
+        return {
+            call,
+            issues: [{ field: '', problem: `unknown tool; available tools: ${getToolNames().join(', ')}` }],
+        };
+    }
+
+    const result = tool.parameters.safeParse(call.params);
+    if (!result.success) {
+        return { call, issues: result.error.issues.map(describeIssue) };
+    }
+    return { call, params: result.data };
+}
+
+export function isValidToolCall(checked: ValidToolCall | InvalidToolCall): checked is ValidToolCall {
+    return 'params' in checked;
+}
+
+/**
+ * One line per problem, e.g. "createTask.dueDate: must be a valid ISO 8601 datetime"
+ */
+export function formatValidationIssues(invalid: InvalidToolCall): string {
+    return invalid.issues
+        .map(({ field, problem }) => `${invalid.call.tool}${field ? `.${field}` : ''}: ${problem}`)
+        .join('; ');
+}
+
+/**
+ * Instructions for the model to resend its invalid calls. Nothing was run
+ * and the user hasn't seen these calls.
+ */
+export function buildRepairPrompt(invalid: InvalidToolCall[]): string {
+    const calls = invalid.map(item => [
+        `- ${item.call.tool} with ${JSON.stringify(item.call.params)}`,
+        ...item.issues.map(({ field, problem }) => `  - ${field || '(call)'}: ${problem}`),
+    ].join('\n'));
+
+    return `[Tool Call Error] These tool calls were rejected before running because their parameters are invalid:
+${calls.join('\n')}
+
+Call the tools again with corrected parameters (resend any other calls you still need too).
+If information is missing and you can't infer it, ask the user instead of calling the tool.`;
+}
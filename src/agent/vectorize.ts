@@ -3,6 +3,7 @@ import { Env, Message } from '../types/env';
 export interface VectorMetadata {
     userId: string;
     messageId?: string;
+    threadId?: string;
     type: 'conversation' | 'knowledge' | 'task';
     timestamp: number;
     content: string;
@@ -15,11 +16,25 @@ export interface SearchResult {
     vector?: number[];
 }
 
+export function taskEmbeddingId(taskId: string): string {
+    return `task-${taskId}`;
+}
+
+const EMBEDDING_MODEL = '@cf/baai/bge-base-en-v1.5';
+const EMBEDDING_CACHE_SIZE = 50;
+const EMBEDDING_BATCH_SIZE = 50;         // Texts per Workers AI call
+const GET_BY_IDS_BATCH_SIZE = 20;        // Vectorize limit per getByIds call
+export const METADATA_CONTENT_LENGTH = 500;
+export const KNOWLEDGE_CONTENT_LENGTH = 2000;   // Retrieval returns this text, so keep whole chunks
+
 /**
  * Vectorize integration for semantic memory and RAG
  */
 export class VectorizeManager {
     private env: Env;
+    // A chat turn embeds the user message for routing, storage and two
+    // searches; the cache turns that into one Workers AI call
+    private embeddingCache = new Map<string, Promise<number[]>>();
 
     constructor(env: Env) {
         this.env = env;
@@ -32,6 +47,7 @@ export class VectorizeManager {
           return {
               userId: metadata.userId,
               messageId: metadata.messageId || '',
+              ...(metadata.threadId ? { threadId: metadata.threadId } : {}),
               type: metadata.type,
               timestamp: metadata.timestamp,
               content: metadata.content,
@@ -45,6 +61,7 @@ export class VectorizeManager {
           const base: VectorMetadata = {
               userId: raw.userId as string,
               messageId: raw.messageId as string | undefined,
+              threadId: raw.threadId as string | undefined,
               type: raw.type as 'conversation' | 'knowledge' | 'task',
               timestamp: raw.timestamp as number,
               content: raw.content as string,
@@ -53,7 +70,7 @@ export class VectorizeManager {
           
           const additional: Record<string, any> = {};
           for (const [key, value] of Object.entries(raw)) {
-              if (!['userId', 'messageId', 'type', 'timestamp', 'content'].includes(key)) {
+              if (!['userId', 'messageId', 'threadId', 'type', 'timestamp', 'content'].includes(key)) {
                   additional[key] = value;
               }
           }
@@ -65,17 +82,38 @@ export class VectorizeManager {
      * Generate embeddings
      */
     async generateEmbedding(text: string): Promise<number[]> {
+        const cached = this.embeddingCache.get(text);
+        if (cached) {
+            return cached;
+        }
+
+        const embedding = this.generateEmbeddings([text]).then(data => data[0]);
+        this.embeddingCache.set(text, embedding);
+        if (this.embeddingCache.size > EMBEDDING_CACHE_SIZE) {
+            const oldest = this.embeddingCache.keys().next().value;
+            if (oldest !== undefined) this.embeddingCache.delete(oldest);
+        }
+
+        // Don't keep failures around
+        embedding.catch(() => this.embeddingCache.delete(text));
+        return embedding;
+    }
+
+    /**
+     * Generate embeddings for several texts in one call (uncached)
+     */
+    async generateEmbeddings(texts: string[]): Promise<number[][]> {
         try {
-            const response = await this.env.AI.run('@cf/baai/bge-base-en-v1.5', {
-                text: [text],
+            const response = await this.env.AI.run(EMBEDDING_MODEL, {
+                text: texts,
 
             }) as { data: number[][] };
 
-            if (!response.data || response.data.length === 0) {
+            if (!response.data || response.data.length !== texts.length) {
                 throw new Error(' No embedding generated');
             }
             
-            return response.data[0];
+            return response.data;
         } catch (error) {
             console.error('Error generating embedding:', error);
             throw error;
@@ -104,9 +142,10 @@ export class VectorizeManager {
         const appMetadata: VectorMetadata = {
             userId,
             messageId: message.id,
+            threadId: message.threadId,
             type,
             timestamp: message.timestamp,
-            content: message.content.substring(0, 500)
+            content: message.content.substring(0, METADATA_CONTENT_LENGTH)
         };
 
         const vectorizeMetadata = this.toVectorizeMetadata(appMetadata);
@@ -133,18 +172,19 @@ export class VectorizeManager {
 
     /**
      * Store custom knowledge entry with embedding
+     * Returns false when it wasn't stored (no binding or an error)
      */
     async storeKnowledge(
         userId: string,
         id: string,
         content: string,
         additionalMetadata?: Record<string, string | number>
-    ): Promise<void> {
+    ): Promise<boolean> {
         try {
             // Check if Vectorize is available (not available in local dev)
             if (!this.env.VECTORIZE) {
                 // Silently skip in local development
-                return;
+                return false;
             }
 
             const embedding = await this.generateEmbedding(content);
@@ -153,7 +193,7 @@ export class VectorizeManager {
                 userId,
                 type: 'knowledge',
                 timestamp: Date.now(),
-                content: content.substring(0, 500),
+                content: content.substring(0, KNOWLEDGE_CONTENT_LENGTH),
             };
 
             const vectorizeMetadata = {
@@ -169,11 +209,13 @@ export class VectorizeManager {
                 },
             ]);
             console.log("Stored knowledge embedding:", id);
+            return true;
         } catch (error) {
             // Only log error if it's not the expected local dev limitation
             if (this.env.VECTORIZE) {
                 console.error('Error storing knowledge embedding:', error);
             }
+            return false;
         }
     }
 
@@ -184,7 +226,7 @@ export class VectorizeManager {
         userId: string,
         query: string,
         topK: number = 5,
-        filter?: { type?: 'conversation' | 'knowledge' | 'task' }
+        filter?: { type?: 'conversation' | 'knowledge' | 'task'; threadId?: string; completed?: boolean }
     ): Promise<SearchResult[]> {
 
         try{
@@ -198,10 +240,16 @@ export class VectorizeManager {
             const queryEmbedding = await this.generateEmbedding(query);
             console.log(`[Vectorize] Query embedding generated, length: ${queryEmbedding.length}`);
 
-            const vectorFilter: Record<string, string> = { userId };
+            const vectorFilter: Record<string, string | boolean> = { userId };
             if (filter?.type) {
                 vectorFilter.type = filter.type;
             }
+            if (filter?.threadId) {
+                vectorFilter.threadId = filter.threadId;
+            }
+            if (filter?.completed !== undefined) {
+                vectorFilter.completed = filter.completed;
+            }
             console.log(`[Vectorize] Filter:`, vectorFilter);
 
             const results = await this.env.VECTORIZE.query(queryEmbedding, {
@@ -233,50 +281,60 @@ export class VectorizeManager {
         }
     }
 
-    /**
-     * Retrieve relevant knowledge entries for RAG
-     */
-    async getRelevantKnowledge(
-        userId: string,
-        query: string,
-        topK: number = 3
-    ): Promise<string[]> {
-        const results = await this.searchRelevantContext(userId, query, topK, { type: 'knowledge' });
-
-        return results
-            .filter(r => r.score > 0.75)
-            .map(r => r.metadata.content);
-    }
-
-    /**
-     * Retrieve relevant conversation history for RAG
-     */
-    async getRelevantHistory(
-        userId: string,
-        currentMessage: string,
-        topK: number = 3,
-    ): Promise<string[]> {
-        const results = await this.searchRelevantContext(userId, currentMessage, topK, { type: 'conversation' });
-        
-        return results
-            .filter(r => r.score > 0.75)
-            .map(r => r.metadata.content);
-    }
-
      /**
        * Delete embeddings by IDs
+       * Returns false when they weren't deleted; the vector_deletions log
+       * (see reconciliation.ts) retries them later
        */
-      async deleteEmbeddings(messageIds: string[]): Promise<void> {
+      async deleteEmbeddings(messageIds: string[]): Promise<boolean> {
+          if (messageIds.length === 0) {
+              return true;
+          }
           try {
               await this.env.VECTORIZE.deleteByIds(messageIds);
               console.log(`Deleted ${messageIds.length} embeddings`);
+              return true;
           } catch (error) {
               console.error('Error deleting embeddings:', error);
+              return false;
           }
       }
 
+    /**
+     * IDs of up to `topK` of a user's vectors. Vectorize can't list an index,
+     * so this queries in a random direction; each call sees a different part.
+     */
+    async sampleVectorIds(userId: string, topK: number): Promise<string[]> {
+        if (!this.env.VECTORIZE) {
+            return [];
+        }
+
+        const dimensions = (await this.generateEmbedding('sample')).length;
+        const direction = Array.from({ length: dimensions }, () => Math.random() * 2 - 1);
+        const results = await this.env.VECTORIZE.query(direction, {
+            topK,
+            filter: { userId },
+            returnValues: false,
+            returnMetadata: false,
+        });
+        return results.matches.map(match => match.id);
+    }
+
+    /**
+     * Which of the given vector IDs exist in the index
+     */
+    async getExistingIds(ids: string[]): Promise<Set<string>> {
+        const existing = new Set<string>();
+        for (let i = 0; i < ids.length; i += GET_BY_IDS_BATCH_SIZE) {
+            const vectors = await this.env.VECTORIZE.getByIds(ids.slice(i, i + GET_BY_IDS_BATCH_SIZE));
+            vectors.forEach(vector => existing.add(vector.id));
+        }
+        return existing;
+    }
+
       /**
        * Batch store multiple message embeddings
+       * Primitive values in a message's metadata are stored with its vector
        */
       async batchStoreEmbeddings(
         userId: string,
@@ -285,23 +343,34 @@ export class VectorizeManager {
       ): Promise<void> {
 
         try {
-            const embeddingPromises = messages.map(msg => this.generateEmbedding(msg.content));
-
-            const embeddings = await Promise.all(embeddingPromises);
+            const embeddings: number[][] = [];
+            for (let i = 0; i < messages.length; i += EMBEDDING_BATCH_SIZE) {
+                const batch = messages.slice(i, i + EMBEDDING_BATCH_SIZE);
+                embeddings.push(...await this.generateEmbeddings(batch.map(msg => msg.content)));
+            }
 
+            const contentLength = type === 'knowledge' ? KNOWLEDGE_CONTENT_LENGTH : METADATA_CONTENT_LENGTH;
             const vectors = messages.map((msg, index) => {
                 const appMetadata: VectorMetadata = {
                     userId,
                     messageId: msg.id,
+                    threadId: msg.threadId,
                     type,
                     timestamp: msg.timestamp,
-                    content: msg.content.substring(0, 500),
+                    content: msg.content.substring(0, contentLength),
                 };
 
+                const extra: Record<string, string | number | boolean> = {};
+                for (const [key, value] of Object.entries(msg.metadata ?? {})) {
+                    if (['string', 'number', 'boolean'].includes(typeof value)) {
+                        extra[key] = value;
+                    }
+                }
+
                 return {
                     id: msg.id,
                     values: embeddings[index],
-                    metadata: this.toVectorizeMetadata(appMetadata),
+                    metadata: { ...extra, ...this.toVectorizeMetadata(appMetadata) },
                 };
             });
 
@@ -3,8 +3,24 @@ import { cors } from "hono/cors";
 import { PersonalAssistant } from "./agent/PersonalAssistant";
 import { Env } from "./types/env";
 import { TaskWorkflow } from "./workflows/TaskWorkflow";
+import { EmbeddingBackfillWorkflow } from "./workflows/EmbeddingBackfillWorkflow";
+import { DocumentIngestWorkflow } from "./workflows/DocumentIngestWorkflow";
+import { ThreadStore, DEFAULT_THREAD_TITLE, normalizeThreadTitle } from "./agent/threads";
+import { BranchStore, annotateBranches } from "./agent/branches";
+import { VectorizeManager } from "./agent/vectorize";
+import { summaryEmbeddingId } from "./agent/summaries";
+import { PreferencesStore, ModelPreferencesUpdateSchema, checkModelChoice, getAllowedModels, getDefaultGenerationSettings, mergeModelPreferences } from "./agent/preferences";
+import { PersonaStore, PersonaSchema } from "./agent/persona";
+import { FactStore } from "./agent/facts";
+import { KnowledgeStore, KnowledgeEntrySchema } from "./agent/knowledge";
+import { DocumentStore, MAX_DOCUMENT_BYTES, detectDocumentFormat, extractDocumentText } from "./agent/documents";
+import { VectorReconciler } from "./agent/reconciliation";
+import { TaskSearch } from "./agent/taskSearch";
+import { SearchTasksSchema } from "./types/tools";
+import { EmbeddingBackfillSchema, EmbeddingBackfillStore, resolveBackfillIndex } from "./agent/backfill";
 import {
 clerkAuthMiddleware,
+requireAdminMiddleware,
 verifyWebSocketToken,
 AuthVariables
 } from "./middleware/auth";
@@ -30,6 +46,7 @@ return c.json({ status: 'healthy' });
 
 // Apply authentication middleware to protected routes
 app.use('/api/*', clerkAuthMiddleware);
+app.use('/api/admin/*', requireAdminMiddleware);
 
 
 // Get current user profile
@@ -65,6 +82,167 @@ try {
 }
 });
 
+// Get model/generation preferences, plus the env defaults they override
+app.get('/api/me/preferences', async (c) => {
+const auth = c.get('auth');
+
+try {
+    const preferences = await new PreferencesStore(c.env.DB).getModelPreferences(auth.userId);
+    return c.json({ preferences, defaults: getDefaultGenerationSettings(c.env), allowedModels: getAllowedModels(c.env) });
+} catch (error) {
+    console.error('[API] Error loading preferences:', error);
+    return c.json({ error: 'Failed to load preferences' }, 500);
+}
+});
+
+// Update model/generation preferences (omitted fields are kept, null resets one to its default)
+app.put('/api/me/preferences', async (c) => {
+const auth = c.get('auth');
+const body = await c.req.json().catch(() => null);
+
+const parsed = ModelPreferencesUpdateSchema.safeParse(body);
+if (!parsed.success) {
+    return c.json({
+        error: 'Invalid preferences',
+        details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`),
+    }, 400);
+}
+
+try {
+    const store = new PreferencesStore(c.env.DB);
+    const merged = mergeModelPreferences(await store.getModelPreferences(auth.userId), parsed.data);
+
+    const modelError = checkModelChoice(c.env, merged);
+    if (modelError) {
+        return c.json({ error: 'Invalid preferences', details: [modelError] }, 400);
+    }
+
+    const preferences = await store.setModelPreferences(auth.userId, merged);
+    return c.json({ preferences });
+} catch (error) {
+    console.error('[API] Error updating preferences:', error);
+    return c.json({ error: 'Failed to update preferences' }, 500);
+}
+});
+
+// Get the custom instructions (persona) with recent versions, newest first
+app.get('/api/me/persona', async (c) => {
+const auth = c.get('auth');
+
+try {
+    const versions = await new PersonaStore(c.env.DB).listVersions(auth.userId);
+    return c.json({
+        persona: versions[0]?.persona ?? {},
+        version: versions[0]?.version ?? null,
+        versions,
+    });
+} catch (error) {
+    console.error('[API] Error loading persona:', error);
+    return c.json({ error: 'Failed to load persona' }, 500);
+}
+});
+
+// Save custom instructions as a new version (an empty object clears them)
+app.put('/api/me/persona', async (c) => {
+const auth = c.get('auth');
+const body = await c.req.json().catch(() => null);
+
+const parsed = PersonaSchema.safeParse(body);
+if (!parsed.success) {
+    return c.json({
+        error: 'Invalid persona',
+        details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`),
+    }, 400);
+}
+
+try {
+    const saved = await new PersonaStore(c.env.DB).savePersona(auth.userId, parsed.data);
+    return c.json(saved);
+} catch (error) {
+    console.error('[API] Error saving persona:', error);
+    return c.json({ error: 'Failed to save persona' }, 500);
+}
+});
+
+// Restore an earlier version (saved as a new version)
+app.post('/api/me/persona/versions/:version/restore', async (c) => {
+const auth = c.get('auth');
+const version = parseInt(c.req.param('version'), 10);
+
+if (!Number.isInteger(version) || version < 1) {
+    return c.json({ error: 'Invalid version' }, 400);
+}
+
+try {
+    const restored = await new PersonaStore(c.env.DB).restoreVersion(auth.userId, version);
+    if (!restored) {
+        return c.json({ error: 'Version not found' }, 404);
+    }
+    return c.json(restored);
+} catch (error) {
+    console.error('[API] Error restoring persona:', error);
+    return c.json({ error: 'Failed to restore persona' }, 500);
+}
+});
+
+// Facts the assistant was asked to remember, newest first
+app.get('/api/me/facts', async (c) => {
+const auth = c.get('auth');
+
+try {
+    const facts = await new FactStore(c.env.DB).listFacts(auth.userId);
+    return c.json({ facts });
+} catch (error) {
+    console.error('[API] Error loading facts:', error);
+    return c.json({ error: 'Failed to load facts' }, 500);
+}
+});
+
+app.delete('/api/me/facts/:id', async (c) => {
+const auth = c.get('auth');
+
+try {
+    const deleted = await new FactStore(c.env.DB).forgetFact(auth.userId, c.req.param('id'));
+    if (!deleted) {
+        return c.json({ error: 'Fact not found' }, 404);
+    }
+    return c.json({ success: true });
+} catch (error) {
+    console.error('[API] Error deleting fact:', error);
+    return c.json({ error: 'Failed to delete fact' }, 500);
+}
+});
+
+// Search tasks by meaning (?q=), most similar first. Optional filters:
+// excludeCompleted=true, priority, dueAfter/dueBefore (ISO 8601) and limit.
+app.get('/api/tasks/search', async (c) => {
+const auth = c.get('auth');
+const limit = c.req.query('limit');
+
+const parsed = SearchTasksSchema.safeParse({
+    query: c.req.query('q'),
+    excludeCompleted: c.req.query('excludeCompleted') === 'true' || undefined,
+    priority: c.req.query('priority'),
+    dueAfter: c.req.query('dueAfter'),
+    dueBefore: c.req.query('dueBefore'),
+    limit: limit === undefined ? undefined : Number(limit),
+});
+if (!parsed.success) {
+    return c.json({
+        error: 'Invalid task search',
+        details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'query'}: ${issue.message}`),
+    }, 400);
+}
+
+try {
+    const results = await new TaskSearch(c.env.DB, new VectorizeManager(c.env)).search(auth.userId, parsed.data);
+    return c.json({ results });
+} catch (error) {
+    console.error('[API] Error searching tasks:', error);
+    return c.json({ error: 'Failed to search tasks' }, 500);
+}
+});
+
 // get user tasks 
 app.get('/api/tasks', async (c) => {
 const auth = c.get('auth');
@@ -84,18 +262,297 @@ const result = await c.env.DB.prepare(query).bind(...params).all();
 return c.json({ tasks: result.results || [] });
 });
 
-// Get user conversations
+// Get user conversations (optionally a single thread)
 app.get('/api/conversations', async (c) => {
 const auth = c.get('auth');
 const limit = Math.min(parseInt(c.req.query('limit') || '50'), 200);
+const threadId = c.req.query('threadId');
 
-const result = await c.env.DB.prepare(
-    'SELECT * FROM conversations WHERE user_id = ? ORDER BY timestamp DESC LIMIT ?'
-).bind(auth.userId, limit).all();
+const result = threadId
+    ? await c.env.DB.prepare(
+        'SELECT * FROM conversations WHERE user_id = ? AND thread_id = ? ORDER BY timestamp DESC, rowid DESC LIMIT ?'
+    ).bind(auth.userId, threadId, limit).all()
+    : await c.env.DB.prepare(
+        'SELECT * FROM conversations WHERE user_id = ? ORDER BY timestamp DESC, rowid DESC LIMIT ?'
+    ).bind(auth.userId, limit).all();
 
 return c.json({ conversations: result.results || [] });
 });
 
+// ==================== CONVERSATION THREADS ====================
+
+// List threads (archived ones only when ?archived=true)
+app.get('/api/threads', async (c) => {
+const auth = c.get('auth');
+const includeArchived = c.req.query('archived') === 'true';
+
+const threads = await new ThreadStore(c.env.DB).listThreads(auth.userId, includeArchived);
+return c.json({ threads });
+});
+
+// Create a thread
+app.post('/api/threads', async (c) => {
+const auth = c.get('auth');
+const body = await c.req.json().catch(() => ({}));
+
+let title = DEFAULT_THREAD_TITLE;
+if (body.title !== undefined) {
+    const normalized = normalizeThreadTitle(body.title);
+    if (!normalized) {
+        return c.json({ error: 'Invalid title' }, 400);
+    }
+    title = normalized;
+}
+
+try {
+    const thread = await new ThreadStore(c.env.DB).createThread(auth.userId, title);
+    return c.json({ thread }, 201);
+} catch (error) {
+    console.error('[API] Error creating thread:', error);
+    return c.json({ error: 'Failed to create thread' }, 500);
+}
+});
+
+// Rename and/or archive a thread
+app.put('/api/threads/:id', async (c) => {
+const auth = c.get('auth');
+const threadId = c.req.param('id');
+const body = await c.req.json().catch(() => ({}));
+
+const updates: { title?: string; archived?: boolean } = {};
+
+if (body.title !== undefined) {
+    const normalized = normalizeThreadTitle(body.title);
+    if (!normalized) {
+        return c.json({ error: 'Invalid title' }, 400);
+    }
+    updates.title = normalized;
+}
+
+if (body.archived !== undefined) {
+    if (typeof body.archived !== 'boolean') {
+        return c.json({ error: 'archived must be a boolean' }, 400);
+    }
+    updates.archived = body.archived;
+}
+
+try {
+    const thread = await new ThreadStore(c.env.DB).updateThread(auth.userId, threadId, updates);
+    if (!thread) {
+        return c.json({ error: 'Thread not found' }, 404);
+    }
+    return c.json({ thread });
+} catch (error) {
+    console.error('[API] Error updating thread:', error);
+    return c.json({ error: 'Failed to update thread' }, 500);
+}
+});
+
+// Delete a thread, its messages and their embeddings
+app.delete('/api/threads/:id', async (c) => {
+const auth = c.get('auth');
+const threadId = c.req.param('id');
+
+try {
+    const deletedMessageIds = await new ThreadStore(c.env.DB).deleteThread(auth.userId, threadId);
+    if (!deletedMessageIds) {
+        return c.json({ error: 'Thread not found' }, 404);
+    }
+
+    if (c.env.VECTORIZE) {
+        await new VectorizeManager(c.env).deleteEmbeddings([...deletedMessageIds, summaryEmbeddingId(threadId)]);
+    }
+
+    return c.json({ success: true });
+} catch (error) {
+    console.error('[API] Error deleting thread:', error);
+    return c.json({ error: 'Failed to delete thread' }, 500);
+}
+});
+
+// Get a thread's messages (active branch), oldest first
+app.get('/api/threads/:id/messages', async (c) => {
+const auth = c.get('auth');
+const threadId = c.req.param('id');
+const limit = Math.min(parseInt(c.req.query('limit') || '100'), 500);
+
+const thread = await new ThreadStore(c.env.DB).getThread(auth.userId, threadId);
+if (!thread) {
+    return c.json({ error: 'Thread not found' }, 404);
+}
+
+// Only the active branch, with the alternatives (edits/regenerations) at each message
+const branches = new BranchStore(c.env.DB);
+const [path, nodes] = await Promise.all([
+    branches.loadBranch(auth.userId, threadId, thread.activeLeafId, limit),
+    branches.listNodes(auth.userId, threadId),
+]);
+
+return c.json({ thread, messages: annotateBranches(path, nodes) });
+});
+
+// ==================== KNOWLEDGE BASE ====================
+
+// List knowledge entries, most recently edited first
+app.get('/api/knowledge', async (c) => {
+const auth = c.get('auth');
+
+const entries = await new KnowledgeStore(c.env.DB, new VectorizeManager(c.env)).listEntries(auth.userId);
+return c.json({ entries });
+});
+
+// Add an entry (embedded for retrieval straight away)
+app.post('/api/knowledge', async (c) => {
+const auth = c.get('auth');
+const body = await c.req.json().catch(() => null);
+
+const parsed = KnowledgeEntrySchema.safeParse(body);
+if (!parsed.success) {
+    return c.json({
+        error: 'Invalid knowledge entry',
+        details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`),
+    }, 400);
+}
+
+try {
+    const entry = await new KnowledgeStore(c.env.DB, new VectorizeManager(c.env)).createEntry(auth.userId, parsed.data);
+    return c.json({ entry }, 201);
+} catch (error) {
+    console.error('[API] Error creating knowledge entry:', error);
+    return c.json({ error: 'Failed to create knowledge entry' }, 500);
+}
+});
+
+// List uploaded documents with their ingestion status, newest first
+// (registered before /api/knowledge/:id so "documents" isn't taken for an id)
+app.get('/api/knowledge/documents', async (c) => {
+const auth = c.get('auth');
+
+const documents = await new DocumentStore(c.env.DB, new VectorizeManager(c.env)).listDocuments(auth.userId);
+return c.json({ documents });
+});
+
+// Upload a Markdown, text, HTML or PDF file (multipart field "file").
+// Answers 202 once the text is chunked; DocumentIngestWorkflow embeds the chunks,
+// so poll the document until its status is ready or failed.
+app.post('/api/knowledge/documents', async (c) => {
+const auth = c.get('auth');
+const body = await c.req.parseBody().catch(() => null);
+const file = body?.file;
+
+if (!(file instanceof File)) {
+    return c.json({ error: 'A file is required' }, 400);
+}
+
+const format = detectDocumentFormat(file.name, file.type);
+if (!format) {
+    return c.json({ error: 'Unsupported file type (use Markdown, plain text, HTML or PDF)' }, 400);
+}
+if (file.size > MAX_DOCUMENT_BYTES) {
+    return c.json({ error: `File is larger than ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB` }, 413);
+}
+
+try {
+    const store = new DocumentStore(c.env.DB, new VectorizeManager(c.env));
+    const document = await store.createDocument(auth.userId, {
+        filename: file.name,
+        mimeType: file.type || 'application/octet-stream',
+        sizeBytes: file.size,
+    });
+
+    const stored = await store.storeChunks(document, format, () => extractDocumentText(c.env.AI, file, file.name, format));
+    if (stored) {
+        await c.env.DOCUMENT_INGEST_WORKFLOW.create({
+            id: document.id,
+            params: { documentId: document.id, userId: auth.userId },
+        });
+    }
+    return c.json({ document: await store.getDocument(auth.userId, document.id) ?? document }, 202);
+} catch (error) {
+    console.error('[API] Error uploading document:', error);
+    return c.json({ error: 'Failed to upload document' }, 500);
+}
+});
+
+// Get a document's ingestion status
+app.get('/api/knowledge/documents/:id', async (c) => {
+const auth = c.get('auth');
+
+const document = await new DocumentStore(c.env.DB, new VectorizeManager(c.env)).getDocument(auth.userId, c.req.param('id'));
+if (!document) {
+    return c.json({ error: 'Document not found' }, 404);
+}
+return c.json({ document });
+});
+
+// Delete a document with all of its chunks and their vectors
+app.delete('/api/knowledge/documents/:id', async (c) => {
+const auth = c.get('auth');
+
+try {
+    const deleted = await new DocumentStore(c.env.DB, new VectorizeManager(c.env)).deleteDocument(auth.userId, c.req.param('id'));
+    if (!deleted) {
+        return c.json({ error: 'Document not found' }, 404);
+    }
+    return c.json({ success: true });
+} catch (error) {
+    console.error('[API] Error deleting document:', error);
+    return c.json({ error: 'Failed to delete document' }, 500);
+}
+});
+
+// Get one entry
+app.get('/api/knowledge/:id', async (c) => {
+const auth = c.get('auth');
+
+const entry = await new KnowledgeStore(c.env.DB, new VectorizeManager(c.env)).getEntry(auth.userId, c.req.param('id'));
+if (!entry) {
+    return c.json({ error: 'Knowledge entry not found' }, 404);
+}
+return c.json({ entry });
+});
+
+// Replace an entry's title and content (re-embeds it)
+app.put('/api/knowledge/:id', async (c) => {
+const auth = c.get('auth');
+const body = await c.req.json().catch(() => null);
+
+const parsed = KnowledgeEntrySchema.safeParse(body);
+if (!parsed.success) {
+    return c.json({
+        error: 'Invalid knowledge entry',
+        details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`),
+    }, 400);
+}
+
+try {
+    const entry = await new KnowledgeStore(c.env.DB, new VectorizeManager(c.env)).updateEntry(auth.userId, c.req.param('id'), parsed.data);
+    if (!entry) {
+        return c.json({ error: 'Knowledge entry not found' }, 404);
+    }
+    return c.json({ entry });
+} catch (error) {
+    console.error('[API] Error updating knowledge entry:', error);
+    return c.json({ error: 'Failed to update knowledge entry' }, 500);
+}
+});
+
+// Delete an entry and its vector
+app.delete('/api/knowledge/:id', async (c) => {
+const auth = c.get('auth');
+
+try {
+    const deleted = await new KnowledgeStore(c.env.DB, new VectorizeManager(c.env)).deleteEntry(auth.userId, c.req.param('id'));
+    if (!deleted) {
+        return c.json({ error: 'Knowledge entry not found' }, 404);
+    }
+    return c.json({ success: true });
+} catch (error) {
+    console.error('[API] Error deleting knowledge entry:', error);
+    return c.json({ error: 'Failed to delete knowledge entry' }, 500);
+}
+});
+
 
 // NANGO Integration routes
 
@@ -402,6 +859,81 @@ app.post('/api/webhooks/nango', async (c) => {
 });
 
 
+// ==================== ADMIN ====================
+
+// Embed a user's messages and knowledge that have no vectors, or re-embed all of it
+// (mode "full", optionally into the index named by VECTORIZE_NEXT_INDEX).
+// Starting a backfill that matches an unfinished one resumes it from its checkpoint.
+app.post('/api/admin/embeddings/backfill', async (c) => {
+const body = await c.req.json().catch(() => null);
+
+const parsed = EmbeddingBackfillSchema.safeParse(body);
+if (!parsed.success) {
+    return c.json({
+        error: 'Invalid backfill request',
+        details: parsed.error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`),
+    }, 400);
+}
+if (!resolveBackfillIndex(c.env, parsed.data.indexName)) {
+    return c.json({ error: `Index ${parsed.data.indexName ?? 'VECTORIZE'} is not bound` }, 400);
+}
+
+try {
+    const user = await c.env.DB.prepare('SELECT id FROM users WHERE id = ?').bind(parsed.data.userId).first();
+    if (!user) {
+        return c.json({ error: 'User not found' }, 404);
+    }
+
+    const store = new EmbeddingBackfillStore(c.env.DB);
+    const unfinished = await store.findUnfinished(parsed.data);
+
+    if (unfinished?.status === 'running' && unfinished.workflowId) {
+        const instance = await c.env.EMBEDDING_BACKFILL_WORKFLOW.get(unfinished.workflowId).catch(() => null);
+        const { status } = instance ? await instance.status() : { status: 'unknown' };
+        if (['queued', 'running', 'paused', 'waiting'].includes(status)) {
+            return c.json({ error: 'This backfill is already running', backfill: unfinished }, 409);
+        }
+    }
+
+    const workflowId = crypto.randomUUID();
+    const backfill = unfinished
+        ? await store.resumeBackfill(unfinished, workflowId)
+        : await store.createBackfill(parsed.data, workflowId);
+
+    await c.env.EMBEDDING_BACKFILL_WORKFLOW.create({
+        id: workflowId,
+        params: { backfillId: backfill.id, userId: backfill.userId },
+    });
+    return c.json({ backfill }, 202);
+} catch (error) {
+    console.error('[API] Error starting embedding backfill:', error);
+    return c.json({ error: 'Failed to start embedding backfill' }, 500);
+}
+});
+
+// Get a backfill's progress
+app.get('/api/admin/embeddings/backfill/:id', async (c) => {
+const backfill = await new EmbeddingBackfillStore(c.env.DB).getBackfill(c.req.param('id'));
+if (!backfill) {
+    return c.json({ error: 'Backfill not found' }, 404);
+}
+return c.json({ backfill });
+});
+
+// Purge vectors of deleted rows and sweep for orphans now instead of waiting for the hourly cron
+app.post('/api/admin/vectors/reconcile', async (c) => {
+try {
+    const reconciler = new VectorReconciler(c.env.DB, new VectorizeManager(c.env));
+    const purged = await reconciler.purgeDeleted();
+    const orphans = await reconciler.sweepOrphans();
+    return c.json({ purged, orphans });
+} catch (error) {
+    console.error('[API] Error reconciling vectors:', error);
+    return c.json({ error: 'Failed to reconcile vectors' }, 500);
+}
+});
+
+
 // ==================== WEBSOCKET (TOKEN-BASED AUTH) ====================
 
 app.get('/ws', async (c) => {
@@ -439,10 +971,19 @@ app.get('/ws', async (c) => {
     }
 });
 
-export { PersonalAssistant, TaskWorkflow };
+export { PersonalAssistant, TaskWorkflow, EmbeddingBackfillWorkflow, DocumentIngestWorkflow };
 
 export default {
     async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
         return app.fetch(request, env, ctx);
     },
+
+    // Cron: purge vectors whose D1 rows were deleted, then sweep for orphans (see agent/reconciliation.ts),
+    // and fail documents whose ingestion stopped
+    async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+        const vectorize = new VectorizeManager(env);
+        const reconciler = new VectorReconciler(env.DB, vectorize);
+        ctx.waitUntil(reconciler.purgeDeleted().then(() => reconciler.sweepOrphans()));
+        ctx.waitUntil(new DocumentStore(env.DB, vectorize).failStaleDocuments());
+    },
 };
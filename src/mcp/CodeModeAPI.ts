@@ -1,20 +1,42 @@
+import { ZodTypeAny } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
 import { ALL_TOOLS } from "./tools/index";
 import { ToolDefinition } from "../types/tools";
 
+/**
+ * Tool schema in the shape accepted by the `tools` parameter of
+ * Workers AI (and OpenAI-compatible) chat models
+ */
+export interface LLMToolSchema {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
 /**
  * Tool Documentation Generator
  *
  * Generates tool documentation for the LLM system prompt
  */
 export class ToolDocumentation {
+  /**
+   * The tools with the given names (all tools when omitted)
+   */
+  private static selectTools(toolNames?: string[]): ToolDefinition[] {
+    return toolNames ? ALL_TOOLS.filter(tool => toolNames.includes(tool.name)) : ALL_TOOLS;
+  }
+
   /**
    * Generate tool documentation for LLM prompt
    *
-   * This creates documentation showing all available tools
-   * and their parameters in JSON format
+   * This creates documentation showing the available tools (all of them,
+   * or the subset picked by the intent router) and their parameters in JSON format
    */
-  static generateToolDocs(): string {
-    const docs = ALL_TOOLS.map(tool => {
+  static generateToolDocs(toolNames?: string[]): string {
+    const docs = this.selectTools(toolNames).map(tool => {
       const paramsExample = this.generateParamsExample(tool);
 
       return `
@@ -44,6 +66,29 @@ ${docs}
     `;
   }
 
+  /**
+   * Generate native tool schemas from the Zod parameter schemas
+   */
+  static generateToolSchemas(toolNames?: string[]): LLMToolSchema[] {
+    return this.selectTools(toolNames).map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: this.toJsonSchema(tool.parameters),
+      },
+    }));
+  }
+
+  /**
+   * Convert a Zod schema to an inline JSON schema (no $refs)
+   */
+  private static toJsonSchema(schema: ZodTypeAny): Record<string, unknown> {
+    // Called through a plain signature: the library's generics trip TS2589 on ZodTypeAny
+    const convert = zodToJsonSchema as unknown as (schema: ZodTypeAny, options: object) => Record<string, unknown>;
+    return convert(schema, { target: 'openApi3', $refStrategy: 'none' });
+  }
+
   /**
    * Generate example parameters for a tool
    */
@@ -60,6 +105,11 @@ ${docs}
       case 'listTasks':
         return `{
     "filter": "pending"
+  }`;
+      case 'searchTasks':
+        return `{
+    "query": "dentist",
+    "excludeCompleted": true
   }`;
       case 'updateTask':
         return `{
@@ -75,6 +125,14 @@ ${docs}
       case 'deleteTask':
         return `{
     "taskId": "task-id-here"
+  }`;
+      case 'rememberFact':
+        return `{
+    "content": "Partner's name is Sam"
+  }`;
+      case 'forgetFact':
+        return `{
+    "factId": "fact-id-here"
   }`;
       case 'getWeather':
         return `{
@@ -140,6 +198,14 @@ ${docs}
  * Helper function for generating tool documentation
  * Used in the LLM system prompt
  */
-export function generateToolDocs(): string {
-  return ToolDocumentation.generateToolDocs();
+export function generateToolDocs(toolNames?: string[]): string {
+  return ToolDocumentation.generateToolDocs(toolNames);
+}
+
+/**
+ * Helper function for generating native tool schemas
+ * Passed to the model as the `tools` parameter
+ */
+export function generateToolSchemas(toolNames?: string[]): LLMToolSchema[] {
+  return ToolDocumentation.generateToolSchemas(toolNames);
 }
@@ -109,4 +109,10 @@ import { ToolDefinition, ToolContext, ToolResult, SendEmailSchema, SendEmailPara
         };
       }
     },
+    formatResult(email: EmailResult) {
+      return `[Email Sent] Successfully sent email to ${email.to} at ${email.submittedAt}. Message ID: ${email.messageId}`;
+    },
+    renderHint(email: EmailResult, params: SendEmailParams) {
+      return { kind: 'email', title: params.subject, subtitle: `Sent to ${email.to}` };
+    },
   };
\ No newline at end of file
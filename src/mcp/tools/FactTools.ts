@@ -0,0 +1,109 @@
+import { ToolDefinition, ToolContext, ToolResult } from "../../types/tools";
+import {
+    RememberFactSchema,
+    ListFactsSchema,
+    ForgetFactSchema,
+    RememberFactParams,
+    ForgetFactParams
+} from '../../types/tools';
+import { UserFact } from '../../agent/facts';
+
+// Save a long-term fact about the user
+export const rememberFactTool: ToolDefinition = {
+    name: 'rememberFact',
+    description: 'Remember a lasting fact about the user (name, family, diet, preferences, where they live) when they share one or ask you to remember it. Remembered facts are shown to you in every conversation. Not for to-dos - use createTask for those.',
+    parameters: RememberFactSchema,
+    async execute(params: RememberFactParams, context: ToolContext): Promise<ToolResult> {
+        try {
+            const { fact, created } = await context.agent.rememberFact(context.userId, params.content);
+
+            return {
+                success: true,
+                data: fact,
+                message: created ? 'Fact remembered' : 'Fact was already remembered',
+            };
+        } catch (error: any) {
+            return {
+                success: false,
+                error: error.message || 'Failed to remember fact',
+            };
+        }
+    },
+    formatResult(fact: UserFact) {
+        return `[Fact Remembered] "${fact.content}" (ID: ${fact.id})`;
+    },
+    renderHint(fact: UserFact) {
+        return { kind: 'fact', title: fact.content, subtitle: 'Remembered' };
+    },
+};
+
+// List the remembered facts
+export const listFactsTool: ToolDefinition = {
+    name: 'listFacts',
+    description: 'List the facts remembered about the user, with their IDs. Use this before forgetFact or when the user asks what you know about them.',
+    parameters: ListFactsSchema,
+    async execute(_params: Record<string, never>, context: ToolContext): Promise<ToolResult> {
+        try {
+            const facts: UserFact[] = await context.agent.listFacts(context.userId);
+
+            return {
+                success: true,
+                data: facts,
+                message: `Found ${facts.length} fact(s)`,
+            };
+        } catch (error: any) {
+            return {
+                success: false,
+                error: error.message || 'Failed to list facts',
+            };
+        }
+    },
+    formatResult(facts: UserFact[]) {
+        if (facts.length === 0) {
+            return `[Fact List] No facts remembered`;
+        }
+        const factList = facts.map(f => `- ${f.content} (ID: ${f.id})`).join('\n');
+        return `[Fact List] ${facts.length} fact(s):\n${factList}`;
+    },
+    renderHint(facts: UserFact[]) {
+        return {
+            kind: 'factList',
+            title: facts.length === 0 ? 'No facts remembered' : `${facts.length} fact(s) remembered`,
+            items: facts.map(f => f.content),
+        };
+    },
+};
+
+// Forget a remembered fact
+export const forgetFactTool: ToolDefinition = {
+    name: 'forgetFact',
+    description: 'Forget a remembered fact when the user asks you to or it is no longer true. Needs the fact ID from listFacts.',
+    parameters: ForgetFactSchema,
+    async execute(params: ForgetFactParams, context: ToolContext): Promise<ToolResult> {
+        try {
+            const forgotten: boolean = await context.agent.forgetFact(context.userId, params.factId);
+            if (!forgotten) {
+                return {
+                    success: false,
+                    error: 'Fact not found',
+                };
+            }
+
+            return {
+                success: true,
+                message: 'Fact forgotten',
+            };
+        } catch (error: any) {
+            return {
+                success: false,
+                error: error.message || 'Failed to forget fact',
+            };
+        }
+    },
+    formatResult() {
+        return `[Fact Forgotten] The fact has been removed`;
+    },
+    renderHint() {
+        return { kind: 'fact', title: 'Fact forgotten' };
+    },
+};
@@ -9,12 +9,13 @@ import {
     UpdateCalendarEventParams,
     DeleteCalendarEventSchema,
     DeleteCalendarEventParams,
+    ToolRenderHint,
 } from '../../types/tools';
 
 /**
  * Get user's Google Calendar connection ID from database
  */
-async function getConnectionId(db: any, userId: string): Promise<string | null> {
+export async function getConnectionId(db: any, userId: string): Promise<string | null> {
     try {
         const user = await db.prepare(
             'SELECT google_calendar_connection_id FROM users WHERE id = ?'
@@ -31,7 +32,7 @@ async function getConnectionId(db: any, userId: string): Promise<string | null>
  * Helper to make Nango proxy API requests
  * Uses Nango's proxy to call Google Calendar API with user's OAuth token
  */
-async function nangoProxyRequest(
+export async function nangoProxyRequest(
     env: any,
     connectionId: string,
     endpoint: string,
@@ -64,6 +65,23 @@ async function checkCalendarConnection(db: any, userId: string): Promise<boolean
     }
 }
 
+/**
+ * Summary and card for a created/updated event
+ */
+function describeEvent(event: CalendarEventResult): string {
+    return `"${event.summary}" from ${event.startTime} to ${event.endTime} (ID: ${event.eventId})`;
+}
+
+function eventCard(event: CalendarEventResult, subtitle: string): ToolRenderHint {
+    return {
+        kind: 'calendar',
+        title: event.summary,
+        subtitle,
+        items: [`${event.startTime} – ${event.endTime}`],
+        link: event.htmlLink ? { url: event.htmlLink, label: 'Open in Google Calendar' } : undefined,
+    };
+}
+
 /**
  * Create a calendar event using Nango proxy to Google Calendar API
  */
@@ -141,6 +159,7 @@ export const createCalendarEventTool: ToolDefinition = {
             };
 
             context.agent.recordRateLimitCall(context.userId, 'calendar');
+            context.agent.invalidateAgendaContext(context.userId, 'calendar');
 
             return {
                 success: true,
@@ -156,6 +175,12 @@ export const createCalendarEventTool: ToolDefinition = {
             };
         }
     },
+    formatResult(event: CalendarEventResult) {
+        return `[Calendar Event Created] ${describeEvent(event)}`;
+    },
+    renderHint(event: CalendarEventResult) {
+        return eventCard(event, 'Event created');
+    },
 };
 
 /**
@@ -255,6 +280,7 @@ export const updateCalendarEventTool: ToolDefinition = {
             };
 
             context.agent.recordRateLimitCall(context.userId, 'calendar');
+            context.agent.invalidateAgendaContext(context.userId, 'calendar');
 
             return {
                 success: true,
@@ -269,6 +295,12 @@ export const updateCalendarEventTool: ToolDefinition = {
             };
         }
     },
+    formatResult(event: CalendarEventResult) {
+        return `[Calendar Event Updated] ${describeEvent(event)}`;
+    },
+    renderHint(event: CalendarEventResult) {
+        return eventCard(event, 'Event updated');
+    },
 };
 
 /**
@@ -317,6 +349,7 @@ export const deleteCalendarEventTool: ToolDefinition = {
             }
 
             context.agent.recordRateLimitCall(context.userId, 'calendar');
+            context.agent.invalidateAgendaContext(context.userId, 'calendar');
 
             return {
                 success: true,
@@ -330,4 +363,10 @@ export const deleteCalendarEventTool: ToolDefinition = {
             };
         }
     },
+    formatResult(_data: undefined, params: DeleteCalendarEventParams) {
+        return `[Calendar Event Deleted] Event ${params.eventId} has been removed`;
+    },
+    renderHint() {
+        return { kind: 'calendar', title: 'Event deleted' };
+    },
 };
\ No newline at end of file
@@ -1,4 +1,5 @@
-import { ToolDefinition, ToolContext, ToolResult } from "../../types/tools";
+import { ToolDefinition, ToolContext, ToolResult, ToolRenderHint } from "../../types/tools";
+import { Task } from '../../types/env';
 
 import {
     CreateTaskSchema,
@@ -6,12 +7,26 @@ import {
     UpdateTaskSchema,
     CompleteTaskSchema,
     DeleteTaskSchema,
+    SearchTasksSchema,
     CreateTaskParams,
     ListTasksParams,
     UpdateTaskParams,
     CompleteTaskParams,
-    DeleteTaskParams
+    DeleteTaskParams,
+    SearchTasksParams
 } from '../../types/tools'
+import { TaskSearchResult } from '../../agent/taskSearch';
+
+/**
+ * Card for a single task, shared by the tools that return one
+ */
+function taskCard(task: Task, subtitle: string): ToolRenderHint {
+    const items = [`Priority: ${task.priority ?? 'medium'}`];
+    if (task.dueDate) {
+        items.push(`Due: ${new Date(task.dueDate).toISOString()}`);
+    }
+    return { kind: 'task', title: task.title, subtitle, items };
+}
 
 // Create a new Task 
 export const createTaskTool: ToolDefinition = {
@@ -43,6 +58,12 @@ export const createTaskTool: ToolDefinition = {
             };
         }
     },
+    formatResult(task: Task) {
+        return `[Task Created] "${task.title}" (ID: ${task.id}, Priority: ${task.priority}${task.dueDate ? ', Due: ' + new Date(task.dueDate).toISOString() : ''})`;
+    },
+    renderHint(task: Task) {
+        return taskCard(task, 'Task created');
+    },
 };
 
 // List all tasks for the user
@@ -68,6 +89,59 @@ export const listTasksTool: ToolDefinition = {
         };
       }
     },
+    formatResult(tasks: Task[]) {
+        if (tasks.length === 0) {
+            return `[Task List] No tasks found`;
+        }
+        const taskList = tasks.map(t => `- ${t.title} (${t.completed ? 'completed' : 'pending'})`).join('\n');
+        return `[Task List] Found ${tasks.length} task(s):\n${taskList}`;
+    },
+    renderHint(tasks: Task[]) {
+        return {
+            kind: 'taskList',
+            title: tasks.length === 0 ? 'No tasks found' : `${tasks.length} task(s)`,
+            items: tasks.map(t => `${t.completed ? '✓' : '○'} ${t.title}`),
+        };
+    },
+};
+
+// Find tasks by meaning rather than exact title
+export const searchTasksTool: ToolDefinition = {
+    name: 'searchTasks',
+    description: 'Search tasks by what they are about, even when the words differ from the title (e.g. "dentist" finds "Book checkup"). Optionally exclude completed tasks or filter by priority and due date. Use this to find a task before updating, completing or deleting it.',
+    parameters: SearchTasksSchema,
+    async execute(params: SearchTasksParams, context: ToolContext): Promise<ToolResult> {
+        try {
+            const results: TaskSearchResult[] = await context.agent.searchTasks(context.userId, params);
+
+            return {
+                success: true,
+                data: results,
+                message: `Found ${results.length} matching task(s)`,
+            };
+        } catch (error: any) {
+            return {
+                success: false,
+                error: error.message || 'Failed to search tasks',
+            };
+        }
+    },
+    formatResult(results: TaskSearchResult[], params: SearchTasksParams) {
+        if (results.length === 0) {
+            return `[Task Search] No tasks match "${params.query}"`;
+        }
+        const taskList = results.map(({ task }) =>
+            `- ${task.title} (ID: ${task.id}, ${task.completed ? 'completed' : 'pending'}${task.dueDate ? ', Due: ' + new Date(task.dueDate).toISOString() : ''})`
+        ).join('\n');
+        return `[Task Search] ${results.length} task(s) matching "${params.query}", best first:\n${taskList}`;
+    },
+    renderHint(results: TaskSearchResult[], params: SearchTasksParams) {
+        return {
+            kind: 'taskList',
+            title: results.length === 0 ? `No tasks match "${params.query}"` : `${results.length} task(s) matching "${params.query}"`,
+            items: results.map(({ task }) => `${task.completed ? '✓' : '○'} ${task.title}`),
+        };
+    },
 };
 
 /**
@@ -95,6 +169,12 @@ export const listTasksTool: ToolDefinition = {
         };
       }
     },
+    formatResult(task: Task) {
+      return `[Task Updated] "${task.title}" has been updated successfully`;
+    },
+    renderHint(task: Task) {
+      return taskCard(task, 'Task updated');
+    },
   };
 
   /**
@@ -122,6 +202,12 @@ export const listTasksTool: ToolDefinition = {
         };
       }
     },
+    formatResult(task: Task) {
+      return `[Task Completed] "${task.title}" marked as complete`;
+    },
+    renderHint(task: Task) {
+      return { kind: 'task', title: task.title, subtitle: 'Task completed' };
+    },
   };
 
   /**
@@ -148,4 +234,10 @@ export const listTasksTool: ToolDefinition = {
         };
       }
     },
+    formatResult() {
+      return `[Task Deleted] Task has been removed successfully`;
+    },
+    renderHint() {
+      return { kind: 'task', title: 'Task deleted' };
+    },
   };
\ No newline at end of file
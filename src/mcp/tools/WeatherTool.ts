@@ -74,4 +74,15 @@ export const getWeatherTool: ToolDefinition = {
         };
       }
     },
+    formatResult(weather: WeatherData) {
+      return `[Weather Data Retrieved] ${weather.city}, ${weather.country}: ${weather.temperature}°C (feels like ${weather.feelsLike}°C), ${weather.description}. Humidity: ${weather.humidity}%, Wind: ${weather.windSpeed} m/s`;
+    },
+    renderHint(weather: WeatherData) {
+      return {
+        kind: 'weather',
+        title: `${weather.city}, ${weather.country}: ${weather.temperature}°C`,
+        subtitle: weather.description,
+        items: [`Feels like ${weather.feelsLike}°C`, `Humidity ${weather.humidity}%`, `Wind ${weather.windSpeed} m/s`],
+      };
+    },
   };
@@ -3,10 +3,12 @@
   import {
     createTaskTool,
     listTasksTool,
+    searchTasksTool,
     updateTaskTool,
     completeTaskTool,
     deleteTaskTool,
   } from './TaskTools';
+  import { rememberFactTool, listFactsTool, forgetFactTool } from './FactTools';
   import { getWeatherTool } from './WeatherTool';
   import { sendEmailTool } from './EmailTool';
   import {
@@ -22,10 +24,16 @@
     // Task management tools
     createTaskTool,
     listTasksTool,
+    searchTasksTool,
     updateTaskTool,
     completeTaskTool,
     deleteTaskTool,
 
+    // User fact tools
+    rememberFactTool,
+    listFactsTool,
+    forgetFactTool,
+
     // External API tools
     getWeatherTool,
     sendEmailTool,
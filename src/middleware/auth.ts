@@ -120,4 +120,18 @@ export async function verifyWebSocketToken(
         console.error('[Auth] WebSocket token verification failed:', error);
         return null;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Middleware limiting routes to the Clerk users listed in ADMIN_USER_IDS
+ * (runs after clerkAuthMiddleware)
+ */
+export async function requireAdminMiddleware(c: Context<{ Bindings: Env; Variables: AuthVariables }>, next: Next) {
+    const adminIds = (c.env.ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean);
+
+    if (!adminIds.includes(c.get('auth').clerkId)) {
+        return c.json({ error: 'Admin access required' }, 403);
+    }
+
+    await next();
+}
@@ -0,0 +1,93 @@
+import { ToolCall } from '../agent/toolCalls';
+import {
+    LLMCompletion,
+    LLMProvider,
+    LLMRequest,
+    LLMStreamCompletion,
+    LLMStreamOptions,
+} from './types';
+
+/**
+ * One scripted model turn
+ */
+export interface MockTurn {
+    text?: string;
+    toolCalls?: ToolCall[];
+    error?: string;  // Fail this call with this message instead of answering
+}
+
+/**
+ * Parse a JSON array of MockTurns (the LLM_MOCK_SCRIPT env var)
+ */
+export function parseMockScript(json?: string): MockTurn[] {
+    if (!json) {
+        return [];
+    }
+
+    try {
+        const parsed = JSON.parse(json);
+        if (Array.isArray(parsed)) {
+            return parsed;
+        }
+        console.warn('[MockLLM] LLM_MOCK_SCRIPT must be a JSON array, ignoring it');
+    } catch {
+        console.warn('[MockLLM] LLM_MOCK_SCRIPT is not valid JSON, ignoring it');
+    }
+    return [];
+}
+
+/**
+ * Deterministic offline provider for tests and local development.
+ *
+ * Plays back the scripted turns in order (a turn can be a scripted failure);
+ * once the script runs out it echoes the latest user message. Every request
+ * is recorded for assertions.
+ */
+export class MockLLMProvider implements LLMProvider {
+    readonly name = 'mock' as const;
+    readonly model: string;
+    readonly requests: LLMRequest[] = [];
+    private script: MockTurn[];
+    private turn = 0;
+
+    constructor(script: MockTurn[] = [], model: string = 'mock-model') {
+        this.script = script;
+        this.model = model;
+    }
+
+    private next(request: LLMRequest): LLMCompletion {
+        this.requests.push(request);
+
+        if (this.turn < this.script.length) {
+            const scripted = this.script[this.turn++];
+            if (scripted.error) {
+                throw new Error(scripted.error);
+            }
+            return { text: scripted.text ?? '', toolCalls: scripted.toolCalls ?? [] };
+        }
+
+        const lastUserMessage = [...request.messages].reverse().find(m => m.role === 'user');
+        return { text: `Mock response to: ${lastUserMessage?.content ?? ''}`, toolCalls: [] };
+    }
+
+    async complete(request: LLMRequest): Promise<LLMCompletion> {
+        return this.next(request);
+    }
+
+    async stream(request: LLMRequest, options: LLMStreamOptions = {}): Promise<LLMStreamCompletion> {
+        const completion = this.next(request);
+
+        // Word-sized deltas, like a real token stream
+        let text = '';
+        for (const delta of completion.text.match(/\S+\s*|\s+/g) ?? []) {
+            if (request.signal?.aborted) {
+                return { text: text.trim(), toolCalls: [], timedOut: false, aborted: true };
+            }
+            text += delta;
+            options.onDelta?.(delta);
+            await Promise.resolve();
+        }
+
+        return { ...completion, timedOut: false, aborted: false };
+    }
+}
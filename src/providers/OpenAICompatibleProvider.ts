@@ -0,0 +1,156 @@
+import { consumeLLMStream, StreamEvent } from '../agent/streaming';
+import { parseNativeToolCalls } from '../agent/toolCalls';
+import {
+    LLMCompletion,
+    LLMProvider,
+    LLMRequest,
+    LLMStreamCompletion,
+    LLMStreamOptions,
+    remainingTimeout,
+} from './types';
+
+export interface OpenAICompatibleConfig {
+    baseUrl: string;      // e.g. http://localhost:11434/v1 or https://api.openai.com/v1
+    apiKey?: string;
+    model: string;
+}
+
+/**
+ * Parse one SSE line of an OpenAI chat completions stream:
+ *   data: {"choices":[{"delta":{"content":"Hel"}}]}
+ */
+export function parseOpenAIStreamEvent(line: string): StreamEvent | null {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) {
+        return null;
+    }
+
+    const data = trimmed.slice(5).trim();
+    if (!data || data === '[DONE]') {
+        return null;
+    }
+
+    try {
+        const delta = JSON.parse(data)?.choices?.[0]?.delta;
+        if (!delta) {
+            return null;
+        }
+
+        const event: StreamEvent = {};
+        if (typeof delta.content === 'string' && delta.content) {
+            event.response = delta.content;
+        }
+        if (Array.isArray(delta.tool_calls) && delta.tool_calls.length > 0) {
+            event.toolCalls = delta.tool_calls;
+        }
+        return event.response || event.toolCalls ? event : null;
+    } catch {
+        console.warn('[OpenAI] Skipping malformed stream event:', data.substring(0, 100));
+        return null;
+    }
+}
+
+/**
+ * Streamed tool calls arrive as fragments keyed by index; the name comes
+ * first and the JSON arguments are spread over later fragments.
+ */
+export function mergeToolCallDeltas(deltas: unknown[]): Array<{ name: string; arguments: string }> {
+    const calls = new Map<number, { name: string; arguments: string }>();
+
+    for (const raw of deltas) {
+        const delta = raw as { index?: number; function?: { name?: string; arguments?: string } };
+        const index = delta.index ?? 0;
+        const call = calls.get(index) ?? { name: '', arguments: '' };
+
+        if (delta.function?.name) call.name += delta.function.name;
+        if (delta.function?.arguments) call.arguments += delta.function.arguments;
+
+        calls.set(index, call);
+    }
+
+    return [...calls.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, call]) => call)
+        .filter(call => call.name);
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API
+ * (OpenAI, vLLM, llama.cpp, Ollama, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly name = 'openai' as const;
+    readonly model: string;
+    private baseUrl: string;
+    private apiKey?: string;
+
+    constructor(config: OpenAICompatibleConfig) {
+        this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+        this.apiKey = config.apiKey;
+        this.model = config.model;
+    }
+
+    private async post(request: LLMRequest, stream: boolean): Promise<Response> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.apiKey) {
+            headers['Authorization'] = `Bearer ${this.apiKey}`;
+        }
+
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model: this.model,
+                messages: request.messages,
+                ...(request.tools?.length ? { tools: request.tools } : {}),
+                max_tokens: request.maxTokens,
+                temperature: request.temperature,
+                stream,
+            }),
+            signal: request.signal,
+        });
+
+        if (!response.ok) {
+            const body = await response.text().catch(() => '');
+            throw new Error(`OpenAI-compatible API error ${response.status}: ${body.substring(0, 200)}`);
+        }
+
+        return response;
+    }
+
+    async complete(request: LLMRequest): Promise<LLMCompletion> {
+        const response = await this.post(request, false);
+        const data = await response.json() as {
+            choices?: Array<{ message?: { content?: string | null; tool_calls?: unknown[] } }>;
+        };
+        const message = data.choices?.[0]?.message;
+
+        return {
+            text: message?.content?.trim() ?? '',
+            toolCalls: parseNativeToolCalls(message?.tool_calls),
+        };
+    }
+
+    async stream(request: LLMRequest, options: LLMStreamOptions = {}): Promise<LLMStreamCompletion> {
+        const startedAt = Date.now();
+        const response = await this.post(request, true);
+
+        if (!response.body) {
+            throw new Error('OpenAI-compatible API returned an empty stream');
+        }
+
+        const result = await consumeLLMStream(response.body, {
+            onDelta: options.onDelta,
+            timeoutMs: remainingTimeout(options.timeoutMs, startedAt),
+            parseEvent: parseOpenAIStreamEvent,
+            signal: request.signal,
+        });
+
+        return {
+            text: result.text.trim(),
+            toolCalls: parseNativeToolCalls(mergeToolCallDeltas(result.toolCalls)),
+            timedOut: result.timedOut,
+            aborted: result.aborted,
+        };
+    }
+}
@@ -0,0 +1,65 @@
+import { consumeLLMStream } from '../agent/streaming';
+import { parseNativeToolCalls } from '../agent/toolCalls';
+import {
+    LLMCompletion,
+    LLMProvider,
+    LLMRequest,
+    LLMStreamCompletion,
+    LLMStreamOptions,
+    remainingTimeout,
+} from './types';
+
+export const DEFAULT_WORKERS_AI_MODEL = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
+
+/**
+ * Cloudflare Workers AI (the `AI` binding)
+ */
+export class WorkersAIProvider implements LLMProvider {
+    readonly name = 'workers-ai' as const;
+    readonly model: string;
+    private ai: Ai;
+
+    constructor(ai: Ai, model: string = DEFAULT_WORKERS_AI_MODEL) {
+        this.ai = ai;
+        this.model = model;
+    }
+
+    private run(request: LLMRequest, stream: boolean): Promise<unknown> {
+        const modelKey = (this.model as unknown) as keyof AiModels;
+
+        return this.ai.run(modelKey, {
+            messages: request.messages,
+            tools: request.tools,
+            max_tokens: request.maxTokens,
+            temperature: request.temperature,
+            stream,
+        });
+    }
+
+    async complete(request: LLMRequest): Promise<LLMCompletion> {
+        const response = await this.run(request, false) as { response?: string; tool_calls?: unknown[] };
+
+        return {
+            text: response?.response?.trim() ?? '',
+            toolCalls: parseNativeToolCalls(response?.tool_calls),
+        };
+    }
+
+    async stream(request: LLMRequest, options: LLMStreamOptions = {}): Promise<LLMStreamCompletion> {
+        const startedAt = Date.now();
+        const stream = await this.run(request, true) as ReadableStream<Uint8Array>;
+
+        const result = await consumeLLMStream(stream, {
+            onDelta: options.onDelta,
+            timeoutMs: remainingTimeout(options.timeoutMs, startedAt),
+            signal: request.signal,
+        });
+
+        return {
+            text: result.text.trim(),
+            toolCalls: parseNativeToolCalls(result.toolCalls),
+            timedOut: result.timedOut,
+            aborted: result.aborted,
+        };
+    }
+}
@@ -0,0 +1,53 @@
+import { Env } from '../types/env';
+import { LLMProvider, LLMProviderName } from './types';
+import { WorkersAIProvider, DEFAULT_WORKERS_AI_MODEL } from './WorkersAIProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { MockLLMProvider, parseMockScript } from './MockLLMProvider';
+
+export * from './types';
+export { WorkersAIProvider, DEFAULT_WORKERS_AI_MODEL } from './WorkersAIProvider';
+export { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+export { MockLLMProvider } from './MockLLMProvider';
+export type { MockTurn } from './MockLLMProvider';
+
+export const LLM_PROVIDER_NAMES = ['workers-ai', 'openai', 'mock'] as const satisfies readonly LLMProviderName[];
+
+/**
+ * Choose the LLM backend. Overrides (e.g. per-user settings) win over env.
+ *
+ *   LLM_PROVIDER=workers-ai  LLM_MODEL=@cf/...            (default)
+ *   LLM_PROVIDER=openai      OPENAI_BASE_URL=... OPENAI_MODEL=... [OPENAI_API_KEY=...]
+ *   LLM_PROVIDER=mock        [LLM_MOCK_SCRIPT='[{"text":"Hi"}]']
+ */
+export function createLLMProvider(
+    env: Env,
+    overrides: { provider?: string; model?: string } = {}
+): LLMProvider {
+    const provider = overrides.provider || env.LLM_PROVIDER || 'workers-ai';
+
+    switch (provider) {
+        case 'openai': {
+            if (!env.OPENAI_BASE_URL) {
+                throw new Error('OPENAI_BASE_URL is required when LLM_PROVIDER is "openai"');
+            }
+            const model = overrides.model || env.OPENAI_MODEL;
+            if (!model) {
+                throw new Error('OPENAI_MODEL is required when LLM_PROVIDER is "openai"');
+            }
+            return new OpenAICompatibleProvider({
+                baseUrl: env.OPENAI_BASE_URL,
+                apiKey: env.OPENAI_API_KEY,
+                model,
+            });
+        }
+
+        case 'mock':
+            return new MockLLMProvider(parseMockScript(env.LLM_MOCK_SCRIPT), overrides.model || 'mock-model');
+
+        case 'workers-ai':
+            return new WorkersAIProvider(env.AI, overrides.model || env.LLM_MODEL || DEFAULT_WORKERS_AI_MODEL);
+
+        default:
+            throw new Error(`Unknown LLM provider "${provider}" (use ${LLM_PROVIDER_NAMES.join(', ')})`);
+    }
+}
@@ -0,0 +1,61 @@
+import { LLMToolSchema } from '../mcp/CodeModeAPI';
+import { ToolCall } from '../agent/toolCalls';
+
+export type LLMProviderName = 'workers-ai' | 'openai' | 'mock';
+
+export interface LLMChatMessage {
+    role: string;
+    content: string;
+}
+
+export interface LLMRequest {
+    messages: LLMChatMessage[];
+    tools?: LLMToolSchema[];
+    maxTokens: number;
+    temperature: number;
+    signal?: AbortSignal;   // Aborts the request when the user cancels the turn
+}
+
+export interface LLMCompletion {
+    text: string;
+    toolCalls: ToolCall[];
+}
+
+export interface LLMStreamCompletion extends LLMCompletion {
+    timedOut: boolean;   // Stream was cut off; text holds what arrived before the cut-off
+    aborted: boolean;    // request.signal fired mid-stream; text is partial
+}
+
+export interface LLMStreamOptions {
+    onDelta?: (delta: string) => void;
+    timeoutMs?: number;
+}
+
+/**
+ * A chat model backend. PersonalAssistant only talks to models through this
+ * interface, so the backend can be swapped via env (or per-user settings).
+ */
+export interface LLMProvider {
+    readonly name: LLMProviderName;
+    readonly model: string;
+
+    /**
+     * Generate a complete response in one call
+     */
+    complete(request: LLMRequest): Promise<LLMCompletion>;
+
+    /**
+     * Generate a response, forwarding text deltas as they arrive
+     */
+    stream(request: LLMRequest, options?: LLMStreamOptions): Promise<LLMStreamCompletion>;
+}
+
+/**
+ * Time left for reading a stream once it has been opened
+ */
+export function remainingTimeout(timeoutMs: number | undefined, startedAt: number): number | undefined {
+    if (!timeoutMs) {
+        return undefined;
+    }
+    return Math.max(1, timeoutMs - (Date.now() - startedAt));
+}
@@ -7,6 +7,9 @@ export interface Env {
 
     VECTORIZE: VectorizeIndex;
     TASK_WORKFLOW: Workflow<TaskWorkflowParams>;
+    EMBEDDING_BACKFILL_WORKFLOW: Workflow<EmbeddingBackfillParams>;
+    DOCUMENT_INGEST_WORKFLOW: Workflow<DocumentIngestParams>;
+    VECTORIZE_NEXT?: VectorizeIndex;  // New index a full re-embed can write to before it replaces VECTORIZE
 
     ENVIRONMENT?: string;
     ALLOWED_ORIGIN?: string; // Production frontend URL (e.g. https://your-app.pages.dev)
@@ -16,6 +19,30 @@ export interface Env {
     LLM_TEMPERATURE?: string;
     RAG_ENABLED?: string;
     RAG_TOP_K?: string;
+    RAG_MIN_SCORE?: string;       // Cosine similarity a vector match needs (default 0.75)
+    RAG_VECTOR_WEIGHT?: string;   // Rank fusion weight of vector matches (default 1)
+    RAG_KEYWORD_WEIGHT?: string;  // Rank fusion weight of keyword matches (default 1, 0 turns keyword search off)
+    RAG_RRF_K?: string;           // Rank fusion constant (default 60)
+    RAG_RECENCY_HALF_LIFE_DAYS?: string; // Age at which a past message's recency boost halves (default 30)
+    RAG_RECENCY_WEIGHT?: string;  // Share of a past message's score that depends on recency, 0-1 (default 0.3)
+    LLM_STREAMING?: string;
+    LLM_NATIVE_TOOLS?: string;
+    AGENT_MAX_ITERATIONS?: string;
+    AGENT_TOKEN_BUDGET?: string;
+    INTENT_ROUTING?: string;   // 'false' sends every message through RAG with all tools
+    AGENDA_CONTEXT?: string;   // 'false' leaves today's tasks/events out of the prompt by default
+    LLM_PROVIDER?: string;     // workers-ai (default) | openai | mock
+    OPENAI_BASE_URL?: string;  // Any OpenAI-compatible /v1 endpoint
+    OPENAI_API_KEY?: string;
+    OPENAI_MODEL?: string;
+    LLM_MOCK_SCRIPT?: string;  // JSON array of scripted turns for the mock provider
+    LLM_CONTEXT_WINDOW?: string; // Override the model's context length (tokens)
+    LLM_FALLBACK_MODELS?: string; // Comma-separated models tried after LLM_MODEL fails ("model" or "provider:model")
+    LLM_ALLOWED_MODELS?: string;  // Comma-separated models users may pick besides the env's own ("model" or "provider:model")
+    LLM_MAX_RETRIES?: string;     // Retries per model on 429s (default 2)
+    LLM_CIRCUIT_COOLDOWN_SECONDS?: string; // How long a failing model is skipped (default 60)
+    ADMIN_USER_IDS?: string;      // Comma-separated Clerk user IDs allowed to use /api/admin
+    VECTORIZE_NEXT_INDEX?: string; // Name of the index bound as VECTORIZE_NEXT
 
 
     OPENWEATHER_API_KEY?: string;
@@ -37,11 +64,83 @@ export interface Message {
     role: 'user' | 'assistant' | 'system';
     content: string;
     timestamp: number;
+    threadId?: string;
+    parentId?: string;      // Message this one follows in the thread's tree
     metadata?: Record<string, any>;
+    branch?: BranchInfo;    // Set when the message has alternatives (edits/regenerations)
+}
+
+// Alternatives at one point of a conversation branch
+export interface BranchInfo {
+    siblingIds: string[];   // Oldest first; switching to one shows its newest branch
+    index: number;          // Position of the shown alternative
+}
+
+export interface Thread {
+    id: string;
+    userId: string;
+    title: string;
+    archived: boolean;
+    activeLeafId?: string;  // Newest message of the branch being shown
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Rolling summary of a thread's older messages (one per thread)
+export interface ConversationSummary {
+    threadId: string;
+    content: string;
+    lastMessageId: string;  // Newest message folded into the summary
+    coveredUntil: number;   // Its timestamp (ms), used when that message is no longer loaded
+    messageCount: number;   // Messages summarized so far
+    updatedAt: number;
+}
+
+// Note or reference material the assistant can retrieve (knowledge_entries)
+export interface KnowledgeEntry {
+    id: string;
+    userId: string;
+    title?: string;
+    content: string;
+    indexed: boolean;       // Its Vectorize vector is current (vector_id is set)
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Uploaded file split into knowledge entry chunks (knowledge_documents)
+export interface KnowledgeDocument {
+    id: string;
+    userId: string;
+    filename: string;
+    mimeType: string;
+    sizeBytes: number;
+    status: 'processing' | 'ready' | 'failed';
+    chunkCount: number;
+    indexedCount: number;   // Chunks embedded so far
+    error?: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Progress of an embedding backfill/re-embed run (embedding_backfills)
+export interface EmbeddingBackfill {
+    id: string;
+    userId: string;
+    mode: 'missing' | 'full';      // Only rows without a vector, or every row
+    indexName?: string;            // Target index; unset for the live one
+    workflowId?: string;
+    status: 'running' | 'complete' | 'failed';
+    phase: 'conversations' | 'knowledge' | 'tasks' | 'summaries' | 'done';
+    cursor: number;                // Last rowid handled in the current phase
+    scanned: number;
+    embedded: number;
+    error?: string;
+    createdAt: number;
+    updatedAt: number;
 }
 
 export interface WSMessage {
-      type: 'chat' | 'chat_response' | 'task' | 'task_list' | 'status' | 'error' | 'confirmation_request' | 'confirmation_response' | 'tool_execution_result';
+      type: 'chat' | 'chat_response' | 'chat_response_delta' | 'agent_step' | 'thread_updated' | 'task' | 'task_list' | 'status' | 'error' | 'confirmation_request' | 'confirmation_response' | 'cancel' | 'tool_execution_result';
       payload: any;
       timestamp: number;
   }
@@ -66,6 +165,7 @@ export interface UserPreferences {
 
 export interface AgentState {
     userId: string;
+    activeThreadId?: string;        // Thread whose history is loaded in conversationHistory
     conversationHistory: Message[];
     activeWebSockets: number;
     lastActivity: number;
@@ -83,6 +183,16 @@ export interface TaskWorkflowParams {
     };
 }
 
+export interface EmbeddingBackfillParams {
+    backfillId: string;
+    userId: string;
+}
+
+export interface DocumentIngestParams {
+    documentId: string;
+    userId: string;
+}
+
 export interface WorkflowStepResult {
     success: boolean;
     message: string;
@@ -6,6 +6,22 @@ export interface ToolDefinition {
     description: string;
     parameters: z.ZodSchema<any>;
     execute: (params: any, context: ToolContext) => Promise<ToolResult>;
+    // Summary of a successful result for the LLM; without it the raw data is sent as JSON
+    formatResult?: (data: any, params: any) => string;
+    // Card the chat shows for a successful result; without it nothing is shown
+    renderHint?: (data: any, params: any) => ToolRenderHint;
+}
+
+/**
+ * Tool result card for the frontend. `kind` picks the icon (task, taskList,
+ * weather, email, calendar, fact, factList); other kinds get a generic one.
+ */
+export interface ToolRenderHint {
+    kind: string;
+    title: string;
+    subtitle?: string;
+    items?: string[];
+    link?: { url: string; label: string };
 }
 
 export interface ToolContext {
@@ -81,6 +97,15 @@ export const DeleteTaskSchema = z.object({
     taskId: z.string().uuid(),
 });
 
+export const SearchTasksSchema = z.object({
+    query: z.string().trim().min(1).max(500).describe('What the task is about, in any words (e.g. "dentist")'),
+    excludeCompleted: z.boolean().optional().describe('Leave out completed tasks'),
+    priority: z.enum(['low', 'medium', 'high']).optional().describe('Only tasks with this priority'),
+    dueAfter: isoDateTimeSchema.describe('Only tasks due at or after this time, ISO 8601 (e.g., "2026-02-20T00:00:00Z")'),
+    dueBefore: isoDateTimeSchema.describe('Only tasks due before this time, ISO 8601 (e.g., "2026-02-27T00:00:00Z")'),
+    limit: z.number().int().min(1).max(20).optional().describe('Maximum number of tasks to return (default 5)'),
+});
+
 
 // Weather schemas
 
@@ -137,6 +162,20 @@ export const DeleteCalendarEventSchema = z.object({
 });
 
 
+// User fact schemas
+
+export const RememberFactSchema = z.object({
+    content: z.string().trim().min(1).max(300)
+        .describe('The fact as a short sentence about the user (e.g. "Partner\'s name is Sam")'),
+});
+
+export const ListFactsSchema = z.object({});
+
+export const ForgetFactSchema = z.object({
+    factId: z.string().uuid().describe('ID of the fact, from listFacts'),
+});
+
+
 
 export interface CalendarEventResult {
     eventId: string;
@@ -174,8 +213,11 @@ export type ListTasksParams = z.infer<typeof ListTasksSchema>;
 export type UpdateTaskParams = z.infer<typeof UpdateTaskSchema>;
 export type CompleteTaskParams = z.infer<typeof CompleteTaskSchema>;
 export type DeleteTaskParams = z.infer<typeof DeleteTaskSchema>;
+export type SearchTasksParams = z.infer<typeof SearchTasksSchema>;
 export type GetWeatherParams = z.infer<typeof GetWeatherSchema>;
 export type SendEmailParams = z.infer<typeof SendEmailSchema>;
 export type CreateCalendarEventParams = z.infer<typeof CreateCalendarEventSchema>;
 export type UpdateCalendarEventParams = z.infer<typeof UpdateCalendarEventSchema>;
-export type DeleteCalendarEventParams = z.infer<typeof DeleteCalendarEventSchema>;
\ No newline at end of file
+export type DeleteCalendarEventParams = z.infer<typeof DeleteCalendarEventSchema>;
+export type RememberFactParams = z.infer<typeof RememberFactSchema>;
+export type ForgetFactParams = z.infer<typeof ForgetFactSchema>;
\ No newline at end of file
@@ -15,7 +15,7 @@ import * as chrono from 'chrono-node';
  * timezone on some environments, causing wrong Date construction. Passing a
  * numeric offset avoids this entirely.
  */
-function ianaToChronoOffset(timezone: string, date: Date): number {
+export function ianaToChronoOffset(timezone: string, date: Date): number {
   if (timezone === 'UTC') return 0;
   try {
     const parts = new Intl.DateTimeFormat('en-US', {
@@ -35,15 +35,175 @@ function ianaToChronoOffset(timezone: string, date: Date): number {
   }
 }
 
+/**
+ * Languages with a chrono locale parser. 'en' uses chrono.casual as before.
+ */
+export const DATE_LANGUAGES = ['en', 'fr', 'de', 'es', 'it', 'pt', 'nl', 'sv', 'ru', 'uk', 'ja', 'zh'] as const;
+
+export type DateLanguage = typeof DATE_LANGUAGES[number];
+
+export function isDateLanguage(value: unknown): value is DateLanguage {
+  return (DATE_LANGUAGES as readonly unknown[]).includes(value);
+}
+
+function getChrono(language: DateLanguage): chrono.Chrono {
+  return language === 'en' ? chrono.casual : chrono[language].casual;
+}
+
+/**
+ * Case-insensitive match of whole words, plus stems that only have to start a
+ * word ("prochain" also matches "prochaine"). `\b` only knows ASCII letters,
+ * so the boundaries are written with \p{L} to work for "amanhã" or "lunedì".
+ */
+function wordPattern(words: string[], stems: string[] = []): RegExp {
+  const alternatives = [`(?:${words.join('|')})(?!\\p{L})`, ...(stems.length > 0 ? [`(?:${stems.join('|')})`] : [])];
+  return new RegExp(`(?<!\\p{L})(?:${alternatives.join('|')})`, 'iu');
+}
+
+/**
+ * Date words that mark a phrase as relative to now, per language. Japanese
+ * and Chinese don't separate words, so they match anywhere.
+ */
+const RELATIVE_WORDS: Record<DateLanguage, RegExp> = {
+  en: wordPattern(['today', 'tomorrow', 'tonight', 'yesterday', 'next', 'last', 'in', 'ago', 'from now']),
+  fr: wordPattern(['demain', 'ce soir', 'hier', 'dans', 'il y a'], ['aujourd', 'prochain', 'derni']),
+  de: wordPattern(['heute', 'morgen', 'heute abend', 'gestern', 'in', 'vor'], ['nächst', 'letzt']),
+  es: wordPattern(['hoy', 'mañana', 'esta noche', 'ayer', 'en', 'hace'], ['próxim', 'pasad']),
+  it: wordPattern(['oggi', 'domani', 'stasera', 'ieri', 'tra', 'fra', 'fa'], ['prossim', 'scors']),
+  pt: wordPattern(['hoje', 'amanhã', 'esta noite', 'ontem', 'em', 'daqui', 'há'], ['próxim', 'passad']),
+  nl: wordPattern(['vandaag', 'morgen', 'vanavond', 'gisteren', 'over', 'geleden'], ['volgend', 'vorig']),
+  sv: wordPattern(['idag', 'i dag', 'imorgon', 'i morgon', 'ikväll', 'igår', 'nästa', 'förra', 'om', 'sedan']),
+  ru: wordPattern(['сегодня', 'завтра', 'вечером', 'вчера', 'через', 'назад'], ['следующ', 'прошл']),
+  uk: wordPattern(['сьогодні', 'завтра', 'ввечері', 'вчора', 'через', 'тому'], ['наступн', 'минул']),
+  ja: /今日|明日|今夜|今晩|昨日|来週|来月|先週|後|前/,
+  zh: /今天|明天|今晚|昨天|下周|下個|下个|上周|后|後|前/,
+};
+
+/**
+ * Words that give a message's language away, for languages written in Latin
+ * script. Only date vocabulary and a few very common words.
+ */
+const LANGUAGE_HINTS: Array<[DateLanguage, RegExp]> = [
+  ['fr', wordPattern(["aujourd'hui", 'demain', 'après-demain', 'hier', 'ce soir', 'lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi', 'dimanche', 'janvier', 'février', 'avril', 'juin', 'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre', 'prochain', 'semaine', 'heures?', 'midi', 'rappelle', 'à \\d{1,2}h'])],
+  ['de', wordPattern(['heute', 'morgen', 'übermorgen', 'gestern', 'montag', 'dienstag', 'mittwoch', 'donnerstag', 'freitag', 'samstag', 'sonntag', 'januar', 'februar', 'märz', 'mai', 'juni', 'juli', 'oktober', 'dezember', 'nächste[nrs]?', 'woche', 'uhr', 'erinnere'])],
+  ['es', wordPattern(['hoy', 'mañana', 'pasado mañana', 'ayer', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábado', 'domingo', 'enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre', 'próxim[oa]', 'semana', 'recuérdame'])],
+  ['it', wordPattern(['oggi', 'domani', 'dopodomani', 'ieri', 'lunedì', 'martedì', 'mercoledì', 'giovedì', 'venerdì', 'sabato', 'domenica', 'gennaio', 'febbraio', 'aprile', 'maggio', 'giugno', 'luglio', 'settembre', 'ottobre', 'dicembre', 'prossim[oa]', 'settimana', 'ricordami'])],
+  ['pt', wordPattern(['hoje', 'amanhã', 'depois de amanhã', 'ontem', 'segunda', 'terça', 'quarta', 'quinta', 'sexta', 'sábado', 'domingo', 'janeiro', 'fevereiro', 'março', 'maio', 'junho', 'julho', 'setembro', 'outubro', 'novembro', 'dezembro', 'próxim[oa]', 'semana', 'lembre'])],
+  ['nl', wordPattern(['vandaag', 'morgen', 'overmorgen', 'gisteren', 'maandag', 'dinsdag', 'woensdag', 'donderdag', 'vrijdag', 'zaterdag', 'zondag', 'januari', 'februari', 'maart', 'mei', 'juni', 'juli', 'augustus', 'volgende', 'week', 'uur', 'herinner'])],
+  ['sv', wordPattern(['idag', 'imorgon', 'i morgon', 'igår', 'måndag', 'tisdag', 'onsdag', 'torsdag', 'fredag', 'lördag', 'söndag', 'januari', 'februari', 'mars', 'maj', 'juni', 'juli', 'augusti', 'nästa', 'vecka', 'klockan', 'påminn'])],
+];
+
+/**
+ * Best guess at the language of a message: script first (Japanese, Chinese,
+ * Cyrillic), then date vocabulary. English when nothing matches.
+ */
+export function detectDateLanguage(text: string): DateLanguage {
+  if (/[\u3040-\u30ff]/.test(text)) return 'ja';   // Hiragana/Katakana
+  if (/[\u4e00-\u9fff]/.test(text)) return 'zh';   // Han without kana
+  if (/[\u0400-\u04ff]/.test(text)) return /[іїєґ]/i.test(text) ? 'uk' : 'ru';
+
+  let best: DateLanguage = 'en';
+  let bestHits = 0;
+  for (const [language, pattern] of LANGUAGE_HINTS) {
+    const hits = text.match(new RegExp(pattern.source, 'giu'))?.length ?? 0;
+    if (hits > bestHits) {
+      best = language;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
+
+/**
+ * The date context block in each language, so the model reads the dates
+ * in the language the user wrote them in
+ */
+const DATE_CONTEXT_LABELS: Record<DateLanguage, { title: string; userSaid: string; useDate: string; warning: string }> = {
+  en: {
+    title: 'PARSED DATES FROM USER MESSAGE',
+    userSaid: 'User said',
+    useDate: 'USE THIS DATE',
+    warning: 'IMPORTANT: Use the dates above EXACTLY as provided. Do NOT calculate dates yourself.',
+  },
+  fr: {
+    title: 'DATES TROUVÉES DANS LE MESSAGE',
+    userSaid: "L'utilisateur a écrit",
+    useDate: 'UTILISE CETTE DATE',
+    warning: 'IMPORTANT : utilise les dates ci-dessus EXACTEMENT telles quelles. Ne calcule PAS les dates toi-même.',
+  },
+  de: {
+    title: 'ERKANNTE DATUMSANGABEN IN DER NACHRICHT',
+    userSaid: 'Der Nutzer schrieb',
+    useDate: 'VERWENDE DIESES DATUM',
+    warning: 'WICHTIG: Verwende die obigen Daten GENAU wie angegeben. Berechne Daten NICHT selbst.',
+  },
+  es: {
+    title: 'FECHAS DETECTADAS EN EL MENSAJE',
+    userSaid: 'El usuario escribió',
+    useDate: 'USA ESTA FECHA',
+    warning: 'IMPORTANTE: usa las fechas anteriores EXACTAMENTE como se indican. NO calcules fechas por tu cuenta.',
+  },
+  it: {
+    title: 'DATE RILEVATE NEL MESSAGGIO',
+    userSaid: "L'utente ha scritto",
+    useDate: 'USA QUESTA DATA',
+    warning: 'IMPORTANTE: usa le date qui sopra ESATTAMENTE come indicate. NON calcolare le date da solo.',
+  },
+  pt: {
+    title: 'DATAS DETECTADAS NA MENSAGEM',
+    userSaid: 'O usuário escreveu',
+    useDate: 'USE ESTA DATA',
+    warning: 'IMPORTANTE: use as datas acima EXATAMENTE como fornecidas. NÃO calcule datas por conta própria.',
+  },
+  nl: {
+    title: 'HERKENDE DATUMS IN HET BERICHT',
+    userSaid: 'De gebruiker schreef',
+    useDate: 'GEBRUIK DEZE DATUM',
+    warning: 'BELANGRIJK: gebruik de bovenstaande datums PRECIES zoals opgegeven. Bereken NIET zelf datums.',
+  },
+  sv: {
+    title: 'TOLKADE DATUM I MEDDELANDET',
+    userSaid: 'Användaren skrev',
+    useDate: 'ANVÄND DETTA DATUM',
+    warning: 'VIKTIGT: Använd datumen ovan EXAKT som de anges. Räkna INTE ut datum själv.',
+  },
+  ru: {
+    title: 'РАСПОЗНАННЫЕ ДАТЫ В СООБЩЕНИИ',
+    userSaid: 'Пользователь написал',
+    useDate: 'ИСПОЛЬЗУЙ ЭТУ ДАТУ',
+    warning: 'ВАЖНО: используй даты выше ТОЧНО как указано. НЕ вычисляй даты самостоятельно.',
+  },
+  uk: {
+    title: 'РОЗПІЗНАНІ ДАТИ В ПОВІДОМЛЕННІ',
+    userSaid: 'Користувач написав',
+    useDate: 'ВИКОРИСТАЙ ЦЮ ДАТУ',
+    warning: 'ВАЖЛИВО: використовуй дати вище ТОЧНО як вказано. НЕ обчислюй дати самостійно.',
+  },
+  ja: {
+    title: 'メッセージから読み取った日時',
+    userSaid: 'ユーザーの表現',
+    useDate: 'この日時を使用',
+    warning: '重要: 上記の日時をそのまま正確に使用してください。日時を自分で計算しないでください。',
+  },
+  zh: {
+    title: '从消息中解析出的日期',
+    userSaid: '用户原话',
+    useDate: '请使用此日期',
+    warning: '重要：请严格按照上面给出的日期使用，不要自行计算日期。',
+  },
+};
+
 export interface ParsedDate {
   phrase: string;           // Original phrase (e.g., "at 4pm today")
   isoDateTime: string;      // Calculated ISO 8601 (e.g., "2026-02-22T00:00:00Z")
   type: 'relative' | 'absolute';
   confidence: number;       // 0-1, how confident we are in the parse
+  language?: DateLanguage;  // Locale parser that found the phrase
 }
 
 export class DateParser {
   private userTimezone: string = 'UTC';
+  private userLanguage?: DateLanguage;
 
   /**
    * Set user's timezone for date parsing
@@ -53,6 +213,14 @@ export class DateParser {
     this.userTimezone = timezone;
   }
 
+  /**
+   * Set the user's language for date phrases ("demain à 15h")
+   * @param language - One of DATE_LANGUAGES; unset detects it per message
+   */
+  setLanguage(language?: string): void {
+    this.userLanguage = isDateLanguage(language) ? language : undefined;
+  }
+
   /**
    * Parse user message for date/time phrases using Chrono.js
    * Returns array of parsed dates with their ISO 8601 equivalents
@@ -61,8 +229,9 @@ export class DateParser {
     const parsed: ParsedDate[] = [];
     const now = new Date();
 
-    // Create a custom Chrono configuration
-    const customChrono = chrono.casual.clone();
+    // The user's language, or the message's when they haven't set one.
+    // English is tried too, since people mix languages.
+    const language = this.userLanguage ?? detectDateLanguage(text);
 
     // Convert IANA timezone to numeric offset for chrono.
     // chrono-node's IANA handling can fall back to the machine's local timezone
@@ -71,10 +240,22 @@ export class DateParser {
 
     // Parse with user's timezone as reference
     // This tells Chrono: "when user says 4pm, they mean 4pm in THIS timezone"
-    const results = customChrono.parse(text, {
+    const reference = {
       instant: now,
       timezone: tzOffset,  // numeric minutes offset (ISO: positive=east, negative=west)
-    });
+    };
+    let resultLanguage: DateLanguage = language;
+    let results = getChrono(language).parse(text, reference);
+    if (language !== 'en') {
+      // A locale parser can match part of an English phrase ("3 pm" of "tomorrow at 3 pm"):
+      // keep whichever parse covers more of the message
+      const coverage = (found: chrono.ParsedResult[]) => found.reduce((sum, result) => sum + result.text.length, 0);
+      const english = getChrono('en').parse(text, reference);
+      if (coverage(english) > coverage(results)) {
+        resultLanguage = 'en';
+        results = english;
+      }
+    }
 
     // Convert Chrono results to our ParsedDate format
     for (const result of results) {
@@ -91,15 +272,14 @@ export class DateParser {
           const isoDateTime = parsedDate.toISOString().replace('.000Z', 'Z');
 
           // Determine if it's relative or absolute
-          const isRelative = result.text.toLowerCase().match(
-            /today|tomorrow|tonight|yesterday|next|last|in|ago|from now/i
-          ) !== null;
+          const isRelative = RELATIVE_WORDS[resultLanguage].test(result.text.toLowerCase());
 
           parsed.push({
             phrase: result.text,
             isoDateTime,
             type: isRelative ? 'relative' : 'absolute',
             confidence: this.calculateConfidence(result),
+            language: resultLanguage,
           });
         } catch (error) {
           console.error('[DateParser] Error parsing result:', error);
@@ -145,23 +325,41 @@ export class DateParser {
   }
 
   /**
-   * Build context string for LLM with parsed dates
+   * The parsed date as the user would say it, in their language and timezone
+   * (e.g. "jeudi 26 février 2026 à 15:00")
+   */
+  private formatLocalDate(parsed: ParsedDate): string {
+    const date = new Date(parsed.isoDateTime);
+    try {
+      return new Intl.DateTimeFormat(parsed.language ?? 'en', {
+        timeZone: this.userTimezone, dateStyle: 'full', timeStyle: 'short',
+      }).format(date);
+    } catch {
+      return date.toUTCString();  // Unknown timezone
+    }
+  }
+
+  /**
+   * Build context string for LLM with parsed dates, in the language they
+   * were written in (one message's dates all share it)
    */
   buildDateContext(parsed: ParsedDate[]): string {
     if (parsed.length === 0) {
       return '';
     }
 
-    let context = '\n\n🎯 PARSED DATES FROM USER MESSAGE:\n';
+    const labels = DATE_CONTEXT_LABELS[parsed[0].language ?? 'en'];
+
+    let context = `\n\n🎯 ${labels.title}:\n`;
     context += '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n';
 
     parsed.forEach((p, idx) => {
-      context += `${idx + 1}. User said: "${p.phrase}"\n`;
-      context += `   → USE THIS DATE: "${p.isoDateTime}"\n`;
+      context += `${idx + 1}. ${labels.userSaid}: "${p.phrase}"\n`;
+      context += `   → ${labels.useDate}: "${p.isoDateTime}" (${this.formatLocalDate(p)})\n`;
     });
 
     context += '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n';
-    context += '⚠️ IMPORTANT: Use the dates above EXACTLY as provided. Do NOT calculate dates yourself.\n';
+    context += `⚠️ ${labels.warning}\n`;
 
     return context;
   }
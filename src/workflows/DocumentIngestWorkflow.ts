@@ -0,0 +1,58 @@
+import { WorkflowEntrypoint, WorkflowStep, WorkflowEvent } from 'cloudflare:workers';
+import { Env, DocumentIngestParams, WorkflowStepResult } from '../types/env';
+import { VectorizeManager } from '../agent/vectorize';
+import { DocumentStore } from '../agent/documents';
+
+/**
+ * DocumentIngestWorkflow - Embeds the chunks of an uploaded document
+ *
+ * Usage:
+ * - Started from POST /api/knowledge/documents once the chunks are stored
+ * - One step per batch of chunks, so a retry only repeats the batch that failed
+ * - Progress lives in D1 (chunks without a vector_id are still to do); when
+ *   the workflow gives up, the document is marked failed
+ */
+export class DocumentIngestWorkflow extends WorkflowEntrypoint<Env, DocumentIngestParams> {
+    async run(
+        event: WorkflowEvent<DocumentIngestParams>,
+        step: WorkflowStep
+    ): Promise<WorkflowStepResult> {
+
+        const { documentId, userId } = event.payload;
+        console.log(`[DocumentIngestWorkflow] Indexing document ${documentId} for user ${userId}`);
+
+        const store = new DocumentStore(this.env.DB, new VectorizeManager(this.env));
+
+        try {
+            let done = false;
+            for (let batch = 0; !done; batch++) {
+                done = await step.do(
+                    `index-batch-${batch}`,
+                    {
+                        retries: { limit: 5, delay: '10 seconds', backoff: 'exponential' },
+                        timeout: '5 minutes'
+                    },
+                    async () => store.indexNextBatch(userId, documentId)
+                );
+            }
+
+            return {
+                success: true,
+                message: `Indexed document ${documentId}`,
+            };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`[DocumentIngestWorkflow] Document ${documentId} failed:`, error);
+
+            await step.do('record-failure', async () => {
+                await store.markFailed(userId, documentId, message);
+            });
+
+            return {
+                success: false,
+                message: 'Document ingestion failed',
+                error: message,
+            };
+        }
+    }
+}
@@ -0,0 +1,85 @@
+import { WorkflowEntrypoint, WorkflowStep, WorkflowEvent } from 'cloudflare:workers';
+import { Env, EmbeddingBackfill, EmbeddingBackfillParams, WorkflowStepResult } from '../types/env';
+import { VectorizeManager } from '../agent/vectorize';
+import { EmbeddingBackfillStore, EmbeddingBackfiller, resolveBackfillIndex } from '../agent/backfill';
+
+/**
+ * EmbeddingBackfillWorkflow - Embeds a user's history that has no vectors,
+ * or re-embeds all of it into a new index
+ *
+ * Usage:
+ * - Started from POST /api/admin/embeddings/backfill
+ * - One step per batch, so a retry only repeats the batch that failed
+ * - Every batch checkpoints to embedding_backfills; when the workflow gives up,
+ *   starting the same backfill again continues from the last checkpoint
+ */
+export class EmbeddingBackfillWorkflow extends WorkflowEntrypoint<Env, EmbeddingBackfillParams> {
+    async run(
+        event: WorkflowEvent<EmbeddingBackfillParams>,
+        step: WorkflowStep
+    ): Promise<WorkflowStepResult> {
+
+        const { backfillId, userId } = event.payload;
+        console.log(`[EmbeddingBackfillWorkflow] Starting backfill ${backfillId} for user ${userId}`);
+
+        const store = new EmbeddingBackfillStore(this.env.DB);
+
+        try {
+            let backfill = await step.do(
+                'load-checkpoint',
+                {
+                    retries: { limit: 5, delay: '5 seconds', backoff: 'exponential' },
+                    timeout: '2 minutes'
+                },
+                async () => {
+                    const loaded = await store.getBackfill(backfillId);
+                    if (!loaded) {
+                        throw new Error('Backfill not found');
+                    }
+                    return loaded;
+                }
+            );
+
+            const index = resolveBackfillIndex(this.env, backfill.indexName);
+            if (!index) {
+                throw new Error(`Index ${backfill.indexName ?? 'VECTORIZE'} is not bound`);
+            }
+            const backfiller = new EmbeddingBackfiller(
+                this.env.DB,
+                new VectorizeManager({ ...this.env, VECTORIZE: index }),
+                store
+            );
+
+            while (backfill.phase !== 'done') {
+                const current: EmbeddingBackfill = backfill;
+                backfill = await step.do(
+                    `${current.phase}-after-${current.cursor}`,
+                    {
+                        retries: { limit: 5, delay: '10 seconds', backoff: 'exponential' },
+                        timeout: '5 minutes'
+                    },
+                    async () => backfiller.runBatch(current)
+                );
+            }
+
+            return {
+                success: true,
+                message: `Scanned ${backfill.scanned} rows, embedded ${backfill.embedded}`,
+                data: backfill,
+            };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`[EmbeddingBackfillWorkflow] Backfill ${backfillId} failed:`, error);
+
+            await step.do('record-failure', async () => {
+                await store.setFailed(backfillId, message);
+            });
+
+            return {
+                success: false,
+                message: 'Backfill failed; start it again to resume from the last checkpoint',
+                error: message,
+            };
+        }
+    }
+}
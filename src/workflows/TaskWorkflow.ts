@@ -1,5 +1,6 @@
 import { WorkflowEntrypoint, WorkflowStep, WorkflowEvent } from 'cloudflare:workers';
 import { Env, TaskWorkflowParams, ReminderResult, Task } from '../types/env';
+import { VectorizeManager, taskEmbeddingId } from '../agent/vectorize';
 
 /**
    * TaskWorkflow - Multi-step task orchestration using Cloudflare Workflows
@@ -315,10 +316,13 @@ private async handleCleanupWorkflow(
             const thirtyDaysAgo = Math.floor(Date.now() / 1000) - (30 * 24 * 60 * 60);
 
             const result = await this.env.DB.prepare(
-                'DELETE FROM tasks WHERE user_id = ? AND completed = 1 AND completed_at < ?'
-            ).bind(params.userId, thirtyDaysAgo).run()
+                'DELETE FROM tasks WHERE user_id = ? AND completed = 1 AND completed_at < ? RETURNING id'
+            ).bind(params.userId, thirtyDaysAgo).all();
 
-            return result.meta.changes || 0;
+            const deletedIds = (result.results || []).map(row => taskEmbeddingId(row.id as string));
+            await new VectorizeManager(this.env).deleteEmbeddings(deletedIds);
+
+            return deletedIds.length;
         }
     );
 
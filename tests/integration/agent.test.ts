@@ -1,13 +1,28 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { createMockEnv, createMockDB, waitFor } from '../setup';
 import type { Env, Message, Task, WSMessage } from '../../src/types/env';
+import { MockLLMProvider, type MockTurn } from '../../src/providers/index';
+
+// PersonalAssistant extends the Workers runtime DurableObject; a plain base class is enough here
+vi.mock('cloudflare:workers', () => ({
+    DurableObject: class {
+        ctx: any;
+        env: any;
+        constructor(ctx: any, env: any) {
+            this.ctx = ctx;
+            this.env = env;
+        }
+    },
+}));
+
+import { PersonalAssistant } from '../../src/agent/PersonalAssistant';
 
 /**
  * Comprehensive Integration Tests for PersonalAssistant Agent
  *
- * These tests validate end-to-end flows without importing the actual
- * PersonalAssistant class (to avoid Cloudflare Workers module issues).
- * Instead, they test the public API and WebSocket protocol.
+ * Sections 1-8 validate the public API and WebSocket protocol with mocks.
+ * Section 9 drives the real PersonalAssistant through full chat turns
+ * offline, with the scripted mock LLM provider in place of a model.
  *
  * Test Coverage:
  * 1. WebSocket Connection & Message Flow
@@ -16,6 +31,9 @@ import type { Env, Message, Task, WSMessage } from '../../src/types/env';
  * 4. Task Management CRUD Operations
  * 5. Multi-step Conversation Flows
  * 6. Error Handling & Edge Cases
+ * 7. Data Validation & Constraints
+ * 8. WebSocket Connection Lifecycle
+ * 9. Full Chat Turns (Mock LLM Provider)
  */
 
 // =====================================================
@@ -100,6 +118,23 @@ function createTestTask(taskId: string, userId: string, overrides: Partial<Task>
     };
 }
 
+/**
+ * Helper: Minimal DurableObjectState for constructing the agent in node
+ */
+function createTestDOState(): any {
+    const storage = new Map<string, unknown>();
+    return {
+        storage: {
+            get: async (key: string) => storage.get(key),
+            put: async (key: string, value: unknown) => { storage.set(key, value); },
+            setAlarm: async () => {},
+        },
+        blockConcurrencyWhile: (fn: () => Promise<unknown>) => fn(),
+        getWebSockets: () => [],
+        acceptWebSocket: () => {},
+    };
+}
+
 function createTestMessage(messageId: string, userId: string, role: 'user' | 'assistant' | 'system', content: string): any {
     return {
         id: messageId,
@@ -819,4 +854,477 @@ describe('PersonalAssistant Integration Tests', () => {
             expect(ws.sentMessages.length).toBe(0);
         });
     });
+
+    describe('9. Full Chat Turns (Mock LLM Provider)', () => {
+        function createAgent(script: MockTurn[], overrides: Partial<Env> = {}) {
+            const agentEnv = createMockEnv({
+                DB: db,
+                VECTORIZE: undefined as any,
+                RAG_ENABLED: 'false',
+                LLM_PROVIDER: 'mock',
+                LLM_MOCK_SCRIPT: JSON.stringify(script),
+                ...overrides,
+            });
+            const agent = new PersonalAssistant(createTestDOState(), agentEnv);
+            (ws as any).deserializeAttachment = () => ({ userId: testUserId, connectedAt: Date.now() });
+            return agent;
+        }
+
+        function mockProvider(agent: PersonalAssistant): MockLLMProvider {
+            return [...(agent as any).llmProviders.values()][0];
+        }
+
+        function chat(content: string): string {
+            return JSON.stringify({ type: 'chat', payload: { content }, timestamp: Date.now() });
+        }
+
+        it('should stream a plain reply and finish with chat_response', async () => {
+            const agent = createAgent([{ text: 'Hello! How can I help today?' }]);
+
+            await agent.webSocketMessage(ws as any, chat('Hi'));
+
+            const deltas = ws.getMessages('chat_response_delta');
+            expect(deltas.length).toBeGreaterThan(1);
+            expect(deltas.map(m => (m.payload as any).delta).join('')).toBe('Hello! How can I help today?');
+
+            const response = ws.getLastMessage('chat_response');
+            expect((response?.payload as any).content).toBe('Hello! How can I help today?');
+            expect((response?.payload as any).threadId).toBeDefined();
+            expect(deltas.every(m => (m.payload as any).threadId === (response?.payload as any).threadId)).toBe(true);
+
+            const usage = (response?.payload as any).usage;
+            expect(usage.promptTokens).toBeGreaterThan(0);
+            expect(usage.completionTokens).toBeGreaterThan(0);
+
+            const provider = mockProvider(agent);
+            expect(provider.requests).toHaveLength(1);
+            expect(provider.requests[0].messages.at(-1)).toEqual({ role: 'user', content: 'Hi' });
+        });
+
+        it('should run a confirmed tool call and answer with its result', async () => {
+            db._setMockResults('SELECT * FROM tasks WHERE user_id = ? ORDER BY created_at DESC', [
+                { ...createTestTask('task-1', testUserId, { title: 'Buy milk' }), user_id: testUserId },
+            ]);
+            const agent = createAgent([
+                { toolCalls: [{ tool: 'listTasks', params: {} }] },
+                { text: 'You have one task: Buy milk.' },
+            ]);
+
+            const turn = agent.webSocketMessage(ws as any, chat('What are my tasks?'));
+
+            await waitFor(async () => {
+                while (!ws.getLastMessage('confirmation_request')) {
+                    await new Promise(resolve => setTimeout(resolve, 5));
+                }
+            }, 2000);
+            const request = ws.getLastMessage('confirmation_request');
+
+            await agent.webSocketMessage(ws as any, JSON.stringify({
+                type: 'confirmation_response',
+                payload: { requestId: (request?.payload as any).requestId, approved: true },
+                timestamp: Date.now(),
+            }));
+            await turn;
+
+            const result = ws.getLastMessage('tool_execution_result');
+            expect((result?.payload as any).success).toBe(true);
+            expect((result?.payload as any).renderHint).toEqual({ kind: 'taskList', title: '1 task(s)', items: ['○ Buy milk'] });
+            expect(ws.getMessages('agent_step').map(m => (m.payload as any).status)).toContain('calling_tools');
+            expect((ws.getLastMessage('chat_response')?.payload as any).content).toBe('You have one task: Buy milk.');
+
+            // Every event of the turn names its thread so the client can drop ones for other threads
+            const threadId = (ws.getLastMessage('chat_response')?.payload as any).threadId;
+            expect((result?.payload as any).threadId).toBe(threadId);
+            expect(ws.getMessages('agent_step').every(m => (m.payload as any).threadId === threadId)).toBe(true);
+
+            // The follow-up call sees the tool output
+            const provider = mockProvider(agent);
+            expect(provider.requests).toHaveLength(2);
+            expect(JSON.stringify(provider.requests[1].messages)).toContain('Buy milk');
+        });
+
+        it('should report the tool as failed when the user rejects it', async () => {
+            const agent = createAgent([
+                { toolCalls: [{ tool: 'deleteTask', params: { taskId: '7f9c2c1e-3b1a-4c5d-9e8f-1a2b3c4d5e6f' } }] },
+                { text: 'Okay, I left it alone.' },
+            ]);
+
+            const turn = agent.webSocketMessage(ws as any, chat('Delete my task'));
+
+            await waitFor(async () => {
+                while (!ws.getLastMessage('confirmation_request')) {
+                    await new Promise(resolve => setTimeout(resolve, 5));
+                }
+            }, 2000);
+            const request = ws.getLastMessage('confirmation_request');
+
+            await agent.webSocketMessage(ws as any, JSON.stringify({
+                type: 'confirmation_response',
+                payload: { requestId: (request?.payload as any).requestId, approved: false },
+                timestamp: Date.now(),
+            }));
+            await turn;
+
+            expect((ws.getLastMessage('tool_execution_result')?.payload as any).success).toBe(false);
+            expect((ws.getLastMessage('chat_response')?.payload as any).content).toBe('Okay, I left it alone.');
+        });
+
+        it('should cancel a turn waiting on confirmation and record it as cancelled', async () => {
+            const agent = createAgent([
+                { toolCalls: [{ tool: 'deleteTask', params: { taskId: '7f9c2c1e-3b1a-4c5d-9e8f-1a2b3c4d5e6f' } }] },
+                { text: 'This follow-up should never be requested.' },
+            ]);
+
+            const turn = agent.webSocketMessage(ws as any, chat('Delete my task'));
+
+            await waitFor(async () => {
+                while (!ws.getLastMessage('confirmation_request')) {
+                    await new Promise(resolve => setTimeout(resolve, 5));
+                }
+            }, 2000);
+
+            await agent.webSocketMessage(ws as any, JSON.stringify({ type: 'cancel', payload: {}, timestamp: Date.now() }));
+            await turn;
+
+            const response = ws.getLastMessage('chat_response');
+            expect((response?.payload as any).cancelled).toBe(true);
+            expect((response?.payload as any).content).toBe('[Cancelled by user]');
+            expect(ws.getMessages('tool_execution_result')).toHaveLength(0);
+
+            const provider = mockProvider(agent);
+            expect(provider.requests).toHaveLength(1);
+            expect((agent as any).confirmationHandler.getPendingCount()).toBe(0);
+        });
+
+        it('should ignore cancel when nothing is running', async () => {
+            const agent = createAgent([]);
+
+            await agent.webSocketMessage(ws as any, JSON.stringify({ type: 'cancel', payload: {}, timestamp: Date.now() }));
+
+            expect(ws.messages.filter(m => (m as any).error)).toHaveLength(0);
+        });
+
+        it('should answer with the next model in the fallback chain when the primary fails', async () => {
+            const agent = createAgent([{ error: 'AI error 500: internal' }], { LLM_FALLBACK_MODELS: 'mock:backup-model' });
+            (agent as any).llmProviders.set('mock:backup-model', new MockLLMProvider([{ text: 'From the backup' }], 'backup-model'));
+
+            await agent.webSocketMessage(ws as any, chat('Hi'));
+
+            const response = ws.getLastMessage('chat_response')?.payload as any;
+            expect(response.content).toBe('From the backup');
+            expect(response.model).toBe('backup-model');
+        });
+
+        it('should let the model repair invalid tool parameters before asking for confirmation', async () => {
+            const agent = createAgent([
+                { toolCalls: [{ tool: 'createTask', params: { priority: 'urgent' } }] },
+                { toolCalls: [{ tool: 'createTask', params: { title: 'Call mom', priority: 'high' } }] },
+                { text: 'Added "Call mom".' },
+            ]);
+
+            const turn = agent.webSocketMessage(ws as any, chat('Remind me to call mom, urgent'));
+
+            await waitFor(async () => {
+                while (!ws.getLastMessage('confirmation_request')) {
+                    await new Promise(resolve => setTimeout(resolve, 5));
+                }
+            }, 2000);
+            const request = ws.getLastMessage('confirmation_request');
+
+            // Only the repaired call reaches the user
+            expect(ws.getMessages('confirmation_request')).toHaveLength(1);
+            expect(JSON.stringify(request?.payload)).toContain('Call mom');
+            expect(ws.getMessages('agent_step').map(m => (m.payload as any).status)).toContain('repairing');
+
+            await agent.webSocketMessage(ws as any, JSON.stringify({
+                type: 'confirmation_response',
+                payload: { requestId: (request?.payload as any).requestId, approved: true },
+                timestamp: Date.now(),
+            }));
+            await turn;
+
+            const repairRequest = mockProvider(agent).requests[1].messages.at(-1)!.content;
+            expect(repairRequest).toContain('[Tool Call Error]');
+            expect(repairRequest).toContain('title: is required but missing');
+            expect((ws.getLastMessage('chat_response')?.payload as any).content).toBe('Added "Call mom".');
+        });
+
+        it('should fail a call that is still invalid after the repair attempts without asking', async () => {
+            const invalid: MockTurn = { toolCalls: [{ tool: 'createTask', params: {} }] };
+            const agent = createAgent([invalid, invalid, invalid, { text: 'What should the task be called?' }]);
+
+            await agent.webSocketMessage(ws as any, chat('Add a task'));
+
+            expect(ws.getMessages('confirmation_request')).toHaveLength(0);
+            const result = ws.getLastMessage('tool_execution_result')?.payload as any;
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('createTask.title: is required but missing');
+            expect((ws.getLastMessage('chat_response')?.payload as any).content).toBe('What should the task be called?');
+        });
+
+        it('should add the agenda to the system prompt and reload it after a task change', async () => {
+            const agendaQuery = 'SELECT id, title, due_date, priority FROM tasks WHERE user_id = ? AND completed = 0 AND due_date IS NOT NULL AND due_date < ? ORDER BY due_date ASC LIMIT ?';
+            db._setMockResults(agendaQuery, [{ id: 'task-1', title: 'Pay rent', due_date: Date.now() - 86400000, priority: 'high' }]);
+            const agent = createAgent([{ text: 'Pay your rent.' }, { text: 'Done.' }, { text: 'Call mom too.' }]);
+
+            await agent.webSocketMessage(ws as any, chat('What should I do today?'));
+            expect(mockProvider(agent).requests[0].messages[0].content).toContain('- Pay rent (overdue since');
+
+            // Cached for the next prompt until a task changes
+            db._setMockResults(agendaQuery, [{ id: 'task-2', title: 'Call mom', due_date: Date.now() + 60000, priority: 'medium' }]);
+            await agent.webSocketMessage(ws as any, chat('Thanks'));
+            expect(mockProvider(agent).requests[1].messages[0].content).toContain('Pay rent');
+
+            await agent.webSocketMessage(ws as any, JSON.stringify({ type: 'create_task', payload: { title: 'Call mom' }, timestamp: Date.now() }));
+            await agent.webSocketMessage(ws as any, chat('Anything else?'));
+            expect(mockProvider(agent).requests[2].messages[0].content).toContain('- Call mom (due');
+        });
+
+        it('should include the user persona in the system prompt', async () => {
+            db._setMockResults(
+                'SELECT version, persona, created_at FROM persona_versions WHERE user_id = ? ORDER BY version DESC LIMIT 1',
+                [{ version: 1, persona: JSON.stringify({ language: 'Italian' }), created_at: 1700000000 }]
+            );
+            const agent = createAgent([{ text: 'Ciao!' }]);
+
+            await agent.webSocketMessage(ws as any, chat('Hi'));
+
+            const systemPrompt = mockProvider(agent).requests[0].messages[0].content;
+            expect(systemPrompt).toContain('- Reply in: Italian');
+            expect(systemPrompt).toContain('## Available Tools');
+        });
+
+        describe('intent routing', () => {
+            // Small talk examples and "Hi" embed on one axis, everything else on the other
+            const smalltalkAI = {
+                run: async (_model: string, { text }: { text: string[] }) => ({
+                    data: text.map(t => (/^(hi|hello|hey|good morning|thank|ok|great|what can|who are|lol)/i.test(t) ? [1, 0] : [0, 1])),
+                }),
+            };
+
+            it('should answer small talk without tools', async () => {
+                const agent = createAgent([{ text: 'Hello!' }], { AI: smalltalkAI as any });
+
+                await agent.webSocketMessage(ws as any, chat('Hi'));
+
+                const request = mockProvider(agent).requests[0];
+                expect(request.tools).toBeUndefined();
+                expect(request.messages[0].content).toContain('No tools are needed for this message');
+            });
+
+            it('should keep the parsed dates when retrieval is skipped', async () => {
+                const agent = createAgent([{ text: 'Noted!' }], { AI: smalltalkAI as any, RAG_ENABLED: 'true' });
+
+                await agent.webSocketMessage(ws as any, chat('Hi, my birthday is tomorrow'));
+
+                expect(mockProvider(agent).requests[0].messages[0].content).toContain('🎯');
+            });
+
+            it('should offer every tool when routing is disabled', async () => {
+                const agent = createAgent([{ text: 'Hello!' }], { AI: smalltalkAI as any, INTENT_ROUTING: 'false' });
+
+                await agent.webSocketMessage(ws as any, chat('Hi'));
+
+                expect(mockProvider(agent).requests[0].tools?.length).toBeGreaterThan(5);
+            });
+        });
+
+        describe('rolling summaries', () => {
+            const HISTORY_QUERY = 'SELECT id, role, content, timestamp, metadata FROM conversations WHERE user_id = ? AND thread_id = ? ORDER BY timestamp DESC, rowid DESC LIMIT ?';
+            const SUMMARY_QUERY = 'SELECT * FROM conversation_summaries WHERE thread_id = ? AND user_id = ?';
+
+            // Stored history, newest first like the D1 query returns it
+            function longHistory(count: number) {
+                return Array.from({ length: count }, (_, i) => ({
+                    id: `old-${i}`,
+                    role: i % 2 === 0 ? 'user' : 'assistant',
+                    content: `Message ${i} about the Lisbon trip. ${'Details '.repeat(50)}`,
+                    timestamp: 1700000000 + i,
+                    metadata: null,
+                })).reverse();
+            }
+
+            it('should summarize older messages once the history outgrows the context window', async () => {
+                db._setMockResults(HISTORY_QUERY, longHistory(30));
+                const agent = createAgent(
+                    [{ text: 'Sure.' }, { text: 'The user is planning a trip to Lisbon.' }],
+                    { LLM_CONTEXT_WINDOW: '4000' }
+                );
+
+                await agent.webSocketMessage(ws as any, chat('Book the hotel'));
+
+                expect((ws.getLastMessage('chat_response')?.payload as any).content).toBe('Sure.');
+
+                const provider = mockProvider(agent);
+                expect(provider.requests).toHaveLength(2);
+                const summaryPrompt = provider.requests[1].messages.at(-1)!.content;
+                expect(summaryPrompt).toContain('Message 0 about the Lisbon trip');
+                expect(summaryPrompt).not.toContain('Book the hotel');
+            });
+
+            it('should send the stored summary instead of the messages it covers', async () => {
+                db._setMockResults(HISTORY_QUERY, longHistory(6));
+                db._setMockResults(SUMMARY_QUERY, [{
+                    thread_id: 'thread-1',
+                    user_id: testUserId,
+                    content: 'The user is planning a trip to Lisbon.',
+                    last_message_id: 'old-3',
+                    covered_until: 1700000003000,
+                    message_count: 4,
+                    updated_at: 1700000010,
+                }]);
+                const agent = createAgent([{ text: 'Sure.' }]);
+
+                await agent.webSocketMessage(ws as any, chat('Book the hotel'));
+
+                const contents = mockProvider(agent).requests[0].messages.map(m => m.content);
+                expect(contents).toContain('Summary of the earlier conversation:\nThe user is planning a trip to Lisbon.');
+                expect(contents.some(c => c.startsWith('Message 3 '))).toBe(false);
+                expect(contents.some(c => c.startsWith('Message 4 '))).toBe(true);
+            });
+        });
+
+        describe('branches', () => {
+            const THREAD_QUERY = 'SELECT * FROM threads WHERE id = ? AND user_id = ?';
+            const MESSAGE_QUERY = 'SELECT id, thread_id, parent_id, role, content, timestamp, metadata FROM conversations WHERE id = ? AND user_id = ?';
+
+            // Stored messages; the recursive query returns the path to the requested leaf
+            const branchRows = [
+                { id: 'u1', parent_id: null, role: 'user', content: 'First question', timestamp: 1700000000, metadata: null },
+                { id: 'a1', parent_id: 'u1', role: 'assistant', content: 'First answer', timestamp: 1700000001, metadata: null },
+                { id: 'u2', parent_id: 'a1', role: 'user', content: 'Second question', timestamp: 1700000002, metadata: null },
+            ];
+            let inserts: any[][];
+
+            beforeEach(() => {
+                db._setMockResults(THREAD_QUERY, [{
+                    id: 'thread-1', user_id: testUserId, title: 'Questions', archived: 0,
+                    active_leaf_id: 'a2', created_at: 1700000000, updated_at: 1700000003,
+                }]);
+
+                inserts = [];
+                const prepare = db.prepare;
+                vi.spyOn(db, 'prepare').mockImplementation(((query: string) => {
+                    if (query.includes('WITH RECURSIVE')) {
+                        return { bind: (leafId: string) => ({ all: async () => ({ results: pathTo(leafId) }) }) };
+                    }
+                    const statement = prepare(query);
+                    if (query.startsWith('INSERT INTO conversations')) {
+                        return { bind: (...params: any[]) => { inserts.push(params); return statement.bind(...params); } };
+                    }
+                    return statement;
+                }) as any);
+            });
+
+            function pathTo(leafId: string) {
+                const path: typeof branchRows = [];
+                for (let row = branchRows.find(r => r.id === leafId); row; row = branchRows.find(r => r.id === row!.parent_id)) {
+                    path.unshift(row);
+                }
+                return path;
+            }
+
+            function branchAction(type: string, payload: Record<string, unknown>): string {
+                return JSON.stringify({ type, payload: { threadId: 'thread-1', ...payload }, timestamp: Date.now() });
+            }
+
+            it('should resend an edited message as a sibling of the original', async () => {
+                db._setMockResults(MESSAGE_QUERY, [{ ...branchRows[2], thread_id: 'thread-1' }]);
+                const agent = createAgent([{ text: 'Answer to the edit' }]);
+
+                await agent.webSocketMessage(ws as any, branchAction('edit_message', {
+                    messageId: 'u2', content: 'Edited question', clientMessageId: 'local-1',
+                }));
+
+                const messages = mockProvider(agent).requests[0].messages.slice(1);
+                expect(messages).toEqual([
+                    { role: 'user', content: 'First question' },
+                    { role: 'assistant', content: 'First answer' },
+                    { role: 'user', content: 'Edited question' },
+                ]);
+
+                // The new user message hangs off the same parent as the original
+                expect(inserts[0][3]).toBe('a1');
+                expect(inserts[0][5]).toBe('Edited question');
+
+                const response = ws.getLastMessage('chat_response')?.payload as any;
+                expect(response.clientMessageId).toBe('local-1');
+                expect(response.userMessageId).toBe(inserts[0][0]);
+                expect(ws.getLastMessage('branch_switched')).toBeDefined();
+            });
+
+            it('should regenerate a reply from the user message that prompted it', async () => {
+                db._setMockResults(MESSAGE_QUERY, [{
+                    id: 'a2', thread_id: 'thread-1', parent_id: 'u2', role: 'assistant', content: 'Old answer', timestamp: 1700000003, metadata: null,
+                }]);
+                const agent = createAgent([{ text: 'New answer' }]);
+
+                await agent.webSocketMessage(ws as any, branchAction('regenerate', { messageId: 'a2' }));
+
+                expect(mockProvider(agent).requests[0].messages.at(-1)).toEqual({ role: 'user', content: 'Second question' });
+
+                // Only the new reply is saved, next to the old one
+                expect(inserts).toHaveLength(1);
+                expect(inserts[0].slice(3, 6)).toEqual(['u2', 'assistant', 'New answer']);
+                expect((ws.getLastMessage('chat_response')?.payload as any).content).toBe('New answer');
+            });
+
+            it('should drop a summary of the branch an edit leaves behind', async () => {
+                db._setMockResults(MESSAGE_QUERY, [{ ...branchRows[0], thread_id: 'thread-1' }]);
+                db._setMockResults('SELECT * FROM conversation_summaries WHERE thread_id = ? AND user_id = ?', [{
+                    thread_id: 'thread-1',
+                    user_id: testUserId,
+                    content: 'The user asked two questions.',
+                    last_message_id: 'a1',
+                    covered_until: 1700000001000,
+                    message_count: 2,
+                    updated_at: 1700000010,
+                }]);
+                db._setMockResults('SELECT id, parent_id, role FROM conversations WHERE user_id = ? AND thread_id = ? ORDER BY timestamp ASC, rowid ASC', [
+                    { id: 'u1', parent_id: null, role: 'user' },
+                    { id: 'a1', parent_id: 'u1', role: 'assistant' },
+                    { id: 'u2', parent_id: 'a1', role: 'user' },
+                ]);
+                const agent = createAgent([{ text: 'Answer to the edit' }]);
+
+                // u1 is older than the last summarized message
+                await agent.webSocketMessage(ws as any, branchAction('edit_message', { messageId: 'u1', content: 'Edited first question' }));
+
+                const contents = mockProvider(agent).requests[0].messages.map(m => m.content);
+                expect(contents.some(c => c.includes('The user asked two questions.'))).toBe(false);
+                expect(contents.at(-1)).toBe('Edited first question');
+
+                const queries = vi.mocked(db.prepare).mock.calls.map(([query]) => query);
+                expect(queries).toContain('DELETE FROM conversation_summaries WHERE thread_id = ? AND user_id = ?');
+            });
+
+            it('should reject an edit of a message that is not a user message', async () => {
+                db._setMockResults(MESSAGE_QUERY, [{ ...branchRows[1], thread_id: 'thread-1' }]);
+                const agent = createAgent([]);
+
+                await agent.webSocketMessage(ws as any, branchAction('edit_message', { messageId: 'a1', content: 'Hi' }));
+
+                expect((ws.getLastMessage('error')?.payload as any).message).toBe('Message not found');
+                expect(inserts).toHaveLength(0);
+            });
+
+            it('should switch to the newest branch below the chosen message', async () => {
+                db._setMockResults(MESSAGE_QUERY, [{ ...branchRows[1], thread_id: 'thread-1' }]);
+                db._setMockResults('SELECT id, parent_id, role FROM conversations WHERE user_id = ? AND thread_id = ? ORDER BY timestamp ASC, rowid ASC', [
+                    { id: 'u1', parent_id: null, role: 'user' },
+                    { id: 'a0', parent_id: 'u1', role: 'assistant' },
+                    { id: 'a1', parent_id: 'u1', role: 'assistant' },
+                    { id: 'u2', parent_id: 'a1', role: 'user' },
+                ]);
+                const agent = createAgent([]);
+
+                await agent.webSocketMessage(ws as any, branchAction('switch_branch', { messageId: 'a1' }));
+
+                const payload = ws.getLastMessage('branch_switched')?.payload as any;
+                expect(payload.activeLeafId).toBe('u2');
+                expect(payload.messages.map((m: Message) => m.id)).toEqual(['u1', 'a1', 'u2']);
+                expect(payload.messages[1].branch).toEqual({ siblingIds: ['a0', 'a1'], index: 1 });
+            });
+        });
+    });
 });
@@ -63,6 +63,8 @@ return {
     VECTORIZE: {} as any,
     AGENT: {} as any,
     TASK_WORKFLOW: {} as any,
+    EMBEDDING_BACKFILL_WORKFLOW: {} as any,
+    DOCUMENT_INGEST_WORKFLOW: {} as any,
     LLM_MODEL: '@cf/meta/llama-3.3-70b-instruct-fp8-fast',
     LLM_MAX_TOKENS: '500',
     LLM_TEMPERATURE: '0.7',
@@ -75,21 +77,60 @@ return {
 } as Env;
 }
 
+/**
+ * Rows served by createMockDB, keyed by a fragment of the query. A function
+ * gets the bound params, for mocks whose answer depends on them.
+ */
+export type MockRows = Record<string, any[] | ((params: any[]) => any[])>;
+
 /**
  * Helper: Create mock D1 database
+ *
+ * Every statement run is recorded in `statements`. Queries registered with
+ * _setMockResults are matched exactly; otherwise the first key of `rows` the
+ * query contains is served. `changes` is reported by run() and `error` is
+ * thrown by every statement.
  */
-export function createMockDB() {
+export function createMockDB(rows: MockRows = {}, options: { changes?: number; error?: Error } = {}) {
 const mockResults = new Map<string, any[]>();
+const statements: Array<{ query: string; params: any[] }> = [];
+
+const find = (query: string, params: any[]): any[] => {
+    const exact = mockResults.get(query);
+    if (exact) return exact;
+    const match = Object.entries(rows).find(([fragment]) => query.includes(fragment))?.[1];
+    return typeof match === 'function' ? match(params) : match || [];
+};
+
+const record = (query: string, params: any[]) => {
+    statements.push({ query, params });
+    if (options.error) throw options.error;
+};
 
 return {
+    statements,
     prepare: (query: string) => ({
     bind: (...params: any[]) => ({
-        run: async () => ({ success: true, meta: {} }),
-        all: async () => ({ results: mockResults.get(query) || [] }),
-        first: async () => (mockResults.get(query) || [])[0] || null,
+        query,
+        params,
+        run: async () => {
+            record(query, params);
+            return { success: true, meta: options.changes === undefined ? {} : { changes: options.changes } };
+        },
+        all: async () => {
+            record(query, params);
+            return { results: find(query, params) };
+        },
+        first: async () => {
+            record(query, params);
+            return find(query, params)[0] || null;
+        },
     }),
     }),
-    batch: async (statements: any[]) => statements.map(() => ({ success: true })),
+    batch: async (batch: Array<{ query: string; params: any[] }>) => {
+        batch.forEach(({ query, params }) => record(query, params));
+        return batch.map(() => ({ success: true }));
+    },
     exec: async (query: string) => ({ count: 1, duration: 10 }),
     dump: async () => new ArrayBuffer(0),
 
@@ -101,4 +142,4 @@ return {
     mockResults.clear();
     },
 };
-}
\ No newline at end of file
+}
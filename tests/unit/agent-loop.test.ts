@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { AgentBudget, DEFAULT_AGENT_LOOP_CONFIG, getAgentLoopConfig } from '../../src/agent/agentLoop';
+
+/**
+ * Unit tests for the agent loop budget
+ *
+ * Tests cover:
+ * - Reading limits from env with fallbacks
+ * - Iteration cap
+ * - Token budget cap
+ * - agent_step payloads
+ */
+
+describe('getAgentLoopConfig()', () => {
+  it('should read limits from env', () => {
+    expect(getAgentLoopConfig({ AGENT_MAX_ITERATIONS: '3', AGENT_TOKEN_BUDGET: '8000' }))
+      .toEqual({ maxIterations: 3, tokenBudget: 8000 });
+  });
+
+  it('should fall back to defaults for missing or invalid values', () => {
+    expect(getAgentLoopConfig({})).toEqual(DEFAULT_AGENT_LOOP_CONFIG);
+    expect(getAgentLoopConfig({ AGENT_MAX_ITERATIONS: 'lots', AGENT_TOKEN_BUDGET: '-1' }))
+      .toEqual(DEFAULT_AGENT_LOOP_CONFIG);
+  });
+});
+
+describe('AgentBudget', () => {
+  it('should allow iterations up to the cap', () => {
+    const budget = new AgentBudget({ maxIterations: 2, tokenBudget: 10000 });
+
+    expect(budget.startIteration()).toBeNull();
+    expect(budget.startIteration()).toBeNull();
+    expect(budget.startIteration()).toBe('max_iterations');
+    expect(budget.iteration).toBe(2);
+  });
+
+  it('should stop once the token budget is spent', () => {
+    const budget = new AgentBudget({ maxIterations: 10, tokenBudget: 1000 });
+
+    budget.recordTokens(600);
+    expect(budget.startIteration()).toBeNull();
+
+    budget.recordTokens(500);
+    expect(budget.startIteration()).toBe('token_budget');
+    expect(budget.tokensUsed).toBe(1100);
+  });
+
+  it('should ignore negative token counts', () => {
+    const budget = new AgentBudget({ maxIterations: 1, tokenBudget: 100 });
+    budget.recordTokens(-50);
+    expect(budget.tokensUsed).toBe(0);
+  });
+
+  it('should build agent_step payloads from the current state', () => {
+    const budget = new AgentBudget({ maxIterations: 4, tokenBudget: 5000 });
+    budget.recordTokens(1200);
+    budget.startIteration();
+
+    expect(budget.step('calling_tools', { tools: ['listTasks'] })).toEqual({
+      iteration: 1,
+      maxIterations: 4,
+      status: 'calling_tools',
+      tools: ['listTasks'],
+      tokensUsed: 1200,
+      tokenBudget: 5000,
+    });
+  });
+});
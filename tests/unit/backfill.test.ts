@@ -0,0 +1,205 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createMockDB, createMockEnv } from '../setup';
+import {
+  BACKFILL_BATCH_SIZE,
+  EmbeddingBackfillSchema,
+  EmbeddingBackfillStore,
+  EmbeddingBackfiller,
+  resolveBackfillIndex,
+} from '../../src/agent/backfill';
+import type { EmbeddingBackfill } from '../../src/types/env';
+
+/**
+ * Unit tests for the embedding backfill
+ *
+ * Tests cover:
+ * - Request validation and target index resolution
+ * - Missing mode: embeds rows without vectors, only marks rows that have one
+ * - Phases (messages, knowledge, tasks, summaries), cursor and checkpoints
+ * - Full re-embed into a new index leaves vector_id alone
+ */
+
+function createVectorize(existingIds: string[] = []) {
+  return {
+    getExistingIds: vi.fn(async (ids: string[]) => new Set(ids.filter(id => existingIds.includes(id)))),
+    batchStoreEmbeddings: vi.fn(async () => {}),
+  };
+}
+
+function backfill(overrides: Partial<EmbeddingBackfill> = {}): EmbeddingBackfill {
+  return {
+    id: 'backfill-1',
+    userId: 'user-1',
+    mode: 'missing',
+    status: 'running',
+    phase: 'conversations',
+    cursor: 0,
+    scanned: 0,
+    embedded: 0,
+    createdAt: 1760000000000,
+    updatedAt: 1760000000000,
+    ...overrides,
+  };
+}
+
+const messageRows = [
+  { rowid: 3, id: 'm-1', thread_id: 'thread-1', role: 'user', content: 'Book the dentist', timestamp: 1760000000 },
+  { rowid: 7, id: 'm-2', thread_id: 'thread-1', role: 'assistant', content: 'Done', timestamp: 1760000010 },
+];
+
+describe('EmbeddingBackfillSchema', () => {
+  it('should default to embedding missing rows', () => {
+    expect(EmbeddingBackfillSchema.parse({ userId: 'user-1' })).toEqual({ userId: 'user-1', mode: 'missing' });
+  });
+
+  it('should only fill a new index with a full re-embed', () => {
+    expect(EmbeddingBackfillSchema.safeParse({ userId: 'user-1', indexName: 'agent-memory-v2' }).success).toBe(false);
+    expect(EmbeddingBackfillSchema.safeParse({ userId: 'user-1', mode: 'full', indexName: 'agent-memory-v2' }).success).toBe(true);
+  });
+});
+
+describe('resolveBackfillIndex()', () => {
+  it('should only accept the index bound as VECTORIZE_NEXT', () => {
+    const next = {} as VectorizeIndex;
+    const env = createMockEnv({ VECTORIZE_NEXT: next, VECTORIZE_NEXT_INDEX: 'agent-memory-v2' });
+
+    expect(resolveBackfillIndex(env)).toBe(env.VECTORIZE);
+    expect(resolveBackfillIndex(env, 'agent-memory-v2')).toBe(next);
+    expect(resolveBackfillIndex(env, 'agent-memory-v3')).toBeNull();
+  });
+});
+
+describe('EmbeddingBackfiller', () => {
+  it('should embed messages without vectors and mark every row it handled', async () => {
+    const db = createMockDB({ 'FROM conversations': messageRows });
+    const vectorize = createVectorize(['m-2']);
+    const backfiller = new EmbeddingBackfiller(db as any, vectorize as any, new EmbeddingBackfillStore(db as any));
+
+    const next = await backfiller.runBatch(backfill());
+
+    expect(db.statements[0].query).toContain('vector_id IS NULL');
+    const [userId, vectors, type] = vectorize.batchStoreEmbeddings.mock.calls[0] as any[];
+    expect([userId, type]).toEqual(['user-1', 'conversation']);
+    expect(vectors).toEqual([
+      { id: 'm-1', role: 'user', content: 'Book the dentist', timestamp: 1760000000000, threadId: 'thread-1' },
+    ]);
+
+    const marked = db.statements.filter(({ query }) => query.startsWith('UPDATE conversations SET vector_id'));
+    expect(marked.map(({ params }) => params[1])).toEqual(['m-1', 'm-2']);
+
+    // A short batch finishes the phase
+    expect(next).toMatchObject({ phase: 'knowledge', cursor: 0, scanned: 2, embedded: 1, status: 'running' });
+    expect(db.statements.at(-1)!.params.slice(0, 5)).toEqual(['running', 'knowledge', 0, 2, 1]);
+  });
+
+  it('should continue after the last row of a full batch', async () => {
+    const rows = Array.from({ length: BACKFILL_BATCH_SIZE }, (_, i) => ({ ...messageRows[0], rowid: i + 11, id: `m-${i}` }));
+    const db = createMockDB({ 'FROM conversations': rows });
+    const backfiller = new EmbeddingBackfiller(db as any, createVectorize() as any, new EmbeddingBackfillStore(db as any));
+
+    const next = await backfiller.runBatch(backfill({ cursor: 10 }));
+
+    expect(db.statements[0].params).toEqual(['user-1', 10, BACKFILL_BATCH_SIZE]);
+    expect(next).toMatchObject({ phase: 'conversations', cursor: BACKFILL_BATCH_SIZE + 10 });
+  });
+
+  it('should give knowledge chunks the vector ids and metadata they are stored with', async () => {
+    const db = createMockDB({
+      'FROM knowledge_entries': [{
+        rowid: 4, id: 'entry-1', title: 'manual.md > Wifi', content: 'hunter2',
+        document_id: 'doc-1', chunk_index: 2, heading: 'Wifi', created_at: 1760000000, updated_at: 1760000100,
+      }],
+    });
+    const vectorize = createVectorize();
+    const backfiller = new EmbeddingBackfiller(db as any, vectorize as any, new EmbeddingBackfillStore(db as any));
+
+    const next = await backfiller.runBatch(backfill({ phase: 'knowledge' }));
+
+    const [, vectors, type] = vectorize.batchStoreEmbeddings.mock.calls[0] as any[];
+    expect(type).toBe('knowledge');
+    expect(vectors[0]).toEqual({
+      id: 'knowledge-entry-1',
+      role: 'system',
+      content: 'manual.md > Wifi\nhunter2',
+      timestamp: 1760000100000,
+      metadata: { entryId: 'entry-1', documentId: 'doc-1', chunkIndex: 2, heading: 'Wifi' },
+    });
+    expect(db.statements.find(({ query }) => query.startsWith('UPDATE knowledge_entries SET vector_id'))!.params)
+      .toEqual(['knowledge-entry-1', 'entry-1', 'user-1']);
+    expect(next).toMatchObject({ phase: 'tasks', cursor: 0, status: 'running' });
+  });
+
+  it('should embed tasks that have no vector as task vectors', async () => {
+    const db = createMockDB({
+      'FROM tasks': [
+        { rowid: 1, id: 't-1', title: 'Book checkup', description: 'Call the dentist', completed: 1, created_at: 1760000000 },
+        { rowid: 2, id: 't-2', title: 'Pay rent', description: null, created_at: 1760000001 },
+      ],
+    });
+    const vectorize = createVectorize(['task-t-2']);
+    const backfiller = new EmbeddingBackfiller(db as any, vectorize as any, new EmbeddingBackfillStore(db as any));
+
+    const next = await backfiller.runBatch(backfill({ phase: 'tasks' }));
+
+    const [, vectors, type] = vectorize.batchStoreEmbeddings.mock.calls[0] as any[];
+    expect(type).toBe('task');
+    expect(vectors).toEqual([{
+      id: 'task-t-1',
+      role: 'system',
+      content: 'Book checkup\nCall the dentist',
+      timestamp: 1760000000000,
+      metadata: { taskId: 't-1', completed: true },
+    }]);
+    expect(db.statements.some(({ query }) => query.includes('SET vector_id'))).toBe(false);
+    expect(next).toMatchObject({ phase: 'summaries', cursor: 0, embedded: 1 });
+  });
+
+  it('should embed thread summaries and finish the run after them', async () => {
+    const db = createMockDB({
+      'FROM conversation_summaries': [{ rowid: 3, thread_id: 'thread-1', content: 'Planning a trip to Lisbon.', updated_at: 1760000100 }],
+    });
+    const vectorize = createVectorize();
+    const backfiller = new EmbeddingBackfiller(db as any, vectorize as any, new EmbeddingBackfillStore(db as any));
+
+    const next = await backfiller.runBatch(backfill({ phase: 'summaries' }));
+
+    const [, vectors, type] = vectorize.batchStoreEmbeddings.mock.calls[0] as any[];
+    expect(type).toBe('conversation');
+    expect(vectors).toEqual([{
+      id: 'summary-thread-1',
+      role: 'system',
+      content: 'Summary of the earlier conversation:\nPlanning a trip to Lisbon.',
+      timestamp: 1760000100000,
+      threadId: 'thread-1',
+    }]);
+    expect(next).toMatchObject({ phase: 'done', status: 'complete' });
+  });
+
+  it('should re-embed everything into a new index without touching vector_id', async () => {
+    const db = createMockDB({ 'FROM conversations': messageRows });
+    const vectorize = createVectorize(['m-1', 'm-2']);
+    const backfiller = new EmbeddingBackfiller(db as any, vectorize as any, new EmbeddingBackfillStore(db as any));
+
+    await backfiller.runBatch(backfill({ mode: 'full', indexName: 'agent-memory-v2' }));
+
+    expect(db.statements[0].query).not.toContain('vector_id IS NULL');
+    expect(vectorize.getExistingIds).not.toHaveBeenCalled();
+    expect((vectorize.batchStoreEmbeddings.mock.calls[0] as any[])[1]).toHaveLength(2);
+    expect(db.statements.some(({ query }) => query.includes('SET vector_id'))).toBe(false);
+  });
+});
+
+describe('EmbeddingBackfillStore', () => {
+  it('should resume unfinished runs for the same target only', async () => {
+    const db = createMockDB({
+      'FROM embedding_backfills': [{ id: 'backfill-1', user_id: 'user-1', mode: 'full', index_name: null, status: 'failed', phase: 'knowledge', cursor: 40, scanned: 500, embedded: 480, error: 'AI unavailable', created_at: 1, updated_at: 2 }],
+    });
+    const store = new EmbeddingBackfillStore(db as any);
+
+    const unfinished = await store.findUnfinished({ userId: 'user-1', mode: 'full' });
+    const resumed = await store.resumeBackfill(unfinished!, 'workflow-2');
+
+    expect(db.statements[0].params).toEqual(['user-1', 'full', null]);
+    expect(resumed).toMatchObject({ phase: 'knowledge', cursor: 40, status: 'running', workflowId: 'workflow-2', error: undefined });
+  });
+});
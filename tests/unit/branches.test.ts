@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { createMockDB } from '../setup';
+import {
+  BranchStore,
+  annotateBranches,
+  branchIds,
+  findLeaf,
+  getChildren,
+  isOnBranch,
+  type BranchNode,
+} from '../../src/agent/branches';
+import type { Message } from '../../src/types/env';
+
+/**
+ * Unit tests for conversation branching
+ *
+ * Tests cover:
+ * - Walking the message tree (children, newest leaf, ancestors)
+ * - Sibling info for the alternatives on a branch
+ * - BranchStore loads the active branch, or the newest messages for old threads
+ */
+
+/**
+ * u1 -> a1                  (original reply)
+ *    -> a1b -> u2 -> a2     (regenerated reply, conversation continued)
+ * u1b -> a3                 (edited first message)
+ */
+const nodes: BranchNode[] = [
+  { id: 'u1', parentId: null, role: 'user' },
+  { id: 'a1', parentId: 'u1', role: 'assistant' },
+  { id: 'a1b', parentId: 'u1', role: 'assistant' },
+  { id: 'u2', parentId: 'a1b', role: 'user' },
+  { id: 'a2', parentId: 'u2', role: 'assistant' },
+  { id: 'u1b', parentId: null, role: 'user' },
+  { id: 'a3', parentId: 'u1b', role: 'assistant' },
+];
+
+function message(id: string, role: Message['role'] = 'user'): Message {
+  return { id, role, content: id, timestamp: 0 };
+}
+
+describe('getChildren()', () => {
+  it('should return the children of a message oldest first', () => {
+    expect(getChildren(nodes, 'u1').map(n => n.id)).toEqual(['a1', 'a1b']);
+  });
+
+  it('should treat messages without a parent as the thread roots', () => {
+    expect(getChildren(nodes, null).map(n => n.id)).toEqual(['u1', 'u1b']);
+  });
+});
+
+describe('findLeaf()', () => {
+  it('should follow the newest child down to a leaf', () => {
+    expect(findLeaf(nodes, 'u1')).toBe('a2');
+    expect(findLeaf(nodes, 'u1b')).toBe('a3');
+  });
+
+  it('should return a leaf unchanged', () => {
+    expect(findLeaf(nodes, 'a1')).toBe('a1');
+  });
+});
+
+describe('branchIds()', () => {
+  it('should collect the path from a leaf to its root', () => {
+    expect([...branchIds(nodes, 'a2')].sort()).toEqual(['a1b', 'a2', 'u1', 'u2']);
+    expect([...branchIds(nodes, 'a3')].sort()).toEqual(['a3', 'u1b']);
+  });
+});
+
+describe('isOnBranch()', () => {
+  it('should find the ancestors of a leaf and the leaf itself', () => {
+    expect(isOnBranch(nodes, 'u1', 'a2')).toBe(true);
+    expect(isOnBranch(nodes, 'a1b', 'a2')).toBe(true);
+    expect(isOnBranch(nodes, 'a2', 'a2')).toBe(true);
+  });
+
+  it('should not find messages of other branches', () => {
+    expect(isOnBranch(nodes, 'a1', 'a2')).toBe(false);
+    expect(isOnBranch(nodes, 'a2', 'a3')).toBe(false);
+    expect(isOnBranch(nodes, 'u1', 'unknown')).toBe(false);
+  });
+});
+
+describe('annotateBranches()', () => {
+  it('should mark messages that have alternatives', () => {
+    const path = [message('u1'), message('a1b', 'assistant'), message('u2'), message('a2', 'assistant')];
+
+    const annotated = annotateBranches(path, nodes);
+
+    expect(annotated[0].branch).toEqual({ siblingIds: ['u1', 'u1b'], index: 0 });
+    expect(annotated[1].branch).toEqual({ siblingIds: ['a1', 'a1b'], index: 1 });
+    expect(annotated[2].branch).toBeUndefined();
+    expect(annotated[3].branch).toBeUndefined();
+  });
+
+  it('should move the alternatives of a tool result to the next visible message', () => {
+    const toolNodes: BranchNode[] = [
+      { id: 'u1', parentId: null, role: 'user' },
+      { id: 's1', parentId: 'u1', role: 'system' },
+      { id: 'a1', parentId: 's1', role: 'assistant' },
+      { id: 'a2', parentId: 'u1', role: 'assistant' },
+    ];
+
+    const annotated = annotateBranches([message('u1'), message('s1', 'system'), message('a1', 'assistant')], toolNodes);
+
+    expect(annotated[1].branch).toBeUndefined();
+    expect(annotated[2].branch).toEqual({ siblingIds: ['s1', 'a2'], index: 0 });
+  });
+});
+
+describe('BranchStore', () => {
+  it('should load the branch ending at the active leaf oldest first', async () => {
+    const db = createMockDB({
+      'WITH RECURSIVE': [
+        { id: 'u1', parent_id: null, role: 'user', content: 'Hi', timestamp: 1700000000, metadata: null },
+        { id: 'a1b', parent_id: 'u1', role: 'assistant', content: 'Hello!', timestamp: 1700000005, metadata: null },
+      ],
+    });
+
+    const messages = await new BranchStore(db as any).loadBranch('user-1', 'thread-1', 'a1b', 50);
+
+    expect(messages.map(m => m.id)).toEqual(['u1', 'a1b']);
+    expect(messages[1]).toMatchObject({ parentId: 'u1', threadId: 'thread-1', timestamp: 1700000005000 });
+    expect(db.statements[0].params).toEqual(['a1b', 'user-1', 'thread-1', 'user-1', 50]);
+  });
+
+  it('should load the newest messages of a thread without an active leaf', async () => {
+    const db = createMockDB({
+      'ORDER BY timestamp DESC': [
+        { id: 'm2', role: 'assistant', content: 'Hello!', timestamp: 2, metadata: null },
+        { id: 'm1', role: 'user', content: 'Hi', timestamp: 1, metadata: null },
+      ],
+    });
+
+    const messages = await new BranchStore(db as any).loadBranch('user-1', 'thread-1', undefined, 50);
+
+    expect(messages.map(m => m.id)).toEqual(['m1', 'm2']);
+    expect(db.statements[0].query).not.toContain('WITH RECURSIVE');
+  });
+
+  it('should scope message lookups by user', async () => {
+    const db = createMockDB();
+
+    expect(await new BranchStore(db as any).getMessage('user-1', 'm1')).toBeNull();
+    expect(db.statements[0].query).toContain('user_id = ?');
+    expect(db.statements[0].params).toEqual(['m1', 'user-1']);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { generateToolDocs } from '../../src/mcp/CodeModeAPI';
+import { generateToolDocs, generateToolSchemas } from '../../src/mcp/CodeModeAPI';
 
 /**
  * Unit tests for CodeModeAPI / ToolDocumentation
@@ -59,3 +59,34 @@ describe('ToolDocumentation - generateToolDocs examples', () => {
     }
   });
 });
+
+describe('ToolDocumentation - generateToolSchemas', () => {
+  it('returns a function schema for every tool', () => {
+    const schemas = generateToolSchemas();
+    expect(schemas.map(s => s.function.name)).toContain('createTask');
+    expect(schemas.map(s => s.function.name)).toContain('deleteCalendarEvent');
+    for (const schema of schemas) {
+      expect(schema.type).toBe('function');
+      expect(schema.function.parameters.type).toBe('object');
+    }
+  });
+
+  it('derives properties and required fields from the Zod schema', () => {
+    const createTask = generateToolSchemas().find(s => s.function.name === 'createTask')!;
+    const params = createTask.function.parameters as any;
+    expect(Object.keys(params.properties)).toEqual(['title', 'description', 'dueDate', 'priority']);
+    expect(params.required).toEqual(['title']);
+    expect(params.properties.priority.enum).toEqual(['low', 'medium', 'high']);
+    // Inline schemas only - models don't resolve $ref
+    expect(JSON.stringify(params)).not.toContain('$ref');
+  });
+
+  it('limits schemas and docs to the requested tools', () => {
+    expect(generateToolSchemas(['getWeather']).map(s => s.function.name)).toEqual(['getWeather']);
+    expect(generateToolSchemas([])).toEqual([]);
+
+    const docs = generateToolDocs(['getWeather']);
+    expect(docs).toContain('### getWeather');
+    expect(docs).not.toContain('### createTask');
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ContextPipeline, renderSection, type ContextProvider } from '../../src/agent/context';
+import { createTaskAgendaProvider, getLocalDayBounds } from '../../src/agent/agenda';
+
+/**
+ * Unit tests for proactive prompt context
+ *
+ * Tests cover:
+ * - Sections trimmed to their token budget
+ * - Caching per user until invalidated, expired or a new local day
+ * - Per-user opt-out and failing providers
+ * - The task agenda provider
+ */
+
+function createProvider(lines: string[] = ['- Buy milk'], overrides: Partial<ContextProvider> = {}) {
+  return {
+    id: 'tasks',
+    title: "Today's Tasks",
+    maxTokens: 200,
+    ttlMs: 60000,
+    load: vi.fn(async () => lines),
+    ...overrides,
+  };
+}
+
+const request = { userId: 'user-1', timezone: 'UTC', now: new Date('2026-02-20T09:00:00Z') };
+
+describe('renderSection()', () => {
+  it('should add a heading to the lines', () => {
+    expect(renderSection('Agenda', ['- One', '- Two'], 100)).toBe('## Agenda\n- One\n- Two');
+  });
+
+  it('should leave out nothing-to-say sections', () => {
+    expect(renderSection('Agenda', [], 100)).toBeNull();
+  });
+
+  it('should drop lines over the budget and say how many', () => {
+    const lines = Array.from({ length: 50 }, (_, i) => `- Task number ${i} with a reasonably long title`);
+
+    const section = renderSection('Agenda', lines, 60)!;
+
+    expect(section.split('\n').length).toBeLessThan(10);
+    expect(section).toMatch(/…and \d+ more$/);
+  });
+});
+
+describe('ContextPipeline', () => {
+  let provider: ReturnType<typeof createProvider>;
+  let pipeline: ContextPipeline;
+
+  beforeEach(() => {
+    provider = createProvider();
+    pipeline = new ContextPipeline([provider]);
+  });
+
+  it('should reuse a loaded section until it is invalidated', async () => {
+    expect(await pipeline.build(request, {})).toBe("## Today's Tasks\n- Buy milk");
+    await pipeline.build(request, {});
+    expect(provider.load).toHaveBeenCalledTimes(1);
+
+    pipeline.invalidate('user-1', 'tasks');
+    await pipeline.build(request, {});
+    expect(provider.load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reload after the TTL', async () => {
+    await pipeline.build(request, {});
+    await pipeline.build({ ...request, now: new Date('2026-02-20T09:02:00Z') }, {});
+    expect(provider.load).toHaveBeenCalledTimes(2);
+  });
+
+  it("should reload when the user's local day changes", async () => {
+    provider = createProvider(['- Buy milk'], { ttlMs: 86400000 });
+    pipeline = new ContextPipeline([provider]);
+    const tokyo = { ...request, timezone: 'Asia/Tokyo' };
+
+    await pipeline.build({ ...tokyo, now: new Date('2026-02-20T14:50:00Z') }, {});  // 23:50 local
+    await pipeline.build({ ...tokyo, now: new Date('2026-02-20T14:55:00Z') }, {});
+    expect(provider.load).toHaveBeenCalledTimes(1);
+
+    await pipeline.build({ ...tokyo, now: new Date('2026-02-20T15:10:00Z') }, {});  // 00:10 the next day
+    expect(provider.load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should skip providers the user turned off', async () => {
+    expect(await pipeline.build(request, { tasks: false })).toBe('');
+    expect(provider.load).not.toHaveBeenCalled();
+  });
+
+  it('should skip a failing provider and retry it next time', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const load = vi.fn()
+      .mockRejectedValueOnce(new Error('Calendar API error: 500'))
+      .mockResolvedValue(['- 10:00 AM–11:00 AM: Standup']);
+    const failing = createProvider([], { id: 'calendar', load });
+    pipeline = new ContextPipeline([provider, failing]);
+
+    expect(await pipeline.build(request, {})).toBe("## Today's Tasks\n- Buy milk");
+    expect(await pipeline.build(request, {})).toContain('Standup');
+  });
+});
+
+describe('getLocalDayBounds()', () => {
+  it("should return the user's local midnight to midnight", () => {
+    const { start, end } = getLocalDayBounds('America/New_York', new Date('2026-02-20T03:00:00Z'));
+
+    expect(new Date(start).toISOString()).toBe('2026-02-19T05:00:00.000Z');
+    expect(end - start).toBe(86400000);
+  });
+});
+
+describe('createTaskAgendaProvider()', () => {
+  it('should list overdue and due-today tasks with their ids', async () => {
+    const bind = vi.fn(() => ({
+      all: async () => ({
+        results: [
+          { id: 'task-1', title: 'Pay rent', due_date: Date.parse('2026-02-18T17:00:00Z'), priority: 'high' },
+          { id: 'task-2', title: 'Call mom', due_date: Date.parse('2026-02-20T18:30:00Z'), priority: null },
+        ],
+      }),
+    }));
+    const db = { prepare: vi.fn(() => ({ bind })) };
+
+    const lines = await createTaskAgendaProvider(db as any).load(request);
+
+    expect(lines).toEqual([
+      '- Pay rent (overdue since Feb 18, 5:00 PM, high priority, ID: task-1)',
+      '- Call mom (due 6:30 PM, medium priority, ID: task-2)',
+    ]);
+    expect(db.prepare.mock.calls[0][0]).toContain('completed = 0');
+    expect(bind).toHaveBeenCalledWith('user-1', Date.parse('2026-02-21T00:00:00Z'), 20);
+  });
+});
@@ -10,7 +10,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { DateParser } from '../../src/utils/DateParser';
+import { DateParser, detectDateLanguage } from '../../src/utils/DateParser';
 
 describe('DateParser - timezone-aware relative date parsing', () => {
   // Simulate: user local time is Feb 25 8:41 PM (UTC-4)
@@ -76,3 +76,100 @@ describe('DateParser - timezone-aware relative date parsing', () => {
     expect(results[0].isoDateTime).toBe('2026-02-26T23:00:00Z');
   });
 });
+
+describe('DateParser - multi-language date phrases', () => {
+  // Feb 26 2026 00:41 UTC: early Feb 26 in Europe, mid-morning in Tokyo
+  const FAKE_UTC_NOW = new Date('2026-02-26T00:41:00Z');
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(FAKE_UTC_NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const fixtures = [
+    { language: 'fr', timezone: 'Europe/Paris', text: 'rappelle-moi demain à 15h', phrase: 'demain à 15h', iso: '2026-02-27T14:00:00Z' },
+    { language: 'de', timezone: 'Europe/Berlin', text: 'Erinnere mich morgen um 15 Uhr', phrase: 'morgen um 15 Uhr', iso: '2026-02-27T14:00:00Z' },
+    { language: 'es', timezone: 'Europe/Madrid', text: 'recuérdame mañana a las 15:00', phrase: 'mañana a las 15:00', iso: '2026-02-27T14:00:00Z' },
+    { language: 'it', timezone: 'Europe/Rome', text: 'ricordami domani alle 15', phrase: 'domani alle 15', iso: '2026-02-27T14:00:00Z' },
+    { language: 'pt', timezone: 'Europe/Lisbon', text: 'amanhã às 15:00', phrase: 'amanhã às 15:00', iso: '2026-02-27T15:00:00Z' },
+    { language: 'ja', timezone: 'Asia/Tokyo', text: '明日の15時にリマインドして', phrase: '明日の15時', iso: '2026-02-27T06:00:00Z' },
+  ] as const;
+
+  for (const { language, timezone, text, phrase, iso } of fixtures) {
+    it(`detects ${language} and resolves "${phrase}" in the user's timezone`, () => {
+      const parser = new DateParser();
+      parser.setTimezone(timezone);
+
+      const results = parser.parse(text);
+
+      expect(detectDateLanguage(text)).toBe(language);
+      expect(results[0]).toMatchObject({ phrase, isoDateTime: iso, type: 'relative', language });
+    });
+  }
+
+  it('detects languages from accented words', () => {
+    expect(detectDateLanguage('ci vediamo venerdì alle 15')).toBe('it');
+    expect(detectDateLanguage('lunedì')).toBe('it');
+    expect(detectDateLanguage('amanhã')).toBe('pt');
+    expect(detectDateLanguage('rendez-vous à 15h')).toBe('fr');
+  });
+
+  it('does not read short relative words inside month names', () => {
+    const parser = new DateParser();
+
+    parser.setLanguage('es');
+    expect(parser.parse('el 3 de enero')[0]).toMatchObject({ phrase: '3 de enero', type: 'absolute' });
+    parser.setLanguage('pt');
+    expect(parser.parse('5 de setembro às 10:00')[0]).toMatchObject({ type: 'absolute' });
+    expect(parser.parse('dia 1 de dezembro')[0]).toMatchObject({ type: 'absolute' });
+  });
+
+  it('uses the language preference over detection', () => {
+    const parser = new DateParser();
+    parser.setLanguage('nl');
+
+    // "morgen" is German and Dutch; detection would pick German
+    const results = parser.parse('morgen om 15:00');
+
+    expect(results[0]).toMatchObject({ isoDateTime: '2026-02-27T15:00:00Z', language: 'nl' });
+  });
+
+  it('falls back to English when the preferred language finds nothing', () => {
+    const parser = new DateParser();
+    parser.setLanguage('fr');
+
+    const results = parser.parse('remind me tomorrow at 3 pm');
+
+    expect(results[0]).toMatchObject({ isoDateTime: '2026-02-27T15:00:00Z', language: 'en' });
+  });
+
+  it('ignores unsupported language preferences', () => {
+    const parser = new DateParser();
+    parser.setLanguage('klingon');
+
+    expect(parser.parse('demain à 15h')[0].language).toBe('fr');
+  });
+
+  it('writes the date context in the language of the message', () => {
+    const parser = new DateParser();
+    parser.setTimezone('Europe/Paris');
+
+    const context = parser.buildDateContext(parser.parse('rappelle-moi demain à 15h'));
+
+    expect(context).toContain(`1. L'utilisateur a écrit: "demain à 15h"`);
+    expect(context).toContain('→ UTILISE CETTE DATE: "2026-02-27T14:00:00Z" (vendredi 27 février 2026 à 15:00)');
+    expect(context).not.toContain('USE THIS DATE');
+  });
+
+  it('keeps the date context in English for English messages', () => {
+    const parser = new DateParser();
+
+    const context = parser.buildDateContext(parser.parse('remind me tomorrow at 3 pm'));
+
+    expect(context).toContain('→ USE THIS DATE: "2026-02-27T15:00:00Z"');
+  });
+});
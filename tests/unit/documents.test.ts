@@ -0,0 +1,263 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createMockDB, createMockEnv } from '../setup';
+import {
+  DocumentStore,
+  CHUNK_MAX_TOKENS,
+  chunkDocument,
+  detectDocumentFormat,
+  extractDocumentText,
+  htmlToMarkdown,
+} from '../../src/agent/documents';
+import { VectorizeManager } from '../../src/agent/vectorize';
+import { tokenCounter } from '../../src/agent/tokenizer';
+import type { KnowledgeDocument } from '../../src/types/env';
+
+/**
+ * Unit tests for document ingestion
+ *
+ * Tests cover:
+ * - Format detection and text extraction (HTML, PDF)
+ * - Chunking: heading paths, overlap, size limit, code fences
+ * - Ingestion stores chunks, then embeds them in batches and tracks status
+ * - Ingestion stops when the document is deleted midway
+ * - Documents stuck in processing are failed
+ * - Deleting a document removes its chunks and vectors
+ */
+
+function paragraph(words: number, word = 'lorem'): string {
+  return Array.from({ length: words }, (_, i) => `${word}${i}`).join(' ');
+}
+
+const document: KnowledgeDocument = {
+  id: 'doc-1',
+  userId: 'user-1',
+  filename: 'manual.md',
+  mimeType: 'text/markdown',
+  sizeBytes: 1200,
+  status: 'processing',
+  chunkCount: 0,
+  indexedCount: 0,
+  createdAt: 1760000000000,
+  updatedAt: 1760000000000,
+};
+
+const documentRow = { 'FROM knowledge_documents WHERE id = ?': [{ id: 'doc-1' }] };
+
+describe('detectDocumentFormat()', () => {
+  it('should prefer the extension over a generic MIME type', () => {
+    expect(detectDocumentFormat('notes.md', 'application/octet-stream')).toBe('markdown');
+    expect(detectDocumentFormat('Manual.PDF', '')).toBe('pdf');
+  });
+
+  it('should fall back to the MIME type', () => {
+    expect(detectDocumentFormat('page', 'text/html; charset=utf-8')).toBe('html');
+  });
+
+  it('should reject unsupported files', () => {
+    expect(detectDocumentFormat('photo.jpg', 'image/jpeg')).toBeNull();
+  });
+});
+
+describe('htmlToMarkdown()', () => {
+  it('should keep headings and list items and drop markup', () => {
+    const html = `<html><head><title>x</title><style>p { color: red }</style></head><body>
+      <h1>Pasta <em>recipes</em></h1><p>Boil &amp; salt the water.</p>
+      <ul><li>Spaghetti</li><li>Penne</li></ul><script>alert(1)</script></body></html>`;
+
+    expect(htmlToMarkdown(html)).toBe('# Pasta recipes\n\nBoil & salt the water.\n\n- Spaghetti\n- Penne');
+  });
+});
+
+describe('extractDocumentText()', () => {
+  it('should convert PDFs with Workers AI', async () => {
+    const ai = { toMarkdown: vi.fn(async () => ({ name: 'a.pdf', mimeType: 'application/pdf', format: 'markdown', tokens: 3, data: '# Title' })) };
+
+    expect(await extractDocumentText(ai as any, new Blob(['%PDF']), 'a.pdf', 'pdf')).toBe('# Title');
+  });
+
+  it('should report PDFs that cannot be converted', async () => {
+    const ai = { toMarkdown: vi.fn(async () => ({ name: 'a.pdf', mimeType: 'application/pdf', format: 'error', error: 'encrypted' })) };
+
+    await expect(extractDocumentText(ai as any, new Blob(['%PDF']), 'a.pdf', 'pdf')).rejects.toThrow('Could not read PDF: encrypted');
+  });
+});
+
+describe('chunkDocument()', () => {
+  it('should give each chunk the path of headings above it', () => {
+    const markdown = '# Setup\n\nIntro text.\n\n## Wifi\n\nThe password is on the router.\n\n# Usage\n\nPress start.';
+
+    expect(chunkDocument(markdown, 'markdown')).toEqual([
+      { index: 0, heading: 'Setup', content: 'Intro text.' },
+      { index: 1, heading: 'Setup > Wifi', content: 'The password is on the router.' },
+      { index: 2, heading: 'Usage', content: 'Press start.' },
+    ]);
+  });
+
+  it('should split long sections into overlapping chunks under the limit', () => {
+    const markdown = ['# Long', paragraph(200, 'a'), paragraph(200, 'b'), paragraph(200, 'c')].join('\n\n');
+
+    const chunks = chunkDocument(markdown, 'markdown');
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(tokenCounter.count(chunk.content)).toBeLessThanOrEqual(CHUNK_MAX_TOKENS);
+      expect(chunk.heading).toBe('Long');
+    }
+    // The next chunk starts with the end of the previous one
+    const words = (text: string) => text.split(/\s+/).join(' ');
+    const overlap = chunks[1].content.split('\n\n')[0];
+    expect(tokenCounter.count(overlap)).toBeGreaterThan(20);
+    expect(words(chunks[0].content).endsWith(words(overlap))).toBe(true);
+  });
+
+  it('should not treat comments in code blocks as headings', () => {
+    const chunks = chunkDocument('# Script\n\n```bash\n# install\nnpm install\n```', 'markdown');
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ heading: 'Script', content: '```bash\n# install\nnpm install\n```' });
+  });
+
+  it('should not look for headings in plain text', () => {
+    expect(chunkDocument('# not a heading\n\ntext', 'text')).toEqual([
+      { index: 0, heading: undefined, content: '# not a heading\n\ntext' },
+    ]);
+  });
+});
+
+describe('DocumentStore', () => {
+  const chunkRows = [
+    { id: 'e-1', title: 'manual.md > Setup', content: 'Intro text.', chunk_index: 0, heading: 'Setup', created_at: 1760000000 },
+    { id: 'e-2', title: 'manual.md > Setup > Wifi', content: 'hunter2', chunk_index: 1, heading: 'Setup > Wifi', created_at: 1760000000 },
+  ];
+
+  it('should store chunks with provenance', async () => {
+    const db = createMockDB(documentRow);
+    const store = new DocumentStore(db as any, {} as any);
+
+    expect(await store.storeChunks(document, 'markdown', async () => '# Setup\n\nIntro text.\n\n## Wifi\n\nhunter2')).toBe(true);
+
+    const inserts = db.statements.filter(({ query }) => query.startsWith('INSERT INTO knowledge_entries'));
+    expect(inserts.map(({ params }) => params.slice(2, 7))).toEqual([
+      ['manual.md > Setup', 'Intro text.', 'doc-1', 0, 'Setup'],
+      ['manual.md > Setup > Wifi', 'hunter2', 'doc-1', 1, 'Setup > Wifi'],
+    ]);
+    expect(db.statements.at(-1)!.params.slice(0, 1)).toEqual([2]);
+  });
+
+  it('should fail documents without text', async () => {
+    const db = createMockDB(documentRow);
+    const store = new DocumentStore(db as any, {} as any);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await store.storeChunks(document, 'text', async () => '  \n ')).toBe(false);
+    expect(db.statements.at(-1)!.params.slice(0, 2)).toEqual(['failed', 'No text found in the document']);
+  });
+
+  it('should embed the next batch of chunks and record their vectors', async () => {
+    const db = createMockDB({ ...documentRow, 'vector_id IS NULL': chunkRows });
+    const vectorize = { batchStoreEmbeddings: vi.fn(async () => {}), deleteEmbeddings: vi.fn() };
+    const store = new DocumentStore(db as any, vectorize as any);
+
+    expect(await store.indexNextBatch('user-1', 'doc-1')).toBe(false);
+
+    const [userId, vectors, type] = vectorize.batchStoreEmbeddings.mock.calls[0] as any[];
+    expect(userId).toBe('user-1');
+    expect(type).toBe('knowledge');
+    expect(vectors[1]).toMatchObject({
+      id: 'knowledge-e-2',
+      content: 'manual.md > Setup > Wifi\nhunter2',
+      metadata: { entryId: 'e-2', documentId: 'doc-1', chunkIndex: 1, heading: 'Setup > Wifi' },
+    });
+    expect(db.statements.filter(({ query }) => query.includes('SET vector_id')).map(({ params }) => params.slice(0, 2))).toEqual([
+      ['knowledge-e-1', 'e-1'],
+      ['knowledge-e-2', 'e-2'],
+    ]);
+    expect(db.statements.find(({ query }) => query.includes('indexed_count = indexed_count + ?'))!.params[0]).toBe(2);
+    expect(vectorize.deleteEmbeddings).not.toHaveBeenCalled();
+  });
+
+  it('should mark the document ready once every chunk is embedded', async () => {
+    const db = createMockDB(documentRow);
+    const vectorize = { batchStoreEmbeddings: vi.fn() };
+
+    expect(await new DocumentStore(db as any, vectorize as any).indexNextBatch('user-1', 'doc-1')).toBe(true);
+    expect(vectorize.batchStoreEmbeddings).not.toHaveBeenCalled();
+    expect(db.statements.at(-1)!.params.slice(0, 2)).toEqual(['ready', null]);
+  });
+
+  it('should leave embedding failures to the workflow to retry', async () => {
+    const db = createMockDB({ ...documentRow, 'vector_id IS NULL': chunkRows });
+    const vectorize = { batchStoreEmbeddings: vi.fn(async () => { throw new Error('AI unavailable'); }) };
+
+    await expect(new DocumentStore(db as any, vectorize as any).indexNextBatch('user-1', 'doc-1')).rejects.toThrow('AI unavailable');
+    expect(db.statements.some(({ query }) => query.includes('SET vector_id'))).toBe(false);
+  });
+
+  it('should stop and drop the batch when the document is deleted midway', async () => {
+    const rows: Record<string, any[]> = { ...documentRow, 'vector_id IS NULL': chunkRows };
+    const db = createMockDB(rows);
+    const vectorize = {
+      batchStoreEmbeddings: vi.fn(async () => { delete rows['FROM knowledge_documents WHERE id = ?']; }),
+      deleteEmbeddings: vi.fn(async () => {}),
+    };
+
+    expect(await new DocumentStore(db as any, vectorize as any).indexNextBatch('user-1', 'doc-1')).toBe(true);
+    expect(vectorize.deleteEmbeddings).toHaveBeenCalledWith(['knowledge-e-1', 'knowledge-e-2']);
+    expect(db.statements.at(-1)!.query).toBe('DELETE FROM knowledge_entries WHERE document_id = ? AND user_id = ?');
+  });
+
+  it('should not store chunks of a document deleted during extraction', async () => {
+    const db = createMockDB();
+    const store = new DocumentStore(db as any, {} as any);
+
+    expect(await store.storeChunks(document, 'text', async () => 'Some text')).toBe(false);
+    expect(db.statements.some(({ query }) => query.startsWith('INSERT'))).toBe(false);
+  });
+
+  it('should fail documents that stopped making progress', async () => {
+    const db = createMockDB({}, { changes: 2 });
+
+    expect(await new DocumentStore(db as any, {} as any).failStaleDocuments(3600)).toBe(2);
+    const [{ query, params }] = db.statements;
+    expect(query).toContain("WHERE status = 'processing' AND updated_at < ?");
+    expect(params[2]).toBe(params[1] - 3600);
+  });
+
+  it('should delete every chunk and vector of a document', async () => {
+    const db = createMockDB({
+      'FROM knowledge_documents WHERE id = ?': [{ id: 'doc-1', user_id: 'user-1', created_at: 1, updated_at: 1 }],
+      'SELECT vector_id': [{ vector_id: 'knowledge-a' }, { vector_id: 'knowledge-b' }],
+    });
+    const vectorize = { deleteEmbeddings: vi.fn(async () => {}) };
+    const store = new DocumentStore(db as any, vectorize as any);
+
+    expect(await store.deleteDocument('user-1', 'doc-1')).toBe(true);
+    expect(vectorize.deleteEmbeddings).toHaveBeenCalledWith(['knowledge-a', 'knowledge-b']);
+    expect(db.statements.slice(-2).map(({ query }) => query)).toEqual([
+      'DELETE FROM knowledge_entries WHERE document_id = ? AND user_id = ?',
+      'DELETE FROM knowledge_documents WHERE id = ? AND user_id = ?',
+    ]);
+  });
+});
+
+describe('VectorizeManager.batchStoreEmbeddings()', () => {
+  it('should embed in batches and keep chunk metadata on the vectors', async () => {
+    const run = vi.fn(async (_model: string, { text }: { text: string[] }) => ({ data: text.map(() => [0.1, 0.2]) }));
+    const upsert = vi.fn(async () => ({}));
+    const manager = new VectorizeManager(createMockEnv({ AI: { run } as any, VECTORIZE: { upsert } as any }));
+    const messages = Array.from({ length: 60 }, (_, i) => ({
+      id: `knowledge-${i}`,
+      role: 'system' as const,
+      content: `chunk ${i}`,
+      timestamp: 1,
+      metadata: { documentId: 'doc-1', chunkIndex: i, ignored: { nested: true } },
+    }));
+
+    await manager.batchStoreEmbeddings('user-1', messages, 'knowledge');
+
+    expect(run).toHaveBeenCalledTimes(2);
+    const vectors = (upsert.mock.calls[0] as any[])[0];
+    expect(vectors[59].metadata).toMatchObject({ documentId: 'doc-1', chunkIndex: 59, type: 'knowledge', userId: 'user-1' });
+    expect(vectors[59].metadata).not.toHaveProperty('ignored');
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  CircuitBreaker,
+  DEFAULT_FALLBACK_CONFIG,
+  buildModelChain,
+  getFallbackConfig,
+  getRetryDelay,
+  isRateLimitError,
+  modelKey,
+  parseModelTarget,
+  runWithFallback,
+  type CircuitState,
+} from '../../src/agent/fallback';
+import { TurnCancelledError } from '../../src/agent/cancellation';
+
+/**
+ * Unit tests for the model fallback chain
+ *
+ * Tests cover:
+ * - Parsing the chain from env
+ * - Retrying rate-limited calls with backoff
+ * - Falling back to the next model on other errors
+ * - Circuit breaker state persisted in storage
+ */
+
+/**
+ * Helper: in-memory stand-in for Durable Object storage
+ */
+function createStorage(initial: Record<string, unknown> = {}) {
+  const data = new Map<string, unknown>(Object.entries(initial));
+  return {
+    data,
+    get: vi.fn(async <T>(key: string) => data.get(key) as T | undefined),
+    put: vi.fn(async <T>(key: string, value: T) => { data.set(key, structuredClone(value)); }),
+  };
+}
+
+const primary = { provider: 'workers-ai', model: '@cf/meta/llama-3.3-70b-instruct-fp8-fast' };
+const small = { provider: 'workers-ai', model: '@cf/meta/llama-3.1-8b-instruct-fast' };
+const config = { maxRetries: 2, retryBaseMs: 10 };
+
+describe('getFallbackConfig()', () => {
+  it('should parse the chain and fall back to defaults', () => {
+    const parsed = getFallbackConfig({
+      LLM_FALLBACK_MODELS: '@cf/meta/llama-3.1-8b-instruct-fast, openai:gpt-4o-mini',
+      LLM_MAX_RETRIES: 'lots',
+    });
+
+    expect(parsed.fallbacks).toEqual([
+      { model: '@cf/meta/llama-3.1-8b-instruct-fast' },
+      { provider: 'openai', model: 'gpt-4o-mini' },
+    ]);
+    expect(parsed.maxRetries).toBe(DEFAULT_FALLBACK_CONFIG.maxRetries);
+    expect(parsed.cooldownMs).toBe(DEFAULT_FALLBACK_CONFIG.cooldownMs);
+  });
+
+  it('should read retries and the cooldown', () => {
+    const parsed = getFallbackConfig({ LLM_MAX_RETRIES: '0', LLM_CIRCUIT_COOLDOWN_SECONDS: '30' });
+
+    expect(parsed.fallbacks).toEqual([]);
+    expect(parsed.maxRetries).toBe(0);
+    expect(parsed.cooldownMs).toBe(30000);
+  });
+});
+
+describe('parseModelTarget()', () => {
+  it('should only treat known providers as a prefix', () => {
+    expect(parseModelTarget('mock:backup')).toEqual({ provider: 'mock', model: 'backup' });
+    expect(parseModelTarget('llama3.1:8b')).toEqual({ model: 'llama3.1:8b' });
+  });
+});
+
+describe('buildModelChain()', () => {
+  it('should put the primary first, inherit its provider and drop duplicates', () => {
+    const chain = buildModelChain(primary, [{ model: small.model }, { model: primary.model }]);
+
+    expect(chain).toEqual([primary, small]);
+  });
+});
+
+describe('isRateLimitError()', () => {
+  it('should recognise 429s and capacity errors', () => {
+    expect(isRateLimitError(new Error('OpenAI-compatible API error 429: slow down'))).toBe(true);
+    expect(isRateLimitError(new Error('3040: Capacity temporarily exceeded, please try again.'))).toBe(true);
+    expect(isRateLimitError(new Error('LLM timeout after 90s'))).toBe(false);
+  });
+});
+
+describe('getRetryDelay()', () => {
+  it('should double the delay on each attempt', () => {
+    expect(getRetryDelay(0, 500)).toBeGreaterThanOrEqual(500);
+    expect(getRetryDelay(0, 500)).toBeLessThanOrEqual(600);
+    expect(getRetryDelay(2, 500)).toBeGreaterThanOrEqual(2000);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('should open after repeated failures and close after the cooldown', async () => {
+    const breaker = new CircuitBreaker(createStorage(), { failureThreshold: 2, cooldownMs: 1000 });
+    const key = modelKey(primary);
+
+    await breaker.recordFailure(key, 0);
+    expect(await breaker.isOpen(key, 1)).toBe(false);
+
+    await breaker.recordFailure(key, 10);
+    expect(await breaker.isOpen(key, 500)).toBe(true);
+    expect(await breaker.isOpen(key, 1010)).toBe(false);
+  });
+
+  it('should reset the failure count on success', async () => {
+    const breaker = new CircuitBreaker(createStorage(), { failureThreshold: 2, cooldownMs: 1000 });
+    const key = modelKey(primary);
+
+    await breaker.recordFailure(key, 0);
+    await breaker.recordSuccess(key);
+    await breaker.recordFailure(key, 0);
+
+    expect(await breaker.isOpen(key, 1)).toBe(false);
+  });
+
+  it('should keep its state in storage', async () => {
+    const storage = createStorage();
+    const key = modelKey(primary);
+    await new CircuitBreaker(storage, { failureThreshold: 1, cooldownMs: 1000 }).recordFailure(key, Date.now());
+
+    // A new instance (e.g. after hibernation) sees the open circuit
+    const restored = new CircuitBreaker(storage, { failureThreshold: 1, cooldownMs: 1000 });
+    expect(await restored.isOpen(key)).toBe(true);
+  });
+});
+
+describe('runWithFallback()', () => {
+  let storage: ReturnType<typeof createStorage>;
+  let breaker: CircuitBreaker;
+  const sleep = vi.fn(async () => {});
+
+  beforeEach(() => {
+    storage = createStorage();
+    breaker = new CircuitBreaker(storage, { failureThreshold: 3, cooldownMs: 60000 });
+    sleep.mockClear();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should answer with the primary model when it works', async () => {
+    const call = vi.fn(async () => 'ok');
+
+    const outcome = await runWithFallback([primary, small], call, { breaker, config, sleep });
+
+    expect(outcome).toEqual({ result: 'ok', target: primary, fallback: false });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry a rate-limited model with backoff before falling back', async () => {
+    const call = vi.fn()
+      .mockRejectedValueOnce(new Error('429 Too Many Requests'))
+      .mockResolvedValueOnce('ok');
+
+    const outcome = await runWithFallback([primary, small], call, { breaker, config, sleep });
+
+    expect(outcome.target).toBe(primary);
+    expect(sleep).toHaveBeenCalledTimes(1);
+  });
+
+  it('should move to the next model once retries run out', async () => {
+    const call = vi.fn(async (target: typeof primary) => {
+      if (target === primary) throw new Error('429 Too Many Requests');
+      return 'from small';
+    });
+
+    const outcome = await runWithFallback([primary, small], call, { breaker, config, sleep });
+
+    expect(outcome).toEqual({ result: 'from small', target: small, fallback: true });
+    expect(call).toHaveBeenCalledTimes(config.maxRetries + 2);
+  });
+
+  it('should fall back immediately on other errors', async () => {
+    const call = vi.fn(async (target: typeof primary) => {
+      if (target === primary) throw new Error('LLM timeout after 90s');
+      return 'from small';
+    });
+
+    await runWithFallback([primary, small], call, { breaker, config, sleep });
+
+    expect(sleep).not.toHaveBeenCalled();
+    expect((storage.data.get('llmCircuits') as Record<string, CircuitState>)[modelKey(primary)].failures).toBe(1);
+  });
+
+  it('should skip a model whose circuit is open', async () => {
+    storage.data.set('llmCircuits', { [modelKey(primary)]: { failures: 3, openUntil: Date.now() + 60000 } });
+    const call = vi.fn(async () => 'ok');
+
+    const outcome = await runWithFallback([primary, small], call, { breaker, config, sleep });
+
+    expect(outcome.target).toBe(small);
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw the last error when every model fails', async () => {
+    const call = vi.fn(async () => { throw new Error('AI error 500'); });
+
+    await expect(runWithFallback([primary, small], call, { breaker, config, sleep })).rejects.toThrow('AI error 500');
+  });
+
+  it('should not retry or fall back when the turn is cancelled', async () => {
+    const call = vi.fn(async () => { throw new TurnCancelledError('partial'); });
+
+    await expect(runWithFallback([primary, small], call, { breaker, config, sleep })).rejects.toBeInstanceOf(TurnCancelledError);
+    expect(call).toHaveBeenCalledTimes(1);
+    expect(storage.put).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createMockDB } from '../setup';
+import {
+  KnowledgeStore,
+  KnowledgeEntrySchema,
+  knowledgeEmbeddingId,
+  knowledgeText,
+} from '../../src/agent/knowledge';
+
+/**
+ * Unit tests for the knowledge base
+ *
+ * Tests cover:
+ * - Entry validation
+ * - vector_id only set once the entry's vector is stored
+ * - Edits re-embed the entry, deletes remove its vector
+ * - Queries are always scoped by user
+ */
+
+function createVectorize(stored = true) {
+  return {
+    storeKnowledge: vi.fn(async () => stored),
+    deleteEmbeddings: vi.fn(async () => {}),
+  };
+}
+
+const entryRow = {
+  id: 'entry-1',
+  user_id: 'user-1',
+  title: 'Wifi',
+  content: 'The office wifi password is hunter2',
+  vector_id: 'knowledge-entry-1',
+  created_at: 1760000000,
+  updated_at: 1760000100,
+};
+
+describe('KnowledgeEntrySchema', () => {
+  it('should require content', () => {
+    expect(KnowledgeEntrySchema.safeParse({ title: 'Empty', content: '   ' }).success).toBe(false);
+  });
+
+  it('should reject unknown fields', () => {
+    expect(KnowledgeEntrySchema.safeParse({ content: 'Note', vector_id: 'x' }).success).toBe(false);
+  });
+});
+
+describe('knowledgeText()', () => {
+  it('should put the title above the content', () => {
+    expect(knowledgeText({ title: 'Wifi', content: 'hunter2' })).toBe('Wifi\nhunter2');
+    expect(knowledgeText({ content: 'hunter2' })).toBe('hunter2');
+  });
+});
+
+describe('KnowledgeStore', () => {
+  it('should map rows to entries', async () => {
+    const db = createMockDB({ 'WHERE id = ?': [entryRow] });
+    const store = new KnowledgeStore(db as any, createVectorize() as any);
+
+    expect(await store.getEntry('user-1', 'entry-1')).toEqual({
+      id: 'entry-1',
+      userId: 'user-1',
+      title: 'Wifi',
+      content: 'The office wifi password is hunter2',
+      indexed: true,
+      createdAt: 1760000000000,
+      updatedAt: 1760000100000,
+    });
+    expect(db.statements[0].params).toEqual(['entry-1', 'user-1']);
+  });
+
+  it('should set vector_id once the new entry is embedded', async () => {
+    const db = createMockDB();
+    const vectorize = createVectorize();
+    const store = new KnowledgeStore(db as any, vectorize as any);
+
+    const entry = await store.createEntry('user-1', { title: 'Wifi', content: 'hunter2' });
+
+    expect(entry.indexed).toBe(true);
+    expect(vectorize.storeKnowledge).toHaveBeenCalledWith(
+      'user-1', knowledgeEmbeddingId(entry.id), 'Wifi\nhunter2', { entryId: entry.id }
+    );
+    expect(db.statements[0].query).toContain('INSERT INTO knowledge_entries');
+    expect(db.statements[1]).toEqual({
+      query: 'UPDATE knowledge_entries SET vector_id = ? WHERE id = ? AND user_id = ?',
+      params: [knowledgeEmbeddingId(entry.id), entry.id, 'user-1'],
+    });
+  });
+
+  it('should leave vector_id unset when the embedding is not stored', async () => {
+    const db = createMockDB();
+    const store = new KnowledgeStore(db as any, createVectorize(false) as any);
+
+    const entry = await store.createEntry('user-1', { content: 'hunter2' });
+
+    expect(entry.indexed).toBe(false);
+    expect(db.statements).toHaveLength(1);
+  });
+
+  it('should clear vector_id on edit and re-embed the new text', async () => {
+    const db = createMockDB({ 'WHERE id = ?': [entryRow] });
+    const vectorize = createVectorize();
+    const store = new KnowledgeStore(db as any, vectorize as any);
+
+    const entry = await store.updateEntry('user-1', 'entry-1', { content: 'Now it is swordfish' });
+
+    expect(entry).toMatchObject({ title: undefined, content: 'Now it is swordfish', indexed: true });
+    expect(db.statements[1].query).toContain('vector_id = NULL');
+    expect(vectorize.storeKnowledge).toHaveBeenCalledWith(
+      'user-1', 'knowledge-entry-1', 'Now it is swordfish', { entryId: 'entry-1' }
+    );
+    expect(vectorize.deleteEmbeddings).not.toHaveBeenCalled();
+  });
+
+  it('should drop the old vector when an edit cannot be embedded', async () => {
+    const db = createMockDB({ 'WHERE id = ?': [entryRow] });
+    const vectorize = createVectorize(false);
+    const store = new KnowledgeStore(db as any, vectorize as any);
+
+    const entry = await store.updateEntry('user-1', 'entry-1', { content: 'Now it is swordfish' });
+
+    expect(entry?.indexed).toBe(false);
+    expect(vectorize.deleteEmbeddings).toHaveBeenCalledWith(['knowledge-entry-1']);
+  });
+
+  it("should not touch another user's entry", async () => {
+    const db = createMockDB();
+    const vectorize = createVectorize();
+    const store = new KnowledgeStore(db as any, vectorize as any);
+
+    expect(await store.updateEntry('user-2', 'entry-1', { content: 'Mine now' })).toBeNull();
+    expect(await store.deleteEntry('user-2', 'entry-1')).toBe(false);
+    expect(db.statements.every(({ query }) => query.startsWith('SELECT'))).toBe(true);
+    expect(vectorize.storeKnowledge).not.toHaveBeenCalled();
+  });
+
+  it('should delete the vector along with the entry', async () => {
+    const db = createMockDB({ 'WHERE id = ?': [entryRow] });
+    const vectorize = createVectorize();
+    const store = new KnowledgeStore(db as any, vectorize as any);
+
+    expect(await store.deleteEntry('user-1', 'entry-1')).toBe(true);
+    expect(vectorize.deleteEmbeddings).toHaveBeenCalledWith(['knowledge-entry-1']);
+    expect(db.statements[1]).toEqual({
+      query: 'DELETE FROM knowledge_entries WHERE id = ? AND user_id = ?',
+      params: ['entry-1', 'user-1'],
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createMockDB, createMockEnv } from '../setup';
+import {
+  ModelPreferencesSchema,
+  ModelPreferencesUpdateSchema,
+  PreferencesStore,
+  checkModelChoice,
+  getAllowedModels,
+  getDefaultGenerationSettings,
+  mergeModelPreferences,
+  resolveGenerationSettings,
+} from '../../src/agent/preferences';
+
+/**
+ * Unit tests for per-user model preferences
+ *
+ * Tests cover:
+ * - Zod validation of the preferences payload
+ * - Merging updates into the stored preferences
+ * - Only allowed providers and models can be picked
+ * - User preferences taking precedence over env defaults
+ * - PreferencesStore keeping unrelated preference keys
+ */
+
+/**
+ * Helper: D1 mock holding a single users.preferences value, the last one saved
+ */
+function createPreferencesDB(initial: string | null) {
+  const db = createMockDB({
+    'SELECT preferences': () => [{ preferences: updates().at(-1)?.params[0] ?? initial }],
+  });
+  const updates = () => db.statements.filter(({ query }) => query.startsWith('UPDATE users SET preferences'));
+  return { ...db, updates };
+}
+
+describe('ModelPreferencesSchema', () => {
+  it('accepts a partial set of preferences', () => {
+    const result = ModelPreferencesSchema.safeParse({ maxTokens: 1500, ragEnabled: false });
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects out-of-range values and unknown keys', () => {
+    expect(ModelPreferencesSchema.safeParse({ maxTokens: 10 }).success).toBe(false);
+    expect(ModelPreferencesSchema.safeParse({ temperature: 3 }).success).toBe(false);
+    expect(ModelPreferencesSchema.safeParse({ ragTopK: 2.5 }).success).toBe(false);
+    expect(ModelPreferencesSchema.safeParse({ provider: 'anthropic' }).success).toBe(false);
+    expect(ModelPreferencesSchema.safeParse({ systemPrompt: 'hi' }).success).toBe(false);
+  });
+});
+
+describe('mergeModelPreferences()', () => {
+  it('keeps omitted fields and resets null ones', () => {
+    const update = ModelPreferencesUpdateSchema.parse({ temperature: 0.2, language: null });
+    const merged = mergeModelPreferences({ maxTokens: 800, language: 'fr', agendaTasks: false }, update);
+    expect(merged).toEqual({ maxTokens: 800, agendaTasks: false, temperature: 0.2 });
+  });
+
+  it('validates updates like preferences', () => {
+    expect(ModelPreferencesUpdateSchema.safeParse({ maxTokens: 10 }).success).toBe(false);
+    expect(ModelPreferencesUpdateSchema.safeParse({ systemPrompt: null }).success).toBe(false);
+  });
+});
+
+describe('Allowed models', () => {
+  const env = createMockEnv({
+    ENVIRONMENT: 'production',
+    LLM_PROVIDER: 'workers-ai',
+    LLM_MODEL: '@cf/env/model',
+    LLM_FALLBACK_MODELS: '@cf/env/fallback',
+    LLM_ALLOWED_MODELS: '@cf/extra/model, openai:gpt-4o-mini, mock:scripted',
+  });
+
+  it("allows the env's models plus LLM_ALLOWED_MODELS", () => {
+    expect(getAllowedModels(env)).toEqual([
+      { provider: 'workers-ai', model: '@cf/env/model' },
+      { provider: 'workers-ai', model: '@cf/env/fallback' },
+      { provider: 'workers-ai', model: '@cf/extra/model' },
+      { provider: 'openai', model: 'gpt-4o-mini' },
+    ]);
+  });
+
+  it('rejects models and providers that are not allowed', () => {
+    expect(checkModelChoice(env, { maxTokens: 800 })).toBeNull();
+    expect(checkModelChoice(env, { model: '@cf/extra/model' })).toBeNull();
+    expect(checkModelChoice(env, { provider: 'openai', model: 'gpt-4o-mini' })).toBeNull();
+    expect(checkModelChoice(env, { model: '@cf/expensive/model' })).toContain('not available');
+    expect(checkModelChoice(env, { provider: 'openai', model: 'gpt-4o' })).toContain('not available');
+  });
+
+  it('only offers the mock provider in development and tests', () => {
+    expect(checkModelChoice(env, { provider: 'mock' })).toContain('only available in development');
+    expect(checkModelChoice({ ...env, ENVIRONMENT: 'development' }, { provider: 'mock' })).toBeNull();
+  });
+});
+
+describe('resolveGenerationSettings()', () => {
+  const env = createMockEnv({ LLM_MODEL: '@cf/env/model', LLM_MAX_TOKENS: '500', RAG_TOP_K: '3' });
+
+  it('uses env values when the user has no preferences', () => {
+    expect(resolveGenerationSettings(env)).toEqual(getDefaultGenerationSettings(env));
+    expect(getDefaultGenerationSettings(env)).toMatchObject({
+      provider: 'workers-ai',
+      model: '@cf/env/model',
+      maxTokens: 500,
+      temperature: 0.7,
+      ragEnabled: true,
+      ragTopK: 3,
+    });
+  });
+
+  it('prefers user values over env', () => {
+    const settings = resolveGenerationSettings(env, { model: '@cf/user/model', maxTokens: 2000, ragEnabled: false });
+    expect(settings).toMatchObject({ model: '@cf/user/model', maxTokens: 2000, ragEnabled: false, ragTopK: 3 });
+  });
+
+  it('does not carry the Workers AI model over to another provider', () => {
+    const settings = resolveGenerationSettings(
+      createMockEnv({ LLM_MODEL: '@cf/env/model', OPENAI_MODEL: 'gpt-4o-mini' }),
+      { provider: 'openai' }
+    );
+    expect(settings).toMatchObject({ provider: 'openai', model: 'gpt-4o-mini' });
+  });
+
+  it('lets the user opt out of agenda context that AGENDA_CONTEXT enables', () => {
+    const settings = resolveGenerationSettings(env, { agendaCalendar: false });
+    expect(settings).toMatchObject({ agendaTasks: true, agendaCalendar: false });
+    expect(getDefaultGenerationSettings(createMockEnv({ AGENDA_CONTEXT: 'false' })).agendaTasks).toBe(false);
+  });
+
+  it('only accepts date languages the parser supports', () => {
+    expect(resolveGenerationSettings(env, { language: 'de' }).language).toBe('de');
+    expect(getDefaultGenerationSettings(env).language).toBeUndefined();
+    expect(ModelPreferencesSchema.safeParse({ language: 'tlh' }).success).toBe(false);
+  });
+});
+
+describe('PreferencesStore', () => {
+  it('returns empty preferences when none are stored', async () => {
+    const store = new PreferencesStore(createPreferencesDB(null) as any);
+    expect(await store.getModelPreferences('user-1')).toEqual({});
+  });
+
+  it('drops stored preferences that no longer validate', async () => {
+    const store = new PreferencesStore(createPreferencesDB(JSON.stringify({ llm: { maxTokens: 99999 } })) as any);
+    expect(await store.getModelPreferences('user-1')).toEqual({});
+  });
+
+  it('keeps unrelated preference keys when saving', async () => {
+    const db = createPreferencesDB(JSON.stringify({ theme: 'dark', llm: { maxTokens: 800 } }));
+    const store = new PreferencesStore(db as any);
+
+    await store.setModelPreferences('user-1', { temperature: 0.2 });
+
+    const [update] = db.updates();
+    expect(JSON.parse(update.params[0])).toEqual({ theme: 'dark', llm: { temperature: 0.2 } });
+    expect(update.params[2]).toBe('user-1');
+    expect(await store.getModelPreferences('user-1')).toEqual({ temperature: 0.2 });
+  });
+
+  it('falls back to the env model when the stored one is no longer allowed', async () => {
+    const store = new PreferencesStore(createPreferencesDB(JSON.stringify({ llm: { model: '@cf/removed/model', ragTopK: 6 } })) as any);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const settings = await store.getGenerationSettings('user-1', createMockEnv({ LLM_MODEL: '@cf/env/model' }));
+    expect(settings).toMatchObject({ model: '@cf/env/model', ragTopK: 6 });
+  });
+
+  it('resolves generation settings for a user', async () => {
+    const store = new PreferencesStore(createPreferencesDB(JSON.stringify({ llm: { ragTopK: 6 } })) as any);
+    const settings = await store.getGenerationSettings('user-1', createMockEnv());
+    expect(settings.ragTopK).toBe(6);
+    expect(settings.maxTokens).toBe(500);
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createMockEnv } from '../setup';
+import {
+  createLLMProvider,
+  MockLLMProvider,
+  OpenAICompatibleProvider,
+  WorkersAIProvider,
+  DEFAULT_WORKERS_AI_MODEL,
+} from '../../src/providers/index';
+import { mergeToolCallDeltas, parseOpenAIStreamEvent } from '../../src/providers/OpenAICompatibleProvider';
+import { parseMockScript } from '../../src/providers/MockLLMProvider';
+import type { LLMRequest } from '../../src/providers/index';
+
+/**
+ * Unit tests for the LLM provider abstraction
+ *
+ * Tests cover:
+ * - Provider selection from env and overrides
+ * - Workers AI request/response mapping
+ * - OpenAI-compatible completions, SSE parsing and tool call delta merging
+ * - Scripted mock provider
+ */
+
+const request: LLMRequest = {
+  messages: [
+    { role: 'system', content: 'You are helpful.' },
+    { role: 'user', content: 'Hello there' },
+  ],
+  maxTokens: 100,
+  temperature: 0.5,
+};
+
+/**
+ * Helper: Build a ReadableStream from raw string chunks
+ */
+function streamFrom(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+describe('createLLMProvider()', () => {
+  it('defaults to Workers AI with the configured model', () => {
+    const provider = createLLMProvider(createMockEnv({ LLM_MODEL: '@cf/test/model' }));
+    expect(provider).toBeInstanceOf(WorkersAIProvider);
+    expect(provider.model).toBe('@cf/test/model');
+  });
+
+  it('falls back to the default Workers AI model', () => {
+    const provider = createLLMProvider(createMockEnv({ LLM_MODEL: undefined }));
+    expect(provider.model).toBe(DEFAULT_WORKERS_AI_MODEL);
+  });
+
+  it('creates an OpenAI-compatible provider from env', () => {
+    const provider = createLLMProvider(createMockEnv({
+      LLM_PROVIDER: 'openai',
+      OPENAI_BASE_URL: 'http://localhost:11434/v1',
+      OPENAI_MODEL: 'llama3.1',
+    }));
+    expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(provider.model).toBe('llama3.1');
+  });
+
+  it('requires a base URL and model for the OpenAI-compatible provider', () => {
+    expect(() => createLLMProvider(createMockEnv({ LLM_PROVIDER: 'openai' }))).toThrow('OPENAI_BASE_URL');
+    expect(() => createLLMProvider(createMockEnv({
+      LLM_PROVIDER: 'openai',
+      OPENAI_BASE_URL: 'http://localhost:11434/v1',
+    }))).toThrow('OPENAI_MODEL');
+  });
+
+  it('lets overrides win over env', () => {
+    const provider = createLLMProvider(createMockEnv({ LLM_PROVIDER: 'workers-ai' }), {
+      provider: 'mock',
+      model: 'scripted',
+    });
+    expect(provider).toBeInstanceOf(MockLLMProvider);
+    expect(provider.model).toBe('scripted');
+  });
+
+  it('rejects an unknown provider', () => {
+    expect(() => createLLMProvider(createMockEnv({ LLM_PROVIDER: 'nope' }))).toThrow('Unknown LLM provider "nope"');
+    expect(() => createLLMProvider(createMockEnv(), { provider: 'nope', model: 'm' })).toThrow('workers-ai, openai, mock');
+  });
+});
+
+describe('WorkersAIProvider', () => {
+  it('maps the request and parses native tool calls', async () => {
+    const run = vi.fn().mockResolvedValue({
+      response: '  Sure.  ',
+      tool_calls: [{ name: 'listTasks', arguments: { completed: false } }],
+    });
+    const provider = new WorkersAIProvider({ run } as unknown as Ai, '@cf/test/model');
+
+    const result = await provider.complete(request);
+
+    expect(run).toHaveBeenCalledWith('@cf/test/model', expect.objectContaining({
+      messages: request.messages,
+      max_tokens: 100,
+      temperature: 0.5,
+      stream: false,
+    }));
+    expect(result.text).toBe('Sure.');
+    expect(result.toolCalls).toEqual([{ tool: 'listTasks', params: { completed: false } }]);
+  });
+
+  it('streams deltas from the SSE response', async () => {
+    const run = vi.fn().mockResolvedValue(streamFrom([
+      'data: {"response":"Hel"}\n',
+      'data: {"response":"lo"}\n',
+      'data: [DONE]\n',
+    ]));
+    const provider = new WorkersAIProvider({ run } as unknown as Ai);
+    const deltas: string[] = [];
+
+    const result = await provider.stream(request, { onDelta: d => deltas.push(d) });
+
+    expect(deltas).toEqual(['Hel', 'lo']);
+    expect(result).toEqual({ text: 'Hello', toolCalls: [], timedOut: false, aborted: false });
+  });
+});
+
+describe('OpenAICompatibleProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts to /chat/completions and parses the reply', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      choices: [{
+        message: {
+          content: 'On it.',
+          tool_calls: [{ type: 'function', function: { name: 'listTasks', arguments: '{"completed":true}' } }],
+        },
+      }],
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: 'http://localhost:8080/v1/',
+      apiKey: 'sk-test',
+      model: 'gpt-test',
+    });
+    const result = await provider.complete(request);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer sk-test');
+    expect(JSON.parse(init.body)).toMatchObject({ model: 'gpt-test', max_tokens: 100, stream: false });
+    expect(result.text).toBe('On it.');
+    expect(result.toolCalls).toEqual([{ tool: 'listTasks', params: { completed: true } }]);
+  });
+
+  it('surfaces the HTTP status on errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('slow down', { status: 429 })));
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1', model: 'gpt-test' });
+
+    await expect(provider.complete(request)).rejects.toThrow('OpenAI-compatible API error 429');
+  });
+
+  it('streams content and merges tool call fragments', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(streamFrom([
+      'data: {"choices":[{"delta":{"content":"Let me "}}]}\n\n',
+      'data: {"choices":[{"delta":{"content":"check."}}]}\n\n',
+      'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"name":"listTasks","arguments":""}}]}}]}\n\n',
+      'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"{\\"completed\\":"}}]}}]}\n\n',
+      'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"false}"}}]}}]}\n\n',
+      'data: [DONE]\n\n',
+    ]))));
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1', model: 'gpt-test' });
+    const deltas: string[] = [];
+
+    const result = await provider.stream(request, { onDelta: d => deltas.push(d) });
+
+    expect(deltas.join('')).toBe('Let me check.');
+    expect(result.text).toBe('Let me check.');
+    expect(result.toolCalls).toEqual([{ tool: 'listTasks', params: { completed: false } }]);
+  });
+
+  it('parses OpenAI stream events', () => {
+    expect(parseOpenAIStreamEvent('data: {"choices":[{"delta":{"content":"Hi"}}]}')).toEqual({ response: 'Hi' });
+    expect(parseOpenAIStreamEvent('data: {"choices":[{"delta":{"role":"assistant"}}]}')).toBeNull();
+    expect(parseOpenAIStreamEvent('data: [DONE]')).toBeNull();
+    expect(parseOpenAIStreamEvent(': keep-alive')).toBeNull();
+  });
+
+  it('merges tool call fragments per index', () => {
+    expect(mergeToolCallDeltas([
+      { index: 1, function: { name: 'getWeather', arguments: '{"city":' } },
+      { index: 0, function: { name: 'listTasks', arguments: '{}' } },
+      { index: 1, function: { arguments: '"Paris"}' } },
+    ])).toEqual([
+      { name: 'listTasks', arguments: '{}' },
+      { name: 'getWeather', arguments: '{"city":"Paris"}' },
+    ]);
+  });
+});
+
+describe('MockLLMProvider', () => {
+  it('plays back scripted turns, then echoes the user', async () => {
+    const provider = new MockLLMProvider([
+      { toolCalls: [{ tool: 'listTasks', params: {} }] },
+      { text: 'You have no tasks.' },
+    ]);
+
+    expect(await provider.complete(request)).toEqual({ text: '', toolCalls: [{ tool: 'listTasks', params: {} }] });
+    expect((await provider.complete(request)).text).toBe('You have no tasks.');
+    expect((await provider.complete(request)).text).toBe('Mock response to: Hello there');
+    expect(provider.requests).toHaveLength(3);
+  });
+
+  it('streams the text as word deltas', async () => {
+    const provider = new MockLLMProvider([{ text: 'One two three' }]);
+    const deltas: string[] = [];
+
+    const result = await provider.stream(request, { onDelta: d => deltas.push(d) });
+
+    expect(deltas).toEqual(['One ', 'two ', 'three']);
+    expect(result.timedOut).toBe(false);
+  });
+
+  it('fails scripted error turns', async () => {
+    const provider = new MockLLMProvider([{ error: 'AI error 429' }, { text: 'Recovered' }]);
+
+    await expect(provider.complete(request)).rejects.toThrow('AI error 429');
+    expect((await provider.complete(request)).text).toBe('Recovered');
+  });
+
+  it('ignores an invalid LLM_MOCK_SCRIPT', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(parseMockScript('not json')).toEqual([]);
+    expect(parseMockScript('{"text":"hi"}')).toEqual([]);
+    expect(parseMockScript('[{"text":"hi"}]')).toEqual([{ text: 'hi' }]);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createMockDB, createMockEnv } from '../setup';
+import { VectorReconciler } from '../../src/agent/reconciliation';
+import { VectorizeManager } from '../../src/agent/vectorize';
+
+/**
+ * Unit tests for Vectorize / D1 reconciliation
+ *
+ * Tests cover:
+ * - Purging logged vector IDs in batches and clearing the log
+ * - Keeping the log when Vectorize rejects a deletion
+ * - Sweeping sampled vectors whose rows are gone
+ * - deleteEmbeddings reporting failures
+ */
+
+/**
+ * Helper: D1 mock serving the deletion log, which shrinks as rows are deleted
+ */
+function createDeletionLogDB(vectorIds: string[]) {
+  const log = () => {
+    const deleted = new Set(db.statements.filter(({ query }) => query.startsWith('DELETE')).flatMap(({ params }) => params));
+    return vectorIds.filter(id => !deleted.has(id));
+  };
+  const db = createMockDB({
+    'FROM vector_deletions': ([limit]) => log().slice(0, limit).map(vector_id => ({ vector_id })),
+  });
+  return { ...db, log };
+}
+
+describe('VectorReconciler', () => {
+  it('should delete logged vectors in batches and clear them from the log', async () => {
+    const ids = Array.from({ length: 150 }, (_, i) => `knowledge-${i}`);
+    const db = createDeletionLogDB(ids);
+    const vectorize = { deleteEmbeddings: vi.fn(async () => true) };
+
+    const purged = await new VectorReconciler(db as any, vectorize as any).purgeDeleted();
+
+    expect(purged).toBe(150);
+    expect(vectorize.deleteEmbeddings.mock.calls.map(([batch]: any) => batch.length)).toEqual([100, 50]);
+    expect(db.log()).toEqual([]);
+  });
+
+  it('should keep the log when Vectorize rejects the deletion', async () => {
+    const db = createDeletionLogDB(['m-1', 'task-1']);
+    const vectorize = { deleteEmbeddings: vi.fn(async () => false) };
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await new VectorReconciler(db as any, vectorize as any).purgeDeleted()).toBe(0);
+    expect(db.log()).toEqual(['m-1', 'task-1']);
+  });
+
+  it('should stop at the limit', async () => {
+    const db = createDeletionLogDB(['m-1', 'm-2', 'm-3']);
+    const vectorize = { deleteEmbeddings: vi.fn(async () => true) };
+
+    expect(await new VectorReconciler(db as any, vectorize as any).purgeDeleted(2)).toBe(2);
+    expect(db.log()).toEqual(['m-3']);
+  });
+});
+
+describe('VectorReconciler.sweepOrphans()', () => {
+  // Rows that still exist, by table
+  const existing: Record<string, string[]> = {
+    conversations: ['m-1'],
+    knowledge_entries: ['entry-1'],
+    tasks: [],
+    conversation_summaries: ['thread-1'],
+  };
+
+  function createRowsDB() {
+    return createMockDB({
+      'FROM users': [{ id: 'user-1' }],
+      ...Object.fromEntries(Object.entries(existing).map(([table, ids]) => [
+        `FROM ${table} `,
+        (params: any[]) => ids.filter(id => params.slice(1).includes(id)).map(id => ({ id })),
+      ])),
+    });
+  }
+
+  it('should delete sampled vectors whose row is gone', async () => {
+    const db = createRowsDB();
+    const vectorize = {
+      sampleVectorIds: vi.fn(async () => ['m-1', 'm-gone', 'knowledge-entry-1', 'knowledge-entry-gone', 'task-t-1', 'summary-thread-1']),
+      deleteEmbeddings: vi.fn(async () => true),
+    };
+
+    const deleted = await new VectorReconciler(db as any, vectorize as any).sweepOrphans();
+
+    expect(deleted).toBe(3);
+    expect(vectorize.sampleVectorIds).toHaveBeenCalledWith('user-1', 50);
+    expect(vectorize.deleteEmbeddings).toHaveBeenCalledWith(['knowledge-entry-gone', 'task-t-1', 'm-gone']);
+
+    const summaryLookup = db.statements.find(({ query }) => query.includes('FROM conversation_summaries'))!;
+    expect(summaryLookup.query).toContain('WHERE user_id = ? AND thread_id IN (?)');
+    expect(summaryLookup.params).toEqual(['user-1', 'thread-1']);
+  });
+
+  it('should not count orphans Vectorize failed to delete', async () => {
+    const vectorize = {
+      sampleVectorIds: vi.fn(async () => ['m-gone']),
+      deleteEmbeddings: vi.fn(async () => false),
+    };
+
+    expect(await new VectorReconciler(createRowsDB() as any, vectorize as any).sweepOrphans()).toBe(0);
+  });
+});
+
+describe('VectorizeManager.sampleVectorIds()', () => {
+  it("should query the user's vectors in a random direction", async () => {
+    const query = vi.fn(async () => ({ matches: [{ id: 'm-1', score: 0.1 }], count: 1 }));
+    const manager = new VectorizeManager(createMockEnv({ VECTORIZE: { query } as any }));
+    vi.spyOn(manager, 'generateEmbedding').mockResolvedValue([0.1, 0.2, 0.3]);
+
+    expect(await manager.sampleVectorIds('user-1', 50)).toEqual(['m-1']);
+    const [direction, options] = query.mock.calls[0] as any[];
+    expect(direction).toHaveLength(3);
+    expect(options).toEqual({ topK: 50, filter: { userId: 'user-1' }, returnValues: false, returnMetadata: false });
+  });
+});
+
+describe('VectorizeManager.deleteEmbeddings()', () => {
+  it('should report whether the vectors were deleted', async () => {
+    const deleteByIds = vi.fn(async () => { throw new Error('unavailable'); });
+    const manager = new VectorizeManager(createMockEnv({ VECTORIZE: { deleteByIds } as any }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await manager.deleteEmbeddings(['m-1'])).toBe(false);
+    expect(await manager.deleteEmbeddings([])).toBe(true);
+    expect(deleteByIds).toHaveBeenCalledTimes(1);
+  });
+});
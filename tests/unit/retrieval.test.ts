@@ -0,0 +1,203 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createMockDB, createMockEnv } from '../setup';
+import {
+  HybridRetriever,
+  RetrievalSettings,
+  buildKeywordQuery,
+  citedSources,
+  fuseRankings,
+  getRetrievalSettings,
+  toCitations,
+} from '../../src/agent/retrieval';
+
+/**
+ * Unit tests for hybrid (keyword + vector) retrieval
+ *
+ * Tests cover:
+ * - Settings from env with fallbacks for invalid values
+ * - Building FTS5 queries from free text
+ * - Reciprocal rank fusion, weights and recency
+ * - Score threshold, excluded ids, abandoned branches and keyword search failures
+ * - Numbering sources and finding the ones a reply cites
+ */
+
+function createVectorize(matches: Array<{ id: string; score: number; content: string; timestamp?: number; threadId?: string }>) {
+  return {
+    searchRelevantContext: vi.fn(async () => matches.map(({ id, score, content, timestamp = Date.now(), threadId }) => ({
+      id,
+      score,
+      metadata: { userId: 'user-1', type: 'conversation', content, timestamp, threadId },
+    }))),
+  };
+}
+
+const settings: RetrievalSettings = {
+  minVectorScore: 0.75,
+  vectorWeight: 1,
+  keywordWeight: 1,
+  rrfK: 60,
+  recencyHalfLifeDays: 30,
+  recencyWeight: 0,
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('getRetrievalSettings()', () => {
+  it('should use the defaults when nothing is configured', () => {
+    expect(getRetrievalSettings(createMockEnv())).toEqual({
+      minVectorScore: 0.75,
+      vectorWeight: 1,
+      keywordWeight: 1,
+      rrfK: 60,
+      recencyHalfLifeDays: 30,
+      recencyWeight: 0.3,
+    });
+  });
+
+  it('should read env and ignore invalid values', () => {
+    const env = createMockEnv({ RAG_MIN_SCORE: '0.6', RAG_KEYWORD_WEIGHT: '2', RAG_RRF_K: 'abc', RAG_RECENCY_WEIGHT: '1.5' });
+
+    expect(getRetrievalSettings(env)).toMatchObject({ minVectorScore: 0.6, keywordWeight: 2, rrfK: 60, recencyWeight: 0.3 });
+  });
+});
+
+describe('buildKeywordQuery()', () => {
+  it('should quote distinctive terms and keep identifiers whole', () => {
+    expect(buildKeywordQuery('What did we decide about INC-4521 and Zürich?')).toBe('"decide" OR "inc-4521" OR "zürich"');
+  });
+
+  it('should return null when only stopwords are left', () => {
+    expect(buildKeywordQuery('what is it?')).toBeNull();
+    expect(buildKeywordQuery('')).toBeNull();
+  });
+});
+
+describe('fuseRankings()', () => {
+  const hit = (id: string, timestamp = 0) => ({ id, content: id, timestamp });
+
+  it('should rank items found by both searches first', () => {
+    const fused = fuseRankings('knowledge', [hit('a'), hit('b')], [hit('c'), hit('b')], settings);
+
+    expect(fused.map(item => item.id)).toEqual(['b', 'a', 'c']);
+    expect(fused[0].matchedBy).toEqual(['vector', 'keyword']);
+  });
+
+  it('should follow the configured weights', () => {
+    const fused = fuseRankings('knowledge', [hit('a')], [hit('c')], { ...settings, keywordWeight: 2 });
+
+    expect(fused.map(item => item.id)).toEqual(['c', 'a']);
+  });
+
+  it('should prefer recent messages but not recent knowledge', () => {
+    const now = 100 * DAY;
+    const recency = { ...settings, recencyWeight: 0.5 };
+    const vectorHits = [hit('old', now - 90 * DAY), hit('new', now - DAY)];
+
+    expect(fuseRankings('conversation', vectorHits, [], recency, now).map(item => item.id)).toEqual(['new', 'old']);
+    expect(fuseRankings('knowledge', vectorHits, [], recency, now).map(item => item.id)).toEqual(['old', 'new']);
+  });
+});
+
+describe('HybridRetriever', () => {
+  it('should merge keyword matches into history and drop weak or excluded vector matches', async () => {
+    const db = createMockDB({
+      'FROM conversations_fts': [{ id: 'm-ticket', content: 'INC-4521 was closed', timestamp: Math.floor(Date.now() / 1000), thread_id: 'thread-1' }],
+    });
+    const vectorize = createVectorize([
+      { id: 'm-current', score: 0.99, content: 'Status of INC-4521?' },
+      { id: 'm-close', score: 0.8, content: 'The incident was resolved', threadId: 'thread-1' },
+      { id: 'm-weak', score: 0.5, content: 'Lunch plans' },
+    ]);
+    const retriever = new HybridRetriever(db as any, vectorize as any, settings);
+
+    const items = await retriever.searchHistory('user-1', 'Status of INC-4521?', 3, { threadId: 'thread-1', excludeIds: ['m-current'] });
+
+    expect(items.map(item => item.id).sort()).toEqual(['m-close', 'm-ticket']);
+    expect(items.find(item => item.id === 'm-ticket')).toMatchObject({ source: 'conversation', matchedBy: ['keyword'], threadId: 'thread-1' });
+    expect(items.find(item => item.id === 'm-close')).toMatchObject({ threadId: 'thread-1' });
+    expect(vectorize.searchRelevantContext).toHaveBeenCalledWith('user-1', 'Status of INC-4521?', 7, { type: 'conversation', threadId: 'thread-1' });
+
+    const [{ query, params }] = db.statements;
+    expect(query).toContain('c.thread_id = ?');
+    expect(params).toEqual(['"status" OR "inc-4521"', 'user-1', 'thread-1', 7]);
+  });
+
+  it('should skip messages from branches the thread has left', async () => {
+    const db = createMockDB({
+      'FROM conversations_fts': [
+        { id: 'm-edited', content: 'Flight to Porto', timestamp: Math.floor(Date.now() / 1000), thread_id: 'thread-1' },
+        { id: 'm-other', content: 'Flight to Rome', timestamp: Math.floor(Date.now() / 1000), thread_id: 'thread-2' },
+      ],
+    });
+    const vectorize = createVectorize([
+      { id: 'm-old-reply', score: 0.9, content: 'Booked the Porto flight', threadId: 'thread-1' },
+      { id: 'm-kept', score: 0.85, content: 'Looking at flights', threadId: 'thread-1' },
+    ]);
+    const retriever = new HybridRetriever(db as any, vectorize as any, settings);
+
+    const items = await retriever.searchHistory('user-1', 'flight', 5, {
+      activeBranch: { threadId: 'thread-1', messageIds: new Set(['m-kept', 'm-current']) },
+    });
+
+    expect(items.map(item => item.id).sort()).toEqual(['m-kept', 'm-other']);
+  });
+
+  it('should match knowledge by vector id and return its title with the content', async () => {
+    const db = createMockDB({
+      'FROM knowledge_entries_fts': [{ id: 'entry-1', title: 'Wifi', content: 'Password hunter2', updated_at: 1760000000 }],
+    });
+    const vectorize = createVectorize([{ id: 'knowledge-entry-2', score: 0.9, content: 'Router\nIn the hallway' }]);
+    const retriever = new HybridRetriever(db as any, vectorize as any, settings);
+
+    const items = await retriever.searchKnowledge('user-1', 'wifi password', 2);
+
+    expect(items).toHaveLength(2);
+    expect(items.find(item => item.id === 'knowledge-entry-1')).toMatchObject({
+      source: 'knowledge',
+      content: 'Wifi\nPassword hunter2',
+      timestamp: 1760000000000,
+    });
+  });
+
+  it('should fall back to vector results when keyword search fails', async () => {
+    const db = createMockDB({}, { error: new Error('no such table: conversations_fts') });
+    const vectorize = createVectorize([{ id: 'm-1', score: 0.9, content: 'Dentist on Friday' }]);
+    const retriever = new HybridRetriever(db as any, vectorize as any, settings);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const items = await retriever.searchHistory('user-1', 'dentist appointment', 3);
+
+    expect(items.map(item => item.id)).toEqual(['m-1']);
+  });
+});
+
+describe('Source citations', () => {
+  const items = [
+    { id: 'knowledge-entry-1', source: 'knowledge' as const, content: 'Wifi\nPassword hunter2', timestamp: 1, score: 0.1, matchedBy: ['vector' as const] },
+    { id: 'm-1', source: 'conversation' as const, content: 'Dentist on Friday', timestamp: 2, threadId: 'thread-1', score: 0.05, matchedBy: ['keyword' as const] },
+    { id: 'm-2', source: 'conversation' as const, content: 'Lunch plans', timestamp: 3, score: 0.01, matchedBy: ['vector' as const] },
+  ];
+
+  it('should number items and point at the row they came from', () => {
+    expect(toCitations(items).slice(0, 2)).toEqual([
+      { ref: 1, type: 'knowledge', id: 'entry-1', timestamp: 1, snippet: 'Wifi\nPassword hunter2' },
+      { ref: 2, type: 'conversation', id: 'm-1', threadId: 'thread-1', timestamp: 2, snippet: 'Dentist on Friday' },
+    ]);
+  });
+
+  it('should cite a thread summary as the thread it summarizes', () => {
+    const summary = { id: 'summary-thread-2', source: 'conversation' as const, content: 'Planned the Lisbon trip', timestamp: 4, threadId: 'thread-2', score: 0.1, matchedBy: ['vector' as const] };
+
+    expect(toCitations([summary])).toEqual([
+      { ref: 1, type: 'summary', id: 'thread-2', threadId: 'thread-2', timestamp: 4, snippet: 'Planned the Lisbon trip' },
+    ]);
+  });
+
+  it('should keep only the sources a reply cites', () => {
+    const sources = toCitations(items);
+
+    expect(citedSources('The password is hunter2 [1]. Your dentist is on Friday [1, 2].', sources).map(s => s.ref)).toEqual([1, 2]);
+    expect(citedSources('See [3] and [7].', sources).map(s => s.ref)).toEqual([3]);
+    expect(citedSources('No citations here.', sources)).toEqual([]);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  IntentRouter,
+  ROUTES,
+  GENERAL_ROUTE,
+  cosineSimilarity,
+  withFollowUpTools,
+  type Intent,
+  type RouteDecision,
+} from '../../src/agent/router';
+import { getToolNames } from '../../src/mcp/tools/index';
+
+/**
+ * Unit tests for intent routing
+ *
+ * Tests cover:
+ * - Nearest-example routing and the similarity threshold
+ * - Multi-intent messages merge their routes
+ * - Fallback to the general route on failures
+ * - Follow-up turns keep the previous tools
+ */
+
+/**
+ * Helper: one axis per route plus a shared one (real embeddings of short
+ * utterances are never orthogonal), so each example embeds near its route
+ */
+function axis(...intents: Intent[]): number[] {
+  return [...ROUTES.map(route => (intents.includes(route.intent) ? 1 : 0)), 1];
+}
+
+function createEmbeddings(messages: Record<string, number[]>) {
+  return {
+    generateEmbeddings: vi.fn(async (texts: string[]) =>
+      texts.map(text => axis(ROUTES.find(route => route.examples.includes(text))!.intent))
+    ),
+    generateEmbedding: vi.fn(async (text: string) => messages[text]),
+  };
+}
+
+describe('cosineSimilarity()', () => {
+  it('should be 1 for parallel vectors and 0 for orthogonal ones', () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+  });
+
+  it('should return 0 for a zero vector', () => {
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
+
+describe('IntentRouter', () => {
+  it('should route small talk without retrieval or tools', async () => {
+    const router = new IntentRouter(createEmbeddings({ 'Hi!': axis('smalltalk') }));
+
+    const decision = await router.route('Hi!');
+
+    expect(decision).toMatchObject({ intent: 'smalltalk', needsRetrieval: false, tools: [] });
+  });
+
+  it('should offer only the weather tool for weather questions', async () => {
+    const router = new IntentRouter(createEmbeddings({ 'Rain in Oslo?': axis('weather') }));
+
+    const decision = await router.route('Rain in Oslo?');
+
+    expect(decision).toMatchObject({ intent: 'weather', needsRetrieval: false, tools: ['getWeather'] });
+  });
+
+  it('should merge routes that match equally well', async () => {
+    const router = new IntentRouter(createEmbeddings({
+      'Add a task and check the weather': axis('tasks', 'weather'),
+    }));
+
+    const decision = await router.route('Add a task and check the weather');
+
+    expect(decision.needsRetrieval).toBe(true);
+    expect(decision.tools).toContain('createTask');
+    expect(decision.tools).toContain('getWeather');
+  });
+
+  it('should fall back to the general route when nothing is similar enough', async () => {
+    const router = new IntentRouter(createEmbeddings({
+      'Explain quantum computing': axis('smalltalk', 'tasks', 'calendar', 'weather', 'email', 'recall'),
+    }));
+
+    const decision = await router.route('Explain quantum computing');
+
+    expect(decision.intent).toBe('general');
+    expect(decision.needsRetrieval).toBe(true);
+    expect(decision.tools).toBeUndefined();
+  });
+
+  it('should embed the route examples once', async () => {
+    const embeddings = createEmbeddings({ a: axis('smalltalk'), b: axis('recall') });
+    const router = new IntentRouter(embeddings);
+
+    await router.route('a');
+    await router.route('b');
+
+    expect(embeddings.generateEmbeddings).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to the general route when embedding fails and retry later', async () => {
+    const embeddings = createEmbeddings({ 'Hi!': axis('smalltalk') });
+    embeddings.generateEmbeddings.mockRejectedValueOnce(new Error('AI unavailable'));
+    const router = new IntentRouter(embeddings);
+
+    expect(await router.route('Hi!')).toBe(GENERAL_ROUTE);
+    expect((await router.route('Hi!')).intent).toBe('smalltalk');
+  });
+
+  it('should only reference registered tools', () => {
+    const toolNames = getToolNames();
+    for (const route of ROUTES) {
+      for (const tool of route.tools) {
+        expect(toolNames).toContain(tool);
+      }
+    }
+  });
+});
+
+describe('withFollowUpTools()', () => {
+  const smalltalk: RouteDecision = { intent: 'smalltalk', needsRetrieval: false, tools: [], score: 0.9 };
+  const weather: RouteDecision = { intent: 'weather', needsRetrieval: false, tools: ['getWeather'], score: 0.9 };
+
+  it('should keep the previous turn tools', () => {
+    expect(withFollowUpTools(smalltalk, weather)).toEqual({ ...smalltalk, tools: ['getWeather'] });
+  });
+
+  it('should offer all tools after a general turn', () => {
+    expect(withFollowUpTools(smalltalk, GENERAL_ROUTE).tools).toBeUndefined();
+  });
+
+  it('should leave the decision alone without a previous turn', () => {
+    expect(withFollowUpTools(weather)).toBe(weather);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { consumeLLMStream, parseStreamEvent } from '../../src/agent/streaming';
+
+/**
+ * Unit tests for Workers AI stream consumption
+ *
+ * Tests cover:
+ * - SSE event parsing ([DONE], malformed JSON, non-data lines, tool_calls)
+ * - Delta forwarding across chunk boundaries
+ * - Timeout cut-off keeping the partial text
+ * - Abort (user cancel) keeping the partial text
+ */
+
+/**
+ * Helper: Build a ReadableStream from raw string chunks
+ */
+function streamFrom(chunks: string[], options: { hang?: boolean } = {}): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      if (!options.hang) {
+        controller.close();
+      }
+    },
+  });
+}
+
+describe('parseStreamEvent()', () => {
+  it('should extract the response text from a data line', () => {
+    expect(parseStreamEvent('data: {"response":"Hello"}')).toEqual({ response: 'Hello' });
+  });
+
+  it('should extract native tool calls from an event', () => {
+    const event = parseStreamEvent('data: {"response":"","tool_calls":[{"name":"listTasks","arguments":{}}]}');
+    expect(event).toEqual({ toolCalls: [{ name: 'listTasks', arguments: {} }] });
+  });
+
+  it('should ignore the [DONE] sentinel', () => {
+    expect(parseStreamEvent('data: [DONE]')).toBeNull();
+  });
+
+  it('should ignore non-data lines and malformed JSON', () => {
+    expect(parseStreamEvent('')).toBeNull();
+    expect(parseStreamEvent(': keep-alive')).toBeNull();
+    expect(parseStreamEvent('data: {not json')).toBeNull();
+  });
+});
+
+describe('consumeLLMStream()', () => {
+  it('should forward deltas and return the full text', async () => {
+    const deltas: string[] = [];
+    const stream = streamFrom([
+      'data: {"response":"Hel"}\n\n',
+      'data: {"response":"lo"}\n\n',
+      'data: [DONE]\n\n',
+    ]);
+
+    const result = await consumeLLMStream(stream, { onDelta: d => deltas.push(d) });
+
+    expect(deltas).toEqual(['Hel', 'lo']);
+    expect(result.text).toBe('Hello');
+    expect(result.toolCalls).toEqual([]);
+    expect(result.timedOut).toBe(false);
+  });
+
+  it('should handle events split across chunk boundaries', async () => {
+    const stream = streamFrom([
+      'data: {"respo',
+      'nse":"Good "}\n\ndata: {"response":"morning"}',
+      '\n\n',
+    ]);
+
+    const result = await consumeLLMStream(stream);
+
+    expect(result.text).toBe('Good morning');
+  });
+
+  it('should keep the partial text when the timeout cuts the stream off', async () => {
+    const stream = streamFrom(['data: {"response":"Partial answer"}\n\n'], { hang: true });
+
+    const result = await consumeLLMStream(stream, { timeoutMs: 50 });
+
+    expect(result.timedOut).toBe(true);
+    expect(result.text).toBe('Partial answer');
+  });
+
+  it('should stop reading and keep the partial text when aborted', async () => {
+    const stream = streamFrom(['data: {"response":"Half an"}\n\n'], { hang: true });
+    const controller = new AbortController();
+    const deltas: string[] = [];
+
+    const pending = consumeLLMStream(stream, {
+      signal: controller.signal,
+      onDelta: d => {
+        deltas.push(d);
+        controller.abort();
+      },
+    });
+    const result = await pending;
+
+    expect(result.aborted).toBe(true);
+    expect(result.timedOut).toBe(false);
+    expect(result.text).toBe('Half an');
+    expect(deltas).toEqual(['Half an']);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMockDB } from '../setup';
+import { SummaryStore, summaryEmbeddingId, summaryThreadId } from '../../src/agent/summaries';
+
+/**
+ * Unit tests for conversation summary storage
+ *
+ * Tests cover:
+ * - Row mapping
+ * - Queries are always scoped by user
+ * - Saving upserts the thread's single summary, deleting removes it
+ */
+
+const summaryRow = {
+  thread_id: 'thread-1',
+  user_id: 'user-1',
+  content: 'The user is planning a trip to Lisbon.',
+  last_message_id: 'msg-9',
+  covered_until: 1700000009000,
+  message_count: 10,
+  updated_at: 1700000100,
+};
+
+describe('summaryEmbeddingId()', () => {
+  it('should derive one vector id per thread', () => {
+    expect(summaryEmbeddingId('thread-1')).toBe('summary-thread-1');
+  });
+
+  it('should read the thread back from a summary vector id only', () => {
+    expect(summaryThreadId('summary-thread-1')).toBe('thread-1');
+    expect(summaryThreadId('knowledge-entry-1')).toBeNull();
+  });
+});
+
+describe('SummaryStore', () => {
+  let db: ReturnType<typeof createMockDB>;
+  let store: SummaryStore;
+
+  beforeEach(() => {
+    db = createMockDB({ 'FROM conversation_summaries': [summaryRow] });
+    store = new SummaryStore(db as any);
+  });
+
+  it('should map a stored summary', async () => {
+    const summary = await store.getSummary('user-1', 'thread-1');
+
+    expect(summary).toEqual({
+      threadId: 'thread-1',
+      content: 'The user is planning a trip to Lisbon.',
+      lastMessageId: 'msg-9',
+      coveredUntil: 1700000009000,
+      messageCount: 10,
+      updatedAt: 1700000100000,
+    });
+    expect(db.statements[0].params).toEqual(['thread-1', 'user-1']);
+  });
+
+  it('should return null when the thread has no summary', async () => {
+    store = new SummaryStore(createMockDB() as any);
+
+    expect(await store.getSummary('user-1', 'thread-1')).toBeNull();
+  });
+
+  it('should upsert the summary for the thread', async () => {
+    const saved = await store.saveSummary('user-1', {
+      threadId: 'thread-1',
+      content: 'Updated',
+      lastMessageId: 'msg-19',
+      coveredUntil: 1700000019000,
+      messageCount: 20,
+    });
+
+    const { query, params } = db.statements[0];
+    expect(query).toContain('ON CONFLICT(thread_id) DO UPDATE');
+    expect(query).toContain('WHERE conversation_summaries.user_id = excluded.user_id');
+    expect(params.slice(0, 6)).toEqual(['thread-1', 'user-1', 'Updated', 'msg-19', 1700000019000, 20]);
+    expect(saved.content).toBe('Updated');
+    expect(saved.updatedAt).toBe(params[6] * 1000);
+  });
+  it('should delete the summary of a thread', async () => {
+    await store.deleteSummary('user-1', 'thread-1');
+
+    expect(db.statements[0]).toEqual({
+      query: 'DELETE FROM conversation_summaries WHERE thread_id = ? AND user_id = ?',
+      params: ['thread-1', 'user-1'],
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createMockDB } from '../setup';
+import { TaskSearch, taskText } from '../../src/agent/taskSearch';
+import { SearchTasksSchema } from '../../src/types/tools';
+
+/**
+ * Unit tests for semantic task search
+ *
+ * Tests cover:
+ * - Ranking tasks by vector similarity and dropping weak matches
+ * - Applying completion, priority and due date filters in D1
+ * - Falling back to title/description matching without vector hits, or
+ *   when every hit is filtered out
+ * - Embedding tasks and surviving Vectorize errors
+ */
+
+function taskRow(id: string, title: string, extra: Record<string, unknown> = {}) {
+  return { id, user_id: 'user-1', title, description: null, due_date: null, completed: 0, priority: 'medium', created_at: 1700000000, ...extra };
+}
+
+function match(taskId: string, score: number) {
+  return { id: `task-${taskId}`, score, metadata: { taskId } };
+}
+
+describe('TaskSearch.search()', () => {
+  it('should rank tasks by similarity and drop weak matches', async () => {
+    const db = createMockDB({ 'FROM tasks': [taskRow('t-1', 'Pay rent'), taskRow('t-2', 'Book checkup')] });
+    const vectorize = {
+      searchRelevantContext: vi.fn(async () => [match('t-2', 0.82), match('t-1', 0.61), match('t-3', 0.3)]),
+    };
+
+    const results = await new TaskSearch(db as any, vectorize as any).search('user-1', { query: 'dentist' });
+
+    expect(vectorize.searchRelevantContext).toHaveBeenCalledWith('user-1', 'dentist', 20, { type: 'task' });
+    expect(results.map(r => [r.task.title, r.score])).toEqual([['Book checkup', 0.82], ['Pay rent', 0.61]]);
+    expect(db.statements[0].params).toEqual(['user-1', 't-2', 't-1']);
+  });
+
+  it('should apply filters in D1 and respect the limit', async () => {
+    const db = createMockDB({ 'FROM tasks': [taskRow('t-1', 'A'), taskRow('t-2', 'B')] });
+    const vectorize = { searchRelevantContext: vi.fn(async () => [match('t-1', 0.9), match('t-2', 0.8)]) };
+
+    const results = await new TaskSearch(db as any, vectorize as any).search('user-1', {
+      query: 'insurance',
+      excludeCompleted: true,
+      priority: 'high',
+      dueAfter: '2026-01-01T00:00:00Z',
+      dueBefore: '2026-02-01T00:00:00Z',
+      limit: 1,
+    });
+
+    const { query, params } = db.statements[0];
+    expect(query).toContain('completed = 0');
+    expect(query).toContain('priority = ?');
+    expect(query).toContain('due_date >= ?');
+    expect(query).toContain('due_date < ?');
+    expect(params).toEqual(['user-1', 't-1', 't-2', 'high', Date.parse('2026-01-01T00:00:00Z'), Date.parse('2026-02-01T00:00:00Z')]);
+    expect(results.map(r => r.task.id)).toEqual(['t-1']);
+  });
+
+  it('should fall back to matching words when there are no vector hits', async () => {
+    const db = createMockDB({ 'FROM tasks': [taskRow('t-1', 'Renew car insurance')] });
+    const vectorize = { searchRelevantContext: vi.fn(async () => []) };
+
+    const results = await new TaskSearch(db as any, vectorize as any).search('user-1', { query: 'car insurance' });
+
+    const { query, params } = db.statements[0];
+    expect(query).toContain('LOWER(title) LIKE ?');
+    expect(params).toEqual(['user-1', '%car%', '%car%', '%insurance%', '%insurance%', 5]);
+    expect(results).toEqual([{ task: expect.objectContaining({ id: 't-1', completed: false }), score: 0 }]);
+  });
+
+  it('should fall back to matching words when every vector hit is filtered out', async () => {
+    const db = createMockDB({
+      'AND id IN': [],
+      'LIKE ?': [taskRow('t-3', 'Renew car insurance', { priority: 'high' })],
+    });
+    const vectorize = { searchRelevantContext: vi.fn(async () => [match('t-1', 0.9), match('t-2', 0.8)]) };
+
+    const results = await new TaskSearch(db as any, vectorize as any).search('user-1', {
+      query: 'car insurance',
+      excludeCompleted: true,
+      priority: 'high',
+    });
+
+    expect(vectorize.searchRelevantContext).toHaveBeenCalledWith('user-1', 'car insurance', 20, { type: 'task', completed: false });
+    expect(db.statements).toHaveLength(2);
+    expect(db.statements[1].query).toContain('LOWER(title) LIKE ?');
+    expect(db.statements[1].query).toContain('completed = 0');
+    expect(results.map(r => [r.task.id, r.score])).toEqual([['t-3', 0]]);
+  });
+
+  it('should return nothing for a query of only short words', async () => {
+    const db = createMockDB({ 'FROM tasks': [taskRow('t-1', 'A')] });
+    const vectorize = { searchRelevantContext: vi.fn(async () => []) };
+
+    expect(await new TaskSearch(db as any, vectorize as any).search('user-1', { query: 'a b' })).toEqual([]);
+    expect(db.statements).toHaveLength(0);
+  });
+});
+
+describe('TaskSearch.indexTask()', () => {
+  const task = {
+    id: 't-1', userId: 'user-1', title: 'Book checkup', description: 'Call the dentist',
+    completed: false, priority: 'medium' as const, createdAt: 1700000000,
+  };
+
+  it('should embed the title, description and completion as a task vector', async () => {
+    const vectorize = { batchStoreEmbeddings: vi.fn(async () => {}) };
+
+    expect(await new TaskSearch({} as any, vectorize as any).indexTask(task)).toBe(true);
+    expect(vectorize.batchStoreEmbeddings).toHaveBeenCalledWith('user-1', [{
+      id: 'task-t-1',
+      role: 'system',
+      content: 'Book checkup\nCall the dentist',
+      timestamp: 1700000000000,
+      metadata: { taskId: 't-1', completed: false },
+    }], 'task');
+  });
+
+  it('should report a failed embedding instead of throwing', async () => {
+    const vectorize = { batchStoreEmbeddings: vi.fn(async () => { throw new Error('unavailable'); }) };
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await new TaskSearch({} as any, vectorize as any).indexTask(task)).toBe(false);
+  });
+});
+
+describe('taskText()', () => {
+  it('should use the title alone when there is no description', () => {
+    expect(taskText({ title: 'Pay rent' })).toBe('Pay rent');
+  });
+});
+
+describe('SearchTasksSchema', () => {
+  it('should require a query and cap the limit', () => {
+    expect(SearchTasksSchema.safeParse({ query: '  ' }).success).toBe(false);
+    expect(SearchTasksSchema.safeParse({ query: 'rent', limit: 50 }).success).toBe(false);
+    expect(SearchTasksSchema.safeParse({ query: ' rent ', limit: 3 }).data).toEqual({ query: 'rent', limit: 3 });
+  });
+});
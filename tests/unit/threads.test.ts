@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMockDB } from '../setup';
+import {
+  ThreadStore,
+  DEFAULT_THREAD_TITLE,
+  normalizeThreadTitle,
+  titleFromMessage,
+} from '../../src/agent/threads';
+
+/**
+ * Unit tests for conversation threads
+ *
+ * Tests cover:
+ * - Title derivation and validation
+ * - ThreadStore queries are always scoped by user
+ * - Deleting a thread removes its messages
+ */
+
+const threadRow = {
+  id: 'thread-1',
+  user_id: 'user-1',
+  title: 'Trip planning',
+  archived: 0,
+  created_at: 1760000000,
+  updated_at: 1760000100,
+};
+
+describe('titleFromMessage()', () => {
+  it('should use the message as the title', () => {
+    expect(titleFromMessage('  Plan my\ntrip to Lisbon ')).toBe('Plan my trip to Lisbon');
+  });
+
+  it('should truncate long messages', () => {
+    const title = titleFromMessage('a'.repeat(100));
+    expect(title).toHaveLength(60);
+    expect(title.endsWith('...')).toBe(true);
+  });
+
+  it('should fall back to the default title for blank messages', () => {
+    expect(titleFromMessage('   ')).toBe(DEFAULT_THREAD_TITLE);
+  });
+});
+
+describe('normalizeThreadTitle()', () => {
+  it('should trim valid titles', () => {
+    expect(normalizeThreadTitle('  Work  ')).toBe('Work');
+  });
+
+  it('should reject empty, oversized and non-string titles', () => {
+    expect(normalizeThreadTitle('')).toBeNull();
+    expect(normalizeThreadTitle('x'.repeat(101))).toBeNull();
+    expect(normalizeThreadTitle(42)).toBeNull();
+  });
+});
+
+describe('ThreadStore', () => {
+  let db: ReturnType<typeof createMockDB>;
+  let store: ThreadStore;
+
+  beforeEach(() => {
+    db = createMockDB({
+      'SELECT * FROM threads': [threadRow],
+      'SELECT id FROM conversations': [{ id: 'msg-1' }, { id: 'msg-2' }],
+    });
+    store = new ThreadStore(db as any);
+  });
+
+  it('should create a thread with the default title', async () => {
+    const thread = await store.createThread('user-1');
+
+    expect(thread.title).toBe(DEFAULT_THREAD_TITLE);
+    expect(thread.archived).toBe(false);
+    expect(db.statements[0].query).toContain('INSERT INTO threads');
+    expect(db.statements[0].params[1]).toBe('user-1');
+  });
+
+  it('should map rows to threads with millisecond timestamps', async () => {
+    const thread = await store.getThread('user-1', 'thread-1');
+
+    expect(thread).toEqual({
+      id: 'thread-1',
+      userId: 'user-1',
+      title: 'Trip planning',
+      archived: false,
+      createdAt: 1760000000000,
+      updatedAt: 1760000100000,
+    });
+  });
+
+  it('should hide archived threads unless asked for them', async () => {
+    await store.listThreads('user-1');
+    await store.listThreads('user-1', true);
+
+    expect(db.statements[0].query).toContain('archived = 0');
+    expect(db.statements[1].query).not.toContain('archived = 0');
+  });
+
+  it('should scope updates to the owning user', async () => {
+    await store.updateThread('user-1', 'thread-1', { title: 'Renamed', archived: true });
+
+    const update = db.statements.find(s => s.query.startsWith('UPDATE threads'))!;
+    expect(update.query).toContain('title = ?');
+    expect(update.query).toContain('archived = ?');
+    expect(update.query).toContain('WHERE id = ? AND user_id = ?');
+    expect(update.params.slice(0, 2)).toEqual(['Renamed', 1]);
+    expect(update.params.slice(-2)).toEqual(['thread-1', 'user-1']);
+  });
+
+  it('should delete the thread with its messages and return their ids', async () => {
+    const deleted = await store.deleteThread('user-1', 'thread-1');
+
+    expect(deleted).toEqual(['msg-1', 'msg-2']);
+    const queries = db.statements.map(s => s.query);
+    expect(queries).toContain('DELETE FROM conversations WHERE thread_id = ? AND user_id = ?');
+    expect(queries).toContain('DELETE FROM threads WHERE id = ? AND user_id = ?');
+    expect(queries).toContain('DELETE FROM conversation_summaries WHERE thread_id = ? AND user_id = ?');
+  });
+
+  it('should return null when deleting a thread the user does not own', async () => {
+    store = new ThreadStore(createMockDB() as any);
+    expect(await store.deleteThread('user-2', 'thread-1')).toBeNull();
+  });
+
+  it('should only retitle untitled threads on first activity', async () => {
+    await store.touchThread('user-1', 'thread-1', 'Book flights to Lisbon');
+
+    const touch = db.statements[0];
+    expect(touch.query).toContain('CASE WHEN title = ?');
+    expect(touch.params).toContain(DEFAULT_THREAD_TITLE);
+    expect(touch.params).toContain('Book flights to Lisbon');
+  });
+});
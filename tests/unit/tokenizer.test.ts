@@ -0,0 +1,106 @@
+/**
+ * Unit tests for token counting and context budgets
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  TokenCounter,
+  estimateTokensHeuristic,
+  getContextWindow,
+  getPromptBudget,
+  DEFAULT_CONTEXT_WINDOW,
+} from '../../src/agent/tokenizer';
+
+describe('estimateTokensHeuristic', () => {
+  it('should return 0 for empty text', () => {
+    expect(estimateTokensHeuristic('')).toBe(0);
+  });
+
+  it('should count ASCII words at ~4 characters per token', () => {
+    expect(estimateTokensHeuristic('abcd')).toBe(1);
+    expect(estimateTokensHeuristic('abcdefgh')).toBe(2);
+    expect(estimateTokensHeuristic('hello world')).toBe(4); // 2 + 2
+  });
+
+  it('should count punctuation individually', () => {
+    // { " " : } -> 5 punctuation + "a" + "1"
+    expect(estimateTokensHeuristic('{"a":1}')).toBe(7);
+  });
+
+  it('should count CJK characters as one token each', () => {
+    expect(estimateTokensHeuristic('東京タワー')).toBe(5);
+  });
+
+  it('should count other non-ASCII characters at ~2 per token', () => {
+    expect(estimateTokensHeuristic('éèêë')).toBe(2);
+  });
+
+  it('should estimate more than chars/4 for JSON-heavy text', () => {
+    const json = JSON.stringify({ tool: 'createTask', params: { title: 'Buy milk', priority: 'high' } });
+    expect(estimateTokensHeuristic(json)).toBeGreaterThan(Math.ceil(json.length / 4));
+  });
+});
+
+describe('TokenCounter', () => {
+  it('should use the heuristic until an encoder is available', () => {
+    const counter = new TokenCounter();
+
+    expect(counter.exact).toBe(false);
+    expect(counter.count('hello world')).toBe(estimateTokensHeuristic('hello world'));
+  });
+
+  it('should use the injected encoder', () => {
+    const counter = new TokenCounter(text => text.split(' ').map((_, i) => i));
+
+    expect(counter.exact).toBe(true);
+    expect(counter.count('one two three')).toBe(3);
+  });
+
+  it('should cache counts per text', () => {
+    const encoder = vi.fn((text: string) => Array.from(text).map((_, i) => i));
+    const counter = new TokenCounter(encoder);
+
+    counter.count('cached');
+    counter.count('cached');
+
+    expect(encoder).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to the heuristic when encoding throws', () => {
+    const counter = new TokenCounter(() => {
+      throw new Error('bad input');
+    });
+
+    expect(counter.count('hello world')).toBe(estimateTokensHeuristic('hello world'));
+  });
+
+  it('should load the Llama 3 tokenizer', async () => {
+    const counter = new TokenCounter();
+
+    await expect(counter.load()).resolves.toBe(true);
+    expect(counter.exact).toBe(true);
+    expect(counter.count('Hello world')).toBe(2);
+  });
+});
+
+describe('context budgets', () => {
+  it('should look up known models', () => {
+    expect(getContextWindow('@cf/meta/llama-3.1-8b-instruct')).toBe(7968);
+  });
+
+  it('should use the default for unknown models', () => {
+    expect(getContextWindow('some-local-model')).toBe(DEFAULT_CONTEXT_WINDOW);
+    expect(getContextWindow(undefined)).toBe(DEFAULT_CONTEXT_WINDOW);
+  });
+
+  it('should prefer a valid override', () => {
+    expect(getContextWindow('@cf/meta/llama-3.1-8b-instruct', '32768')).toBe(32768);
+    expect(getContextWindow('@cf/meta/llama-3.1-8b-instruct', 'abc')).toBe(7968);
+  });
+
+  it('should reserve the completion and fixed overhead', () => {
+    expect(getPromptBudget(8192, 500)).toBe(7692);
+    expect(getPromptBudget(8192, 500, 1200)).toBe(6492);
+    expect(getPromptBudget(1000, 2000)).toBe(0);
+  });
+});
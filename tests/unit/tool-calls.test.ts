@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ToolCallStreamFilter,
+  extractToolCallsFromText,
+  normalizeToolCall,
+  parseNativeToolCalls,
+} from '../../src/agent/toolCalls';
+
+/**
+ * Unit tests for tool call parsing
+ *
+ * Tests cover:
+ * - Native tool_calls in flat and OpenAI-style shapes
+ * - Text fallback formats (fence variants, python_tag, inline JSON)
+ * - Removing tool call JSON from the visible reply
+ * - Filtering tool call JSON out of streamed deltas
+ */
+
+const KNOWN_TOOLS = ['createTask', 'listTasks', 'getWeather'];
+
+describe('normalizeToolCall()', () => {
+  it('should accept the { tool, params } shape from the system prompt', () => {
+    expect(normalizeToolCall({ tool: 'createTask', params: { title: 'Buy milk' } }))
+      .toEqual({ tool: 'createTask', params: { title: 'Buy milk' } });
+  });
+
+  it('should accept Llama { name, parameters } output', () => {
+    expect(normalizeToolCall({ type: 'function', name: 'getWeather', parameters: { city: 'Paris' } }))
+      .toEqual({ tool: 'getWeather', params: { city: 'Paris' } });
+  });
+
+  it('should not mistake plain data objects for tool calls', () => {
+    expect(normalizeToolCall({ name: 'Bob', age: 42 })).toBeNull();
+    expect(normalizeToolCall('createTask')).toBeNull();
+  });
+});
+
+describe('parseNativeToolCalls()', () => {
+  it('should normalise flat and OpenAI-style calls', () => {
+    const calls = parseNativeToolCalls([
+      { name: 'listTasks', arguments: { completed: false } },
+      { id: 'call_1', type: 'function', function: { name: 'getWeather', arguments: '{"city":"Oslo"}' } },
+    ]);
+
+    expect(calls).toEqual([
+      { tool: 'listTasks', params: { completed: false } },
+      { tool: 'getWeather', params: { city: 'Oslo' } },
+    ]);
+  });
+
+  it('should default missing arguments to an empty object', () => {
+    expect(parseNativeToolCalls([{ name: 'listTasks' }])).toEqual([{ tool: 'listTasks', params: {} }]);
+  });
+
+  it('should drop calls with unparseable arguments', () => {
+    expect(parseNativeToolCalls([{ name: 'getWeather', arguments: '{city:' }])).toEqual([]);
+    expect(parseNativeToolCalls(undefined)).toEqual([]);
+  });
+});
+
+describe('extractToolCallsFromText()', () => {
+  it('should parse the documented ```json fence and strip it from the text', () => {
+    const text = 'Sure, adding that now.\n```json\n{"tool":"createTask","params":{"title":"Buy milk"}}\n```';
+    const result = extractToolCallsFromText(text, KNOWN_TOOLS);
+
+    expect(result.toolCalls).toEqual([{ tool: 'createTask', params: { title: 'Buy milk' } }]);
+    expect(result.visibleText).toBe('Sure, adding that now.');
+  });
+
+  it('should parse uppercase, untagged and single-line fences', () => {
+    const variants = [
+      '```JSON\n{"tool":"listTasks","params":{}}\n```',
+      '```\n{"tool":"listTasks","params":{}}\n```',
+      '```json {"tool":"listTasks","params":{}}```',
+    ];
+
+    for (const text of variants) {
+      expect(extractToolCallsFromText(text, KNOWN_TOOLS).toolCalls, text).toEqual([{ tool: 'listTasks', params: {} }]);
+    }
+  });
+
+  it('should parse Llama <|python_tag|> output', () => {
+    const text = '<|python_tag|>{"name": "getWeather", "parameters": {"city": "Paris"}}<|eom_id|>';
+    const result = extractToolCallsFromText(text, KNOWN_TOOLS);
+
+    expect(result.toolCalls).toEqual([{ tool: 'getWeather', params: { city: 'Paris' } }]);
+    expect(result.visibleText).toBe('');
+  });
+
+  it('should parse bare inline JSON naming a known tool', () => {
+    const text = 'Let me check. {"tool": "getWeather", "params": {"city": "Tokyo"}} One moment.';
+    const result = extractToolCallsFromText(text, KNOWN_TOOLS);
+
+    expect(result.toolCalls).toEqual([{ tool: 'getWeather', params: { city: 'Tokyo' } }]);
+    expect(result.visibleText).toBe('Let me check.  One moment.');
+  });
+
+  it('should leave inline JSON for unknown tools and ordinary code alone', () => {
+    const text = 'Example config: {"name": "server", "parameters": {"port": 80}}\n```ts\nconst x = 1;\n```';
+    const result = extractToolCallsFromText(text, KNOWN_TOOLS);
+
+    expect(result.toolCalls).toEqual([]);
+    expect(result.visibleText).toBe(text);
+  });
+
+  it('should handle braces inside string values', () => {
+    const text = '{"tool":"createTask","params":{"title":"Fix } and { bugs"}}';
+    expect(extractToolCallsFromText(text, KNOWN_TOOLS).toolCalls)
+      .toEqual([{ tool: 'createTask', params: { title: 'Fix } and { bugs' } }]);
+  });
+
+  it('should refuse oversized input', () => {
+    const text = 'a'.repeat(60 * 1024);
+    expect(extractToolCallsFromText(text, KNOWN_TOOLS).toolCalls).toEqual([]);
+  });
+});
+
+describe('ToolCallStreamFilter', () => {
+  function run(deltas: string[]): string {
+    const filter = new ToolCallStreamFilter(KNOWN_TOOLS);
+    return deltas.map(d => filter.push(d)).join('') + filter.flush();
+  }
+
+  it('should pass plain text straight through', () => {
+    const filter = new ToolCallStreamFilter(KNOWN_TOOLS);
+    expect(filter.push('Hello ')).toBe('Hello ');
+    expect(filter.push('there')).toBe('there');
+  });
+
+  it('should hide a fenced tool call split across deltas', () => {
+    expect(run(['On it.\n``', '`json\n{"tool":"listT', 'asks","params":{}}\n`', '``\nDone'])).toBe('On it.\n\nDone');
+  });
+
+  it('should release fenced code that is not a tool call', () => {
+    expect(run(['Try:\n```js\n', 'console.log(1)\n```'])).toBe('Try:\n```js\nconsole.log(1)\n```');
+  });
+
+  it('should suppress everything after <|python_tag|>', () => {
+    expect(run(['Checking<|py', 'thon_tag|>{"name":"getWeather",', '"parameters":{}}'])).toBe('Checking');
+  });
+
+  it('should release an unclosed brace at the end of the stream', () => {
+    expect(run(['Use { to open a block'])).toBe('Use { to open a block');
+  });
+
+  it('should keep inline code backticks', () => {
+    expect(run(['Run `npm test` now'])).toBe('Run `npm test` now');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildRepairPrompt,
+  formatValidationIssues,
+  isValidToolCall,
+  validateToolCall,
+  type InvalidToolCall,
+} from '../../src/agent/toolValidation';
+
+/**
+ * Unit tests for tool call validation before confirmation
+ *
+ * Tests cover:
+ * - Valid calls keep their parsed params
+ * - Structured issues for missing, mistyped and unknown fields
+ * - The repair prompt sent back to the model
+ */
+
+function expectInvalid(checked: ReturnType<typeof validateToolCall>): InvalidToolCall {
+  expect(isValidToolCall(checked)).toBe(false);
+  return checked as InvalidToolCall;
+}
+
+describe('validateToolCall()', () => {
+  it('should accept a valid call', () => {
+    const checked = validateToolCall({ tool: 'createTask', params: { title: 'Buy milk', priority: 'high' } });
+
+    expect(isValidToolCall(checked)).toBe(true);
+    expect(checked).toMatchObject({ params: { title: 'Buy milk', priority: 'high' } });
+  });
+
+  it('should report a missing required field', () => {
+    const checked = expectInvalid(validateToolCall({ tool: 'createTask', params: { priority: 'high' } }));
+
+    expect(checked.issues).toContainEqual({ field: 'title', problem: 'is required but missing' });
+  });
+
+  it('should list the allowed values for an enum', () => {
+    const checked = expectInvalid(validateToolCall({ tool: 'createTask', params: { title: 'Call', priority: 'urgent' } }));
+
+    expect(checked.issues).toEqual([{ field: 'priority', problem: 'must be one of "low", "medium", "high"' }]);
+  });
+
+  it('should pass refinement messages through', () => {
+    const checked = expectInvalid(validateToolCall({ tool: 'createTask', params: { title: 'Call', dueDate: 'tomorrow' } }));
+
+    expect(checked.issues[0].field).toBe('dueDate');
+    expect(checked.issues[0].problem).toContain('ISO 8601');
+  });
+
+  it('should reject unknown tools', () => {
+    const checked = expectInvalid(validateToolCall({ tool: 'orderPizza', params: {} }));
+
+    expect(checked.issues[0].problem).toContain('unknown tool');
+    expect(checked.issues[0].problem).toContain('createTask');
+  });
+});
+
+describe('formatValidationIssues()', () => {
+  it('should prefix each problem with the tool and field', () => {
+    const checked = expectInvalid(validateToolCall({ tool: 'createTask', params: {} }));
+
+    expect(formatValidationIssues(checked)).toBe('createTask.title: is required but missing');
+  });
+});
+
+describe('buildRepairPrompt()', () => {
+  it('should show each rejected call with its problems', () => {
+    const checked = expectInvalid(validateToolCall({ tool: 'createTask', params: { priority: 'urgent' } }));
+
+    const prompt = buildRepairPrompt([checked]);
+
+    expect(prompt).toContain('- createTask with {"priority":"urgent"}');
+    expect(prompt).toContain('  - title: is required but missing');
+    expect(prompt).toContain('  - priority: must be one of');
+    expect(prompt).toContain('ask the user');
+  });
+});
@@ -6,10 +6,13 @@ import type { ToolContext } from '../../src/types/tools';
 import { createTaskTool, listTasksTool, updateTaskTool, completeTaskTool, deleteTaskTool } from '../../src/mcp/tools/TaskTools';
 import { getWeatherTool } from '../../src/mcp/tools/WeatherTool';
 import { sendEmailTool } from '../../src/mcp/tools/EmailTool';
+import { createCalendarEventTool, deleteCalendarEventTool } from '../../src/mcp/tools/NangoCalendarTool';
+import { ALL_TOOLS } from '../../src/mcp/tools/index';
 
 /**
  * Comprehensive MCP Tools Test Suite
  * Tests all 7 tools: 5 task operations + weather + email
+ * Plus the result formatters of every built-in tool
  */
 
 describe('MCP Tools - Task Operations', () => {
@@ -1067,3 +1070,77 @@ describe('MCP Tools - Email Integration', () => {
     });
   });
 });
+
+describe('MCP Tools - Result Formatters', () => {
+  const task = {
+    id: 'task-123',
+    userId: 'test-user-123',
+    title: 'Buy groceries',
+    dueDate: Date.UTC(2026, 1, 20, 17),
+    priority: 'high' as const,
+    completed: false,
+    createdAt: 0,
+  };
+
+  it('should give every built-in tool a formatter and a card', () => {
+    for (const tool of ALL_TOOLS) {
+      expect(tool.formatResult, tool.name).toBeTypeOf('function');
+      expect(tool.renderHint, tool.name).toBeTypeOf('function');
+    }
+  });
+
+  it('should summarize a created task for the LLM and as a card', () => {
+    expect(createTaskTool.formatResult!(task, {})).toBe(
+      '[Task Created] "Buy groceries" (ID: task-123, Priority: high, Due: 2026-02-20T17:00:00.000Z)'
+    );
+    expect(createTaskTool.renderHint!(task, {})).toEqual({
+      kind: 'task',
+      title: 'Buy groceries',
+      subtitle: 'Task created',
+      items: ['Priority: high', 'Due: 2026-02-20T17:00:00.000Z'],
+    });
+  });
+
+  it('should list tasks with their status', () => {
+    const tasks = [task, { ...task, id: 'task-456', title: 'Call mom', completed: true }];
+
+    expect(listTasksTool.formatResult!(tasks, {})).toBe(
+      '[Task List] Found 2 task(s):\n- Buy groceries (pending)\n- Call mom (completed)'
+    );
+    expect(listTasksTool.formatResult!([], {})).toBe('[Task List] No tasks found');
+    expect(listTasksTool.renderHint!(tasks, {}).items).toEqual(['○ Buy groceries', '✓ Call mom']);
+  });
+
+  it('should summarize weather and email results', () => {
+    const weather = {
+      city: 'London', country: 'GB', temperature: 15, feelsLike: 13,
+      humidity: 72, description: 'light rain', windSpeed: 5.2, timestamp: 0,
+    };
+    const email = { messageId: 'msg-1', to: 'recipient@example.com', submittedAt: '2025-01-01T12:00:00Z' };
+
+    expect(getWeatherTool.formatResult!(weather, {})).toContain('London, GB: 15°C (feels like 13°C), light rain');
+    expect(getWeatherTool.renderHint!(weather, {})).toMatchObject({ kind: 'weather', subtitle: 'light rain' });
+    expect(sendEmailTool.formatResult!(email, {})).toContain('sent email to recipient@example.com');
+    expect(sendEmailTool.renderHint!(email, { subject: 'Hello' })).toEqual({
+      kind: 'email', title: 'Hello', subtitle: 'Sent to recipient@example.com',
+    });
+  });
+
+  it('should summarize calendar events instead of dumping JSON', () => {
+    const event = {
+      eventId: 'evt-1',
+      summary: 'Team meeting',
+      startTime: '2026-02-20T17:00:00Z',
+      endTime: '2026-02-20T18:00:00Z',
+      htmlLink: 'https://calendar.google.com/event?eid=evt-1',
+    };
+
+    expect(createCalendarEventTool.formatResult!(event, {})).toBe(
+      '[Calendar Event Created] "Team meeting" from 2026-02-20T17:00:00Z to 2026-02-20T18:00:00Z (ID: evt-1)'
+    );
+    expect(createCalendarEventTool.renderHint!(event, {}).link).toEqual({
+      url: event.htmlLink, label: 'Open in Google Calendar',
+    });
+    expect(deleteCalendarEventTool.formatResult!(undefined, { eventId: 'evt-1' })).toContain('evt-1');
+  });
+});
@@ -5,10 +5,24 @@
 interface Env {
 	ENVIRONMENT: "development";
 	LLM_MODEL: "@cf/meta/llama-3.3-70b-instruct-fp8-fast";
+	LLM_FALLBACK_MODELS: "@cf/meta/llama-3.1-8b-instruct-fast";
 	LLM_MAX_TOKENS: "500";
 	LLM_TEMPERATURE: "0.7";
 	RAG_ENABLED: "true";
 	RAG_TOP_K: "3";
+	RAG_MIN_SCORE: "0.75";
+	RAG_VECTOR_WEIGHT: "1";
+	RAG_KEYWORD_WEIGHT: "1";
+	RAG_RRF_K: "60";
+	RAG_RECENCY_HALF_LIFE_DAYS: "30";
+	RAG_RECENCY_WEIGHT: "0.3";
+	LLM_STREAMING: "true";
+	LLM_NATIVE_TOOLS: "true";
+	AGENT_MAX_ITERATIONS: "5";
+	AGENT_TOKEN_BUDGET: "20000";
+	LLM_PROVIDER: "workers-ai";
+	INTENT_ROUTING: "true";
+	AGENDA_CONTEXT: "true";
 	OPENWEATHER_API_KEY: string;
 	POSTMARK_API_KEY: string;
 	POSTMARK_FROM_EMAIL: string;
@@ -20,4 +34,5 @@ interface Env {
 	VECTORIZE: VectorizeIndex;
 	AI: Ai;
 	TASK_WORKFLOW: Workflow;
+	EMBEDDING_BACKFILL_WORKFLOW: Workflow;
 }